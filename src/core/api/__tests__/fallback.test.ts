@@ -0,0 +1,172 @@
+import { ApiFallbackEvent } from "@shared/api"
+import { expect } from "chai"
+import { describe, it } from "mocha"
+import type { ApiHandler } from "../index"
+import { CircuitBreaker, FallbackApiHandler, getFallbackConfiguration, isProviderUnavailableError } from "../fallback"
+import { ApiStream } from "../transform/stream"
+
+const rateLimited = () => Object.assign(new Error("Rate limit exceeded"), { status: 429 })
+
+// A handler that streams "<id>" as one text chunk, or throws before or after it
+const fakeHandler = (id: string, behavior: { fail?: () => Error; failAfterChunk?: boolean } = {}) => {
+	const handler = {
+		calls: 0,
+		async *createMessage(): ApiStream {
+			handler.calls++
+			if (behavior.fail && !behavior.failAfterChunk) {
+				throw behavior.fail()
+			}
+			yield { type: "text", text: id }
+			if (behavior.fail) {
+				throw behavior.fail()
+			}
+		},
+		getModel: () => ({ id, info: { supportsPromptCache: false } }),
+	}
+	return handler as ApiHandler & { calls: number }
+}
+
+const collect = async (stream: ApiStream) => {
+	const text: string[] = []
+	for await (const chunk of stream) {
+		if (chunk.type === "text") {
+			text.push(chunk.text)
+		}
+	}
+	return text.join("")
+}
+
+const failure = (stream: ApiStream) =>
+	collect(stream).then(
+		() => undefined,
+		(error: Error) => error,
+	)
+
+describe("FallbackApiHandler", () => {
+	it("should move down the chain when a provider is unavailable and report the provider that answered", async () => {
+		const events: ApiFallbackEvent[] = []
+		const handler = new FallbackApiHandler(
+			[
+				{ provider: "anthropic", handler: fakeHandler("claude-sonnet-4-5", { fail: rateLimited }) },
+				{ provider: "bedrock", handler: fakeHandler("anthropic.claude-sonnet-4-5") },
+			],
+			(event) => events.push(event),
+			new Map(),
+		)
+
+		expect(await collect(handler.createMessage("system", []))).to.equal("anthropic.claude-sonnet-4-5")
+		expect(handler.getAnsweringProvider()).to.equal("bedrock")
+		expect(handler.getModel().id).to.equal("anthropic.claude-sonnet-4-5")
+		expect(events).to.deep.equal([
+			{
+				fromProvider: "anthropic",
+				fromModelId: "claude-sonnet-4-5",
+				toProvider: "bedrock",
+				toModelId: "anthropic.claude-sonnet-4-5",
+				reason: "Rate limit exceeded",
+			},
+		])
+	})
+
+	it("should not fall back on request errors or after output has streamed", async () => {
+		const backup = fakeHandler("backup")
+		const badRequest = new FallbackApiHandler(
+			[
+				{
+					provider: "anthropic",
+					handler: fakeHandler("primary", { fail: () => Object.assign(new Error("Invalid tool"), { status: 400 }) }),
+				},
+				{ provider: "openrouter", handler: backup },
+			],
+			undefined,
+			new Map(),
+		)
+		expect((await failure(badRequest.createMessage("system", [])))?.message).to.equal("Invalid tool")
+
+		const midStream = new FallbackApiHandler(
+			[
+				{ provider: "anthropic", handler: fakeHandler("primary", { fail: rateLimited, failAfterChunk: true }) },
+				{ provider: "openrouter", handler: backup },
+			],
+			undefined,
+			new Map(),
+		)
+		expect((await failure(midStream.createMessage("system", [])))?.message).to.equal("Rate limit exceeded")
+		expect(backup.calls).to.equal(0)
+	})
+
+	it("should skip a provider while its circuit is open and retry it after the cooldown", async () => {
+		let now = 0
+		const breakers = new Map([["anthropic", new CircuitBreaker(2, 60_000, () => now)]])
+		const primary = fakeHandler("primary", { fail: rateLimited })
+		const events: ApiFallbackEvent[] = []
+		const handler = new FallbackApiHandler(
+			[
+				{ provider: "anthropic", handler: primary },
+				{ provider: "openrouter", handler: fakeHandler("backup") },
+			],
+			(event) => events.push(event),
+			breakers,
+		)
+
+		await collect(handler.createMessage("system", []))
+		await collect(handler.createMessage("system", []))
+		expect(breakers.get("anthropic")?.state).to.equal("open")
+
+		await collect(handler.createMessage("system", []))
+		expect(primary.calls).to.equal(2)
+
+		now = 60_000
+		expect(breakers.get("anthropic")?.state).to.equal("half-open")
+		await collect(handler.createMessage("system", []))
+		expect(primary.calls).to.equal(3)
+		expect(breakers.get("anthropic")?.state).to.equal("open")
+		expect(events.map((event) => event.reason)).to.include("Trying anthropic again after its cooldown")
+	})
+})
+
+describe("CircuitBreaker", () => {
+	it("should close again after a success", () => {
+		const breaker = new CircuitBreaker(2, 1_000, () => 0)
+		breaker.recordFailure()
+		expect(breaker.state).to.equal("closed")
+		breaker.recordFailure()
+		expect(breaker.canRequest()).to.equal(false)
+		breaker.recordSuccess()
+		expect(breaker.state).to.equal("closed")
+	})
+})
+
+describe("isProviderUnavailableError", () => {
+	it("should treat rate limits, server errors and network failures as unavailability", () => {
+		expect(isProviderUnavailableError({ status: 429 })).to.equal(true)
+		expect(isProviderUnavailableError({ status: 503 })).to.equal(true)
+		expect(isProviderUnavailableError({ $metadata: { httpStatusCode: 500 } })).to.equal(true)
+		expect(isProviderUnavailableError({ cause: { code: "ECONNREFUSED" } })).to.equal(true)
+		expect(isProviderUnavailableError(new Error("Overloaded"))).to.equal(true)
+		expect(isProviderUnavailableError({ status: 401 })).to.equal(false)
+		expect(isProviderUnavailableError(Object.assign(new Error("Request timed out"), { name: "AbortError" }))).to.equal(false)
+	})
+})
+
+describe("getFallbackConfiguration", () => {
+	it("should select the fallback's provider and model in both modes", () => {
+		const config = getFallbackConfiguration(
+			{
+				planModeApiProvider: "anthropic",
+				actModeApiProvider: "anthropic",
+				planModeApiModelId: "claude-sonnet-4-5",
+				apiKey: "key",
+				openRouterApiKey: "router-key",
+				apiFallbackChain: [{ provider: "openrouter", modelId: "anthropic/claude-sonnet-4.5" }],
+			},
+			{ provider: "openrouter", modelId: "anthropic/claude-sonnet-4.5" },
+		)
+
+		expect(config.actModeApiProvider).to.equal("openrouter")
+		expect(config.planModeOpenRouterModelId).to.equal("anthropic/claude-sonnet-4.5")
+		expect(config.actModeOpenRouterModelId).to.equal("anthropic/claude-sonnet-4.5")
+		expect(config.openRouterApiKey).to.equal("router-key")
+		expect(config.apiFallbackChain).to.equal(undefined)
+	})
+})
@@ -0,0 +1,194 @@
+import { checkContextWindowExceededError } from "@core/context/context-management/context-error-handling"
+import { ApiConfiguration, ApiFallbackEvent, ApiFallbackProvider } from "@shared/api"
+import { ClineStorageMessage } from "@/shared/messages/content"
+import { ClineTool } from "@/shared/tools"
+import type { ApiHandler, ApiHandlerModel } from "./index"
+import { ApiStream, ApiStreamUsageChunk } from "./transform/stream"
+import { getProviderModelConfiguration } from "./utils/model-fields"
+
+const NETWORK_ERROR_CODES = ["ECONNREFUSED", "ECONNRESET", "ETIMEDOUT", "ENOTFOUND", "EAI_AGAIN", "EPIPE"]
+
+/**
+ * Tracks failures of one provider. After failureThreshold failures in a row the circuit opens and the provider
+ * is skipped until cooldownMs has passed; then one request is let through, and the circuit closes if it succeeds
+ * or opens again if it fails.
+ */
+export class CircuitBreaker {
+	private failures = 0
+	private openedAt: number | undefined
+
+	constructor(
+		private readonly failureThreshold = 2,
+		private readonly cooldownMs = 60_000,
+		private readonly now: () => number = Date.now,
+	) {}
+
+	get state(): "closed" | "open" | "half-open" {
+		if (this.openedAt === undefined) {
+			return "closed"
+		}
+		return this.now() - this.openedAt >= this.cooldownMs ? "half-open" : "open"
+	}
+
+	canRequest(): boolean {
+		return this.state !== "open"
+	}
+
+	recordSuccess(): void {
+		this.failures = 0
+		this.openedAt = undefined
+	}
+
+	recordFailure(): void {
+		this.failures++
+		if (this.openedAt !== undefined || this.failures >= this.failureThreshold) {
+			this.openedAt = this.now()
+		}
+	}
+}
+
+// Shared by every handler, so a provider that fails in one task is skipped in the others too
+const circuitBreakers = new Map<string, CircuitBreaker>()
+
+interface FallbackEntry {
+	provider: string
+	handler: ApiHandler
+}
+
+/**
+ * Whether an error means the provider can't serve requests right now (rate limits, overload, outages and network
+ * failures), as opposed to a problem with the request itself that another provider would hit too
+ */
+export function isProviderUnavailableError(error: any): boolean {
+	if (error?.name === "AbortError" || checkContextWindowExceededError(error)) {
+		return false
+	}
+
+	const status = error?.status ?? error?.statusCode ?? error?.response?.status ?? error?.$metadata?.httpStatusCode
+	if (typeof status === "number") {
+		return status === 408 || status === 429 || status >= 500
+	}
+
+	if (NETWORK_ERROR_CODES.includes(error?.code) || NETWORK_ERROR_CODES.includes(error?.cause?.code)) {
+		return true
+	}
+	return /overloaded|rate.?limit|fetch failed|network error|socket hang up|timed? ?out/i.test(String(error?.message ?? ""))
+}
+
+/**
+ * The configuration for a fallback provider: the same settings and credentials, with the fallback's provider and
+ * model in both modes. Model info saved for the primary model doesn't describe the fallback's, so it's dropped.
+ */
+export function getFallbackConfiguration(configuration: ApiConfiguration, fallback: ApiFallbackProvider): ApiConfiguration {
+	return {
+		...getProviderModelConfiguration(configuration, fallback.provider, fallback.modelId),
+		apiFallbackChain: undefined,
+	}
+}
+
+/**
+ * Wraps the handler for the selected provider with handlers for the providers in its fallback chain. A request goes
+ * to the first provider whose circuit isn't open, and moves down the chain when a provider is unavailable before it
+ * has streamed anything. The model and usage reported are those of the provider that answered.
+ */
+export class FallbackApiHandler implements ApiHandler {
+	private answering: FallbackEntry
+	private current: FallbackEntry | undefined
+
+	constructor(
+		private readonly entries: FallbackEntry[],
+		private readonly onFallback?: (event: ApiFallbackEvent) => void,
+		private readonly breakers: Map<string, CircuitBreaker> = circuitBreakers,
+	) {
+		this.answering = entries[0]
+	}
+
+	async *createMessage(
+		systemPrompt: string,
+		messages: ClineStorageMessage[],
+		tools?: ClineTool[],
+		useResponseApi?: boolean,
+	): ApiStream {
+		const available = this.entries.filter((entry) => this.getBreaker(entry.provider).canRequest())
+		// With every circuit open, trying the chain beats failing without a request
+		const candidates = available.length > 0 ? available : this.entries
+
+		if (candidates[0] !== this.answering) {
+			const reason =
+				this.entries.indexOf(candidates[0]) < this.entries.indexOf(this.answering)
+					? `Trying ${candidates[0].provider} again after its cooldown`
+					: `${this.answering.provider} is unavailable after repeated failures`
+			this.notify(this.answering, candidates[0], reason)
+		}
+
+		for (let i = 0; i < candidates.length; i++) {
+			const entry = candidates[i]
+			const breaker = this.getBreaker(entry.provider)
+			this.current = entry
+			let started = false
+			try {
+				for await (const chunk of entry.handler.createMessage(systemPrompt, messages, tools, useResponseApi)) {
+					if (!started) {
+						started = true
+						this.answering = entry
+					}
+					yield chunk
+				}
+				breaker.recordSuccess()
+				return
+			} catch (error) {
+				if (!isProviderUnavailableError(error)) {
+					throw error
+				}
+				breaker.recordFailure()
+				// Switching after output has streamed would repeat it, and there's nothing left to switch to at the end
+				if (started || i === candidates.length - 1) {
+					throw error
+				}
+				this.notify(entry, candidates[i + 1], error instanceof Error ? error.message : String(error))
+			}
+		}
+	}
+
+	getModel(): ApiHandlerModel {
+		return this.answering.handler.getModel()
+	}
+
+	/**
+	 * The provider that answered the latest request
+	 */
+	getAnsweringProvider(): string {
+		return this.answering.provider
+	}
+
+	async getApiStreamUsage(): Promise<ApiStreamUsageChunk | undefined> {
+		return this.answering.handler.getApiStreamUsage?.()
+	}
+
+	abort(): void {
+		this.current?.handler.abort?.()
+	}
+
+	private getBreaker(provider: string): CircuitBreaker {
+		let breaker = this.breakers.get(provider)
+		if (!breaker) {
+			breaker = new CircuitBreaker()
+			this.breakers.set(provider, breaker)
+		}
+		return breaker
+	}
+
+	private notify(from: FallbackEntry, to: FallbackEntry, reason: string): void {
+		try {
+			this.onFallback?.({
+				fromProvider: from.provider,
+				fromModelId: from.handler.getModel().id,
+				toProvider: to.provider,
+				toModelId: to.handler.getModel().id,
+				reason,
+			})
+		} catch (e) {
+			console.error("Error in onProviderFallback callback:", e)
+		}
+	}
+}
@@ -42,6 +42,7 @@ import { VertexHandler } from "./providers/vertex"
 import { VsCodeLmHandler } from "./providers/vscode-lm"
 import { XAIHandler } from "./providers/xai"
 import { ZAiHandler } from "./providers/zai"
+import { FallbackApiHandler, getFallbackConfiguration } from "./fallback"
 import { ApiStream, ApiStreamUsageChunk } from "./transform/stream"
 
 export type CommonApiHandlerOptions = {
@@ -443,6 +444,33 @@ function createHandlerForProvider(
 }
 
 export function buildApiHandler(configuration: ApiConfiguration, mode: Mode): ApiHandler {
+	const handler = buildProviderApiHandler(configuration, mode)
+	const fallbackChain = configuration.apiFallbackChain ?? []
+	if (fallbackChain.length === 0) {
+		return handler
+	}
+
+	const primaryProvider = (mode === "plan" ? configuration.planModeApiProvider : configuration.actModeApiProvider) ?? ""
+	const entries = [{ provider: primaryProvider, handler }]
+	for (const fallback of fallbackChain) {
+		// Entries still being filled in have no model, and the primary can't be its own fallback
+		if (!fallback.modelId || (fallback.provider === primaryProvider && fallback.modelId === handler.getModel().id)) {
+			continue
+		}
+		try {
+			entries.push({
+				provider: fallback.provider,
+				handler: buildProviderApiHandler(getFallbackConfiguration(configuration, fallback), mode),
+			})
+		} catch (error) {
+			console.error(`Skipping fallback provider ${fallback.provider}:`, error)
+		}
+	}
+
+	return entries.length > 1 ? new FallbackApiHandler(entries, configuration.onProviderFallback) : handler
+}
+
+function buildProviderApiHandler(configuration: ApiConfiguration, mode: Mode): ApiHandler {
 	const { planModeApiProvider, actModeApiProvider, ...options } = configuration
 
 	const apiProvider = mode === "plan" ? planModeApiProvider : actModeApiProvider
@@ -0,0 +1,32 @@
+import { ModelInfo } from "@shared/api"
+import { ClineApiReqInfo } from "@shared/ExtensionMessage"
+import { calculateApiCostAnthropic } from "@/utils/cost"
+import { ApiStreamUsageChunk } from "./transform/stream"
+
+/**
+ * Totals the usage chunks of one request as the fields counted in the task's API metrics. The cost is the one the
+ * provider reported, or else priced from the model's info.
+ */
+export function getUsageApiReqInfo(chunks: ApiStreamUsageChunk[], modelInfo: ModelInfo, request?: string): ClineApiReqInfo {
+	let tokensIn = 0
+	let tokensOut = 0
+	let cacheWrites = 0
+	let cacheReads = 0
+	let reportedCost: number | undefined
+	for (const chunk of chunks) {
+		tokensIn += chunk.inputTokens
+		tokensOut += chunk.outputTokens
+		cacheWrites += chunk.cacheWriteTokens ?? 0
+		cacheReads += chunk.cacheReadTokens ?? 0
+		reportedCost = chunk.totalCost ?? reportedCost
+	}
+
+	return {
+		request,
+		tokensIn,
+		tokensOut,
+		cacheWrites,
+		cacheReads,
+		cost: reportedCost ?? calculateApiCostAnthropic(modelInfo, tokensIn, tokensOut, cacheWrites, cacheReads),
+	}
+}
@@ -0,0 +1,45 @@
+import { ApiConfiguration, ApiProvider } from "@shared/api"
+
+// Config field suffix holding each provider's model id (planMode<Suffix>ModelId / actMode<Suffix>ModelId)
+// Providers not listed read planModeApiModelId / actModeApiModelId
+const MODEL_ID_FIELDS: Partial<Record<ApiProvider, string>> = {
+	openrouter: "OpenRouter",
+	cline: "OpenRouter",
+	"vercel-ai-gateway": "OpenRouter",
+	openai: "OpenAi",
+	ollama: "Ollama",
+	lmstudio: "LmStudio",
+	requesty: "Requesty",
+	fireworks: "Fireworks",
+	together: "Together",
+	litellm: "LiteLlm",
+	huggingface: "HuggingFace",
+	groq: "Groq",
+	baseten: "Baseten",
+	"huawei-cloud-maas": "HuaweiCloudMaas",
+	oca: "Oca",
+	aihubmix: "Aihubmix",
+	hicap: "Hicap",
+	nousResearch: "NousResearch",
+}
+
+/**
+ * The configuration with a provider and model selected in both modes, set in the model id fields that provider
+ * reads. Model info saved for the previously selected model doesn't describe the new one, so it's dropped.
+ */
+export function getProviderModelConfiguration(
+	configuration: ApiConfiguration,
+	provider: ApiProvider | undefined,
+	modelId: string,
+): ApiConfiguration {
+	const suffix = (provider && MODEL_ID_FIELDS[provider]) ?? "Api"
+	return {
+		...configuration,
+		planModeApiProvider: provider,
+		actModeApiProvider: provider,
+		[`planMode${suffix}ModelId`]: modelId,
+		[`actMode${suffix}ModelId`]: modelId,
+		[`planMode${suffix}ModelInfo`]: undefined,
+		[`actMode${suffix}ModelInfo`]: undefined,
+	}
+}
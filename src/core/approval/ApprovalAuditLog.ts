@@ -0,0 +1,50 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ApprovalAuditEntry } from "../../shared/architect-types";
+
+export const APPROVAL_AUDIT_FILE = path.join(".cline", "approval-audit.jsonl");
+
+// Tool context can include whole file contents; the log only needs enough to identify the call
+const MAX_CONTEXT_LENGTH = 500;
+
+/**
+ * Append-only JSONL record of every ApprovalOracle decision.
+ * Entries are never rewritten, so the file can be shipped to an external audit system as-is.
+ */
+export class ApprovalAuditLog {
+  private filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(workspaceRoot: string, filePath: string = APPROVAL_AUDIT_FILE) {
+    this.filePath = path.resolve(workspaceRoot, filePath);
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  record(entry: Omit<ApprovalAuditEntry, "timestamp">): Promise<void> {
+    const line: ApprovalAuditEntry = {
+      timestamp: new Date().toISOString(),
+      ...entry,
+      request: {
+        ...entry.request,
+        context:
+          entry.request.context.length > MAX_CONTEXT_LENGTH
+            ? `${entry.request.context.slice(0, MAX_CONTEXT_LENGTH)}...`
+            : entry.request.context,
+      },
+    };
+
+    // Serialize writes so concurrent decisions cannot interleave partial lines
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.appendFile(this.filePath, JSON.stringify(line) + "\n", "utf-8");
+      })
+      .catch((e) => {
+        console.error(`Failed to write approval audit log ${this.filePath}:`, e);
+      });
+    return this.writeQueue;
+  }
+}
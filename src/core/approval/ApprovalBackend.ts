@@ -0,0 +1,144 @@
+import { ApiConfiguration } from "@shared/api";
+import { z } from "zod";
+import { ApiHandler, buildApiHandler } from "../api";
+import { ApprovalRequest, ApprovalDecision, ApprovalOracleConfig } from "../../shared/architect-types";
+
+/**
+ * Decides requests that fall through the oracle's fast-path patterns.
+ */
+export interface ApprovalBackend {
+  readonly name: string;
+  decide(request: ApprovalRequest, pattern: string): Promise<ApprovalDecision>;
+}
+
+const ORACLE_SYSTEM_PROMPT = `You approve/deny actions for an autonomous coding agent.
+
+Principles:
+- Optimize for efficiency. Prefer "always" for recurring safe patterns.
+- Use "once" for sensitive or one-off actions.
+- Deny genuinely dangerous actions: credential access, system modification, data exfiltration.
+- When uncertain, allow with "once".
+- Be concise.
+
+Respond ONLY with valid JSON, no markdown:
+{"allow":true,"persist":"always","reasoning":"brief reason"}`;
+
+// A missing decision fails the call; an unknown scope or reason falls back rather than failing
+const ApprovalResponseSchema = z.object({
+  allow: z.boolean(),
+  persist: z.enum(["once", "session", "always"]).catch("once"),
+  reasoning: z.string().catch("No reason provided"),
+});
+
+/**
+ * Asks a model through any provider's ApiHandler.
+ */
+export class ModelApprovalBackend implements ApprovalBackend {
+  readonly name: string;
+
+  constructor(private handler: ApiHandler) {
+    this.name = `model:${handler.getModel().id}`;
+  }
+
+  async decide(request: ApprovalRequest, pattern: string): Promise<ApprovalDecision> {
+    const stream = this.handler.createMessage(ORACLE_SYSTEM_PROMPT, [
+      {
+        role: "user",
+        content: `Action: ${request.action}
+Target: ${request.target}
+Context: ${request.context}
+Generalized pattern: ${pattern}
+
+Decide.`,
+      },
+    ]);
+
+    let text = "";
+    for await (const chunk of stream) {
+      if (chunk.type === "text") {
+        text += chunk.text;
+      }
+    }
+
+    return this.parseResponse(text);
+  }
+
+  private parseResponse(text: string): ApprovalDecision {
+    const clean = text.replace(/```json\n?|\n?```/g, "").trim();
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(clean);
+    } catch {
+      throw new Error(`Unparseable approval response: ${clean.slice(0, 200)}`);
+    }
+
+    // Validate structure; a missing decision is treated like any other backend failure
+    const result = ApprovalResponseSchema.safeParse(parsed);
+    if (!result.success) {
+      throw new Error("Approval response is missing the allow field");
+    }
+
+    const { allow, persist, reasoning } = result.data;
+    return { allow, persist, reasoning };
+  }
+}
+
+/**
+ * Deterministic backend for offline use: never leaves the machine.
+ * Reads are allowed, anything else the fast paths did not recognise is denied.
+ */
+export class RuleOnlyApprovalBackend implements ApprovalBackend {
+  readonly name = "rules";
+
+  async decide(request: ApprovalRequest): Promise<ApprovalDecision> {
+    if (request.action === "read") {
+      return { allow: true, persist: "once", reasoning: "Read access (rule-only backend)" };
+    }
+    return {
+      allow: false,
+      persist: "once",
+      reasoning: `No rule matches this ${request.action} (rule-only backend)`,
+    };
+  }
+}
+
+/**
+ * Build the backend described by the oracle config.
+ *
+ * A configured provider/model pair gets its own handler from buildApiHandler;
+ * otherwise the caller's handler (e.g. the architect's) is reused.
+ */
+export function createApprovalBackend(
+  config: Partial<ApprovalOracleConfig>,
+  apiConfig?: ApiConfiguration,
+  defaultHandler?: ApiHandler
+): ApprovalBackend {
+  if (config.backend === "rules") {
+    return new RuleOnlyApprovalBackend();
+  }
+
+  if (apiConfig && (config.provider || config.model)) {
+    const oracleApiConfig: ApiConfiguration = {
+      ...apiConfig,
+      ...(config.provider && {
+        planModeApiProvider: config.provider,
+        actModeApiProvider: config.provider,
+      }),
+      ...(config.model && {
+        planModeApiModelId: config.model,
+        actModeApiModelId: config.model,
+      }),
+      // Approval calls are short; extended thinking only adds latency
+      planModeThinkingBudgetTokens: undefined,
+      actModeThinkingBudgetTokens: undefined,
+    };
+    return new ModelApprovalBackend(buildApiHandler(oracleApiConfig, "act"));
+  }
+
+  if (defaultHandler) {
+    return new ModelApprovalBackend(defaultHandler);
+  }
+
+  // No provider available: stay deterministic rather than failing every call
+  return new RuleOnlyApprovalBackend();
+}
@@ -1,12 +1,36 @@
-import Anthropic from "@anthropic-ai/sdk";
-import { ApprovalRequest, ApprovalDecision, ApprovalOracleConfig } from "../../shared/architect-types";
+import {
+  ApprovalRequest,
+  ApprovalDecision,
+  ApprovalDecisionPath,
+  ApprovalOracleConfig,
+} from "../../shared/architect-types";
+import { ApprovalAuditLog } from "./ApprovalAuditLog";
+import { ApprovalBackend } from "./ApprovalBackend";
+import { ApprovalRuleStore } from "./ApprovalRuleStore";
+import { ParsedShellCommand, parseShellCommand, SimpleCommand } from "./CommandParser";
+
+export interface ApprovalOutcome {
+  decision: ApprovalDecision;
+  path: ApprovalDecisionPath;
+  matchedRule?: string;
+  error?: string;
+}
+
+interface ParsedCommand {
+  parsed: ParsedShellCommand;
+  /** Every simple command, including those behind wrappers and in sh -c scripts */
+  commands: SimpleCommand[];
+  /** Every pipeline, including those in sh -c scripts */
+  pipelines: SimpleCommand[][];
+}
 
 export class ApprovalOracle {
-  private client: Anthropic;
-  private persistedRules: Map<string, boolean> = new Map();
+  private backend: ApprovalBackend;
+  private rules: ApprovalRuleStore;
+  private auditLog: ApprovalAuditLog | null;
   private config: ApprovalOracleConfig;
 
-  // Fast-path patterns - no Opus call needed
+  // Fast-path patterns - no backend call needed
   private readonly INSTANT_ALLOW: RegExp[] = [
     /^read:/,
     /^write:.*\.(ts|js|tsx|jsx|py|rb|go|rs|java|kt|swift|c|cpp|h|hpp|md|json|yaml|yml|toml|css|scss|less|html|xml|sql|sh|bash|zsh|fish|ps1|dockerfile|makefile|txt|csv|env\.example)$/i,
@@ -196,6 +220,11 @@ export class ApprovalOracle {
     /^execute:scp .* .*@.*:/,
     /^execute:rsync .* .*@.*:/,
 
+    // Approval rules: a write would let the agent grant itself rules, which are hot-reloaded
+    /^(write|delete):(.*\/)?\.cline\/approval-rules\.yaml$/i,
+    // Approval audit log: append-only, so the agent must not rewrite or truncate it
+    /^(write|delete):(.*\/)?\.cline\/approval-audit\.jsonl$/i,
+
     // Crypto/wallet
     /^write:.*wallet/i,
     /^write:.*\.key$/,
@@ -203,8 +232,56 @@ export class ApprovalOracle {
     /^write:.*private.*key/i,
   ];
 
-  constructor(apiKey: string, config?: Partial<ApprovalOracleConfig>) {
-    this.client = new Anthropic({ apiKey });
+  // Flags (or arguments) that turn an otherwise safe command into a destructive one.
+  // A command part that uses one skips the fast path and goes to the backend.
+  private readonly RISKY_FLAGS: Array<{ command: string[]; flags: string[]; args?: RegExp }> = [
+    {
+      command: ["git", "push"],
+      flags: ["--force", "-f", "--force-with-lease", "--force-if-includes", "--mirror", "--delete", "-d", "--prune"],
+      // +refspec forces a single ref
+      args: /^\+/,
+    },
+    { command: ["git", "reset"], flags: ["--hard", "--merge", "--keep"] },
+    { command: ["git", "clean"], flags: ["--force", "-f", "-x", "-X"] },
+    { command: ["git", "checkout"], flags: ["--force", "-f", "-B"], args: /^(\.|--)$/ },
+    { command: ["git", "branch"], flags: ["--delete", "-d", "-D", "--force", "-f", "-M"] },
+    { command: ["git", "tag"], flags: ["--delete", "-d", "--force", "-f"] },
+    { command: ["git", "stash"], flags: [], args: /^(drop|clear)$/ },
+    { command: ["git", "remote"], flags: [], args: /^(remove|rm|set-url)$/ },
+    { command: ["git", "commit"], flags: ["--amend", "--no-verify"] },
+    { command: ["git", "rebase"], flags: ["--root"] },
+    { command: ["npm"], flags: ["--global", "-g", "--force", "-f"] },
+    { command: ["pnpm"], flags: ["--global", "-g"] },
+    { command: ["yarn"], flags: [], args: /^global$/ },
+    { command: ["docker", "run"], flags: ["--privileged", "--pid", "--cap-add", "--userns"] },
+    { command: ["kubectl", "delete"], flags: ["--all", "--all-namespaces", "-A"] },
+    { command: ["terraform", "apply"], flags: ["-auto-approve", "--auto-approve"] },
+    { command: ["terraform", "destroy"], flags: ["-auto-approve", "--auto-approve"] },
+    { command: ["find"], flags: ["-delete", "-exec", "-execdir", "-ok", "-okdir"] },
+  ];
+
+  // Commands that run the rest of their arguments as another command
+  private readonly WRAPPER_COMMANDS = new Set([
+    "xargs", "time", "env", "nohup", "nice", "timeout", "watch", "exec", "command",
+  ]);
+  private readonly SHELL_INTERPRETERS = new Set(["sh", "bash", "zsh", "dash", "ksh", "fish"]);
+  private readonly SCRIPT_INTERPRETERS = new Set([
+    ...this.SHELL_INTERPRETERS,
+    "python", "python3", "perl", "ruby", "node", "php", "pwsh", "powershell", "source", ".",
+  ]);
+  private readonly DOWNLOADERS = new Set(["curl", "wget"]);
+  private readonly NETWORK_SINKS = new Set(["curl", "nc", "netcat", "ncat"]);
+  private readonly SAFE_REDIRECT_TARGET = /^(\/dev\/(null|stdout|stderr|tty)|&?\d+|-)$/;
+
+  constructor(
+    backend: ApprovalBackend,
+    config?: Partial<ApprovalOracleConfig>,
+    rules?: ApprovalRuleStore,
+    auditLog?: ApprovalAuditLog
+  ) {
+    this.backend = backend;
+    this.rules = rules ?? new ApprovalRuleStore();
+    this.auditLog = auditLog ?? null;
     this.config = {
       enabled: true,
       showRoutineApprovals: false,
@@ -227,87 +304,369 @@ export class ApprovalOracle {
   }
 
   async decide(request: ApprovalRequest): Promise<ApprovalDecision> {
+    return (await this.decideWithOutcome(request)).decision;
+  }
+
+  /**
+   * Like decide(), but also reports which path produced the decision (e.g. to hide routine approvals in the UI)
+   */
+  async decideWithOutcome(request: ApprovalRequest): Promise<ApprovalOutcome> {
     const pattern = this.extractPattern(request);
+    const outcome = await this.evaluate(request, pattern);
+
+    if (this.auditLog) {
+      await this.auditLog.record({
+        request: {
+          action: request.action,
+          target: request.target,
+          context: request.context,
+        },
+        pattern,
+        path: outcome.path,
+        matchedRule: outcome.matchedRule,
+        backend:
+          outcome.path === "backend" || outcome.path === "failure"
+            ? this.backend.name
+            : undefined,
+        decision: outcome.decision,
+        error: outcome.error,
+      });
+    }
+
+    return outcome;
+  }
+
+  private async evaluate(
+    request: ApprovalRequest,
+    pattern: string
+  ): Promise<ApprovalOutcome> {
     // Normalize path separators for consistent matching
     const normalizedTarget = request.target.replace(/\\/g, "/");
     const literal = `${request.action}:${normalizedTarget}`;
 
-    // Check persisted rules first
-    if (this.persistedRules.has(pattern)) {
+    // Blocked targets, command parts and pipelines are denied before any learned rule can allow
+    // them, since a rule generalized from another target (e.g. write:/p/src/*.ts) may cover them
+    const command = request.action === "execute" ? this.parseCommand(request.target) : undefined;
+    const denied = command
+      ? this.denyCommand(request.target, command, pattern)
+      : this.denyTarget(literal);
+    if (denied) {
+      return denied;
+    }
+
+    // Check learned rules first
+    const rule = this.rules.match(pattern);
+    if (rule) {
       return {
-        allow: this.persistedRules.get(pattern)!,
-        persist: "always",
-        reasoning: "Cached rule",
+        decision: {
+          allow: rule.allow,
+          persist: rule.scope,
+          reasoning: `Cached rule: ${rule.reasoning}`,
+        },
+        path: "cache",
+        matchedRule: rule.pattern,
       };
     }
 
-    // Fast-path deny (check first for security)
-    if (this.INSTANT_DENY.some((re) => re.test(literal))) {
-      this.persistedRules.set(pattern, false);
-      return { allow: false, persist: "always", reasoning: "Blocked pattern" };
+    if (command) {
+      const outcome = this.allowCommand(command, pattern);
+      return outcome ?? this.askBackend(request, pattern);
     }
 
     // Fast-path allow
-    if (this.INSTANT_ALLOW.some((re) => re.test(literal))) {
-      this.persistedRules.set(pattern, true);
-      return { allow: true, persist: "always", reasoning: "Safe pattern" };
+    const allowMatch = this.INSTANT_ALLOW.find((re) => re.test(literal));
+    if (allowMatch) {
+      this.rules.set(pattern, true, "session", "Safe pattern", "pattern");
+      return {
+        decision: { allow: true, persist: "always", reasoning: "Safe pattern" },
+        path: "allow_pattern",
+        matchedRule: allowMatch.source,
+      };
+    }
+
+    // Backend decides ambiguous cases
+    return this.askBackend(request, pattern);
+  }
+
+  /**
+   * Deny a non-command request whose literal target matches a blocked pattern. Returns null when none does.
+   */
+  private denyTarget(literal: string): ApprovalOutcome | null {
+    const denyMatch = this.INSTANT_DENY.find((re) => re.test(literal));
+    if (!denyMatch) {
+      return null;
     }
 
-    // Opus decides ambiguous cases
-    return this.askOpus(request, pattern);
+    // Not cached: the pattern generalizes the target (e.g. write:/p/src/*.ts), so a cached deny for
+    // one blocked file would also deny its harmless neighbours, and this check runs first anyway
+    return {
+      decision: { allow: false, persist: "always", reasoning: "Blocked pattern" },
+      path: "deny_pattern",
+      matchedRule: denyMatch.source,
+    };
+  }
+
+  private parseCommand(command: string): ParsedCommand {
+    const parsed = parseShellCommand(command);
+    const pipelines = [...parsed.pipelines];
+    return { parsed, commands: this.expandCommands(parsed.commands, 0, pipelines), pipelines };
   }
 
-  private async askOpus(
+  /**
+   * Deny a shell command if any part of it is blocked. Returns null when no part is.
+   *
+   * Every simple command (pipeline stages, && / ; chains, subshells, substitutions) and every
+   * output redirection is checked on its own, and one denied part denies the whole command.
+   */
+  private denyCommand(command: string, { commands, pipelines }: ParsedCommand, pattern: string): ApprovalOutcome | null {
+    const literal = `execute:${command}`;
+    const deny = (reasoning: string, matchedRule: string): ApprovalOutcome => {
+      this.rules.set(pattern, false, "session", reasoning, "pattern");
+      return {
+        decision: { allow: false, persist: "always", reasoning },
+        path: "deny_pattern",
+        matchedRule,
+      };
+    };
+
+    // The whole line first, so patterns that span a pipeline still apply
+    const lineDeny = this.INSTANT_DENY.find((re) => re.test(literal));
+    if (lineDeny) {
+      return deny("Blocked pattern", lineDeny.source);
+    }
+
+    for (const cmd of commands) {
+      const partLiteral = `execute:${cmd.argv.join(" ")}`;
+      const partDeny = this.INSTANT_DENY.find((re) => re.test(partLiteral));
+      if (partDeny) {
+        return deny(`Blocked pattern in "${cmd.argv.join(" ")}"`, partDeny.source);
+      }
+      for (const target of this.outputTargets(cmd)) {
+        const writeDeny = this.INSTANT_DENY.find((re) => re.test(`write:${target}`));
+        if (writeDeny) {
+          return deny(`Blocked redirection to ${target}`, writeDeny.source);
+        }
+      }
+      if (this.runsDownloadedScript(cmd)) {
+        return deny("Downloaded content passed to an interpreter", "substitution:interpreter(download)");
+      }
+    }
+
+    for (const pipeline of pipelines) {
+      const names = pipeline.map((cmd) => this.commandName(cmd));
+      const downloadAt = names.findIndex((name) => this.DOWNLOADERS.has(name));
+      if (
+        downloadAt !== -1 &&
+        names.slice(downloadAt + 1).some((name) => this.SCRIPT_INTERPRETERS.has(name))
+      ) {
+        return deny("Downloaded content piped into an interpreter", "pipeline:download|interpreter");
+      }
+      if (names.slice(1).some((name) => this.NETWORK_SINKS.has(name))) {
+        return deny("Output piped to a network tool", "pipeline:*|network");
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Fast-path allow a shell command that passed denyCommand. Returns null when the backend has to decide.
+   *
+   * The command is only allowed when every part is allowed and no risky flag is used.
+   */
+  private allowCommand({ parsed, commands }: ParsedCommand, pattern: string): ApprovalOutcome | null {
+    // Anything we could not fully understand goes to the backend
+    if (parsed.error || commands.length === 0) {
+      return null;
+    }
+
+    const matched: string[] = [];
+    for (const cmd of commands) {
+      const partLiteral = `execute:${cmd.argv.join(" ")}`;
+      const allowMatch = this.INSTANT_ALLOW.find((re) => re.test(partLiteral));
+      if (!allowMatch || this.hasRiskyFlag(cmd.argv)) {
+        return null;
+      }
+      matched.push(allowMatch.source);
+
+      for (const target of this.outputTargets(cmd)) {
+        if (this.SAFE_REDIRECT_TARGET.test(target)) continue;
+        const writeAllow = this.INSTANT_ALLOW.find((re) => re.test(`write:${target}`));
+        if (!writeAllow) {
+          return null;
+        }
+        matched.push(writeAllow.source);
+      }
+    }
+
+    this.rules.set(pattern, true, "session", "Safe pattern", "pattern");
+    return {
+      decision: { allow: true, persist: "always", reasoning: "Safe pattern" },
+      path: "allow_pattern",
+      matchedRule: Array.from(new Set(matched)).join(" && "),
+    };
+  }
+
+  /**
+   * Whether an interpreter is handed a downloader's output through a substitution, as in
+   * `bash <(curl x)`, `sh -c "$(curl x)"` or `python < <(wget -O- x)`
+   */
+  private runsDownloadedScript(cmd: SimpleCommand): boolean {
+    if (!this.SCRIPT_INTERPRETERS.has(this.commandName(cmd))) {
+      return false;
+    }
+    // Substitutions are kept verbatim in the words, so their commands can be parsed again
+    const words = [...cmd.argv.slice(1), ...cmd.redirections.map((r) => r.target)];
+    return words
+      .filter((word) => /\$\(|<\(|`/.test(word))
+      .some((word) =>
+        parseShellCommand(word).commands.some((inner) => this.DOWNLOADERS.has(this.commandName(inner)))
+      );
+  }
+
+  /**
+   * Add the commands hidden behind wrappers (xargs, env, timeout, ...) and `sh -c` scripts,
+   * collecting the scripts' pipelines as well
+   */
+  private expandCommands(
+    commands: SimpleCommand[],
+    depth: number,
+    pipelines: SimpleCommand[][]
+  ): SimpleCommand[] {
+    const expanded: SimpleCommand[] = [];
+    for (const cmd of commands) {
+      expanded.push(cmd);
+      if (depth >= 3) continue;
+
+      const name = this.commandName(cmd);
+      if (this.WRAPPER_COMMANDS.has(name)) {
+        const inner = this.unwrap(cmd.argv);
+        if (inner.length > 0) {
+          expanded.push(
+            ...this.expandCommands(
+              [{ argv: inner, assignments: [], redirections: [] }],
+              depth + 1,
+              pipelines
+            )
+          );
+        }
+      } else if (this.SHELL_INTERPRETERS.has(name)) {
+        const scriptIndex = cmd.argv.indexOf("-c") + 1;
+        if (scriptIndex > 0 && cmd.argv[scriptIndex]) {
+          const script = parseShellCommand(cmd.argv[scriptIndex]);
+          pipelines.push(...script.pipelines);
+          expanded.push(...this.expandCommands(script.commands, depth + 1, pipelines));
+        }
+      }
+    }
+    return expanded;
+  }
+
+  private unwrap(argv: string[]): string[] {
+    let i = 1;
+    // Skip the wrapper's own options, env assignments and timeout durations
+    while (
+      i < argv.length &&
+      (argv[i].startsWith("-") ||
+        /^[A-Za-z_][A-Za-z0-9_]*=/.test(argv[i]) ||
+        (argv[0] === "timeout" && /^\d/.test(argv[i])))
+    ) {
+      i++;
+    }
+    return argv.slice(i);
+  }
+
+  private commandName(cmd: SimpleCommand): string {
+    // /usr/bin/curl and curl are the same tool
+    const first = cmd.argv[0] ?? "";
+    return first.replace(/\\/g, "/").split("/").pop()!.replace(/\.exe$/i, "");
+  }
+
+  private outputTargets(cmd: SimpleCommand): string[] {
+    return cmd.redirections
+      // fd duplication (2>&1) writes no file
+      .filter((r) => r.operator.includes(">") && !(r.operator.endsWith(">&") && /^(\d+|-)$/.test(r.target)))
+      .map((r) => {
+        const target = r.target.replace(/\\/g, "/");
+        // Anchor relative paths so directory-based patterns (e.g. /.env$) still match
+        return /^(\/|~|[a-zA-Z]:)/.test(target) || this.SAFE_REDIRECT_TARGET.test(target)
+          ? target
+          : `./${target}`;
+      });
+  }
+
+  private hasRiskyFlag(argv: string[]): boolean {
+    return this.RISKY_FLAGS.some(({ command, flags, args }) => {
+      if (command.some((word, i) => argv[i] !== word)) return false;
+
+      return argv.slice(command.length).some((arg) => {
+        if (args?.test(arg)) return true;
+        return flags.some((flag) => {
+          if (flag.startsWith("--") || flag.length > 2) {
+            return arg === flag || arg.startsWith(`${flag}=`);
+          }
+          // Short flags may be combined, e.g. -fu
+          return /^-[A-Za-z]+$/.test(arg) && arg.includes(flag[1]);
+        });
+      });
+    });
+  }
+
+  private async askBackend(
     request: ApprovalRequest,
     pattern: string
-  ): Promise<ApprovalDecision> {
+  ): Promise<ApprovalOutcome> {
     try {
-      const response = await this.client.messages.create({
-        model: "claude-opus-4-5-20251101",
-        max_tokens: 300,
-        system: `You approve/deny actions for an autonomous coding agent.
-
-Principles:
-- Optimize for efficiency. Prefer "always" for recurring safe patterns.
-- Use "once" for sensitive or one-off actions.
-- Deny genuinely dangerous actions: credential access, system modification, data exfiltration.
-- When uncertain, allow with "once".
-- Be concise.
-
-Respond ONLY with valid JSON, no markdown:
-{"allow":true,"persist":"always","reasoning":"brief reason"}`,
-        messages: [
-          {
-            role: "user",
-            content: `Action: ${request.action}
-Target: ${request.target}
-Context: ${request.context}
-Generalized pattern: ${pattern}
-
-Decide.`,
-          },
-        ],
-      });
+      const decision = await this.backend.decide(request, pattern);
 
-      const decision = this.parseResponse(response);
-
-      if (decision.persist === "always") {
-        this.persistedRules.set(pattern, decision.allow);
+      // "once" decisions only cover this request
+      if (decision.persist !== "once") {
+        this.rules.set(pattern, decision.allow, decision.persist, decision.reasoning, "model");
       }
 
-      return decision;
+      return { decision, path: "backend" };
     } catch (error) {
-      // On API error, allow once (fail open for usability)
-      console.error("ApprovalOracle API error:", error);
-      return {
-        allow: true,
-        persist: "once",
-        reasoning: "API error, allowing once",
-      };
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`ApprovalOracle backend error (${this.backend.name}):`, error);
+      return { decision: this.onBackendFailure(), path: "failure", error: message };
+    }
+  }
+
+  /**
+   * Apply the configured failure policy. Failures are never cached.
+   */
+  private onBackendFailure(): ApprovalDecision {
+    switch (this.config.failurePolicy ?? "fail-open") {
+      case "fail-closed":
+        return {
+          allow: false,
+          persist: "once",
+          reasoning: "Backend error, denying (fail-closed)",
+        };
+      case "ask":
+        return {
+          allow: false,
+          persist: "once",
+          reasoning: "Backend error, asking for manual approval",
+          needsUserApproval: true,
+        };
+      default:
+        // Allow once (fail open for usability)
+        return {
+          allow: true,
+          persist: "once",
+          reasoning: "Backend error, allowing once",
+        };
     }
   }
 
   private extractPattern(request: ApprovalRequest): string {
+    // A cached decision for a command covers that exact command only. Generalizing would let an
+    // allowed `cat ./dist/a.js` also allow `cat ./dist/a.js && <anything>`.
+    if (request.action === "execute") {
+      return `execute:${request.target.trim()}`;
+    }
+
     // Generalize specific paths to patterns for caching
     // Normalize path separators first
     const target = request.target
@@ -329,49 +688,30 @@ Decide.`,
     return `${request.action}:${target}`;
   }
 
-  private parseResponse(response: any): ApprovalDecision {
-    const text = response.content[0]?.text || "";
-    try {
-      const clean = text.replace(/```json\n?|\n?```/g, "").trim();
-      const parsed = JSON.parse(clean);
-
-      // Validate structure
-      if (typeof parsed.allow !== "boolean") {
-        throw new Error("Missing allow field");
-      }
-      if (!["once", "session", "always"].includes(parsed.persist)) {
-        parsed.persist = "once";
-      }
-      if (typeof parsed.reasoning !== "string") {
-        parsed.reasoning = "No reason provided";
-      }
+  // Public API for debugging/UI
+  getBackendName(): string {
+    return this.backend.name;
+  }
 
-      return parsed;
-    } catch {
-      return {
-        allow: true,
-        persist: "once",
-        reasoning: "Parse failed, allowing once",
-      };
-    }
+  getRuleStore(): ApprovalRuleStore {
+    return this.rules;
   }
 
-  // Public API for debugging/UI
   getPersistedRules(): Map<string, boolean> {
-    return new Map(this.persistedRules);
+    return new Map(this.rules.list().map((r) => [r.pattern, r.allow]));
   }
 
   clearPersistedRules(): void {
-    this.persistedRules.clear();
+    this.rules.clear();
   }
 
   exportRules(): Record<string, boolean> {
-    return Object.fromEntries(this.persistedRules);
+    return Object.fromEntries(this.getPersistedRules());
   }
 
   importRules(rules: Record<string, boolean>): void {
     for (const [pattern, allow] of Object.entries(rules)) {
-      this.persistedRules.set(pattern, allow);
+      this.rules.set(pattern, allow, "always", "Imported rule", "user");
     }
   }
 }
@@ -0,0 +1,199 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import { ApprovalRule, ApprovalRuleScope } from "../../shared/architect-types";
+
+export const APPROVAL_RULES_FILE = path.join(".cline", "approval-rules.yaml");
+
+interface ApprovalRulesFile {
+  version: number;
+  rules: ApprovalRule[];
+}
+
+/**
+ * Learned approval rules, keyed by generalized pattern (commands are kept exact).
+ *
+ * Scopes:
+ * - once: consumed by the first request that matches it
+ * - session: kept in memory until the extension host restarts
+ * - always: written to .cline/approval-rules.yaml so it can be reviewed and committed
+ */
+export class ApprovalRuleStore {
+  // One store per workspace so session rules are shared by every task in the window
+  private static instances: Map<string, ApprovalRuleStore> = new Map();
+
+  private rules: Map<string, ApprovalRule> = new Map();
+  private filePath: string | null;
+  private loadedMtime = 0;
+
+  constructor(workspaceRoot?: string) {
+    this.filePath = workspaceRoot ? path.join(workspaceRoot, APPROVAL_RULES_FILE) : null;
+    this.reload();
+  }
+
+  static forWorkspace(workspaceRoot: string): ApprovalRuleStore {
+    const key = path.resolve(workspaceRoot);
+    let store = this.instances.get(key);
+    if (!store) {
+      store = new ApprovalRuleStore(key);
+      this.instances.set(key, store);
+    }
+    return store;
+  }
+
+  getFilePath(): string | null {
+    return this.filePath;
+  }
+
+  /**
+   * Find the rule for a pattern, consuming it if it is a once rule
+   */
+  match(pattern: string): ApprovalRule | undefined {
+    this.reloadIfChanged();
+    const rule = this.rules.get(pattern);
+    if (!rule) return undefined;
+
+    if (rule.scope === "once") {
+      this.rules.delete(pattern);
+      this.save();
+    } else {
+      rule.lastUsedAt = new Date().toISOString();
+    }
+    return rule;
+  }
+
+  set(
+    pattern: string,
+    allow: boolean,
+    scope: ApprovalRuleScope,
+    reasoning: string,
+    source: ApprovalRule["source"]
+  ): ApprovalRule {
+    this.reloadIfChanged();
+    const now = new Date().toISOString();
+    const existing = this.rules.get(pattern);
+    const rule: ApprovalRule = {
+      pattern,
+      allow,
+      scope,
+      reasoning,
+      source,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.rules.set(pattern, rule);
+    if (scope !== "session" || (existing && existing.scope !== "session")) {
+      this.save();
+    }
+    return rule;
+  }
+
+  /**
+   * Update a rule from the review panel; omitted fields keep their value
+   */
+  update(
+    pattern: string,
+    changes: Partial<Pick<ApprovalRule, "allow" | "scope" | "reasoning">>
+  ): ApprovalRule | undefined {
+    this.reloadIfChanged();
+    const existing = this.rules.get(pattern);
+    if (!existing) return undefined;
+    return this.set(
+      pattern,
+      changes.allow ?? existing.allow,
+      changes.scope ?? existing.scope,
+      changes.reasoning ?? existing.reasoning,
+      "user"
+    );
+  }
+
+  revoke(pattern: string): boolean {
+    this.reloadIfChanged();
+    const existed = this.rules.delete(pattern);
+    if (existed) {
+      this.save();
+    }
+    return existed;
+  }
+
+  clear(): void {
+    this.rules.clear();
+    this.save();
+  }
+
+  list(): ApprovalRule[] {
+    this.reloadIfChanged();
+    return Array.from(this.rules.values()).sort((a, b) => a.pattern.localeCompare(b.pattern));
+  }
+
+  /**
+   * Re-read the file, keeping in-memory session rules
+   */
+  reload(): void {
+    const sessionRules = Array.from(this.rules.values()).filter((r) => r.scope === "session");
+    this.rules.clear();
+
+    for (const rule of this.readFile()) {
+      this.rules.set(rule.pattern, rule);
+    }
+    for (const rule of sessionRules) {
+      if (!this.rules.has(rule.pattern)) {
+        this.rules.set(rule.pattern, rule);
+      }
+    }
+  }
+
+  private reloadIfChanged(): void {
+    if (!this.filePath) return;
+    try {
+      const mtime = fs.statSync(this.filePath).mtimeMs;
+      if (mtime !== this.loadedMtime) {
+        this.reload();
+      }
+    } catch {
+      // File removed externally: drop persisted rules
+      if (this.loadedMtime !== 0) {
+        this.loadedMtime = 0;
+        this.reload();
+      }
+    }
+  }
+
+  private readFile(): ApprovalRule[] {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return [];
+
+    try {
+      this.loadedMtime = fs.statSync(this.filePath).mtimeMs;
+      const parsed = yaml.load(fs.readFileSync(this.filePath, "utf-8")) as Partial<ApprovalRulesFile> | undefined;
+      return (parsed?.rules || []).filter(
+        (r) =>
+          typeof r?.pattern === "string" &&
+          typeof r.allow === "boolean" &&
+          (r.scope === "always" || r.scope === "once")
+      );
+    } catch (e) {
+      console.error(`Failed to load approval rules from ${this.filePath}:`, e);
+      return [];
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) return;
+
+    // Session rules never touch disk
+    const persisted = Array.from(this.rules.values())
+      .filter((r) => r.scope !== "session")
+      .sort((a, b) => a.pattern.localeCompare(b.pattern));
+    if (persisted.length === 0 && !fs.existsSync(this.filePath)) return;
+    const data: ApprovalRulesFile = { version: 1, rules: persisted };
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const header = "# Approval rules learned by ApprovalOracle. Review, edit or delete entries freely.\n";
+      fs.writeFileSync(this.filePath, header + yaml.dump(data, { lineWidth: 120, noRefs: true }));
+      this.loadedMtime = fs.statSync(this.filePath).mtimeMs;
+    } catch (e) {
+      console.error(`Failed to save approval rules to ${this.filePath}:`, e);
+    }
+  }
+}
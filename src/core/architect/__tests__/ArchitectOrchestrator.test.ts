@@ -0,0 +1,385 @@
+import { afterEach, beforeEach, describe, it } from "mocha"
+import "should"
+import type { ArchitectConfig, ArchitectEditorResult, ArchitectState, ArchitectUpdate } from "@shared/architect-types"
+import sinon from "sinon"
+import { ArchitectOrchestrator } from "../ArchitectOrchestrator"
+
+const config: ArchitectConfig = {
+	enabled: true,
+	architectModel: "claude-opus-4-5-20251101",
+	architectProvider: "anthropic",
+	editorModel: "claude-sonnet-4-5-20250929",
+	editorProvider: "anthropic",
+	maxIterations: 3,
+}
+
+async function collect(updates: AsyncGenerator<ArchitectUpdate>): Promise<ArchitectUpdate[]> {
+	const collected: ArchitectUpdate[] = []
+	for await (const update of updates) {
+		collected.push(update)
+	}
+	return collected
+}
+
+describe("ArchitectOrchestrator", () => {
+	let sandbox: sinon.SinonSandbox
+	let editorRunner: sinon.SinonStub
+	let orchestrator: ArchitectOrchestrator
+	let architectPlan: sinon.SinonStub
+	let architectEvaluate: sinon.SinonStub
+
+	beforeEach(() => {
+		sandbox = sinon.createSandbox()
+		editorRunner = sandbox.stub().resolves({
+			summary: "Renamed foo to bar",
+			diff: "--- a/src/a.ts\n+++ b/src/a.ts\n-foo\n+bar",
+			files: [],
+			cost: 0.25,
+		} satisfies ArchitectEditorResult)
+		orchestrator = new ArchitectOrchestrator(config, { apiKey: "test" }, "/workspace", editorRunner)
+		architectPlan = sandbox.stub(orchestrator as any, "architectPlan").resolves({ content: "Rename foo", thinking: "" })
+		architectEvaluate = sandbox.stub(orchestrator as any, "architectEvaluate").resolves({
+			content: "APPROVED: looks good",
+			thinking: "",
+		})
+	})
+
+	afterEach(() => {
+		sandbox.restore()
+	})
+
+	it("should evaluate the diff produced by the editor runner", async () => {
+		const updates = await collect(orchestrator.run("Rename foo", "context"))
+
+		editorRunner.calledOnce.should.be.true()
+		editorRunner.firstCall.args[0].should.containEql("Rename foo")
+		const implementation = updates.find((u) => u.type === "implementation")
+		implementation!.should.deepEqual({
+			type: "implementation",
+			content: "Renamed foo to bar",
+			diff: "--- a/src/a.ts\n+++ b/src/a.ts\n-foo\n+bar",
+		})
+		architectEvaluate.firstCall.args[2].should.containEql("+bar")
+		updates.at(-1)!.should.deepEqual({ type: "complete", iterations: 1 })
+	})
+
+	it("should save the task and context in its state", async () => {
+		await collect(orchestrator.run("Rename foo", "context"))
+
+		const state = orchestrator.getState()
+		state.task!.should.equal("Rename foo")
+		state.context!.should.equal("context")
+		state.phase.should.equal("complete")
+	})
+
+	it("should resume an interrupted iteration without planning again", async () => {
+		const saved: ArchitectState = {
+			phase: "implementing",
+			currentIteration: 2,
+			plan: "Saved plan",
+			implementation: null,
+			evaluation: null,
+			thinkingContent: null,
+			task: "Saved task",
+			context: "Saved context",
+			spent: { architect: 0, editor: 0 },
+		}
+		orchestrator.restore(saved)
+
+		const updates = await collect(orchestrator.run("[TASK RESUMPTION]", "new context"))
+
+		architectPlan.called.should.be.false()
+		editorRunner.firstCall.args[0].should.containEql("Saved plan")
+		architectEvaluate.firstCall.args[0].should.equal("Saved task")
+		updates[0].should.deepEqual({ type: "phase", phase: "implementing", iteration: 2 })
+		updates.at(-1)!.should.deepEqual({ type: "complete", iterations: 2 })
+	})
+
+	it("should resume straight into evaluation once the editor has finished", async () => {
+		orchestrator.restore({
+			phase: "implementing",
+			currentIteration: 1,
+			plan: "Saved plan",
+			implementation: "Saved implementation",
+			evaluation: null,
+			thinkingContent: null,
+			task: "Saved task",
+			context: "Saved context",
+			spent: { architect: 0, editor: 0 },
+		})
+
+		await collect(orchestrator.run("[TASK RESUMPTION]", "new context"))
+
+		editorRunner.called.should.be.false()
+		architectEvaluate.firstCall.args[2].should.equal("Saved implementation")
+	})
+
+	it("should only treat unfinished sessions as resumable", () => {
+		const state: ArchitectState = {
+			phase: "evaluating",
+			currentIteration: 1,
+			plan: "plan",
+			implementation: "impl",
+			evaluation: null,
+			thinkingContent: null,
+			task: "task",
+			context: "context",
+			spent: { architect: 0, editor: 0 },
+		}
+
+		ArchitectOrchestrator.isResumable(state).should.be.true()
+		ArchitectOrchestrator.isResumable({ ...state, phase: "complete" }).should.be.false()
+		ArchitectOrchestrator.isResumable({ ...state, phase: "failed" }).should.be.false()
+		ArchitectOrchestrator.isResumable({ ...state, task: null }).should.be.false()
+		ArchitectOrchestrator.isResumable(undefined).should.be.false()
+	})
+
+	describe("reviewers", () => {
+		function withReviewers(
+			overrides: Partial<ArchitectConfig>,
+			verdicts: Array<string | Error>,
+		): { panel: ArchitectOrchestrator; evaluate: sinon.SinonStub } {
+			const panel = new ArchitectOrchestrator(
+				{
+					...config,
+					reviewers: [
+						{ provider: "openai", model: "gpt-5", label: "GPT" },
+						{ provider: "gemini", model: "gemini-2.5-pro" },
+					],
+					...overrides,
+				},
+				{ apiKey: "test" },
+				"/workspace",
+				editorRunner,
+			)
+			sandbox.stub(panel as any, "architectPlan").resolves({ content: "Rename foo", thinking: "" })
+			const handlers = [(panel as any).architectHandler, ...(panel as any).reviewers.map((r: any) => r.handler)]
+			const evaluate = sandbox.stub(panel as any, "architectEvaluate").callsFake(async (...args: unknown[]) => {
+				const verdict = verdicts[handlers.indexOf(args[4])]
+				if (verdict instanceof Error) {
+					throw verdict
+				}
+				return { content: verdict, thinking: "" }
+			})
+			return { panel, evaluate }
+		}
+
+		it("should stream every critique and combine them by majority", async () => {
+			const { panel, evaluate } = withReviewers({ reviewPolicy: "majority" }, [
+				"APPROVED: fine",
+				"REVISION NEEDED: missing test",
+				"APPROVED: ok",
+			])
+
+			const updates = await collect(panel.run("Rename foo", "context"))
+
+			evaluate.callCount.should.equal(3)
+			const critiques = updates.filter((u) => u.type === "evaluation")
+			critiques.map((u: any) => u.reviewer).should.containDeep(["Architect", "GPT", "gemini-2.5-pro"])
+			critiques.find((u: any) => u.reviewer === "GPT")!.should.containDeep({ approved: false })
+			updates
+				.find((u) => u.type === "review_verdict")!
+				.should.containDeep({
+					policy: "majority",
+					approved: true,
+					approvals: 2,
+					rejections: 1,
+				})
+			updates.at(-1)!.should.deepEqual({ type: "complete", iterations: 1 })
+		})
+
+		it("should require every reviewer by default and feed all critiques back", async () => {
+			const { panel } = withReviewers({}, ["APPROVED: fine", "REVISION NEEDED: missing test", "APPROVED: ok"])
+
+			const updates = await collect(panel.run("Rename foo", "context"))
+
+			updates.find((u) => u.type === "review_verdict")!.should.containDeep({ policy: "unanimous", approved: false })
+			updates.at(-1)!.should.deepEqual({ type: "max_iterations", iterations: 3 })
+			const context = (panel as any).architectPlan.secondCall.args[1]
+			context.should.containEql("REVISION NEEDED: 2 of 3 reviewers approved (unanimous policy)")
+			context.should.containEql("### GPT\nREVISION NEEDED: missing test")
+		})
+
+		it("should let a failed reviewer abstain under any-reject", async () => {
+			const { panel } = withReviewers({ reviewPolicy: "any-reject" }, [
+				"APPROVED: fine",
+				new Error("rate limited"),
+				"Looks reasonable overall",
+			])
+
+			const updates = await collect(panel.run("Rename foo", "context"))
+
+			updates.find((u: any) => u.reviewer === "GPT")!.should.containDeep({ content: "Review failed: rate limited" })
+			updates
+				.find((u) => u.type === "review_verdict")!
+				.should.containDeep({ approved: true, approvals: 1, rejections: 0, failed: ["GPT"] })
+			updates.at(-1)!.should.deepEqual({ type: "complete", iterations: 1 })
+		})
+
+		it("should report a reviewer that keeps failing and leave it out of a unanimous verdict", async () => {
+			const { panel, evaluate } = withReviewers({}, ["APPROVED: fine", new Error("rate limited"), "APPROVED: ok"])
+
+			const updates = await collect(panel.run("Rename foo", "context"))
+
+			evaluate.callCount.should.equal(4)
+			updates.find((u: any) => u.reviewer === "GPT")!.should.containDeep({ failed: true })
+			updates
+				.find((u) => u.type === "review_verdict")!
+				.should.containDeep({
+					policy: "unanimous",
+					approved: true,
+					approvals: 2,
+					failed: ["GPT"],
+					message: "APPROVED: 2 of 2 reviewers approved (unanimous policy); GPT failed and was not counted",
+				})
+			updates.at(-1)!.should.deepEqual({ type: "complete", iterations: 1 })
+		})
+
+		it("should ask a failed reviewer once more before counting it as failed", async () => {
+			const { panel, evaluate } = withReviewers({}, [])
+			const gpt = (panel as any).reviewers[0].handler
+			let gptCalls = 0
+			evaluate.callsFake(async (...args: unknown[]) => {
+				if (args[4] === gpt && gptCalls++ === 0) {
+					throw new Error("connection reset")
+				}
+				return { content: args[4] === gpt ? "REVISION NEEDED: missing test" : "APPROVED: fine", thinking: "" }
+			})
+
+			const updates = await collect(panel.run("Rename foo", "context"))
+
+			gptCalls.should.equal(4)
+			updates
+				.find((u) => u.type === "review_verdict")!
+				.should.containDeep({ approved: false, approvals: 2, rejections: 1, failed: [] })
+		})
+
+		it("should fail the evaluation when no reviewer answers", async () => {
+			const { panel } = withReviewers({}, [new Error("down"), new Error("down"), new Error("down")])
+
+			await collect(panel.run("Rename foo", "context")).should.be.rejectedWith("down")
+		})
+	})
+
+	describe("budgets", () => {
+		function withConfig(overrides: Partial<ArchitectConfig>): ArchitectOrchestrator {
+			const limited = new ArchitectOrchestrator({ ...config, ...overrides }, { apiKey: "test" }, "/workspace", editorRunner)
+			sandbox.stub(limited as any, "architectPlan").resolves({ content: "Rename foo", thinking: "" })
+			sandbox.stub(limited as any, "architectEvaluate").resolves({ content: "REVISION NEEDED: again", thinking: "" })
+			return limited
+		}
+
+		it("should stop with a budget update once the editor has spent its budget", async () => {
+			const limited = withConfig({ editorBudget: { maxCost: 0.4 } })
+
+			const updates = await collect(limited.run("Rename foo", "context"))
+
+			editorRunner.callCount.should.equal(2)
+			editorRunner.firstCall.args[2].maxCost.should.equal(0.4)
+			editorRunner.secondCall.args[2].maxCost.should.be.approximately(0.15, 1e-9)
+			const last = updates.at(-1) as Extract<ArchitectUpdate, { type: "budget_exceeded" }>
+			last.type.should.equal("budget_exceeded")
+			last.role.should.equal("editor")
+			last.limit.should.equal("cost")
+			last.message.should.containEql("$0.50 of $0.40")
+			limited.getState().spent.editor.should.equal(0.5)
+		})
+
+		it("should enforce the task ceiling across both roles", async () => {
+			const limited = withConfig({ maxTaskCost: 0.2 })
+
+			const updates = await collect(limited.run("Rename foo", "context"))
+
+			editorRunner.callCount.should.equal(1)
+			updates.at(-1)!.should.containDeep({ type: "budget_exceeded", role: "task", limit: "cost" })
+		})
+
+		it("should stop when the editor reports it ran out of time", async () => {
+			editorRunner.resolves({ summary: "", diff: "", files: [], cost: 0, stoppedBy: "timeout" })
+			const limited = withConfig({ editorBudget: { timeoutSeconds: 30, allowedTools: ["read_file"] } })
+
+			const updates = await collect(limited.run("Rename foo", "context"))
+
+			const limits = editorRunner.firstCall.args[2]
+			limits.allowedTools.should.deepEqual(["read_file"])
+			limits.deadline.should.be.above(Date.now())
+			editorRunner.firstCall.args[0].should.containEql("You may only use these tools: read_file, attempt_completion")
+			updates.at(-1)!.should.containDeep({ type: "budget_exceeded", role: "editor", limit: "timeout" })
+		})
+
+		it("should price architect calls from stream usage and time them out", async () => {
+			const limited = new ArchitectOrchestrator(
+				{ ...config, architectBudget: { maxCost: 1, timeoutSeconds: 0.05 } },
+				{ apiKey: "test" },
+				"/workspace",
+				editorRunner,
+			)
+			let slow = false
+			;(limited as any).architectHandler = {
+				getModel: () => ({ id: "test", info: { inputPrice: 3, outputPrice: 15 } }),
+				createMessage: async function* () {
+					if (slow) {
+						await new Promise((resolve) => setTimeout(resolve, 500))
+					}
+					yield { type: "text", text: "Plan" }
+					yield { type: "usage", inputTokens: 100_000, outputTokens: 10_000 }
+					slow = true
+				},
+			}
+
+			const updates = await collect(limited.run("Rename foo", "context"))
+
+			// 100k input at $3/M plus 10k output at $15/M
+			limited.getState().spent.architect.should.be.approximately(0.45, 1e-9)
+			updates.at(-1)!.should.containDeep({ type: "budget_exceeded", role: "architect", limit: "timeout" })
+		})
+
+		it("should price usage the way an OpenAI-format provider reports cached tokens", async () => {
+			const limited = new ArchitectOrchestrator(
+				{ ...config, architectProvider: "openai", maxIterations: 1 },
+				{ apiKey: "test" },
+				"/workspace",
+				editorRunner,
+			)
+			sandbox.stub(limited as any, "architectEvaluate").resolves({ content: "APPROVED", thinking: "" })
+			;(limited as any).architectHandler = {
+				getModel: () => ({ id: "test", info: { inputPrice: 3, outputPrice: 15, cacheReadsPrice: 0.3 } }),
+				createMessage: async function* () {
+					yield { type: "text", text: "Plan" }
+					yield { type: "usage", inputTokens: 100_000, outputTokens: 0, cacheReadTokens: 100_000 }
+				},
+			}
+
+			await collect(limited.run("Rename foo", "context"))
+
+			// The 100k input tokens are all cache reads at $0.3/M
+			limited.getState().spent.architect.should.be.approximately(0.03, 1e-9)
+		})
+
+		it("should cancel a timed-out response so it stops counting against the budget", async () => {
+			const limited = new ArchitectOrchestrator(
+				{ ...config, architectBudget: { timeoutSeconds: 0.05 } },
+				{ apiKey: "test" },
+				"/workspace",
+				editorRunner,
+			)
+			const abort = sandbox.spy()
+			;(limited as any).architectHandler = {
+				getModel: () => ({ id: "test", info: { inputPrice: 3, outputPrice: 15 } }),
+				abort,
+				createMessage: async function* () {
+					yield { type: "text", text: "Plan" }
+					await new Promise((resolve) => setTimeout(resolve, 100))
+					yield { type: "usage", inputTokens: 100_000, outputTokens: 10_000 }
+				},
+			}
+
+			const updates = await collect(limited.run("Rename foo", "context"))
+			await new Promise((resolve) => setTimeout(resolve, 150))
+
+			sinon.assert.calledOnce(abort)
+			limited.getState().spent.architect.should.equal(0)
+			updates.at(-1)!.should.containDeep({ type: "budget_exceeded", role: "architect", limit: "timeout" })
+		})
+	})
+})
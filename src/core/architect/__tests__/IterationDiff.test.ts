@@ -0,0 +1,42 @@
+import { describe, it } from "mocha"
+import "should"
+import { buildEditorResult, formatIterationDiff } from "../IterationDiff"
+
+describe("IterationDiff", () => {
+	const changedFiles = [
+		{ relativePath: "src/a.ts", absolutePath: "/ws/src/a.ts", before: "const a = 1\n", after: "const a = 2\n" },
+		{ relativePath: "src/new.ts", absolutePath: "/ws/src/new.ts", before: "", after: "export {}\n" },
+		{ relativePath: "src/old.ts", absolutePath: "/ws/src/old.ts", before: "gone\n", after: "" },
+	]
+
+	it("should format every changed file as a unified diff", () => {
+		const diff = formatIterationDiff(changedFiles)
+
+		diff.should.containEql("--- a/src/a.ts")
+		diff.should.containEql("+++ b/src/a.ts")
+		diff.should.containEql("-const a = 1")
+		diff.should.containEql("+const a = 2")
+		diff.should.containEql("+++ b/src/new.ts")
+		diff.should.containEql("-gone")
+	})
+
+	it("should truncate very large diffs", () => {
+		const after = "x\n".repeat(60_000)
+		const diff = formatIterationDiff([{ relativePath: "big.txt", absolutePath: "/ws/big.txt", before: "", after }])
+
+		diff.length.should.be.below(100_200)
+		diff.should.match(/diff truncated, \d+ more characters\)$/)
+	})
+
+	it("should only hand files that still exist to the architecture review", () => {
+		const result = buildEditorResult("Bumped a", changedFiles)
+
+		result.summary.should.equal("Bumped a")
+		result.files.map((f) => f.path).should.deepEqual(["src/a.ts", "src/new.ts"])
+		result.files[0].content.should.equal("const a = 2\n")
+	})
+
+	it("should return an empty diff when nothing changed", () => {
+		formatIterationDiff([]).should.equal("")
+	})
+})
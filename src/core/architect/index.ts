@@ -3,14 +3,29 @@
  *
  * This module provides:
  * - ArchitectOrchestrator: Main orchestrator for the architect/editor loop
+ * - IterationDiff: Unified diff of what the Editor changed in an iteration
  * - ApprovalOracle: Intelligent action approval system
+ * - ApprovalBackend: Pluggable decision backends for the oracle (model or rule-only)
+ * - ApprovalRuleStore: Reviewable rules persisted to .cline/approval-rules.yaml
+ * - ApprovalAuditLog: Append-only JSONL log of every approval decision
  * - PersonaLoader: Custom persona injection
  * - ArchitectureAnalyzer: Codebase architecture analysis
  * - LLMContextManager: Session context persistence
  */
 
 export { ArchitectOrchestrator } from "./ArchitectOrchestrator";
+export type { ArchitectEditorRunner } from "./ArchitectOrchestrator";
+export { buildEditorResult, formatIterationDiff } from "./IterationDiff";
 export { ApprovalOracle } from "../approval/ApprovalOracle";
+export {
+  ModelApprovalBackend,
+  RuleOnlyApprovalBackend,
+  createApprovalBackend,
+} from "../approval/ApprovalBackend";
+export type { ApprovalBackend } from "../approval/ApprovalBackend";
+export type { ApprovalOutcome } from "../approval/ApprovalOracle";
+export { ApprovalRuleStore } from "../approval/ApprovalRuleStore";
+export { ApprovalAuditLog } from "../approval/ApprovalAuditLog";
 export { PersonaLoader } from "../persona/PersonaLoader";
 export { ArchitectureAnalyzer } from "../architecture/ArchitectureAnalyzer";
 export { LLMContextManager } from "../context/LLMContextManager";
@@ -19,9 +34,14 @@ export { LLMContextManager } from "../context/LLMContextManager";
 export type {
   ArchitectConfig,
   ArchitectState,
+  ArchitectEditorResult,
   ArchitectUpdate,
   ApprovalRequest,
   ApprovalDecision,
+  ApprovalRule,
+  ApprovalRuleScope,
+  ApprovalFailurePolicy,
+  ApprovalAuditEntry,
   ApprovalOracleConfig,
   PersonaConfig,
   ArchitectureConfig,
@@ -2,6 +2,8 @@ import * as fs from "fs";
 import * as path from "path";
 import * as yaml from "js-yaml";
 import { ArchitectureConfig } from "../../shared/architect-types";
+import { getImportLanguage } from "../../services/tree-sitter/imports";
+import { ImportGraph } from "./ImportGraph";
 
 export interface ArchitectureReview {
   needsReview: boolean;
@@ -33,10 +35,13 @@ export class ArchitectureAnalyzer {
   private workspaceRoot: string;
   private types: TypeDefinitions | null = null;
   private contracts: Map<string, ServiceContract> = new Map();
+  private importGraph: ImportGraph;
+  private importGraphReady: Promise<void> | null = null;
 
-  constructor(config: ArchitectureConfig, workspaceRoot: string) {
+  constructor(config: ArchitectureConfig, workspaceRoot: string, importGraph?: ImportGraph) {
     this.config = config;
     this.workspaceRoot = workspaceRoot;
+    this.importGraph = importGraph ?? new ImportGraph(workspaceRoot);
     this.loadTypes();
     this.loadContracts();
   }
@@ -87,9 +92,22 @@ export class ArchitectureAnalyzer {
     const dirSignal = await this.checkDirectorySize(dir);
     if (dirSignal) signals.push(dirSignal);
 
-    // Check domain mixing
-    const domainSignal = this.checkDomainMixing(filePath, newContent);
-    if (domainSignal) signals.push(domainSignal);
+    if (getImportLanguage(filePath)) {
+      // Real imports from the module graph, on a copy since the change may not be written
+      const graph = await (await this.getImportGraph()).withFile(filePath, newContent);
+
+      if (this.config.extractionSignals?.circularImports !== false) {
+        const cycle = graph.cycleThrough(filePath);
+        if (cycle) signals.push(`Circular import: ${cycle.join(" -> ")}`);
+      }
+
+      const domainSignal = this.checkCrossDomainImports(graph, filePath);
+      if (domainSignal) signals.push(domainSignal);
+    } else {
+      // Check domain mixing
+      const domainSignal = this.checkDomainMixing(filePath, newContent);
+      if (domainSignal) signals.push(domainSignal);
+    }
 
     // Check naming conventions against types.yaml
     const namingSignals = this.checkNamingConventions(newContent);
@@ -131,6 +149,27 @@ export class ArchitectureAnalyzer {
     return null;
   }
 
+  /**
+   * Builds the workspace import graph on first use and keeps it current from then on
+   */
+  private async getImportGraph(): Promise<ImportGraph> {
+    if (!this.importGraphReady) {
+      this.importGraphReady = this.importGraph.build().then(() => this.importGraph.watch());
+    }
+    await this.importGraphReady;
+    await this.importGraph.settled();
+    return this.importGraph;
+  }
+
+  private checkCrossDomainImports(graph: ImportGraph, filePath: string): string | null {
+    const edges = graph.crossDomainEdges(this.config.domains ?? [], filePath);
+    if (edges.length === 0) return null;
+
+    const domains = [...new Set(edges.map((edge) => edge.toDomain))];
+    const targets = edges.map((edge) => edge.to).slice(0, 3).join(", ");
+    return `File in ${edges[0].fromDomain} domain imports from: ${domains.join(", ")} (${targets})`;
+  }
+
   private checkDomainMixing(filePath: string, content: string): string | null {
     if (!this.config.domains || this.config.domains.length === 0) return null;
 
@@ -200,6 +239,11 @@ export class ArchitectureAnalyzer {
   private buildRecommendation(signals: string[], filePath: string): string {
     const style = this.config.style;
 
+    // Cycles are worth breaking whatever the style
+    if (signals.some((s) => s.startsWith("Circular import"))) {
+      return "Circular import. Move the shared code into a module both sides can import, or invert one dependency through an interface.";
+    }
+
     if (style === "monolith") {
       return "Monolith style: Consider refactoring for clarity but no extraction needed.";
     }
@@ -235,6 +279,12 @@ export class ArchitectureAnalyzer {
       options.push("Keep as-is with justification");
     }
 
+    if (signals.some((s) => s.startsWith("Circular import"))) {
+      options.push("Extract shared code into a common module");
+      options.push("Invert a dependency with an interface");
+      options.push("Keep the cycle with justification");
+    }
+
     if (signals.some((s) => s.includes("domain imports"))) {
       options.push("Move shared code to common/");
       options.push("Define interface/contract");
@@ -249,6 +299,13 @@ export class ArchitectureAnalyzer {
     return options;
   }
 
+  /**
+   * Stops watching the workspace for import changes
+   */
+  async dispose(): Promise<void> {
+    await this.importGraph.dispose();
+  }
+
   /**
    * Get types.yaml content for injection into context
    */
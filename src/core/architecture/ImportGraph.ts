@@ -0,0 +1,379 @@
+import chokidar, { FSWatcher } from "chokidar";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { listFiles } from "../../services/glob/list-files";
+import { getImportLanguage, parseImports } from "../../services/tree-sitter/imports";
+
+/**
+ * Extracts the raw import specifiers of a file; undefined when its language is not analyzed
+ */
+export type ImportParser = (filePath: string, content: string) => Promise<string[] | undefined>;
+
+export interface ImportEdge {
+  from: string;
+  to: string;
+}
+
+export interface CrossDomainEdge extends ImportEdge {
+  fromDomain: string;
+  toDomain: string;
+}
+
+// Files past this are left out of the graph
+const MAX_GRAPH_FILES = 5_000;
+const JS_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"];
+// Roots that absolute Python imports are resolved from
+const PYTHON_SOURCE_ROOTS = ["", "src"];
+// Dependency and build output directories the watcher skips, along with hidden ones like .git, as listFiles does
+const IGNORED_DIRECTORIES = new Set([
+  "node_modules",
+  "__pycache__",
+  "env",
+  "venv",
+  "vendor",
+  "dist",
+  "build",
+  "out",
+  "bundle",
+  "coverage",
+  "target",
+  "tmp",
+  "temp",
+  "deps",
+  "Pods",
+]);
+
+/**
+ * Module graph of the workspace's TS/JS, Python and Go imports, built with tree-sitter.
+ * Files are keyed by workspace-relative posix paths. Only imports that resolve to a file
+ * in the graph become edges; packages from outside the workspace are ignored.
+ */
+export class ImportGraph {
+  private workspaceRoot: string;
+  private parser: ImportParser;
+  // Raw specifiers per file; edges are resolved from these so a new file picks up imports made before it existed
+  private imports: Map<string, string[]> = new Map();
+  private edges: Map<string, string[]> | null = null;
+  private goModule: string | null = null;
+  private watcher: FSWatcher | null = null;
+  private pendingUpdates: Set<Promise<void>> = new Set();
+
+  constructor(workspaceRoot: string, parser: ImportParser = parseImports) {
+    this.workspaceRoot = workspaceRoot;
+    this.parser = parser;
+  }
+
+  /**
+   * Parses every supported source file in the workspace
+   */
+  async build(): Promise<void> {
+    try {
+      const goMod = await fs.readFile(path.join(this.workspaceRoot, "go.mod"), "utf-8");
+      this.goModule = goMod.match(/^module\s+(\S+)/m)?.[1] ?? null;
+    } catch {
+      this.goModule = null;
+    }
+
+    const [files] = await listFiles(this.workspaceRoot, true, MAX_GRAPH_FILES);
+    for (const file of files) {
+      if (!file.endsWith("/") && getImportLanguage(file)) {
+        await this.updateFromDisk(this.toRelative(file));
+      }
+    }
+  }
+
+  /**
+   * Keeps the graph current as files are created, edited and deleted
+   */
+  watch(): void {
+    if (this.watcher) return;
+
+    this.watcher = chokidar.watch(this.workspaceRoot, {
+      ignoreInitial: true,
+      ignored: (filePath, stats) => this.isWatchIgnored(filePath, !!stats?.isFile()),
+      awaitWriteFinish: { stabilityThreshold: 100, pollInterval: 100 },
+      atomic: true,
+    });
+    this.watcher.on("add", (filePath) => this.track(this.updateFromDisk(this.toRelative(filePath))));
+    this.watcher.on("change", (filePath) => this.track(this.updateFromDisk(this.toRelative(filePath))));
+    this.watcher.on("unlink", (filePath) => this.removeFile(this.toRelative(filePath)));
+  }
+
+  /**
+   * Waits for updates from the watcher that are still being parsed
+   */
+  async settled(): Promise<void> {
+    await Promise.all(this.pendingUpdates);
+  }
+
+  async dispose(): Promise<void> {
+    await this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /**
+   * A copy of the graph with one file re-parsed from content that has not been written yet,
+   * leaving this graph as it is on disk
+   */
+  async withFile(filePath: string, content: string): Promise<ImportGraph> {
+    const copy = new ImportGraph(this.workspaceRoot, this.parser);
+    copy.imports = new Map(this.imports);
+    copy.goModule = this.goModule;
+    await copy.updateFile(filePath, content);
+    return copy;
+  }
+
+  /**
+   * Re-parses one file
+   */
+  async updateFile(filePath: string, content: string): Promise<void> {
+    const relativePath = this.toRelative(filePath);
+    try {
+      const specifiers = await this.parser(relativePath, content);
+      if (specifiers) {
+        this.imports.set(relativePath, specifiers);
+        this.edges = null;
+      }
+    } catch (error) {
+      console.error(`Failed to parse imports of ${relativePath}:`, error);
+    }
+  }
+
+  removeFile(filePath: string): void {
+    if (this.imports.delete(this.toRelative(filePath))) {
+      this.edges = null;
+    }
+  }
+
+  has(filePath: string): boolean {
+    return this.imports.has(this.toRelative(filePath));
+  }
+
+  /**
+   * Workspace files that a file imports
+   */
+  dependencies(filePath: string): string[] {
+    return this.getEdges().get(this.toRelative(filePath)) ?? [];
+  }
+
+  /**
+   * Every import cycle in the workspace, as its strongly connected groups of files
+   */
+  findCycles(): string[][] {
+    const edges = this.getEdges();
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const cycles: string[][] = [];
+    let counter = 0;
+
+    // Tarjan's strongly connected components
+    const connect = (file: string) => {
+      index.set(file, counter);
+      lowLink.set(file, counter);
+      counter++;
+      stack.push(file);
+      onStack.add(file);
+
+      for (const dependency of edges.get(file) ?? []) {
+        if (!index.has(dependency)) {
+          connect(dependency);
+          lowLink.set(file, Math.min(lowLink.get(file)!, lowLink.get(dependency)!));
+        } else if (onStack.has(dependency)) {
+          lowLink.set(file, Math.min(lowLink.get(file)!, index.get(dependency)!));
+        }
+      }
+
+      if (lowLink.get(file) === index.get(file)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== file);
+
+        if (component.length > 1 || edges.get(file)?.includes(file)) {
+          cycles.push(component.sort());
+        }
+      }
+    };
+
+    for (const file of edges.keys()) {
+      if (!index.has(file)) {
+        connect(file);
+      }
+    }
+    return cycles;
+  }
+
+  /**
+   * The shortest import cycle through a file, starting and ending with it, or null if it has none
+   */
+  cycleThrough(filePath: string): string[] | null {
+    const start = this.toRelative(filePath);
+    const edges = this.getEdges();
+    const previous = new Map<string, string>();
+    const queue = [start];
+
+    while (queue.length > 0) {
+      const file = queue.shift()!;
+      for (const dependency of edges.get(file) ?? []) {
+        if (dependency === start) {
+          const cycle = [start];
+          for (let step: string | undefined = file; step !== undefined && step !== start; step = previous.get(step)) {
+            cycle.unshift(step);
+          }
+          cycle.unshift(start);
+          return cycle;
+        }
+        if (!previous.has(dependency)) {
+          previous.set(dependency, file);
+          queue.push(dependency);
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Imports that cross from one of the given domains into another. A file belongs to the first
+   * directory in its path named after a domain. Pass a file to only check its own imports.
+   */
+  crossDomainEdges(domains: string[], filePath?: string): CrossDomainEdge[] {
+    if (domains.length === 0) return [];
+
+    const from = filePath ? [this.toRelative(filePath)] : [...this.getEdges().keys()];
+    const crossing: CrossDomainEdge[] = [];
+    for (const file of from) {
+      const fromDomain = this.domainOf(file, domains);
+      if (!fromDomain) continue;
+
+      for (const dependency of this.dependencies(file)) {
+        const toDomain = this.domainOf(dependency, domains);
+        if (toDomain && toDomain !== fromDomain) {
+          crossing.push({ from: file, to: dependency, fromDomain, toDomain });
+        }
+      }
+    }
+    return crossing;
+  }
+
+  private domainOf(file: string, domains: string[]): string | undefined {
+    return file.split("/").slice(0, -1).find((segment) => domains.includes(segment));
+  }
+
+  private getEdges(): Map<string, string[]> {
+    if (!this.edges) {
+      this.edges = new Map();
+      for (const [file, specifiers] of this.imports) {
+        const resolved = new Set(specifiers.flatMap((specifier) => this.resolve(file, specifier)));
+        this.edges.set(file, [...resolved]);
+      }
+    }
+    return this.edges;
+  }
+
+  private resolve(from: string, specifier: string): string[] {
+    switch (getImportLanguage(from)) {
+      case "javascript":
+        return this.resolveJavaScript(from, specifier);
+      case "python":
+        return this.resolvePython(from, specifier);
+      case "go":
+        return this.resolveGo(from, specifier);
+      default:
+        return [];
+    }
+  }
+
+  private resolveJavaScript(from: string, specifier: string): string[] {
+    // Bare specifiers are packages (path aliases are not resolved)
+    if (!specifier.startsWith(".")) return [];
+
+    const base = path.posix.join(path.posix.dirname(from), specifier);
+    // ESM TypeScript imports "./a.js" for a.ts
+    const withoutExtension = base.replace(/\.[mc]?jsx?$/, "");
+    const candidates = [
+      base,
+      ...JS_EXTENSIONS.map((extension) => `${withoutExtension}${extension}`),
+      ...JS_EXTENSIONS.map((extension) => `${base}/index${extension}`),
+    ];
+    const match = candidates.find((candidate) => this.imports.has(candidate));
+    return match ? [match] : [];
+  }
+
+  private resolvePython(from: string, specifier: string): string[] {
+    const dots = specifier.match(/^\.*/)![0].length;
+    const modulePath = specifier.slice(dots).split(".").filter(Boolean).join("/");
+
+    let roots: string[];
+    if (dots > 0) {
+      // "." is the importing file's package, each further dot one package up
+      let packageDir = path.posix.dirname(from);
+      for (let i = 1; i < dots; i++) {
+        packageDir = path.posix.dirname(packageDir);
+      }
+      roots = [packageDir === "." ? "" : packageDir];
+    } else {
+      roots = PYTHON_SOURCE_ROOTS;
+    }
+
+    for (const root of roots) {
+      const base = path.posix.join(root || ".", modulePath);
+      const candidates = modulePath ? [`${base}.py`, `${base}/__init__.py`] : [`${base}/__init__.py`];
+      const match = candidates.map((candidate) => path.posix.normalize(candidate)).find((candidate) => this.imports.has(candidate));
+      if (match) return [match];
+    }
+    return [];
+  }
+
+  private resolveGo(from: string, specifier: string): string[] {
+    if (!this.goModule || (specifier !== this.goModule && !specifier.startsWith(`${this.goModule}/`))) {
+      return [];
+    }
+
+    // A Go import is a package: every non-test file in its directory
+    const packageDir = specifier === this.goModule ? "." : specifier.slice(this.goModule.length + 1);
+    return [...this.imports.keys()].filter(
+      (file) => file !== from && path.posix.dirname(file) === packageDir && !file.endsWith("_test.go") && file.endsWith(".go")
+    );
+  }
+
+  /**
+   * Whether the watcher skips a path: anything in a hidden, dependency or build output directory,
+   * and files in languages that aren't analyzed
+   */
+  private isWatchIgnored(filePath: string, isFile: boolean): boolean {
+    const relativePath = this.toRelative(filePath);
+    if (relativePath === ".") {
+      return false;
+    }
+    const segments = relativePath.split("/");
+    const directories = isFile ? segments.slice(0, -1) : segments;
+    if (directories.some((segment) => segment.startsWith(".") || IGNORED_DIRECTORIES.has(segment))) {
+      return true;
+    }
+    return isFile && !getImportLanguage(relativePath);
+  }
+
+  private async updateFromDisk(relativePath: string): Promise<void> {
+    try {
+      const content = await fs.readFile(path.join(this.workspaceRoot, relativePath), "utf-8");
+      await this.updateFile(relativePath, content);
+    } catch {
+      this.removeFile(relativePath);
+    }
+  }
+
+  private track(update: Promise<void>): void {
+    this.pendingUpdates.add(update);
+    update.finally(() => this.pendingUpdates.delete(update));
+  }
+
+  private toRelative(filePath: string): string {
+    const relative = path.isAbsolute(filePath) ? path.relative(this.workspaceRoot, filePath) : filePath;
+    return path.posix.normalize(relative.split(path.sep).join("/"));
+  }
+}
@@ -0,0 +1,60 @@
+import { afterEach, describe, it } from "mocha"
+import "should"
+import type { ArchitectureConfig } from "@shared/architect-types"
+import sinon from "sinon"
+import { ArchitectureAnalyzer } from "../ArchitectureAnalyzer"
+import { ImportGraph } from "../ImportGraph"
+
+const config: ArchitectureConfig = {
+	enabled: true,
+	style: "modular_monolith",
+	stage: "growth",
+	domains: ["billing", "users"],
+	extractionSignals: {},
+	consolidationSignals: {},
+	typesPath: ".cline/contracts/types.yaml",
+	contractsPath: ".cline/contracts/services",
+}
+
+describe("ArchitectureAnalyzer", () => {
+	afterEach(() => {
+		sinon.restore()
+	})
+
+	async function analyzerWith(files: Record<string, string>, overrides: Partial<ArchitectureConfig> = {}) {
+		const graph = new ImportGraph("/workspace", async (_filePath, content) => content.split("\n").filter(Boolean))
+		for (const [file, content] of Object.entries(files)) {
+			await graph.updateFile(file, content)
+		}
+		sinon.stub(graph, "build").resolves()
+		sinon.stub(graph, "watch")
+		return { analyzer: new ArchitectureAnalyzer({ ...config, ...overrides }, "/workspace", graph), graph }
+	}
+
+	it("should flag a change that closes an import cycle across domains", async () => {
+		const { analyzer } = await analyzerWith({ "src/billing/invoice.ts": "../users/user", "src/users/user.ts": "" })
+
+		const review = await analyzer.analyzeChange("src/users/user.ts", "../billing/invoice")
+
+		review.needsReview.should.be.true()
+		review.signals.should.containEql("Circular import: src/users/user.ts -> src/billing/invoice.ts -> src/users/user.ts")
+		review.signals.should.containEql("File in users domain imports from: billing (src/billing/invoice.ts)")
+		review.recommendation.should.startWith("Circular import.")
+		review.options.should.containEql("Invert a dependency with an interface")
+	})
+
+	it("should build the graph once, skip cycles when they are disabled and leave the graph as it is on disk", async () => {
+		const { analyzer, graph } = await analyzerWith(
+			{ "src/a.ts": "./b", "src/b.ts": "" },
+			{ extractionSignals: { circularImports: false } },
+		)
+
+		await analyzer.analyzeChange("src/b.ts", "./a")
+		const review = await analyzer.analyzeChange("src/b.ts", "./a")
+
+		;(graph.build as sinon.SinonStub).calledOnce.should.be.true()
+		review.needsReview.should.be.false()
+		graph.findCycles().should.be.empty()
+		graph.dependencies("src/b.ts").should.be.empty()
+	})
+})
@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, it } from "mocha"
+import "should"
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+import sinon from "sinon"
+import * as listFilesModule from "../../../services/glob/list-files"
+import { ImportGraph } from "../ImportGraph"
+
+// Content is the file's specifiers, one per line
+const lineParser = async (_filePath: string, content: string) => content.split("\n").filter(Boolean)
+
+async function graphOf(files: Record<string, string>): Promise<ImportGraph> {
+	const graph = new ImportGraph("/workspace", lineParser)
+	for (const [file, content] of Object.entries(files)) {
+		await graph.updateFile(file, content)
+	}
+	return graph
+}
+
+describe("ImportGraph", () => {
+	it("should resolve relative JS and TS imports to workspace files", async () => {
+		const graph = await graphOf({
+			"src/app.ts": "./util.js\n./components\nreact\n../outside",
+			"src/util.ts": "",
+			"src/components/index.tsx": "",
+		})
+
+		graph.dependencies("src/app.ts").should.deepEqual(["src/util.ts", "src/components/index.tsx"])
+		graph.dependencies("/workspace/src/app.ts").should.deepEqual(["src/util.ts", "src/components/index.tsx"])
+	})
+
+	it("should resolve absolute, relative and from-imports in Python", async () => {
+		const graph = await graphOf({
+			"pkg/__init__.py": "",
+			"pkg/a.py": ".b\n..top\n.\nos.path",
+			"pkg/b.py": "pkg.sub.c",
+			"pkg/sub/c.py": "",
+			"top.py": "",
+		})
+
+		graph.dependencies("pkg/a.py").should.deepEqual(["pkg/b.py", "top.py", "pkg/__init__.py"])
+		graph.dependencies("pkg/b.py").should.deepEqual(["pkg/sub/c.py"])
+	})
+
+	it("should find every cycle and the shortest one through a file", async () => {
+		const graph = await graphOf({
+			"a.ts": "./b",
+			"b.ts": "./c",
+			"c.ts": "./a\n./b",
+			"self.ts": "./self",
+			"leaf.ts": "./a",
+		})
+
+		graph.findCycles().should.deepEqual([["a.ts", "b.ts", "c.ts"], ["self.ts"]])
+		graph.cycleThrough("a.ts")!.should.deepEqual(["a.ts", "b.ts", "c.ts", "a.ts"])
+		graph.cycleThrough("b.ts")!.should.deepEqual(["b.ts", "c.ts", "b.ts"])
+		graph.cycleThrough("self.ts")!.should.deepEqual(["self.ts", "self.ts"])
+		;(graph.cycleThrough("leaf.ts") === null).should.be.true()
+	})
+
+	it("should report imports that cross domain boundaries", async () => {
+		const graph = await graphOf({
+			"src/billing/invoice.ts": "../users/user\n./tax\n../shared/money",
+			"src/billing/tax.ts": "",
+			"src/users/user.ts": "../billing/invoice",
+			"src/shared/money.ts": "",
+		})
+
+		graph.crossDomainEdges(["billing", "users"]).should.deepEqual([
+			{ from: "src/billing/invoice.ts", to: "src/users/user.ts", fromDomain: "billing", toDomain: "users" },
+			{ from: "src/users/user.ts", to: "src/billing/invoice.ts", fromDomain: "users", toDomain: "billing" },
+		])
+		graph.crossDomainEdges(["billing", "users"], "src/users/user.ts").should.have.length(1)
+		graph.crossDomainEdges([]).should.be.empty()
+	})
+
+	it("should update edges incrementally as files change", async () => {
+		const graph = await graphOf({ "a.ts": "./b", "b.ts": "" })
+		graph.findCycles().should.be.empty()
+
+		await graph.updateFile("b.ts", "./a")
+		graph.findCycles().should.deepEqual([["a.ts", "b.ts"]])
+
+		graph.removeFile("b.ts")
+		graph.dependencies("a.ts").should.be.empty()
+
+		// An import of a file that did not exist yet resolves once it is added
+		await graph.updateFile("b.ts", "")
+		graph.dependencies("a.ts").should.deepEqual(["b.ts"])
+	})
+
+	it("should analyze unwritten content on a copy of the graph", async () => {
+		const graph = await graphOf({ "a.ts": "./b", "b.ts": "" })
+
+		const copy = await graph.withFile("b.ts", "./a")
+
+		copy.findCycles().should.deepEqual([["a.ts", "b.ts"]])
+		graph.findCycles().should.be.empty()
+	})
+
+	it("should only watch source files outside hidden, dependency and build output directories", () => {
+		const graph = new ImportGraph("/workspace", lineParser)
+		const isWatchIgnored = (filePath: string, isFile: boolean): boolean => (graph as any).isWatchIgnored(filePath, isFile)
+
+		isWatchIgnored("/workspace", false).should.be.false()
+		isWatchIgnored("/workspace/src", false).should.be.false()
+		isWatchIgnored("/workspace/src/app.ts", true).should.be.false()
+		isWatchIgnored("/workspace/node_modules", false).should.be.true()
+		isWatchIgnored("/workspace/packages/web/node_modules/react/index.js", true).should.be.true()
+		isWatchIgnored("/workspace/.git", false).should.be.true()
+		isWatchIgnored("/workspace/dist/app.js", true).should.be.true()
+		isWatchIgnored("/workspace/src/logo.png", true).should.be.true()
+	})
+
+	describe("build", () => {
+		let workspace: string
+
+		beforeEach(async () => {
+			workspace = await fs.mkdtemp(path.join(os.tmpdir(), "import-graph-"))
+		})
+
+		afterEach(async () => {
+			sinon.restore()
+			await fs.rm(workspace, { recursive: true, force: true })
+		})
+
+		it("should parse the workspace and resolve Go imports through go.mod", async () => {
+			const write = async (file: string, content: string) => {
+				await fs.mkdir(path.join(workspace, path.dirname(file)), { recursive: true })
+				await fs.writeFile(path.join(workspace, file), content)
+			}
+			await write("go.mod", "module example.com/app\n\ngo 1.22\n")
+			await write("main.go", "example.com/app/internal/store\nfmt")
+			await write("internal/store/store.go", "example.com/app")
+			await write("internal/store/cache.go", "")
+			await write("internal/store/store_test.go", "")
+			await write("README.md", "")
+			// The default ignore patterns skip anything under a tmp directory
+			sinon
+				.stub(listFilesModule, "listFiles")
+				.resolves([
+					[
+						"go.mod",
+						"main.go",
+						"internal/",
+						"internal/store/store.go",
+						"internal/store/cache.go",
+						"internal/store/store_test.go",
+						"README.md",
+					].map((file) => path.join(workspace, file) + (file.endsWith("/") ? "/" : "")),
+					false,
+				])
+
+			const graph = new ImportGraph(workspace, async (filePath, content) =>
+				filePath.endsWith(".go") ? lineParser(filePath, content) : undefined,
+			)
+			await graph.build()
+
+			graph.has("README.md").should.be.false()
+			graph.dependencies("main.go").sort().should.deepEqual(["internal/store/cache.go", "internal/store/store.go"])
+			graph.cycleThrough("main.go")!.should.deepEqual(["main.go", "internal/store/store.go", "main.go"])
+		})
+	})
+})
@@ -48,6 +48,10 @@ export const toolParamNames = [
 	"input",
 	"from_ref",
 	"to_ref",
+	"session",
+	"signal",
+	"service",
+	"subagents",
 ] as const
 
 export type ToolParamName = (typeof toolParamNames)[number]
@@ -1,26 +1,66 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as yaml from "js-yaml";
-import { LLMContext } from "../../shared/architect-types";
+import { ulid } from "ulid";
+import { FileLock, withFileLock } from "../locks/FileLockUtils";
+import type { FileContextTracker } from "./context-tracking/FileContextTracker";
+import { LLMContext, LLMContextJournalEntry, LLMContextOp } from "../../shared/architect-types";
+
+export const LLM_CONTEXT_FILE = path.join(".cline", "llm-context.yaml");
+
+// Token budget of the summary load() returns
+export const DEFAULT_LLM_CONTEXT_TOKENS = 1500;
+
+// Journal entries are folded into the snapshot once there are this many
+const COMPACT_AFTER_ENTRIES = 100;
+const MAX_HOT_FILES = 10;
+const CHARS_PER_TOKEN = 4;
 
 /**
- * Manages LLM context persistence for cold boot recovery
+ * Manages LLM context persistence for cold boot recovery.
+ *
+ * The context is kept next to the code so it can be committed:
+ * - llm-context.yaml: a compacted snapshot
+ * - llm-context.journal.jsonl: an append-only journal of every save since the snapshot, which can be merged by
+ *   keeping both sides' lines (`merge=union` in the user's .gitattributes)
+ *
+ * Saves only append what they changed, under a file lock, so Cline instances saving at the same time keep each other's
+ * changes. Reading folds the journal over the snapshot.
  */
 export class LLMContextManager {
   private workspaceRoot: string;
   private context: LLMContext = {};
   private contextPath: string;
+  private sessionId: string;
+  // Changes made through the mutators, written by the next save()
+  private pendingOps: LLMContextOp[] = [];
 
-  constructor(workspaceRoot: string) {
+  /**
+   * @param sessionId - Identifies this session's changes, e.g. the task ID; modified_this_session belongs to the
+   *                    latest session that modified files
+   */
+  constructor(workspaceRoot: string, sessionId: string = ulid()) {
     this.workspaceRoot = workspaceRoot;
-    this.contextPath = path.join(workspaceRoot, ".cline", "llm-context.yaml");
+    this.contextPath = path.join(workspaceRoot, LLM_CONTEXT_FILE);
+    this.sessionId = sessionId;
+  }
+
+  private get journalPath(): string {
+    return this.contextPath.replace(/\.ya?ml$/, "") + ".journal.jsonl";
+  }
+
+  /**
+   * Whether the workspace keeps an LLM context at the current location
+   */
+  exists(): boolean {
+    return fs.existsSync(this.contextPath) || fs.existsSync(this.journalPath);
   }
 
   /**
    * Load LLM context from file
-   * Returns the context wrapped in XML tags for injection into prompts
+   * Returns a summary of the context that fits in maxTokens, wrapped in XML tags for injection into prompts
    */
-  async load(): Promise<string> {
+  async load(maxTokens: number = DEFAULT_LLM_CONTEXT_TOKENS): Promise<string> {
     const locations = [
       path.join(this.workspaceRoot, ".cline", "llm-context.yaml"),
       path.join(this.workspaceRoot, ".cline", "llm-context.md"),
@@ -29,17 +69,23 @@ export class LLMContextManager {
     ];
 
     for (const loc of locations) {
-      if (fs.existsSync(loc)) {
-        try {
-          const content = fs.readFileSync(loc, "utf-8");
-          if (loc.endsWith(".yaml") || loc.endsWith(".yml")) {
-            this.context = yaml.load(content) as LLMContext;
-            this.contextPath = loc;
-          }
-          return `<llm_context>\n${content}\n</llm_context>`;
-        } catch (e) {
-          console.error("Failed to load llm-context:", e);
+      const journal = loc.replace(/\.yaml$/, "") + ".journal.jsonl";
+      if (!fs.existsSync(loc) && !(loc.endsWith(".yaml") && fs.existsSync(journal))) {
+        continue;
+      }
+      try {
+        let summary: string;
+        if (loc.endsWith(".yaml")) {
+          this.contextPath = loc;
+          this.context = (await this.read()).context;
+          summary = summarizeLLMContext(this.context, maxTokens);
+        } else {
+          // Markdown context is written by hand, so it's passed on as it is
+          summary = truncateToTokens(fs.readFileSync(loc, "utf-8").trim(), maxTokens);
         }
+        return summary ? `<llm_context>\n${summary}\n</llm_context>` : "";
+      } catch (e) {
+        console.error("Failed to load llm-context:", e);
       }
     }
 
@@ -47,7 +93,7 @@ export class LLMContextManager {
   }
 
   /**
-   * Save LLM context updates
+   * Save LLM context updates, along with the changes made through the mutators since the last save
    */
   async save(updates: {
     lastAction?: string;
@@ -56,51 +102,52 @@ export class LLMContextManager {
     sessionNotes?: string;
     decisions?: Array<{ date: string; decision: string; rationale?: string }>;
   }): Promise<void> {
-    // Ensure directory exists
-    const dir = path.dirname(this.contextPath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
+    const ops = this.pendingOps;
+    this.pendingOps = [];
 
-    // Load existing if exists
-    let existing: LLMContext = this.context;
-    if (fs.existsSync(this.contextPath)) {
-      try {
-        existing = yaml.load(fs.readFileSync(this.contextPath, "utf-8")) as LLMContext;
-      } catch {
-        // Start fresh if parse fails
-      }
+    ops.push({ op: "state", last_action: updates.lastAction, active_task: updates.activeTask });
+    if (updates.modifiedFiles && updates.modifiedFiles.length > 0) {
+      ops.push({ op: "modified_files", files: updates.modifiedFiles });
+    }
+    if (updates.sessionNotes) {
+      ops.push({ op: "notes", text: updates.sessionNotes });
+    }
+    for (const decision of updates.decisions || []) {
+      ops.push({ op: "decision", ...decision });
     }
 
-    // Merge updates
-    const updated: LLMContext = {
-      ...existing,
-      llm_context_version: 1,
-      state: {
-        ...existing.state,
-        last_session: new Date().toISOString(),
-        last_action: updates.lastAction || existing.state?.last_action,
-        active_task: updates.activeTask !== undefined ? updates.activeTask : existing.state?.active_task,
-      },
-      files: {
-        ...existing.files,
-        modified_this_session: updates.modifiedFiles || [],
-      },
-      session_notes: updates.sessionNotes || existing.session_notes,
-    };
+    await this.append(ops);
+  }
 
-    // Append new decisions if provided
-    if (updates.decisions && updates.decisions.length > 0) {
-      updated.decisions = [...(existing.decisions || []), ...updates.decisions];
-      // Keep only last 20 decisions
-      if (updated.decisions.length > 20) {
-        updated.decisions = updated.decisions.slice(-20);
-      }
+  /**
+   * Record a file modified in this session. Nothing is written for workspaces that don't keep an LLM context.
+   */
+  async recordModifiedFile(filePath: string): Promise<void> {
+    if (!this.exists()) return;
+    try {
+      await this.append([{ op: "modified_files", files: [filePath] }]);
+    } catch (e) {
+      console.error("Failed to record modified file in llm-context:", e);
     }
+  }
 
-    // Write with nice formatting
-    fs.writeFileSync(this.contextPath, yaml.dump(updated, { lineWidth: -1 }));
-    this.context = updated;
+  /**
+   * Record every file the tracker sees modified in files.modified_this_session
+   * @returns a function that stops recording
+   */
+  trackModifiedFiles(tracker: FileContextTracker): () => void {
+    return tracker.onFileModified((filePath) => this.recordModifiedFile(filePath));
+  }
+
+  /**
+   * Fold the journal into the snapshot and start a new journal
+   */
+  async compact(): Promise<void> {
+    await this.withLock(async (lock) => {
+      const { context } = await this.read();
+      await this.writeSnapshot(context, lock);
+      this.context = context;
+    });
   }
 
   /**
@@ -114,58 +161,36 @@ export class LLMContextManager {
    * Update a specific field in context
    */
   updateField<K extends keyof LLMContext>(key: K, value: LLMContext[K]): void {
-    this.context[key] = value;
+    this.record({ op: "set", key, value });
   }
 
   /**
    * Mark a task as blocked
    */
   addBlocker(task: string, reason: string): void {
-    if (!this.context.state) {
-      this.context.state = {};
-    }
-    if (!this.context.state.blocked) {
-      this.context.state.blocked = [];
-    }
-    this.context.state.blocked.push({ task, reason });
+    this.record({ op: "block", task, reason });
   }
 
   /**
    * Remove a blocker
    */
   removeBlocker(task: string): void {
-    if (this.context.state?.blocked) {
-      this.context.state.blocked = this.context.state.blocked.filter((b) => b.task !== task);
-    }
+    this.record({ op: "unblock", task });
   }
 
   /**
    * Add a file to the hot files list
    */
   addHotFile(filePath: string): void {
-    if (!this.context.files) {
-      this.context.files = {};
-    }
-    if (!this.context.files.hot) {
-      this.context.files.hot = [];
-    }
-    if (!this.context.files.hot.includes(filePath)) {
-      this.context.files.hot.push(filePath);
-      // Keep only last 10 hot files
-      if (this.context.files.hot.length > 10) {
-        this.context.files.hot = this.context.files.hot.slice(-10);
-      }
-    }
+    this.record({ op: "hot_file", path: filePath });
   }
 
   /**
    * Record a decision
    */
   addDecision(decision: string, rationale?: string): void {
-    if (!this.context.decisions) {
-      this.context.decisions = [];
-    }
-    this.context.decisions.push({
+    this.record({
+      op: "decision",
       date: new Date().toISOString().split("T")[0],
       decision,
       rationale,
@@ -176,67 +201,275 @@ export class LLMContextManager {
    * Add technical debt marker
    */
   addDebt(file: string, line: number, type: "TODO" | "HACK" | "FIXME", note: string): void {
-    if (!this.context.debt) {
-      this.context.debt = [];
-    }
-    this.context.debt.push({ file, line, type, note });
+    this.record({ op: "debt", file, line, type, note });
   }
 
   /**
    * Update momentum indicators
    */
   updateMomentum(velocity: "low" | "medium" | "high", risk?: string): void {
-    if (!this.context.momentum) {
-      this.context.momentum = {};
-    }
-    this.context.momentum.velocity = velocity;
-    this.context.momentum.risk = risk || null;
-    this.context.momentum.blockers_count = this.context.state?.blocked?.length || 0;
+    this.record({ op: "momentum", velocity, risk: risk || null });
   }
 
   /**
    * Create initial context file if it doesn't exist
    */
   async initializeIfNeeded(): Promise<void> {
-    if (!fs.existsSync(this.contextPath)) {
-      const initial: LLMContext = {
-        llm_context_version: 1,
-        state: {
-          active_task: null,
-          blocked: [],
-          next_tasks: [],
-          git_branch: undefined,
-          last_session: undefined,
-          last_action: undefined,
-        },
-        decisions: [],
-        files: {
-          hot: [],
-          modified_this_session: [],
-          do_not_modify: [],
-        },
-        tests: {
-          failing: [],
-          skipped: [],
-        },
-        debt: [],
-        momentum: {
-          velocity: "medium",
-          blockers_count: 0,
-          risk: null,
-        },
-        session_notes: "",
-        human_context: {},
-      };
+    if (this.exists()) return;
 
-      // Ensure directory exists
-      const dir = path.dirname(this.contextPath);
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
+    const initial: LLMContext = {
+      llm_context_version: 1,
+      state: {
+        active_task: null,
+        blocked: [],
+        next_tasks: [],
+        git_branch: undefined,
+        last_session: undefined,
+        last_action: undefined,
+      },
+      decisions: [],
+      files: {
+        hot: [],
+        modified_this_session: [],
+        do_not_modify: [],
+      },
+      tests: {
+        failing: [],
+        skipped: [],
+      },
+      debt: [],
+      momentum: {
+        velocity: "medium",
+        blockers_count: 0,
+        risk: null,
+      },
+      session_notes: "",
+      human_context: {},
+    };
 
-      fs.writeFileSync(this.contextPath, yaml.dump(initial, { lineWidth: -1 }));
+    await this.withLock(async (lock) => {
+      // Another instance may have created it while this one waited for the lock
+      if (this.exists()) return;
+      await this.writeSnapshot(initial, lock);
       this.context = initial;
+    });
+  }
+
+  private record(op: LLMContextOp): void {
+    this.pendingOps.push(op);
+    applyLLMContextOp(this.context, op, this.sessionId, new Date().toISOString());
+  }
+
+  private async withLock<T>(operation: (lock: FileLock) => Promise<T>): Promise<T> {
+    await fs.promises.mkdir(path.dirname(this.contextPath), { recursive: true });
+    return withFileLock(this.contextPath, operation);
+  }
+
+  private async append(ops: LLMContextOp[]): Promise<void> {
+    const entry: LLMContextJournalEntry = {
+      id: ulid(),
+      ts: new Date().toISOString(),
+      session: this.sessionId,
+      ops,
+    };
+
+    await this.withLock(async (lock) => {
+      await fs.promises.appendFile(this.journalPath, JSON.stringify(entry) + "\n", "utf-8");
+
+      const { context, entries } = await this.read();
+      if (entries >= COMPACT_AFTER_ENTRIES) {
+        await this.writeSnapshot(context, lock);
+      }
+      this.context = context;
+    });
+  }
+
+  /**
+   * Read the snapshot with the journal folded over it
+   */
+  private async read(): Promise<{ context: LLMContext; entries: number }> {
+    let context: LLMContext = {};
+    if (fs.existsSync(this.contextPath)) {
+      context = (yaml.load(await fs.promises.readFile(this.contextPath, "utf-8")) as LLMContext) || {};
+    }
+
+    const entries = await this.readJournal();
+    for (const entry of entries) {
+      for (const op of entry.ops) {
+        applyLLMContextOp(context, op, entry.session, entry.ts);
+      }
+    }
+    return { context, entries: entries.length };
+  }
+
+  private async readJournal(): Promise<LLMContextJournalEntry[]> {
+    if (!fs.existsSync(this.journalPath)) return [];
+
+    // A merge can repeat lines and interleave both sides' entries, so entries are deduplicated and put back in order
+    const entries = new Map<string, LLMContextJournalEntry>();
+    for (const line of (await fs.promises.readFile(this.journalPath, "utf-8")).split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as LLMContextJournalEntry;
+        if (entry.id && Array.isArray(entry.ops)) {
+          entries.set(entry.id, entry);
+        }
+      } catch {
+        console.warn(`Skipping unreadable llm-context journal line: ${line}`);
+      }
     }
+    return [...entries.values()].sort((a, b) => a.ts.localeCompare(b.ts));
   }
+
+  /**
+   * Replace the snapshot and clear the journal it now includes. Only called while holding the lock.
+   *
+   * Ownership is checked again before each step: if another instance took the lock over while this one was paused,
+   * its snapshot and the saves it journaled are left alone.
+   */
+  private async writeSnapshot(context: LLMContext, lock: FileLock): Promise<void> {
+    const tempPath = `${this.contextPath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, yaml.dump({ ...context, llm_context_version: 1 }, { lineWidth: -1 }));
+    try {
+      await lock.assertHeld();
+      await fs.promises.rename(tempPath, this.contextPath);
+    } catch (e) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw e;
+    }
+    await lock.assertHeld();
+    await fs.promises.rm(this.journalPath, { force: true });
+  }
+}
+
+/**
+ * Apply one journaled change to a context
+ */
+export function applyLLMContextOp(context: LLMContext, op: LLMContextOp, session: string, ts: string): void {
+  switch (op.op) {
+    case "state":
+      context.state = {
+        ...context.state,
+        last_session: ts,
+        last_action: op.last_action ?? context.state?.last_action,
+        active_task: op.active_task !== undefined ? op.active_task : context.state?.active_task,
+      };
+      break;
+    case "modified_files": {
+      const files = (context.files = context.files || {});
+      // A new session starts a new list; the same session adds to it
+      const existing = files.modified_session === session ? files.modified_this_session || [] : [];
+      files.modified_this_session = [...new Set([...existing, ...op.files])];
+      files.modified_session = session;
+      break;
+    }
+    case "notes":
+      context.session_notes = op.text;
+      break;
+    case "decision":
+      context.decisions = [
+        ...(context.decisions || []),
+        { date: op.date, decision: op.decision, ...(op.rationale ? { rationale: op.rationale } : {}) },
+      ];
+      break;
+    case "block":
+      context.state = { ...context.state };
+      context.state.blocked = [
+        ...(context.state.blocked || []).filter((b) => b.task !== op.task),
+        { task: op.task, reason: op.reason },
+      ];
+      break;
+    case "unblock":
+      if (context.state?.blocked) {
+        context.state.blocked = context.state.blocked.filter((b) => b.task !== op.task);
+      }
+      break;
+    case "hot_file": {
+      const files = (context.files = context.files || {});
+      // Most recent last, keeping only the last 10 hot files
+      files.hot = [...(files.hot || []).filter((f) => f !== op.path), op.path].slice(-MAX_HOT_FILES);
+      break;
+    }
+    case "debt":
+      context.debt = [...(context.debt || []), { file: op.file, line: op.line, type: op.type, note: op.note }];
+      break;
+    case "momentum":
+      context.momentum = {
+        ...context.momentum,
+        velocity: op.velocity,
+        risk: op.risk,
+        blockers_count: context.state?.blocked?.length || 0,
+      };
+      break;
+    case "set":
+      (context as Record<string, unknown>)[op.key] = op.value;
+      break;
+  }
+}
+
+/**
+ * Summarize a context for a prompt, most important parts first, leaving out what doesn't fit in maxTokens
+ */
+export function summarizeLLMContext(context: LLMContext, maxTokens: number = DEFAULT_LLM_CONTEXT_TOKENS): string {
+  const lines: string[] = [];
+  let remaining = maxTokens * CHARS_PER_TOKEN;
+
+  const add = (line: string): boolean => {
+    if (line.length + 1 > remaining) return false;
+    lines.push(line);
+    remaining -= line.length + 1;
+    return true;
+  };
+  // Long text is cut to what's left of the budget rather than left out
+  const addText = (title: string, text: string) => {
+    if (!add(`${title}:`)) return;
+    const truncated = truncateToTokens(text, Math.floor((remaining - 1) / CHARS_PER_TOKEN));
+    if (truncated) add(truncated);
+  };
+  const addList = (title: string, items: string[] | undefined) => {
+    if (!items || items.length === 0 || !add(`${title}:`)) return;
+    const shown = items.findIndex((item) => !add(`- ${item}`));
+    if (shown !== -1) {
+      add(`- ... and ${items.length - shown} more`);
+    }
+  };
+
+  const { state, files, tests, momentum } = context;
+  if (state?.active_task) add(`Active task: ${state.active_task}`);
+  if (state?.last_action) add(`Last action: ${state.last_action}`);
+  if (state?.last_session) add(`Last session: ${state.last_session}`);
+  if (state?.git_branch) add(`Git branch: ${state.git_branch}`);
+  addList("Blocked", state?.blocked?.map((b) => `${b.task}: ${b.reason}`));
+  addList("Next tasks", state?.next_tasks);
+  addList("Do not modify", files?.do_not_modify);
+  addList("Failing tests", tests?.failing);
+  addList("Modified in the last session", files?.modified_this_session);
+  // Newest first, so older decisions are the ones left out
+  addList(
+    "Recent decisions",
+    [...(context.decisions || [])]
+      .reverse()
+      .map((d) => `${d.date}: ${d.decision}${d.rationale ? ` (${d.rationale})` : ""}`),
+  );
+  addList("Hot files", files?.hot);
+  addList("Debt", context.debt?.map((d) => `${d.file}:${d.line} ${d.type} ${d.note}`));
+  if (momentum?.velocity) {
+    add(`Momentum: ${momentum.velocity} velocity${momentum.risk ? `, risk: ${momentum.risk}` : ""}`);
+  }
+  addList("Skipped tests", tests?.skipped);
+  if (context.session_notes?.trim()) {
+    addText("Session notes", context.session_notes.trim());
+  }
+  if (context.human_context && Object.keys(context.human_context).length > 0) {
+    addText("Human context", yaml.dump(context.human_context, { lineWidth: -1 }).trim());
+  }
+
+  return lines.join("\n");
+}
+
+function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) return text;
+  const marker = "\n... (truncated)";
+  return maxChars > marker.length ? text.slice(0, maxChars - marker.length) + marker : "";
 }
@@ -0,0 +1,179 @@
+import type { LLMContext } from "@shared/architect-types"
+import { expect } from "chai"
+import * as fs from "fs"
+import * as yaml from "js-yaml"
+import { afterEach, beforeEach, describe, it } from "mocha"
+import * as os from "os"
+import * as path from "path"
+import type { FileContextTracker } from "../context-tracking/FileContextTracker"
+import { LLMContextManager, summarizeLLMContext } from "../LLMContextManager"
+
+describe("LLMContextManager", () => {
+	let workspaceRoot: string
+	let contextFile: string
+	let journalFile: string
+
+	const readJournal = () =>
+		fs
+			.readFileSync(journalFile, "utf-8")
+			.trim()
+			.split("\n")
+			.map((line) => JSON.parse(line))
+
+	beforeEach(() => {
+		workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), "llm-context-"))
+		contextFile = path.join(workspaceRoot, ".cline", "llm-context.yaml")
+		journalFile = path.join(workspaceRoot, ".cline", "llm-context.journal.jsonl")
+	})
+
+	afterEach(() => {
+		fs.rmSync(workspaceRoot, { recursive: true, force: true })
+	})
+
+	it("should append saves to the journal without rewriting the snapshot", async () => {
+		const manager = new LLMContextManager(workspaceRoot, "session-1")
+		await manager.initializeIfNeeded()
+		const snapshot = fs.readFileSync(contextFile, "utf-8")
+
+		await manager.save({ lastAction: "Wrote the parser", activeTask: "Parser" })
+		await manager.save({ decisions: [{ date: "2026-10-01", decision: "Use zod" }] })
+
+		expect(fs.readFileSync(contextFile, "utf-8")).to.equal(snapshot)
+		const entries = readJournal()
+		expect(entries).to.have.length(2)
+		expect(entries[0].session).to.equal("session-1")
+		expect(manager.getContext().state?.active_task).to.equal("Parser")
+		expect(manager.getContext().decisions).to.deep.equal([{ date: "2026-10-01", decision: "Use zod" }])
+		expect(fs.readdirSync(path.join(workspaceRoot, ".cline")).sort()).to.deep.equal([
+			"llm-context.journal.jsonl",
+			"llm-context.yaml",
+		])
+	})
+
+	it("should keep every change when two instances save at the same time", async () => {
+		const first = new LLMContextManager(workspaceRoot, "window-1")
+		const second = new LLMContextManager(workspaceRoot, "window-2")
+		await first.initializeIfNeeded()
+
+		await Promise.all(
+			Array.from({ length: 30 }, (_, i) =>
+				(i % 2 ? first : second).save({ decisions: [{ date: "2026-10-01", decision: `decision ${i}` }] }),
+			),
+		)
+
+		await first.load()
+		expect(first.getContext().decisions).to.have.length(30)
+	})
+
+	it("should fold the journal into the snapshot when compacting, keeping all decisions", async () => {
+		const manager = new LLMContextManager(workspaceRoot, "session-1")
+		for (let i = 0; i < 25; i++) {
+			manager.addDecision(`decision ${i}`)
+		}
+		manager.addBlocker("deploy", "waiting on credentials")
+		await manager.save({ lastAction: "Planned" })
+		await manager.compact()
+
+		expect(fs.existsSync(journalFile)).to.equal(false)
+		const snapshot = yaml.load(fs.readFileSync(contextFile, "utf-8")) as LLMContext
+		expect(snapshot.decisions).to.have.length(25)
+		expect(snapshot.state?.blocked).to.deep.equal([{ task: "deploy", reason: "waiting on credentials" }])
+		expect(snapshot.state?.last_action).to.equal("Planned")
+
+		await new LLMContextManager(workspaceRoot).load()
+		expect(fs.existsSync(journalFile)).to.equal(false)
+	})
+
+	it("should record files the tracker sees modified, starting a new list each session", async () => {
+		let listener: ((filePath: string) => void) | undefined
+		const tracker = {
+			onFileModified: (l: (filePath: string) => void) => {
+				listener = l
+				return () => {}
+			},
+		} as unknown as FileContextTracker
+
+		const previous = new LLMContextManager(workspaceRoot, "task-1")
+		await previous.initializeIfNeeded()
+		await previous.save({ modifiedFiles: ["old.ts"] })
+
+		const manager = new LLMContextManager(workspaceRoot, "task-2")
+		manager.trackModifiedFiles(tracker)
+		await manager.recordModifiedFile("src/a.ts")
+		await manager.recordModifiedFile("src/b.ts")
+		await manager.recordModifiedFile("src/a.ts")
+		listener!("src/c.ts")
+		await manager.compact()
+
+		const snapshot = yaml.load(fs.readFileSync(contextFile, "utf-8")) as LLMContext
+		expect(snapshot.files?.modified_this_session).to.have.members(["src/a.ts", "src/b.ts", "src/c.ts"])
+	})
+
+	it("should not create a context for workspaces that don't keep one", async () => {
+		const manager = new LLMContextManager(workspaceRoot)
+		await manager.recordModifiedFile("src/a.ts")
+
+		expect(fs.existsSync(path.join(workspaceRoot, ".cline"))).to.equal(false)
+		expect(await manager.load()).to.equal("")
+	})
+
+	it("should merge journals from both sides of a git merge in order", async () => {
+		const manager = new LLMContextManager(workspaceRoot)
+		await manager.initializeIfNeeded()
+		const entry = (id: string, ts: string, lastAction: string) =>
+			JSON.stringify({ id, ts, session: id, ops: [{ op: "state", last_action: lastAction }] })
+		// A union merge puts one side's lines after the other's, and can repeat a line both sides had
+		fs.writeFileSync(
+			journalFile,
+			[
+				entry("a", "2026-10-01T10:00:00.000Z", "first"),
+				entry("c", "2026-10-01T12:00:00.000Z", "latest"),
+				entry("b", "2026-10-01T11:00:00.000Z", "second"),
+				entry("a", "2026-10-01T10:00:00.000Z", "first"),
+			].join("\n"),
+		)
+
+		expect(await manager.load()).to.contain("Last action: latest")
+	})
+
+	it("should return a summary that fits the token budget", async () => {
+		const manager = new LLMContextManager(workspaceRoot)
+		await manager.initializeIfNeeded()
+		for (let i = 0; i < 200; i++) {
+			manager.addDecision(`decision number ${i} with some explanation of why it was made`)
+		}
+		await manager.save({ activeTask: "Ship the release", sessionNotes: "x".repeat(10_000) })
+
+		const summary = await manager.load(300)
+		expect(summary.length).to.be.at.most(300 * 4 + "<llm_context>\n\n</llm_context>".length)
+		expect(summary).to.contain("Active task: Ship the release")
+		expect(summary).to.contain("decision number 199")
+		expect(summary).to.contain("more")
+	})
+})
+
+describe("summarizeLLMContext", () => {
+	it("should put the most important parts first", () => {
+		const summary = summarizeLLMContext({
+			state: { active_task: "Refactor", blocked: [{ task: "deploy", reason: "no access" }] },
+			files: { do_not_modify: ["vendor/"], modified_this_session: ["src/a.ts"] },
+			decisions: [
+				{ date: "2026-10-01", decision: "older" },
+				{ date: "2026-10-02", decision: "newer", rationale: "faster" },
+			],
+		})
+
+		expect(summary.split("\n")).to.deep.equal([
+			"Active task: Refactor",
+			"Blocked:",
+			"- deploy: no access",
+			"Do not modify:",
+			"- vendor/",
+			"Modified in the last session:",
+			"- src/a.ts",
+			"Recent decisions:",
+			"- 2026-10-02: newer (faster)",
+			"- 2026-10-01: older",
+		])
+	})
+})
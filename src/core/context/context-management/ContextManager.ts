@@ -7,6 +7,7 @@ import { fileExistsAtPath } from "@utils/fs"
 import cloneDeep from "clone-deep"
 import fs from "fs/promises"
 import * as path from "path"
+import { summarizeMessages } from "./context-summarization"
 import { getContextWindowInfo } from "./context-window-utils"
 
 enum EditType {
@@ -21,6 +22,10 @@ enum EditType {
 type MessageContent = string[]
 type MessageMetadata = string[][]
 
+// metadata tag on the first assistant message update that holds a summary of the truncated history
+// metadata format: [[CONTEXT_SUMMARY, firstSummarizedIndex, lastSummarizedIndex], [summary]]
+const CONTEXT_SUMMARY = "context_summary"
+
 // Type for a single context update
 type ContextUpdate = [number, string, MessageContent, MessageMetadata] // [timestamp, updateType, update, metadata]
 
@@ -225,8 +230,10 @@ export class ContextManager {
 		previousApiReqIndex: number,
 		taskDirectory: string,
 		useAutoCondense: boolean, // option to use new auto-condense or old programmatic context management
+		summarizationApi?: ApiHandler, // when set, truncated messages are summarized with this model instead of just dropped
 	) {
 		let updatedConversationHistoryDeletedRange = false
+		let contextSummaryUsage: ClineApiReqInfo | undefined
 
 		if (!useAutoCondense) {
 			// If the previous API request's total token usage is close to the context window, truncate the conversation history to free up space for the new request
@@ -252,16 +259,30 @@ export class ContextManager {
 						)
 
 						if (needToTruncate) {
-							// go ahead with truncation
-							anyContextUpdates = this.applyStandardContextTruncationNoticeChange(timestamp) || anyContextUpdates
-
 							// NOTE: it's okay that we overwriteConversationHistory in resume task since we're only ever removing the last user message and not anything in the middle which would affect this range
-							conversationHistoryDeletedRange = this.getNextTruncationRange(
+							const nextDeletedRange = this.getNextTruncationRange(
 								apiConversationHistory,
 								conversationHistoryDeletedRange,
 								keep,
 							)
 
+							// go ahead with truncation, replacing the dropped messages with a summary if we can
+							contextSummaryUsage =
+								summarizationApi &&
+								(await this.applyContextSummaryChange(
+									apiConversationHistory,
+									conversationHistoryDeletedRange,
+									nextDeletedRange,
+									summarizationApi,
+									timestamp,
+								))
+							anyContextUpdates =
+								contextSummaryUsage !== undefined ||
+								this.applyStandardContextTruncationNoticeChange(timestamp) ||
+								anyContextUpdates
+
+							conversationHistoryDeletedRange = nextDeletedRange
+
 							updatedConversationHistoryDeletedRange = true
 						}
 
@@ -283,6 +304,7 @@ export class ContextManager {
 			conversationHistoryDeletedRange: conversationHistoryDeletedRange,
 			updatedConversationHistoryDeletedRange: updatedConversationHistoryDeletedRange,
 			truncatedConversationHistory: truncatedConversationHistory,
+			contextSummaryUsage: contextSummaryUsage, // what summarizing the truncated messages used, if they were
 		}
 	}
 
@@ -713,6 +735,65 @@ export class ContextManager {
 		return false
 	}
 
+	/**
+	 * summarizes the messages a truncation is about to remove, together with the summary of any earlier truncation,
+	 * and records the summary as an update to the first assistant message. The messages stay in the conversation
+	 * history, so truncating the context history at an earlier timestamp (e.g. restoring a checkpoint) brings back
+	 * the previous summary or notice. Returns what the summarization request used, or undefined if there was nothing
+	 * to summarize or summarization failed.
+	 */
+	private async applyContextSummaryChange(
+		apiMessages: Anthropic.Messages.MessageParam[],
+		currentDeletedRange: [number, number] | undefined,
+		nextDeletedRange: [number, number],
+		summarizationApi: ApiHandler,
+		timestamp: number,
+	): Promise<ClineApiReqInfo | undefined> {
+		const startIndex = currentDeletedRange ? currentDeletedRange[1] + 1 : 2
+		const endIndex = nextDeletedRange[1]
+		if (endIndex < startIndex) {
+			return undefined
+		}
+
+		let summary: string
+		let usage: ClineApiReqInfo
+		try {
+			;({ summary, usage } = await summarizeMessages(
+				summarizationApi,
+				apiMessages.slice(startIndex, endIndex + 1),
+				this.getLatestContextSummary(),
+			))
+		} catch (error) {
+			console.error("Failed to summarize truncated context, falling back to the truncation notice:", error)
+			return undefined
+		}
+
+		// first assistant message always at index 1
+		let innerTuple = this.contextHistoryUpdates.get(1)
+		if (!innerTuple) {
+			innerTuple = [EditType.UNDEFINED, new Map<number, ContextUpdate[]>()]
+			this.contextHistoryUpdates.set(1, innerTuple)
+		}
+		const updates = innerTuple[1].get(0) || []
+		updates.push([
+			timestamp,
+			"text",
+			[formatResponse.contextSummaryNotice(summary)],
+			[[CONTEXT_SUMMARY, String(startIndex), String(endIndex)], [summary]],
+		])
+		innerTuple[1].set(0, updates)
+		return usage
+	}
+
+	/**
+	 * the summary currently standing in for truncated history, if the latest truncation was summarized
+	 */
+	getLatestContextSummary(): string | undefined {
+		const updates = this.contextHistoryUpdates.get(1)?.[1].get(0)
+		const metadata = updates?.[updates.length - 1][3]
+		return metadata?.[0]?.[0] === CONTEXT_SUMMARY ? metadata[1]?.[0] : undefined
+	}
+
 	/**
 	 * Replace the first user message when context window is compacted
 	 */
@@ -1,5 +1,12 @@
 import { Anthropic } from "@anthropic-ai/sdk"
+import { type ApiHandler, buildApiHandler } from "@core/api"
+import type { ApiConfiguration } from "@shared/api"
+import type { ClineMessage } from "@shared/ExtensionMessage"
 import { expect } from "chai"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { formatMessagesForSummary, getSummarizationConfiguration } from "../context-summarization"
 import { ContextManager } from "../ContextManager"
 
 describe("ContextManager", () => {
@@ -381,4 +388,215 @@ describe("ContextManager", () => {
 			expect((content[0] as Anthropic.Messages.TextBlockParam).text).to.equal("Additional user text")
 		})
 	})
+
+	describe("getNewContextMessagesAndMetadata with a summarization model", () => {
+		let contextManager: ContextManager
+		let taskDirectory: string
+		let prompts: string[]
+
+		const api = { getModel: () => ({ id: "task-model", info: { contextWindow: 200_000 } }) } as unknown as ApiHandler
+
+		const summarizer = (summary: string | Error) =>
+			({
+				getModel: () => ({ id: "cheap-model", info: { contextWindow: 200_000 } }),
+				async *createMessage(_systemPrompt: string, messages: Anthropic.Messages.MessageParam[]) {
+					prompts.push((messages[0].content as Anthropic.Messages.TextBlockParam[])[0].text)
+					if (summary instanceof Error) {
+						throw summary
+					}
+					yield { type: "text", text: summary }
+					yield { type: "usage", inputTokens: 1_000, outputTokens: 200, totalCost: 0.01 }
+				},
+			}) as unknown as ApiHandler
+
+		// Text blocks rather than strings, so context history updates can be applied
+		const messages: Anthropic.Messages.MessageParam[] = Array.from({ length: 11 }, (_, i) => ({
+			role: i % 2 === 0 ? "user" : "assistant",
+			content: [{ type: "text", text: i === 0 ? "Initial task" : `Message ${i}` }],
+		}))
+
+		const nearLimit = (ts: number): ClineMessage[] => [
+			{ ts, type: "say", say: "api_req_started", text: JSON.stringify({ tokensIn: 170_000 }) },
+		]
+
+		const firstAssistantText = (history: Anthropic.Messages.MessageParam[]) =>
+			(history[1].content as Anthropic.Messages.TextBlockParam[])[0].text
+
+		beforeEach(() => {
+			contextManager = new ContextManager()
+			taskDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "context-summary-"))
+			prompts = []
+		})
+
+		afterEach(() => {
+			fs.rmSync(taskDirectory, { recursive: true, force: true })
+		})
+
+		it("replaces truncated messages with a summary that can be reverted", async () => {
+			const result = await contextManager.getNewContextMessagesAndMetadata(
+				messages,
+				nearLimit(1000),
+				api,
+				undefined,
+				0,
+				taskDirectory,
+				false,
+				summarizer("They discussed messages 2 to 5."),
+			)
+
+			expect(result.conversationHistoryDeletedRange).to.deep.equal([2, 5])
+			expect(prompts[0]).to.contain("Message 2").and.contain("Message 5").and.not.contain("Message 6")
+			expect(firstAssistantText(result.truncatedConversationHistory)).to.contain(
+				"<conversation_summary>\nThey discussed messages 2 to 5.\n</conversation_summary>",
+			)
+			expect(contextManager.getLatestContextSummary()).to.equal("They discussed messages 2 to 5.")
+			expect(result.contextSummaryUsage).to.deep.include({
+				request: "Context summary",
+				tokensIn: 1_000,
+				tokensOut: 200,
+				cost: 0.01,
+			})
+			expect(messages[1].content).to.deep.equal([{ type: "text", text: "Message 1" }])
+
+			// Restoring a checkpoint from before the summary puts the original message back
+			await contextManager.truncateContextHistory(999, taskDirectory)
+			expect(contextManager.getLatestContextSummary()).to.equal(undefined)
+			expect(firstAssistantText(contextManager.getTruncatedMessages(messages, undefined))).to.equal("Message 1")
+		})
+
+		it("folds the previous summary into the next one", async () => {
+			const first = await contextManager.getNewContextMessagesAndMetadata(
+				messages,
+				nearLimit(1000),
+				api,
+				undefined,
+				0,
+				taskDirectory,
+				false,
+				summarizer("First summary"),
+			)
+
+			// A new manager reads the summary back from the context history file
+			const reloaded = new ContextManager()
+			await reloaded.initializeContextHistory(taskDirectory)
+			await reloaded.getNewContextMessagesAndMetadata(
+				messages,
+				nearLimit(2000),
+				api,
+				first.conversationHistoryDeletedRange,
+				0,
+				taskDirectory,
+				false,
+				summarizer("Second summary"),
+			)
+
+			expect(prompts[1]).to.contain("<previous_summary>\nFirst summary\n</previous_summary>")
+			expect(prompts[1]).to.contain("Message 6").and.not.contain("Message 5")
+			expect(reloaded.getLatestContextSummary()).to.equal("Second summary")
+		})
+
+		it("falls back to the truncation notice when summarization fails", async () => {
+			const result = await contextManager.getNewContextMessagesAndMetadata(
+				messages,
+				nearLimit(1000),
+				api,
+				undefined,
+				0,
+				taskDirectory,
+				false,
+				summarizer(new Error("rate limited")),
+			)
+
+			expect(result.conversationHistoryDeletedRange).to.deep.equal([2, 5])
+			expect(firstAssistantText(result.truncatedConversationHistory)).to.contain(
+				"[NOTE] Some previous conversation history",
+			)
+			expect(contextManager.getLatestContextSummary()).to.equal(undefined)
+			expect(result.contextSummaryUsage).to.equal(undefined)
+		})
+	})
+
+	describe("getSummarizationConfiguration", () => {
+		const summarizationModelId = (configuration: ApiConfiguration) =>
+			buildApiHandler(getSummarizationConfiguration(configuration, "act", "summary-model"), "act").getModel().id
+
+		it("selects the model in the Anthropic model fields for first-party providers", () => {
+			const configuration = getSummarizationConfiguration(
+				{ actModeApiProvider: "anthropic", actModeApiModelId: "claude-sonnet-4-5", apiKey: "key" },
+				"act",
+				"claude-haiku-4-5-20251001",
+			)
+			expect(configuration.actModeApiModelId).to.equal("claude-haiku-4-5-20251001")
+			expect(buildApiHandler(configuration, "act").getModel().id).to.equal("claude-haiku-4-5-20251001")
+		})
+
+		it("selects the model in the OpenRouter model fields for OpenRouter and Cline", () => {
+			for (const provider of ["openrouter", "cline"] as const) {
+				const configuration = getSummarizationConfiguration(
+					{
+						actModeApiProvider: provider,
+						actModeOpenRouterModelId: "anthropic/claude-sonnet-4.5",
+						actModeOpenRouterModelInfo: { supportsPromptCache: true },
+					},
+					"act",
+					"summary-model",
+				)
+				expect(configuration.actModeOpenRouterModelId).to.equal("summary-model")
+				expect(configuration.actModeOpenRouterModelInfo).to.equal(undefined)
+				expect(configuration.actModeApiModelId).to.equal(undefined)
+			}
+		})
+
+		it("selects the model in the OpenAI compatible model fields", () => {
+			expect(
+				summarizationModelId({
+					actModeApiProvider: "openai",
+					actModeOpenAiModelId: "gpt-5",
+					openAiBaseUrl: "http://localhost:1234/v1",
+					openAiApiKey: "key",
+				}),
+			).to.equal("summary-model")
+		})
+
+		it("selects the model in the local providers' model fields", () => {
+			expect(summarizationModelId({ actModeApiProvider: "ollama", actModeOllamaModelId: "llama3" })).to.equal(
+				"summary-model",
+			)
+			expect(summarizationModelId({ actModeApiProvider: "lmstudio", actModeLmStudioModelId: "qwen3" })).to.equal(
+				"summary-model",
+			)
+		})
+
+		it("uses the provider of the mode and leaves out extended thinking", () => {
+			const configuration = getSummarizationConfiguration(
+				{ planModeApiProvider: "openai", actModeApiProvider: "anthropic", planModeThinkingBudgetTokens: 4_096 },
+				"plan",
+				"summary-model",
+			)
+			expect(configuration.planModeApiProvider).to.equal("openai")
+			expect(configuration.actModeApiProvider).to.equal("openai")
+			expect(configuration.planModeOpenAiModelId).to.equal("summary-model")
+			expect(configuration.planModeThinkingBudgetTokens).to.equal(undefined)
+		})
+	})
+
+	describe("formatMessagesForSummary", () => {
+		it("leaves out the oldest messages when the transcript is too long", () => {
+			const transcript = formatMessagesForSummary(
+				[
+					{ role: "user", content: "a".repeat(100) },
+					{
+						role: "assistant",
+						content: [{ type: "tool_use", id: "tool_1", name: "read_file", input: { path: "src/a.ts" } }],
+					},
+					{ role: "user", content: [{ type: "tool_result", tool_use_id: "tool_1", content: "b".repeat(5_000) }] },
+				],
+				4_100,
+			)
+
+			expect(transcript.startsWith("[1 earlier messages omitted]")).to.equal(true)
+			expect(transcript).to.contain('ASSISTANT:\n[read_file] {"path":"src/a.ts"}')
+			expect(transcript).to.contain("[1000 characters omitted]")
+		})
+	})
 })
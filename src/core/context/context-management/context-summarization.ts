@@ -0,0 +1,122 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { ApiHandler } from "@core/api"
+import { ApiStreamUsageChunk } from "@core/api/transform/stream"
+import { getUsageApiReqInfo } from "@core/api/usage"
+import { getProviderModelConfiguration } from "@core/api/utils/model-fields"
+import { summarizeTruncatedContext } from "@core/prompts/contextManagement"
+import { ApiConfiguration } from "@shared/api"
+import { ClineApiReqInfo } from "@shared/ExtensionMessage"
+import { Mode } from "@shared/storage/types"
+import { getContextWindowInfo } from "./context-window-utils"
+
+// Long tool output and file contents are cut down to their start, the summary only needs to know what they were
+const MAX_BLOCK_CHARACTERS = 4_000
+
+// Conservative characters-per-token ratio used to keep the transcript inside the summarizer's context window
+const CHARACTERS_PER_TOKEN = 3
+
+/**
+ * Renders messages as a plain-text transcript for the summarizer. If the transcript doesn't fit in
+ * maxCharacters, the oldest messages are left out.
+ */
+export function formatMessagesForSummary(messages: Anthropic.Messages.MessageParam[], maxCharacters: number): string {
+	const rendered = messages.map((message) => {
+		const blocks = typeof message.content === "string" ? [message.content] : message.content.map(formatBlock)
+		return `${message.role.toUpperCase()}:\n${blocks.map(truncateBlock).join("\n")}`
+	})
+
+	const kept: string[] = []
+	let length = 0
+	for (let i = rendered.length - 1; i >= 0; i--) {
+		length += rendered[i].length + 2
+		if (length > maxCharacters && kept.length > 0) {
+			kept.unshift(`[${i + 1} earlier messages omitted]`)
+			break
+		}
+		kept.unshift(rendered[i])
+	}
+	return kept.join("\n\n")
+}
+
+function formatBlock(block: Anthropic.Messages.ContentBlockParam): string {
+	switch (block.type) {
+		case "text":
+			return block.text
+		case "tool_use":
+			return `[${block.name}] ${JSON.stringify(block.input)}`
+		case "tool_result":
+			if (typeof block.content === "string") {
+				return block.content
+			}
+			return (block.content ?? []).map((inner) => (inner.type === "text" ? inner.text : `[${inner.type}]`)).join("\n")
+		default:
+			return `[${block.type}]`
+	}
+}
+
+function truncateBlock(text: string): string {
+	if (text.length <= MAX_BLOCK_CHARACTERS) {
+		return text
+	}
+	return `${text.slice(0, MAX_BLOCK_CHARACTERS)}\n[${text.length - MAX_BLOCK_CHARACTERS} characters omitted]`
+}
+
+export interface ContextSummary {
+	summary: string
+	/** What the summarization request used, counted in the task's API metrics */
+	usage: ClineApiReqInfo
+}
+
+/**
+ * The configuration for the summarization model: the task's provider and credentials, with the summarization model
+ * in the model id fields that provider reads. Summaries don't need extended thinking.
+ */
+export function getSummarizationConfiguration(configuration: ApiConfiguration, mode: Mode, modelId: string): ApiConfiguration {
+	const provider = mode === "plan" ? configuration.planModeApiProvider : configuration.actModeApiProvider
+	return {
+		...getProviderModelConfiguration(configuration, provider, modelId),
+		planModeThinkingBudgetTokens: undefined,
+		actModeThinkingBudgetTokens: undefined,
+	}
+}
+
+/**
+ * Asks the summarization model for a summary of messages that are about to be truncated, folding in the
+ * summary of any history truncated before them
+ * @throws Error if the model returns no summary
+ */
+export async function summarizeMessages(
+	api: ApiHandler,
+	messages: Anthropic.Messages.MessageParam[],
+	previousSummary?: string,
+): Promise<ContextSummary> {
+	const { maxAllowedSize } = getContextWindowInfo(api)
+	const maxCharacters = maxAllowedSize * CHARACTERS_PER_TOKEN - (previousSummary?.length ?? 0)
+	const prompt = summarizeTruncatedContext(previousSummary, formatMessagesForSummary(messages, maxCharacters))
+
+	const stream = api.createMessage("You summarize conversations accurately and concisely.", [
+		{ role: "user", content: [{ type: "text", text: prompt }] },
+	])
+
+	let summary = ""
+	const usageChunks: ApiStreamUsageChunk[] = []
+	for await (const chunk of stream) {
+		if (chunk.type === "text") {
+			summary += chunk.text
+		} else if (chunk.type === "usage") {
+			usageChunks.push(chunk)
+		}
+	}
+	if (usageChunks.length === 0) {
+		const usage = await api.getApiStreamUsage?.()
+		if (usage) {
+			usageChunks.push(usage)
+		}
+	}
+
+	summary = summary.trim()
+	if (!summary) {
+		throw new Error("The summarization model returned an empty summary")
+	}
+	return { summary, usage: getUsageApiReqInfo(usageChunks, api.getModel().info, "Context summary") }
+}
@@ -29,6 +29,7 @@ export class FileContextTracker {
 	private fileWatchers = new Map<string, FSWatcher>()
 	private recentlyModifiedFiles = new Set<string>()
 	private recentlyEditedByCline = new Set<string>()
+	private fileModifiedListeners = new Set<(filePath: string) => void>()
 
 	constructor(controller: Controller, taskId: string) {
 		this.controller = controller
@@ -94,11 +95,24 @@ export class FileContextTracker {
 
 			// Set up file watcher for this file
 			await this.setupFileWatcher(filePath)
+
+			if (operation === "cline_edited" || operation === "user_edited") {
+				this.fileModifiedListeners.forEach((listener) => listener(filePath))
+			}
 		} catch (error) {
 			console.error("Failed to track file operation:", error)
 		}
 	}
 
+	/**
+	 * Registers a listener for files edited by Cline, or by the user after Cline accessed them
+	 * @returns a function that removes the listener
+	 */
+	onFileModified(listener: (filePath: string) => void): () => void {
+		this.fileModifiedListeners.add(listener)
+		return () => this.fileModifiedListeners.delete(listener)
+	}
+
 	/**
 	 * Adds a file to the metadata tracker
 	 * This handles the business logic of determining if the file is new, stale, or active.
@@ -181,6 +195,7 @@ export class FileContextTracker {
 	 * Disposes all file watchers
 	 */
 	async dispose(): Promise<void> {
+		this.fileModifiedListeners.clear()
 		const closePromises = Array.from(this.fileWatchers.values()).map((watcher) => watcher.close())
 		await Promise.all(closePromises)
 		this.fileWatchers.clear()
@@ -0,0 +1,42 @@
+import { ApprovalRuleStore } from "@core/approval/ApprovalRuleStore"
+import { ApprovalRule, ApprovalRules } from "@shared/proto/cline/approval"
+import { EmptyRequest } from "@shared/proto/cline/common"
+import { getCwd, getDesktopDir } from "@/utils/path"
+import { Controller } from ".."
+
+/**
+ * Returns the approval rule store for the current workspace
+ */
+export async function getWorkspaceApprovalRuleStore(): Promise<ApprovalRuleStore> {
+	const cwd = await getCwd(getDesktopDir())
+	return ApprovalRuleStore.forWorkspace(cwd)
+}
+
+export function toApprovalRulesResponse(store: ApprovalRuleStore): ApprovalRules {
+	return ApprovalRules.create({
+		rules: store.list().map((rule) =>
+			ApprovalRule.create({
+				pattern: rule.pattern,
+				allow: rule.allow,
+				scope: rule.scope,
+				reasoning: rule.reasoning,
+				source: rule.source,
+				createdAt: rule.createdAt,
+				updatedAt: rule.updatedAt,
+				lastUsedAt: rule.lastUsedAt,
+			}),
+		),
+		filePath: store.getFilePath() ?? "",
+	})
+}
+
+/**
+ * Lists the rules learned by the ApprovalOracle for the current workspace
+ * @param controller The controller instance
+ * @param request Empty request
+ * @returns All rules, including session rules that are not written to disk
+ */
+export async function getApprovalRules(_controller: Controller, _request: EmptyRequest): Promise<ApprovalRules> {
+	const store = await getWorkspaceApprovalRuleStore()
+	return toApprovalRulesResponse(store)
+}
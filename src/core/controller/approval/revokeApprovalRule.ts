@@ -0,0 +1,16 @@
+import { ApprovalRules } from "@shared/proto/cline/approval"
+import { StringRequest } from "@shared/proto/cline/common"
+import { Controller } from ".."
+import { getWorkspaceApprovalRuleStore, toApprovalRulesResponse } from "./getApprovalRules"
+
+/**
+ * Revokes the approval rule for a pattern so the next matching request is decided again
+ * @param controller The controller instance
+ * @param request The pattern to revoke
+ * @returns The updated list of rules
+ */
+export async function revokeApprovalRule(_controller: Controller, request: StringRequest): Promise<ApprovalRules> {
+	const store = await getWorkspaceApprovalRuleStore()
+	store.revoke(request.value)
+	return toApprovalRulesResponse(store)
+}
@@ -0,0 +1,31 @@
+import { ApprovalRuleScope } from "@shared/architect-types"
+import { ApprovalRules, UpdateApprovalRuleRequest } from "@shared/proto/cline/approval"
+import { Controller } from ".."
+import { getWorkspaceApprovalRuleStore, toApprovalRulesResponse } from "./getApprovalRules"
+
+const VALID_SCOPES: ApprovalRuleScope[] = ["once", "session", "always"]
+
+/**
+ * Updates the decision, scope or reasoning of an existing approval rule
+ * @param controller The controller instance
+ * @param request The pattern to update and the fields to change
+ * @returns The updated list of rules
+ * @throws Error if the rule does not exist or the scope is invalid
+ */
+export async function updateApprovalRule(_controller: Controller, request: UpdateApprovalRuleRequest): Promise<ApprovalRules> {
+	if (request.scope !== undefined && !VALID_SCOPES.includes(request.scope as ApprovalRuleScope)) {
+		throw new Error(`Invalid approval rule scope: ${request.scope}`)
+	}
+
+	const store = await getWorkspaceApprovalRuleStore()
+	const updated = store.update(request.pattern, {
+		allow: request.allow,
+		scope: request.scope as ApprovalRuleScope | undefined,
+		reasoning: request.reasoning,
+	})
+	if (!updated) {
+		throw new Error(`No approval rule found for pattern ${request.pattern}`)
+	}
+
+	return toApprovalRulesResponse(store)
+}
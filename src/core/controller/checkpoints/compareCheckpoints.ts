@@ -0,0 +1,10 @@
+import { CompareCheckpointsRequest } from "@shared/proto/cline/checkpoints"
+import { Empty } from "@shared/proto/cline/common"
+import { Controller } from ".."
+
+export async function compareCheckpoints(controller: Controller, request: CompareCheckpointsRequest): Promise<Empty> {
+	if (request.lhsHash && request.rhsHash) {
+		await controller.task?.checkpointManager?.compareCheckpoints?.(request.lhsHash, request.rhsHash)
+	}
+	return Empty.create()
+}
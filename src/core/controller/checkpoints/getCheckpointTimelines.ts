@@ -0,0 +1,15 @@
+import { CheckpointTimelines } from "@shared/proto/cline/checkpoints"
+import { EmptyRequest } from "@shared/proto/cline/common"
+import { Controller } from ".."
+
+export async function getCheckpointTimelines(controller: Controller, _request: EmptyRequest): Promise<CheckpointTimelines> {
+	const timelines = (await controller.task?.checkpointManager?.getTimelines?.()) ?? []
+	return CheckpointTimelines.create({
+		timelines: timelines.map((timeline) => ({
+			name: timeline.name,
+			isCurrent: timeline.isCurrent,
+			forkedFrom: timeline.forkedFrom,
+			checkpoints: timeline.checkpoints,
+		})),
+	})
+}
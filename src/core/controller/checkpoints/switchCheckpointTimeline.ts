@@ -0,0 +1,9 @@
+import { Empty, StringRequest } from "@shared/proto/cline/common"
+import { Controller } from ".."
+
+export async function switchCheckpointTimeline(controller: Controller, request: StringRequest): Promise<Empty> {
+	if (request.value) {
+		await controller.task?.checkpointManager?.switchTimeline?.(request.value)
+	}
+	return Empty.create()
+}
@@ -0,0 +1,29 @@
+import { StringRequest } from "@shared/proto/cline/common"
+import { SymbolDefinitions } from "@shared/proto/cline/file"
+import { searchSymbols as searchSymbolsUtil } from "@services/tree-sitter/symbols"
+import { getWorkspacePath } from "@utils/path"
+import { Controller } from ".."
+
+/**
+ * Searches for symbol definitions in the workspace
+ * @param controller The controller instance
+ * @param request The request message containing the search query in the 'value' field
+ * @returns SymbolDefinitions containing the matching definitions
+ */
+export async function searchSymbols(_controller: Controller, request: StringRequest): Promise<SymbolDefinitions> {
+	const cwd = await getWorkspacePath()
+	if (!cwd || !request.value) {
+		return SymbolDefinitions.create({ symbols: [] })
+	}
+
+	try {
+		const symbols = await searchSymbolsUtil(cwd, request.value)
+
+		return SymbolDefinitions.create({
+			symbols: symbols.map(({ name, kind, relativePath, startLine }) => ({ name, kind, relativePath, startLine })),
+		})
+	} catch (error) {
+		console.error(`Error searching symbols: ${JSON.stringify(error)}`)
+		return SymbolDefinitions.create({ symbols: [] })
+	}
+}
@@ -1,5 +1,6 @@
 import type { Anthropic } from "@anthropic-ai/sdk"
 import { buildApiHandler } from "@core/api"
+import { getEnabledWorkflows, getWorkflowCommandDetails, invalidateWorkflowCommandDetails } from "@core/slash-commands/workflows"
 import { tryAcquireTaskLockWithRetry } from "@core/task/TaskLockUtils"
 import { detectWorkspaceRoots } from "@core/workspace/detection"
 import { setupWorkspaceManager } from "@core/workspace/setup"
@@ -16,8 +17,9 @@ import type { Settings } from "@shared/storage/state-keys"
 import type { Mode } from "@shared/storage/types"
 import type { TelemetrySetting } from "@shared/TelemetrySetting"
 import type { UserInfo } from "@shared/UserInfo"
-import { fileExistsAtPath } from "@utils/fs"
+import { fileExistsAtPath, watchDirectory } from "@utils/fs"
 import axios from "axios"
+import type { FSWatcher } from "chokidar"
 import fs from "fs/promises"
 import open from "open"
 import pWaitFor from "p-wait-for"
@@ -38,12 +40,15 @@ import { ShowMessageType } from "@/shared/proto/host/window"
 import { getLatestAnnouncementId } from "@/utils/announcements"
 import { getCwd, getDesktopDir } from "@/utils/path"
 import { BannerService } from "../../services/banner/BannerService"
+import { PersonaLibrary, PersonaStore } from "../persona/PersonaLibrary"
 import { PromptRegistry } from "../prompts/system-prompt"
 import {
 	ensureCacheDirectoryExists,
 	ensureMcpServersDirectoryExists,
 	ensureSettingsDirectoryExists,
 	GlobalFileNames,
+	getPersonasDirectoryPath,
+	getWorkflowsDirectoryPath,
 	writeMcpMarketplaceCatalogToCache,
 } from "../storage/disk"
 import { fetchRemoteConfig } from "../storage/remote-config/fetch"
@@ -82,6 +87,12 @@ export class Controller {
 	// Timer for periodic remote config fetching
 	private remoteConfigTimer?: NodeJS.Timeout
 
+	// Watchers on the global and workspace workflow directories, for the workspace at cwd
+	private workflowWatchers?: { cwd: string; watchers: Promise<FSWatcher[]> }
+
+	// Personas of the current workspace, and the function that stops their change notifications
+	private personaStore?: { store: PersonaStore; unsubscribe: () => void }
+
 	// Public getter for workspace manager with lazy initialization - To get workspaces when task isn't initialized (Used by file mentions)
 	async ensureWorkspaceManager(): Promise<WorkspaceRootManager | undefined> {
 		if (!this.workspaceManager) {
@@ -90,6 +101,10 @@ export class Controller {
 					stateManager: this.stateManager,
 					detectRoots: detectWorkspaceRoots,
 				})
+				await this.mcpHub.setWorkspaceRoots(
+					this.workspaceManager.getRoots(),
+					this.workspaceManager.getPrimaryRoot()?.path,
+				)
 			} catch (error) {
 				console.error("[Controller] Failed to initialize workspace manager:", error)
 			}
@@ -102,6 +117,15 @@ export class Controller {
 		return this.workspaceManager
 	}
 
+	/**
+	 * Re-detects the workspace roots after folders are added to or removed from the workspace,
+	 * and advertises them to MCP servers
+	 */
+	async refreshWorkspaceRoots(): Promise<void> {
+		this.workspaceManager = undefined
+		await this.ensureWorkspaceManager()
+	}
+
 	/**
 	 * Starts the periodic remote config fetching timer
 	 * Fetches immediately and then every 30 seconds
@@ -154,6 +178,9 @@ export class Controller {
 			telemetryService,
 		)
 
+		// Advertise the workspace folders to MCP servers as roots
+		this.ensureWorkspaceManager()
+
 		// Clean up legacy checkpoints
 		cleanupLegacyCheckpoints().catch((error) => {
 			console.error("Failed to cleanup legacy checkpoints:", error)
@@ -163,6 +190,55 @@ export class Controller {
 		checkCliInstallation(this)
 	}
 
+	/**
+	 * Watches the workflow directories so the slash command menu picks up edited workflows. Workflow command details
+	 * are cached until a workflow is toggled or one of these files changes.
+	 */
+	private watchWorkflows(cwd: string) {
+		if (this.workflowWatchers?.cwd === cwd) {
+			return
+		}
+		this.closeWorkflowWatchers()
+
+		const onChange = () => {
+			invalidateWorkflowCommandDetails()
+			this.postStateToWebview().catch((error) => console.error("[Controller] Failed to post workflow changes:", error))
+		}
+		this.workflowWatchers = {
+			cwd,
+			watchers: Promise.all([
+				getWorkflowsDirectoryPath().then((dir) => watchDirectory(dir, onChange)),
+				watchDirectory(path.resolve(cwd, GlobalFileNames.workflows), onChange),
+			]),
+		}
+	}
+
+	private closeWorkflowWatchers() {
+		this.workflowWatchers?.watchers
+			.then((watchers) => Promise.all(watchers.map((watcher) => watcher.close())))
+			.catch((error) => console.error("[Controller] Failed to close workflow watchers:", error))
+		this.workflowWatchers = undefined
+	}
+
+	/**
+	 * The personas of the workspace at cwd, posting them to the webview again when their files change
+	 */
+	private async getPersonaStore(cwd: string): Promise<PersonaStore> {
+		const store = PersonaStore.forWorkspace(await getPersonasDirectoryPath(), cwd)
+		if (this.personaStore?.store !== store) {
+			this.personaStore?.unsubscribe()
+			this.personaStore = {
+				store,
+				unsubscribe: store.onDidChange(() =>
+					this.postStateToWebview().catch((error) =>
+						console.error("[Controller] Failed to post persona changes:", error),
+					),
+				),
+			}
+		}
+		return store
+	}
+
 	/*
 	VSCode extensions use the disposable pattern to clean up resources when the sidebar/editor tab is closed by the user or system. This applies to event listening, commands, interacting with the UI, etc.
 	- https://vscode-docs.readthedocs.io/en/stable/extensions/patterns-and-principles/
@@ -175,6 +251,10 @@ export class Controller {
 			this.remoteConfigTimer = undefined
 		}
 
+		this.closeWorkflowWatchers()
+		this.personaStore?.unsubscribe()
+		this.personaStore = undefined
+
 		await this.clearTask()
 		this.mcpHub.dispose()
 
@@ -279,6 +359,7 @@ export class Controller {
 			stateManager: this.stateManager,
 			detectRoots: detectWorkspaceRoots,
 		})
+		await this.mcpHub.setWorkspaceRoots(this.workspaceManager.getRoots(), this.workspaceManager.getPrimaryRoot()?.path)
 
 		const cwd = this.workspaceManager?.getPrimaryRoot()?.path || (await getCwd(getDesktopDir()))
 
@@ -857,7 +938,13 @@ export class Controller {
 		const localCursorRulesToggles = this.stateManager.getWorkspaceStateKey("localCursorRulesToggles")
 		const localAgentsRulesToggles = this.stateManager.getWorkspaceStateKey("localAgentsRulesToggles")
 		const workflowToggles = this.stateManager.getWorkspaceStateKey("workflowToggles")
+		const cwd = this.workspaceManager?.getPrimaryRoot()?.path || (await getCwd(getDesktopDir()))
+		this.watchWorkflows(cwd)
+		const workflowCommandDetails = await getWorkflowCommandDetails(
+			getEnabledWorkflows(workflowToggles || {}, globalWorkflowToggles || {}),
+		)
 		const autoCondenseThreshold = this.stateManager.getGlobalSettingsKey("autoCondenseThreshold")
+		const personas = await (await this.getPersonaStore(cwd)).load()
 
 		const currentTaskItem = this.task?.taskId ? (taskHistory || []).find((item) => item.id === this.task?.taskId) : undefined
 		const clineMessages = this.task?.messageStateHandler.getClineMessages() || []
@@ -898,6 +985,8 @@ export class Controller {
 			strictPlanModeEnabled,
 			yoloModeToggled,
 			useAutoCondense,
+			contextSummarizationEnabled: this.stateManager.getGlobalSettingsKey("contextSummarizationEnabled"),
+			contextSummarizationModelId: this.stateManager.getGlobalSettingsKey("contextSummarizationModelId"),
 			userInfo,
 			mcpMarketplaceEnabled,
 			mcpDisplayMode,
@@ -916,6 +1005,9 @@ export class Controller {
 			globalWorkflowToggles: globalWorkflowToggles || {},
 			remoteRulesToggles: remoteRulesToggles,
 			remoteWorkflowToggles: remoteWorkflowToggles,
+			workflowCommandDetails,
+			personas: personas.map((persona) => PersonaLibrary.summarize(persona)),
+			selectedPersona: this.stateManager.getGlobalSettingsKey("selectedPersona"),
 			shellIntegrationTimeout,
 			terminalReuseEnabled,
 			vscodeTerminalExecutionMode: vscodeTerminalExecutionMode,
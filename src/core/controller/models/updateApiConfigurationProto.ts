@@ -1,6 +1,9 @@
 import { Empty } from "@shared/proto/cline/common"
 import { UpdateApiConfigurationRequest } from "@shared/proto/cline/models"
-import { convertProtoToApiProvider } from "@shared/proto-conversions/models/api-configuration-conversion"
+import {
+	convertProtoToApiFallbackChain,
+	convertProtoToApiProvider,
+} from "@shared/proto-conversions/models/api-configuration-conversion"
 import {
 	fromProtobufLiteLLMModelInfo,
 	fromProtobufModelInfo,
@@ -112,6 +115,7 @@ export async function updateApiConfigurationProto(
 				: undefined,
 			geminiPlanModeThinkingLevel: protoApiConfiguration.geminiPlanModeThinkingLevel,
 			geminiActModeThinkingLevel: protoApiConfiguration.geminiActModeThinkingLevel,
+			apiFallbackChain: convertProtoToApiFallbackChain(protoApiConfiguration.apiFallbackChain),
 		}
 
 		// Update the API configuration in storage
@@ -1,6 +1,6 @@
 import { EmptyRequest } from "@shared/proto/cline/common"
 import { SlashCommandInfo, SlashCommandsResponse } from "@shared/proto/cline/slash"
-import { BASE_SLASH_COMMANDS } from "@/shared/slashCommands"
+import { BASE_SLASH_COMMANDS, getMcpPromptCommands } from "@/shared/slashCommands"
 import { Controller } from ".."
 
 /**
@@ -79,6 +79,18 @@ export async function getAvailableSlashCommands(controller: Controller, _request
 		}
 	}
 
+	// Add prompts published by connected MCP servers
+	for (const cmd of getMcpPromptCommands(controller.mcpHub?.getServers() ?? [])) {
+		commands.push(
+			SlashCommandInfo.create({
+				name: cmd.name,
+				description: cmd.description,
+				section: "mcp",
+				cliCompatible: cmd.cliCompatible,
+			}),
+		)
+	}
+
 	return SlashCommandsResponse.create({ commands })
 }
 
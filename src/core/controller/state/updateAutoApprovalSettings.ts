@@ -20,6 +20,7 @@ export async function updateAutoApprovalSettings(controller: Controller, request
 			...currentSettings,
 			...(request.version !== undefined && { version: request.version }),
 			...(request.enableNotifications !== undefined && { enableNotifications: request.enableNotifications }),
+			...(request.useApprovalOracle !== undefined && { useApprovalOracle: request.useApprovalOracle }),
 			actions: {
 				...currentSettings.actions,
 				...(request.actions
@@ -7,7 +7,10 @@ import {
 	OpenaiReasoningEffort as ProtoOpenaiReasoningEffort,
 	UpdateSettingsRequest,
 } from "@shared/proto/cline/state"
-import { convertProtoToApiProvider } from "@shared/proto-conversions/models/api-configuration-conversion"
+import {
+	convertProtoToApiFallbackChain,
+	convertProtoToApiProvider,
+} from "@shared/proto-conversions/models/api-configuration-conversion"
 import { OpenaiReasoningEffort } from "@shared/storage/types"
 import { TelemetrySetting } from "@shared/TelemetrySetting"
 import { ClineEnv } from "@/config"
@@ -44,6 +47,7 @@ export async function updateSettings(controller: Controller, request: UpdateSett
 				actModeApiProvider: protoApiConfiguration.actModeApiProvider
 					? convertProtoToApiProvider(protoApiConfiguration.actModeApiProvider)
 					: undefined,
+				apiFallbackChain: convertProtoToApiFallbackChain(protoApiConfiguration.apiFallbackChain),
 			}
 
 			controller.stateManager.setApiConfiguration(convertedApiConfigurationFromProto)
@@ -379,6 +383,23 @@ export async function updateSettings(controller: Controller, request: UpdateSett
 			controller.stateManager.setGlobalState("enableParallelToolCalling", !!request.enableParallelToolCalling)
 		}
 
+		// An empty id clears the selection
+		if (request.selectedPersona !== undefined) {
+			controller.stateManager.setGlobalState("selectedPersona", request.selectedPersona || undefined)
+		}
+
+		if (request.contextSummarizationEnabled !== undefined) {
+			controller.stateManager.setGlobalState("contextSummarizationEnabled", request.contextSummarizationEnabled)
+		}
+
+		// An empty model id summarises with the task's own model
+		if (request.contextSummarizationModelId !== undefined) {
+			controller.stateManager.setGlobalState(
+				"contextSummarizationModelId",
+				request.contextSummarizationModelId || undefined,
+			)
+		}
+
 		// Post updated state to webview
 		await controller.postStateToWebview()
 
@@ -90,6 +90,9 @@ export async function updateSettingsCli(controller: Controller, request: UpdateS
 					...(autoApprovalSettings.enableNotifications !== undefined && {
 						enableNotifications: autoApprovalSettings.enableNotifications,
 					}),
+					...(autoApprovalSettings.useApprovalOracle !== undefined && {
+						useApprovalOracle: autoApprovalSettings.useApprovalOracle,
+					}),
 					actions: {
 						...currentAutoApprovalSettings.actions,
 						...(autoApprovalSettings.actions
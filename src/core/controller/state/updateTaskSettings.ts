@@ -79,6 +79,9 @@ export async function updateTaskSettings(controller: Controller, request: Update
 					...(autoApprovalSettings.enableNotifications !== undefined && {
 						enableNotifications: autoApprovalSettings.enableNotifications,
 					}),
+					...(autoApprovalSettings.useApprovalOracle !== undefined && {
+						useApprovalOracle: autoApprovalSettings.useApprovalOracle,
+					}),
 					actions: {
 						...currentAutoApprovalSettings.actions,
 						...(autoApprovalSettings.actions
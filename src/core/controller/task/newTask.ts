@@ -46,6 +46,9 @@ export async function newTask(controller: Controller, request: NewTaskRequest):
 						...(incomingSettings.enableNotifications !== undefined && {
 							enableNotifications: incomingSettings.enableNotifications,
 						}),
+						...(incomingSettings.useApprovalOracle !== undefined && {
+							useApprovalOracle: incomingSettings.useApprovalOracle,
+						}),
 						actions: {
 							...globalSettings.actions,
 							...(incomingSettings.actions
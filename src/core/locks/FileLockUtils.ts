@@ -0,0 +1,225 @@
+import { randomUUID } from "crypto"
+import * as fs from "fs/promises"
+import * as os from "os"
+import { type FolderLockRetryConfig, getStandaloneLockManager, retryFolderLockAcquisition } from "./FolderLockUtils"
+
+/**
+ * Default retry configuration for file locks, which are held only as long as a read-modify-write of the file:
+ * - 50ms initial wait
+ * - +100ms backoff per attempt
+ * - 10s max total timeout
+ */
+export const DEFAULT_FILE_LOCK_RETRY_CONFIG: FolderLockRetryConfig = {
+	initialDelayMs: 50,
+	incrementPerAttemptMs: 100,
+	maxTotalTimeoutMs: 10000,
+}
+
+/**
+ * The holder refreshes its lock file this often, so a lock file that hasn't been refreshed for
+ * STALE_LOCK_FILE_TIMEOUT_MS belongs to a holder that is gone, even one on another machine sharing the workspace.
+ * A holder that was only paused finds out through FileLock.assertHeld before it overwrites anything.
+ */
+const LOCK_FILE_REFRESH_INTERVAL_MS = 10 * 1000
+const STALE_LOCK_FILE_TIMEOUT_MS = 30 * 1000
+
+/**
+ * Identifies the holder of a lock file
+ */
+interface LockFileHolder {
+	pid: number
+	hostname: string
+	// Tells this holder's lock file apart from the one of a holder that took it over
+	token: string
+}
+
+/**
+ * Given to the operation while it holds a file lock
+ */
+export interface FileLock {
+	/**
+	 * Throw if another instance has taken the lock over, e.g. after this one was paused for longer than the stale lock
+	 * timeout. Call it right before a change that would overwrite the other holder's work, such as replacing the file.
+	 */
+	assertHeld(): Promise<void>
+}
+
+interface HeldFileLock extends FileLock {
+	release(): Promise<void>
+}
+
+// Serializes holders in this process, which the lock manager and lock files both see as the same holder
+const localQueues = new Map<string, Promise<unknown>>()
+
+/**
+ * Run an operation while holding an exclusive lock on a file, so that other Cline instances working on the same file
+ * wait for it instead of overwriting each other's changes.
+ *
+ * Standalone instances lock through the shared SqliteLockManager, which only hands a lock over once its holder's
+ * instance is no longer registered. Every holder also creates a `<file>.lock` file exclusively next to the target,
+ * so VS Code windows, which have no lock manager, and standalone instances working on the same file exclude each
+ * other. A lock file is taken over once its holder's process has exited, or once its holder has stopped refreshing it.
+ *
+ * @param lockTarget - Absolute path of the file to lock
+ * @param operation - Runs once the lock is held; the lock is released when it settles
+ * @throws Error if the lock can't be acquired within the retry timeout
+ */
+export async function withFileLock<T>(
+	lockTarget: string,
+	operation: (lock: FileLock) => Promise<T>,
+	config: FolderLockRetryConfig = DEFAULT_FILE_LOCK_RETRY_CONFIG,
+): Promise<T> {
+	const previous = localQueues.get(lockTarget) ?? Promise.resolve()
+	const run = previous
+		.catch(() => {})
+		.then(async () => {
+			const lock = await acquireFileLock(lockTarget, config)
+			try {
+				return await operation(lock)
+			} finally {
+				await lock.release()
+			}
+		})
+	localQueues.set(lockTarget, run)
+	try {
+		return await run
+	} finally {
+		if (localQueues.get(lockTarget) === run) {
+			localQueues.delete(lockTarget)
+		}
+	}
+}
+
+async function acquireFileLock(lockTarget: string, config: FolderLockRetryConfig): Promise<HeldFileLock> {
+	const lockManager = await getStandaloneLockManager()
+	if (lockManager) {
+		const result = await retryFolderLockAcquisition(
+			async () => ({ acquired: lockManager.registerFileLock(lockTarget) === null }),
+			config,
+		)
+		if (!result.acquired) {
+			throw new Error(`Timed out waiting for the lock on ${lockTarget}`)
+		}
+	}
+
+	let lockFile: HeldFileLock
+	try {
+		lockFile = await acquireLockFile(lockTarget, config)
+	} catch (error) {
+		lockManager?.releaseFileLockByTarget(lockTarget)
+		throw error
+	}
+
+	return {
+		assertHeld: async () => {
+			if (lockManager && !lockManager.holdsFileLock(lockTarget)) {
+				throw new Error(`Lost the lock on ${lockTarget} to another instance`)
+			}
+			await lockFile.assertHeld()
+		},
+		release: async () => {
+			await lockFile.release()
+			try {
+				lockManager?.releaseFileLockByTarget(lockTarget)
+			} catch (error) {
+				console.error(`Error releasing file lock for ${lockTarget}:`, error)
+			}
+		},
+	}
+}
+
+async function acquireLockFile(lockTarget: string, config: FolderLockRetryConfig): Promise<HeldFileLock> {
+	const lockFile = `${lockTarget}.lock`
+	const holder: LockFileHolder = { pid: process.pid, hostname: os.hostname(), token: randomUUID() }
+	const result = await retryFolderLockAcquisition(async () => ({ acquired: await tryCreateLockFile(lockFile, holder) }), config)
+
+	if (!result.acquired) {
+		throw new Error(`Timed out waiting for the lock on ${lockTarget}`)
+	}
+
+	const isHeld = async () => (await readLockFileHolder(lockFile))?.token === holder.token
+
+	const refresh = setInterval(() => {
+		isHeld()
+			.then((held) => {
+				if (!held) {
+					// Refreshing the new holder's lock file would keep it from ever going stale
+					clearInterval(refresh)
+					return
+				}
+				const now = new Date()
+				return fs.utimes(lockFile, now, now)
+			})
+			.catch((error) => console.error(`Error refreshing lock file ${lockFile}:`, error))
+	}, LOCK_FILE_REFRESH_INTERVAL_MS)
+
+	return {
+		assertHeld: async () => {
+			if (!(await isHeld())) {
+				throw new Error(`Lost the lock on ${lockTarget} to another instance`)
+			}
+		},
+		release: async () => {
+			clearInterval(refresh)
+			try {
+				// A lock file taken over by another holder is theirs to remove
+				if (await isHeld()) {
+					await fs.rm(lockFile, { force: true })
+				}
+			} catch (error) {
+				console.error(`Error releasing file lock for ${lockTarget}:`, error)
+			}
+		},
+	}
+}
+
+async function tryCreateLockFile(lockFile: string, holder: LockFileHolder): Promise<boolean> {
+	try {
+		await fs.writeFile(lockFile, JSON.stringify(holder), { flag: "wx" }) // Exclusive creation - fails if file exists
+		return true
+	} catch (error: any) {
+		if (error.code !== "EEXIST") {
+			throw error
+		}
+	}
+
+	// Remove the lock file if its holder is gone, so the next attempt can take it
+	try {
+		if (await isStaleLockFile(lockFile)) {
+			await fs.rm(lockFile, { force: true })
+			console.warn(`Removed stale lock file: ${lockFile}`)
+		}
+	} catch {
+		// Released in the meantime
+	}
+	return false
+}
+
+async function readLockFileHolder(lockFile: string): Promise<Partial<LockFileHolder> | undefined> {
+	try {
+		return JSON.parse(await fs.readFile(lockFile, "utf8"))
+	} catch {
+		// Released, or still being written by its holder
+		return undefined
+	}
+}
+
+async function isStaleLockFile(lockFile: string): Promise<boolean> {
+	const { mtimeMs } = await fs.stat(lockFile)
+	if (Date.now() - mtimeMs > STALE_LOCK_FILE_TIMEOUT_MS) {
+		return true
+	}
+
+	const holder = await readLockFileHolder(lockFile)
+	return holder?.hostname === os.hostname() && typeof holder.pid === "number" && !isProcessAlive(holder.pid)
+}
+
+function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0) // Signal 0 only checks that the process exists
+		return true
+	} catch (error: any) {
+		// EPERM: it exists but belongs to another user
+		return error.code === "EPERM"
+	}
+}
@@ -266,6 +266,58 @@ export class SqliteLockManager {
 		}
 	}
 
+	/**
+	 * Register a file lock, taking it over from an instance that is no longer registered.
+	 * A live holder keeps its lock however long it holds it, so its read-modify-write is never interrupted.
+	 * @returns null if lock was successfully acquired, or the conflicting LockRow if another instance holds it
+	 */
+	registerFileLock(lockTarget: string): LockRow | null {
+		const upsertLock = this.db.prepare(`
+			INSERT INTO locks (held_by, lock_type, lock_target, locked_at)
+			VALUES (?, 'file', ?, ?)
+			ON CONFLICT(lock_type, lock_target) DO UPDATE SET held_by = excluded.held_by, locked_at = excluded.locked_at
+			WHERE locks.held_by = excluded.held_by
+			OR locks.held_by NOT IN (SELECT held_by FROM locks WHERE lock_type = 'instance')
+		`)
+
+		if (upsertLock.run(this.instanceAddress, lockTarget, Date.now()).changes > 0) {
+			return null // lock acquired
+		}
+
+		const query = this.db.prepare(`
+			SELECT * FROM locks 
+			WHERE lock_type = 'file' 
+			AND lock_target = ? 
+		`)
+		const existingLock = query.get(lockTarget) as LockRow | undefined
+		// The holder may have released it in the meantime
+		return existingLock ?? this.registerFileLock(lockTarget)
+	}
+
+	/**
+	 * Check that this instance still holds a file lock
+	 */
+	holdsFileLock(lockTarget: string): boolean {
+		const query = this.db.prepare(`
+			SELECT 1 FROM locks 
+			WHERE held_by = ? AND lock_type = 'file' AND lock_target = ?
+		`)
+
+		return query.get(this.instanceAddress, lockTarget) !== undefined
+	}
+
+	/**
+	 * Release a file lock held by this instance
+	 */
+	releaseFileLockByTarget(lockTarget: string): void {
+		const deleteLock = this.db.prepare(`
+			DELETE FROM locks 
+			WHERE held_by = ? AND lock_type = 'file' AND lock_target = ?
+		`)
+
+		deleteLock.run(this.instanceAddress, lockTarget)
+	}
+
 	/**
 	 * Clean up folder locks that are held by tasks whose instances no longer exist.
 	 * This removes locks where held_by doesn't exist in any instance-type lock.
@@ -0,0 +1,137 @@
+import { expect } from "chai"
+import * as fs from "fs"
+import { afterEach, beforeEach, describe, it } from "mocha"
+import * as os from "os"
+import * as path from "path"
+import { setLockManager } from "@/standalone/lock-manager"
+import { withFileLock } from "../FileLockUtils"
+import type { SqliteLockManager } from "../SqliteLockManager"
+
+describe("withFileLock", () => {
+	const fastRetry = { initialDelayMs: 10, incrementPerAttemptMs: 10, maxTotalTimeoutMs: 300 }
+	let dir: string
+	let target: string
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "file-lock-"))
+		target = path.join(dir, "context.yaml")
+	})
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true })
+	})
+
+	it("should hold the lock file while the operation runs and remove it afterwards", async () => {
+		const result = await withFileLock(target, async () => {
+			expect(JSON.parse(fs.readFileSync(`${target}.lock`, "utf8"))).to.include({
+				pid: process.pid,
+				hostname: os.hostname(),
+			})
+			return "done"
+		})
+
+		expect(result).to.equal("done")
+		expect(fs.existsSync(`${target}.lock`)).to.equal(false)
+	})
+
+	it("should take over a lock file whose holder has exited", async () => {
+		// Process IDs are at most 2^22 on Linux, so this one is never alive
+		fs.writeFileSync(`${target}.lock`, JSON.stringify({ pid: 2 ** 23, hostname: os.hostname() }))
+
+		expect(await withFileLock(target, async () => "taken over", fastRetry)).to.equal("taken over")
+	})
+
+	it("should take over a lock file its holder stopped refreshing", async () => {
+		fs.writeFileSync(`${target}.lock`, JSON.stringify({ pid: process.pid, hostname: "another-machine" }))
+		const stale = new Date(Date.now() - 60_000)
+		fs.utimesSync(`${target}.lock`, stale, stale)
+
+		expect(await withFileLock(target, async () => "taken over", fastRetry)).to.equal("taken over")
+	})
+
+	it("should wait for a live holder and time out", async () => {
+		fs.writeFileSync(`${target}.lock`, JSON.stringify({ pid: process.pid, hostname: os.hostname() }))
+
+		const error = await withFileLock(target, async () => "acquired", fastRetry).catch((e: Error) => e)
+
+		expect((error as Error).message).to.equal(`Timed out waiting for the lock on ${target}`)
+		expect(fs.existsSync(`${target}.lock`)).to.equal(true)
+	})
+
+	it("should tell the operation once another holder has taken its lock file over, and leave their lock file", async () => {
+		const otherHolder = JSON.stringify({ pid: process.pid, hostname: "another-machine", token: "other" })
+
+		const error = await withFileLock(target, async (lock) => {
+			await lock.assertHeld()
+			fs.writeFileSync(`${target}.lock`, otherHolder)
+			await lock.assertHeld()
+		}).catch((e: Error) => e)
+
+		expect((error as Error).message).to.equal(`Lost the lock on ${target} to another instance`)
+		expect(fs.readFileSync(`${target}.lock`, "utf8")).to.equal(otherHolder)
+	})
+
+	describe("in standalone mode", () => {
+		let holders: Map<string, string>
+
+		beforeEach(() => {
+			holders = new Map()
+			const lockManager: Pick<SqliteLockManager, "registerFileLock" | "holdsFileLock" | "releaseFileLockByTarget"> = {
+				registerFileLock: (lockTarget) => {
+					if (holders.has(lockTarget) && holders.get(lockTarget) !== "this") {
+						return {
+							id: 1,
+							held_by: holders.get(lockTarget)!,
+							lock_type: "file",
+							lock_target: lockTarget,
+							locked_at: 0,
+						}
+					}
+					holders.set(lockTarget, "this")
+					return null
+				},
+				holdsFileLock: (lockTarget) => holders.get(lockTarget) === "this",
+				releaseFileLockByTarget: (lockTarget) => {
+					if (holders.get(lockTarget) === "this") {
+						holders.delete(lockTarget)
+					}
+				},
+			}
+			setLockManager(lockManager as SqliteLockManager)
+		})
+
+		afterEach(() => {
+			setLockManager(undefined as unknown as SqliteLockManager)
+		})
+
+		it("should hold the lock manager's lock as well as the lock file", async () => {
+			await withFileLock(target, async (lock) => {
+				expect(holders.get(target)).to.equal("this")
+				expect(fs.existsSync(`${target}.lock`)).to.equal(true)
+				await lock.assertHeld()
+			})
+
+			expect(holders.has(target)).to.equal(false)
+			expect(fs.existsSync(`${target}.lock`)).to.equal(false)
+		})
+
+		it("should wait for another instance holding the lock manager's lock", async () => {
+			holders.set(target, "another-instance")
+
+			const error = await withFileLock(target, async () => "acquired", fastRetry).catch((e: Error) => e)
+
+			expect((error as Error).message).to.equal(`Timed out waiting for the lock on ${target}`)
+			expect(fs.existsSync(`${target}.lock`)).to.equal(false)
+		})
+
+		it("should tell the operation once another instance has taken the lock manager's lock over", async () => {
+			const error = await withFileLock(target, async (lock) => {
+				holders.set(target, "another-instance")
+				await lock.assertHeld()
+			}).catch((e: Error) => e)
+
+			expect((error as Error).message).to.equal(`Lost the lock on ${target} to another instance`)
+			expect(holders.get(target)).to.equal("another-instance")
+		})
+	})
+})
@@ -1,3 +1,4 @@
+import type { DevServiceManager } from "@integrations/dev-services/DevServiceManager"
 import { diagnosticsToProblemsString } from "@integrations/diagnostics"
 import { extractTextFromFile } from "@integrations/misc/extract-text"
 import { openFile } from "@integrations/misc/open-file"
@@ -6,7 +7,8 @@ import { telemetryService } from "@services/telemetry"
 import { mentionRegexGlobal } from "@shared/context-mentions"
 import { WorkspaceRoot } from "@shared/multi-root/types"
 import { openExternal } from "@utils/env"
-import { getCommitInfo, getWorkingState } from "@utils/git"
+import { getSymbolDefinitionContent } from "@services/tree-sitter/symbols"
+import { getCommitInfo, getDiffForSpec, getWorkingState } from "@utils/git"
 import fs from "fs/promises"
 import { isBinaryFile } from "isbinaryfile"
 import * as path from "path"
@@ -61,6 +63,8 @@ export async function parseMentions(
 	urlContentFetcher: UrlContentFetcher,
 	fileContextTracker?: FileContextTracker,
 	workspaceManager?: WorkspaceRootManager,
+	devServiceManager?: DevServiceManager,
+	getCheckpointDiff?: (checkpointNumber: number) => Promise<string>,
 ): Promise<string> {
 	const mentions: Set<string> = new Set()
 	let parsedText = text.replace(mentionRegexGlobal, (match, mention) => {
@@ -85,6 +89,15 @@ export async function parseMentions(
 			return `Terminal Output (see below for output)`
 		} else if (mention === "git-changes") {
 			return `Working directory changes (see below for details)`
+		} else if (mention.startsWith("service:")) {
+			return `Service '${mention.slice("service:".length)}' logs (see below for output)`
+		} else if (mention.startsWith("diff:")) {
+			const spec = mention.slice("diff:".length)
+			return spec === "staged" ? `Staged changes (see below for diff)` : `Git diff '${spec}' (see below for diff)`
+		} else if (mention.startsWith("symbol:")) {
+			return `'${mention.slice("symbol:".length)}' (see below for definition)`
+		} else if (mention.startsWith("checkpoint:")) {
+			return `Changes since checkpoint ${mention.slice("checkpoint:".length)} (see below for diff)`
 		} else if (/^[a-f0-9]{7,40}$/.test(mention)) {
 			return `Git commit '${mention}' (see below for commit info)`
 		}
@@ -301,6 +314,45 @@ export async function parseMentions(
 				// Track failed git-changes mention
 				telemetryService.captureMentionFailed("git-changes", "unknown", error.message)
 			}
+		} else if (mention.startsWith("service:")) {
+			const name = mention.slice("service:".length)
+			const logs = devServiceManager?.getLogs(name)
+			if (logs === undefined) {
+				parsedText += `\n\n<service_logs name="${name}">\nService "${name}" has not been started in this task. Start it with the manage_service tool.\n</service_logs>`
+				telemetryService.captureMentionFailed("service", "not_found", `Service "${name}" has not been started`)
+			} else {
+				const status = devServiceManager?.getStatus(name)
+				parsedText += `\n\n<service_logs name="${name}" status="${status}">\n${logs}\n</service_logs>`
+				telemetryService.captureMentionUsed("service", logs.length)
+			}
+		} else if (mention.startsWith("diff:")) {
+			const spec = mention.slice("diff:".length)
+			const diff = await getDiffForSpec(spec, cwd)
+			parsedText += `\n\n<git_diff spec="${spec}">\n${diff}\n</git_diff>`
+			telemetryService.captureMentionUsed("diff", diff.length)
+		} else if (mention.startsWith("symbol:")) {
+			const symbol = mention.slice("symbol:".length)
+			try {
+				const definition = await getSymbolDefinitionContent(cwd, symbol)
+				parsedText += `\n\n<symbol_definition name="${symbol}">\n${definition}\n</symbol_definition>`
+				telemetryService.captureMentionUsed("symbol", definition.length)
+			} catch (error) {
+				parsedText += `\n\n<symbol_definition name="${symbol}">\nError finding definition: ${error.message}\n</symbol_definition>`
+				telemetryService.captureMentionFailed("symbol", "not_found", error.message)
+			}
+		} else if (mention.startsWith("checkpoint:")) {
+			const checkpointNumber = Number(mention.slice("checkpoint:".length))
+			try {
+				if (!getCheckpointDiff) {
+					throw new Error("Checkpoints aren't available in this task")
+				}
+				const diff = await getCheckpointDiff(checkpointNumber)
+				parsedText += `\n\n<checkpoint_diff checkpoint="${checkpointNumber}">\n${diff}\n</checkpoint_diff>`
+				telemetryService.captureMentionUsed("checkpoint", diff.length)
+			} catch (error) {
+				parsedText += `\n\n<checkpoint_diff checkpoint="${checkpointNumber}">\nError fetching checkpoint diff: ${error.message}\n</checkpoint_diff>`
+				telemetryService.captureMentionFailed("checkpoint", "unknown", error.message)
+			}
 		} else if (/^[a-f0-9]{7,40}$/.test(mention)) {
 			try {
 				const commitInfo = await getCommitInfo(mention, cwd)
@@ -0,0 +1,265 @@
+import type { FSWatcher } from "chokidar";
+import * as fs from "fs/promises";
+import * as yaml from "js-yaml";
+import * as path from "path";
+import { z } from "zod";
+import { Persona, PersonaMode, PersonaSummary } from "../../shared/personas";
+import { ClineDefaultTool } from "../../shared/tools";
+import { watchDirectory } from "../../utils/fs";
+
+// Workspace personas, relative to the workspace root
+const WORKSPACE_PERSONAS_DIR = path.join(".cline", "personas");
+
+const FRONT_MATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+// A persona can't take these away, so Cline can always ask the user and finish the task
+const ALWAYS_ALLOWED_TOOLS: string[] = [
+  ClineDefaultTool.ASK,
+  ClineDefaultTool.ATTEMPT,
+  ClineDefaultTool.PLAN_MODE,
+];
+
+// Lists may also be written as a single value, e.g. `modes: act`
+const StringListSchema = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) => (Array.isArray(value) ? value : [value]));
+
+const PersonaFrontMatterSchema = z.object({
+  name: z.string().optional(),
+  description: z.string().optional(),
+  modes: z
+    .union([
+      z.enum(["plan", "act", "architect", "editor"]),
+      z.array(z.enum(["plan", "act", "architect", "editor"])),
+    ])
+    .transform((value): PersonaMode[] => (Array.isArray(value) ? value : [value]))
+    .optional()
+    .default([]),
+  modelFamilies: StringListSchema.optional().default([]),
+  providers: StringListSchema.optional().default([]),
+  tools: z
+    .object({
+      allow: StringListSchema.optional(),
+      deny: StringListSchema.optional(),
+    })
+    .optional()
+    .default({}),
+});
+
+/**
+ * Where a persona would be used: the mode, and the provider and model answering in it
+ */
+export interface PersonaTarget {
+  mode: PersonaMode;
+  providerId: string;
+  modelId: string;
+  // Family of the system prompt variant chosen for the model, when the prompt comes from the registry
+  modelFamily?: string;
+}
+
+interface PersonaDirectory {
+  dir: string;
+  source: Persona["source"];
+}
+
+export class PersonaLibrary {
+  /**
+   * Load every persona from the global persona directory and the workspace's .cline/personas.
+   * A workspace persona replaces the global persona with the same id.
+   */
+  static async load(globalPersonasDir: string, workspaceRoot: string): Promise<Persona[]> {
+    return this.loadFrom([
+      { dir: globalPersonasDir, source: "global" },
+      { dir: path.join(workspaceRoot, WORKSPACE_PERSONAS_DIR), source: "workspace" },
+    ]);
+  }
+
+  /**
+   * Load the personas in each directory in turn, later directories overriding earlier ones.
+   * Files that can't be parsed are skipped with a warning.
+   */
+  static async loadFrom(directories: PersonaDirectory[]): Promise<Persona[]> {
+    const personas = new Map<string, Persona>();
+
+    for (const { dir, source } of directories) {
+      let fileNames: string[];
+      try {
+        fileNames = await fs.readdir(dir);
+      } catch {
+        continue; // No personas here
+      }
+
+      for (const fileName of fileNames.filter((name) => name.endsWith(".md")).sort()) {
+        const filePath = path.join(dir, fileName);
+        try {
+          const content = await fs.readFile(filePath, "utf-8");
+          const persona = this.parse(content, { id: path.basename(fileName, ".md"), source, path: filePath });
+          personas.set(persona.id, persona);
+        } catch (e) {
+          console.warn(`Skipping persona ${filePath}:`, e);
+        }
+      }
+    }
+
+    return [...personas.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Parse a persona file: optional YAML front matter, then the persona's instructions
+   * @throws Error if the front matter is invalid or the persona has no instructions
+   */
+  static parse(content: string, file: Pick<Persona, "id" | "source" | "path">): Persona {
+    const match = FRONT_MATTER_REGEX.exec(content);
+
+    let data: unknown = {};
+    if (match) {
+      try {
+        data = yaml.load(match[1]) ?? {};
+      } catch (e) {
+        throw new Error(`Invalid front matter: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+
+    const result = PersonaFrontMatterSchema.safeParse(data);
+    if (!result.success) {
+      const issues = result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+      throw new Error(`Invalid front matter: ${issues.join("; ")}`);
+    }
+
+    const instructions = (match ? content.slice(match[0].length) : content).trim();
+    if (!instructions) {
+      throw new Error("Persona has no instructions");
+    }
+
+    const frontMatter = result.data;
+    return {
+      ...file,
+      name: frontMatter.name ?? file.id,
+      description: frontMatter.description,
+      modes: frontMatter.modes,
+      modelFamilies: frontMatter.modelFamilies.map((family) => family.toLowerCase()),
+      providers: frontMatter.providers,
+      tools: frontMatter.tools,
+      instructions,
+    };
+  }
+
+  /**
+   * Whether a persona targets this mode, provider and model. A model family matches the
+   * prompt variant's family or any part of the model id, so `claude` covers every Claude model.
+   */
+  static appliesTo(persona: PersonaSummary, target: PersonaTarget): boolean {
+    if (persona.modes.length > 0 && !persona.modes.includes(target.mode)) {
+      return false;
+    }
+
+    if (persona.providers.length > 0 && !persona.providers.includes(target.providerId)) {
+      return false;
+    }
+
+    if (persona.modelFamilies.length > 0) {
+      const modelId = target.modelId.toLowerCase();
+      return persona.modelFamilies.some((family) => family === target.modelFamily || modelId.includes(family));
+    }
+
+    return true;
+  }
+
+  /**
+   * Whether Cline may use a tool while a persona applies
+   */
+  static isToolAllowed(persona: PersonaSummary, toolName: string): boolean {
+    if (ALWAYS_ALLOWED_TOOLS.includes(toolName)) {
+      return true;
+    }
+    if (persona.tools.deny?.includes(toolName)) {
+      return false;
+    }
+    return !persona.tools.allow || persona.tools.allow.includes(toolName);
+  }
+
+  /**
+   * A persona without its file path and instructions, for the persona picker
+   */
+  static summarize(persona: Persona): PersonaSummary {
+    const { path: _path, instructions: _instructions, ...summary } = persona;
+    return summary;
+  }
+}
+
+/**
+ * The personas of one workspace, loaded once and reloaded after a file in the global or workspace
+ * persona directory changes. Neither directory is created; a missing one has no personas.
+ */
+export class PersonaStore {
+  // One store per workspace, shared by the controller and its tasks
+  private static instances: Map<string, PersonaStore> = new Map();
+
+  private personas?: Promise<Persona[]>;
+  private watchers?: Promise<FSWatcher[]>;
+  private listeners = new Set<() => void>();
+
+  private constructor(
+    private readonly globalPersonasDir: string,
+    private readonly workspaceRoot: string
+  ) {}
+
+  static forWorkspace(globalPersonasDir: string, workspaceRoot: string): PersonaStore {
+    const key = `${path.resolve(globalPersonasDir)}\n${path.resolve(workspaceRoot)}`;
+    let store = this.instances.get(key);
+    if (!store) {
+      store = new PersonaStore(globalPersonasDir, workspaceRoot);
+      this.instances.set(key, store);
+    }
+    return store;
+  }
+
+  /**
+   * Close every store's watchers, e.g. when the extension shuts down
+   */
+  static async disposeAll(): Promise<void> {
+    const stores = [...this.instances.values()];
+    this.instances.clear();
+    await Promise.all(stores.map((store) => store.dispose()));
+  }
+
+  load(): Promise<Persona[]> {
+    this.watchers ??= this.watch();
+    // Load once the watchers are ready, so a change made while loading is not missed
+    this.personas ??= this.watchers
+      .catch(() => [])
+      .then(() => PersonaLibrary.load(this.globalPersonasDir, this.workspaceRoot));
+    return this.personas;
+  }
+
+  /**
+   * Be told when the personas have changed on disk
+   * @returns A function that stops the notifications
+   */
+  onDidChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private watch(): Promise<FSWatcher[]> {
+    const onChange = () => {
+      this.personas = undefined;
+      for (const listener of this.listeners) {
+        listener();
+      }
+    };
+    const watchers = [this.globalPersonasDir, path.join(this.workspaceRoot, WORKSPACE_PERSONAS_DIR)].map(async (dir) => {
+      const watcher = await watchDirectory(dir, onChange);
+      await new Promise((resolve) => watcher.once("ready", resolve));
+      return watcher;
+    });
+    return Promise.all(watchers);
+  }
+
+  private async dispose(): Promise<void> {
+    const watchers = await this.watchers?.catch(() => []);
+    await Promise.all((watchers ?? []).map((watcher) => watcher.close()));
+    this.watchers = undefined;
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,189 @@
+import type { Persona } from "@shared/personas"
+import { expect } from "chai"
+import * as fs from "fs"
+import { afterEach, beforeEach, describe, it } from "mocha"
+import * as os from "os"
+import pWaitFor from "p-wait-for"
+import * as path from "path"
+import type { McpHub } from "@/services/mcp/McpHub"
+import { getSystemPrompt } from "../../prompts/system-prompt"
+import { mockProviderInfo } from "../../prompts/system-prompt/__tests__/integration.test"
+import { PersonaLibrary, PersonaStore } from "../PersonaLibrary"
+
+const file = { id: "reviewer", source: "workspace" as const, path: "/personas/reviewer.md" }
+
+const persona = (overrides: Partial<Persona> = {}): Persona => ({
+	...file,
+	name: "Reviewer",
+	modes: [],
+	modelFamilies: [],
+	providers: [],
+	tools: {},
+	instructions: "Review carefully.",
+	...overrides,
+})
+
+describe("PersonaLibrary", () => {
+	describe("parse", () => {
+		it("should read targets and tool restrictions from front matter", () => {
+			const parsed = PersonaLibrary.parse(
+				[
+					"---",
+					"name: Security Reviewer",
+					"description: Looks for vulnerabilities",
+					"modes: [plan, architect]",
+					"modelFamilies: Claude",
+					"providers: [anthropic]",
+					"tools:",
+					"  deny: [execute_command]",
+					"---",
+					"You are a security reviewer.",
+				].join("\n"),
+				file,
+			)
+
+			expect(parsed).to.deep.equal({
+				...file,
+				name: "Security Reviewer",
+				description: "Looks for vulnerabilities",
+				modes: ["plan", "architect"],
+				modelFamilies: ["claude"],
+				providers: ["anthropic"],
+				tools: { deny: ["execute_command"] },
+				instructions: "You are a security reviewer.",
+			})
+		})
+
+		it("should apply everywhere without front matter", () => {
+			const parsed = PersonaLibrary.parse("Be terse.\n", file)
+			expect(parsed.name).to.equal("reviewer")
+			expect(parsed.modes).to.deep.equal([])
+			expect(parsed.instructions).to.equal("Be terse.")
+		})
+
+		it("should explain what's wrong", () => {
+			expect(() => PersonaLibrary.parse("---\nmodes: [review]\n---\nText", file)).to.throw(/Invalid front matter: modes/)
+			expect(() => PersonaLibrary.parse("---\nname: Empty\n---\n", file)).to.throw("Persona has no instructions")
+		})
+	})
+
+	describe("loadFrom", () => {
+		let tmpDir: string
+
+		beforeEach(() => {
+			tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "cline-personas-"))
+			for (const dir of ["global", "workspace"]) {
+				fs.mkdirSync(path.join(tmpDir, dir))
+			}
+		})
+
+		afterEach(() => {
+			fs.rmSync(tmpDir, { recursive: true, force: true })
+		})
+
+		it("should let workspace personas replace global ones and skip invalid files", async () => {
+			fs.writeFileSync(path.join(tmpDir, "global", "reviewer.md"), "---\nname: Global Reviewer\n---\nGlobal")
+			fs.writeFileSync(path.join(tmpDir, "global", "teacher.md"), "---\nname: Teacher\n---\nExplain everything")
+			fs.writeFileSync(path.join(tmpDir, "workspace", "reviewer.md"), "---\nname: Reviewer\n---\nWorkspace")
+			fs.writeFileSync(path.join(tmpDir, "workspace", "broken.md"), "---\nmodes: nope\n---\nBroken")
+			fs.writeFileSync(path.join(tmpDir, "workspace", "notes.txt"), "Not a persona")
+
+			const personas = await PersonaLibrary.loadFrom([
+				{ dir: path.join(tmpDir, "global"), source: "global" },
+				{ dir: path.join(tmpDir, "workspace"), source: "workspace" },
+				{ dir: path.join(tmpDir, "missing"), source: "workspace" },
+			])
+
+			expect(personas.map((p) => [p.id, p.source, p.instructions])).to.deep.equal([
+				["reviewer", "workspace", "Workspace"],
+				["teacher", "global", "Explain everything"],
+			])
+		})
+	})
+
+	describe("PersonaStore", () => {
+		let tmpDir: string
+
+		beforeEach(() => {
+			tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "cline-persona-store-"))
+		})
+
+		afterEach(async () => {
+			await PersonaStore.disposeAll()
+			fs.rmSync(tmpDir, { recursive: true, force: true })
+		})
+
+		it("should load once and reload after a persona file is added, without creating the directories", async function () {
+			this.timeout(10_000)
+			const globalDir = path.join(tmpDir, "global")
+			const store = PersonaStore.forWorkspace(globalDir, tmpDir)
+			expect(PersonaStore.forWorkspace(globalDir, tmpDir)).to.equal(store)
+
+			const changes: number[] = []
+			store.onDidChange(() => changes.push(Date.now()))
+			expect(await store.load()).to.deep.equal([])
+			expect(store.load()).to.equal(store.load())
+			expect(fs.existsSync(globalDir)).to.be.false
+
+			const workspaceDir = path.join(tmpDir, ".cline", "personas")
+			fs.mkdirSync(workspaceDir, { recursive: true })
+			fs.writeFileSync(path.join(workspaceDir, "reviewer.md"), "---\nname: Reviewer\n---\nReview")
+			await pWaitFor(() => changes.length > 0, { timeout: 5_000 })
+			await pWaitFor(async () => (await store.load()).length === 1, { timeout: 5_000 })
+
+			expect((await store.load()).map((persona) => persona.id)).to.deep.equal(["reviewer"])
+		})
+	})
+
+	describe("appliesTo", () => {
+		const target = { mode: "act" as const, providerId: "openrouter", modelId: "anthropic/claude-sonnet-4.5" }
+
+		it("should match modes, providers and model families", () => {
+			expect(PersonaLibrary.appliesTo(persona(), target)).to.equal(true)
+			expect(PersonaLibrary.appliesTo(persona({ modes: ["plan"] }), target)).to.equal(false)
+			expect(PersonaLibrary.appliesTo(persona({ providers: ["anthropic"] }), target)).to.equal(false)
+			expect(PersonaLibrary.appliesTo(persona({ modelFamilies: ["claude"] }), target)).to.equal(true)
+			expect(PersonaLibrary.appliesTo(persona({ modelFamilies: ["gpt"] }), target)).to.equal(false)
+			expect(
+				PersonaLibrary.appliesTo(persona({ modelFamilies: ["next-gen"] }), { ...target, modelFamily: "next-gen" }),
+			).to.equal(true)
+		})
+	})
+
+	describe("isToolAllowed", () => {
+		it("should apply allow and deny lists but never take away asking and completing", () => {
+			const readOnly = persona({ tools: { allow: ["read_file"], deny: ["attempt_completion"] } })
+			expect(PersonaLibrary.isToolAllowed(readOnly, "read_file")).to.equal(true)
+			expect(PersonaLibrary.isToolAllowed(readOnly, "write_to_file")).to.equal(false)
+			expect(PersonaLibrary.isToolAllowed(readOnly, "attempt_completion")).to.equal(true)
+			expect(PersonaLibrary.isToolAllowed(persona({ tools: { deny: ["execute_command"] } }), "execute_command")).to.equal(
+				false,
+			)
+		})
+	})
+
+	describe("system prompt", () => {
+		it("should add the persona section and leave out the tools it denies", async function () {
+			this.timeout(30000)
+			const context = {
+				cwd: "/test/project",
+				ide: "TestIde",
+				mcpHub: { getServers: () => [] } as unknown as McpHub,
+				isTesting: true,
+				providerInfo: mockProviderInfo,
+			}
+
+			const { systemPrompt: withoutPersona } = await getSystemPrompt(context)
+			const { systemPrompt } = await getSystemPrompt({
+				...context,
+				persona: persona({ instructions: "Always explain your reasoning.", tools: { deny: ["execute_command"] } }),
+			})
+
+			expect(withoutPersona).not.to.contain("PERSONA")
+			expect(withoutPersona).to.contain("## execute_command")
+			expect(systemPrompt).to.contain("PERSONA\n\nTake on the persona below.")
+			expect(systemPrompt).to.contain("Always explain your reasoning.")
+			expect(systemPrompt).not.to.contain("## execute_command")
+		})
+	})
+})
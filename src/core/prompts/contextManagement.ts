@@ -116,3 +116,21 @@ ${summaryText}.
 Please continue the conversation from where we left it off without asking the user any further questions. Continue with the last task that you were asked to work on. Pay special attention to the most recent user message when responding rather than the initial task message, if applicable.
 If the most recent user's message starts with "/newtask", "/smol", "/compact", "/newrule", or "/reportbug", you should indicate to the user that they will need to run this command again.
 `
+
+export const summarizeTruncatedContext = (
+	previousSummary: string | undefined,
+	transcript: string,
+) => `You are summarizing part of a conversation between a user and Cline, an AI coding assistant, so that it can be removed from Cline's context window. Cline will continue the task with only the user's initial task, your summary and the most recent messages.
+
+Write a concise summary of the conversation below${previousSummary ? ", folding in the summary of the history removed before it" : ""}. Keep:
+- The user's requests, corrections and preferences, quoting them where the wording matters
+- Decisions made and why
+- Files read, created or changed, with the important details of each change
+- Commands run and their outcomes, including errors that were hit and how they were resolved
+- Work that is still in progress or was planned next
+
+Leave out pleasantries, full file contents and tool output that no longer matters. Reply with the summary only.
+${previousSummary ? `\n<previous_summary>\n${previousSummary}\n</previous_summary>\n` : ""}
+<conversation>
+${transcript}
+</conversation>`
@@ -11,6 +11,9 @@ export const formatResponse = {
 	contextTruncationNotice: () =>
 		`[NOTE] Some previous conversation history with the user has been removed to maintain optimal context window length. The initial user task has been retained for continuity, while intermediate conversation history has been removed. Keep this in mind as you continue assisting the user. Pay special attention to the user's latest messages.`,
 
+	contextSummaryNotice: (summary: string) =>
+		`[NOTE] Some previous conversation history with the user has been removed to maintain optimal context window length. The initial user task has been retained, and the removed history is summarized below. Pay special attention to the user's latest messages.\n<conversation_summary>\n${summary}\n</conversation_summary>`,
+
 	processFirstUserMessageForTruncation: () => {
 		return "[Continue assisting the user!]"
 	},
@@ -2,55 +2,39 @@ import { SystemPromptSection } from "../templates/placeholders"
 import { TemplateEngine } from "../templates/TemplateEngine"
 import type { PromptVariant, SystemPromptContext } from "../types"
 
-const getCliSubagentsTemplateText = (_context: SystemPromptContext) => `USING THE CLINE CLI TOOL
+const getCliSubagentsTemplateText = (_context: SystemPromptContext) => `USING SUBAGENTS
 
-The Cline CLI tool can be used to assign Cline AI agents with focused tasks. This can be used to keep you focused by delegating information-gathering and exploration to separate Cline instances. Use the Cline CLI tool to research large codebases, explore file structures, gather information from multiple files, analyze dependencies, or summarize code sections when the complete context may be too large or overwhelming.
+The use_subagents tool delegates focused tasks to Cline AI agents that work in parallel, each with its own context. This can be used to keep you focused by delegating information-gathering and exploration to subagents. Use them to research large codebases, explore file structures, gather information from multiple files, analyze dependencies, or summarize code sections when the complete context may be too large or overwhelming.
 
-## Creating Cline AI agents
+## When to use subagents
 
-Cline AI agents may be referred to as agents, subagents, or subtasks. Requests may not specifically invoke agents, but you may invoke them directly if warranted. Unless you are specifically asked to use this tool, only create agents when it seems likely you may be exploring across 10 or more files. If users specifically ask that you use this tool, you then must use this tool. Do not use subagents for editing code or executing commands- they should only be used for reading and research to help you better answer questions or build useful context for future coding tasks. If you are performing a search via search_files or the terminal (grep etc.), and the results are long and overwhleming, it is reccomended that you switch to use Cline CLI agents to perform this task. You may perform code edits directly using the write_to_file and replace_in_file tools, and commands using the execute_command tool.
+Subagents may be referred to as agents or subtasks. Requests may not specifically invoke agents, but you may invoke them directly if warranted. Unless you are specifically asked to use subagents, only start them when it seems likely you may be exploring across 10 or more files. If users specifically ask that you use subagents, you then must use the use_subagents tool. If you are performing a search via search_files or the terminal (grep etc.), and the results are long and overwhelming, it is recommended that you switch to subagents to perform this task. Do not run the Cline CLI through execute_command to start agents; use_subagents gives each one an approval policy and budget, and returns its results to you.
 
-## Command Syntax
+## Approval policies
 
-You must use the following command syntax for creating Cline AI agents:
+Give each subagent the narrowest approval policy that lets it do its job. Use "read_only" for reading and research. Only use "edit" or "full" for independent changes, each in its own directory via "cwd", and review the files they report as changed before building on them. You may still perform small code edits directly yourself.
 
-\`\`\`bash
-cline "your prompt here"
-\`\`\`
+## Examples of subagent prompts
 
-## Examples of how you might use this tool
-
-\`\`\`bash
-# Find specific patterns
-cline "find all React components that use the useState hook and list their names"
-
-# Analyze code structure
-cline "analyze the authentication flow. Reverse trace through all relevant functions and methods, and provide a summary of how it works. Include file/class references in your summary."
-
-# Gather targeted information
-cline "list all API endpoints and their HTTP methods"
-
-# Summarize directories
-cline "summarize the purpose of all files in the src/services directory"
-
-# Research implementations
-cline "find how error handling is implemented across the application"
-\`\`\`
+- "Find all React components that use the useState hook and list their names"
+- "Analyze the authentication flow. Reverse trace through all relevant functions and methods, and provide a summary of how it works. Include file/class references in your summary."
+- "List all API endpoints and their HTTP methods"
+- "Summarize the purpose of all files in the src/services directory"
 
 ## Tips
+- Subagents start with none of your context, so give each a complete, specific prompt.
 - Request brief, technically dense summaries over full file dumps.
-- Be specific with your instructions to get focused results.
-- Request summaries rather than full file contents. Encourage the agent to be brief, but specific and technically dense with their response.
-- If files you want to read are large or complicated, use Cline CLI agents for exploration before instead of reading these files.`
+- Run independent subagents in the same use_subagents call so they work in parallel.
+- If files you want to read are large or complicated, use subagents for exploration before instead of reading these files.`
 
 export async function getCliSubagentsSection(variant: PromptVariant, context: SystemPromptContext): Promise<string | undefined> {
-	// If this is a CLI subagent, don't include CLI subagent instructions to prevent nesting/allignment concerns
+	// Subagents can't start subagents of their own, so they don't get these instructions
 	if (context.isCliSubagent) {
 		return undefined
 	}
 
-	// Only include this section if CLI is installed and subagents are enabled
-	if (!context.isSubagentsEnabledAndCliInstalled) {
+	// Only include this section if subagents are enabled
+	if (!context.subagentsEnabled) {
 		return undefined
 	}
 
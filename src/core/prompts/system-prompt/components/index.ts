@@ -7,6 +7,7 @@ import { getEditingFilesSection } from "./editing_files"
 import { getFeedbackSection } from "./feedback"
 import { getMcp } from "./mcp"
 import { getObjectiveSection } from "./objective"
+import { getPersonaSection } from "./persona"
 import { getRulesSection } from "./rules"
 import { getSystemInfo } from "./system_info"
 import { getUpdatingTaskProgress } from "./task_progress"
@@ -21,6 +22,7 @@ import { getUserInstructions } from "./user_instructions"
 export function getSystemPromptComponents() {
 	return [
 		{ id: SystemPromptSection.AGENT_ROLE, fn: getAgentRoleSection },
+		{ id: SystemPromptSection.PERSONA, fn: getPersonaSection },
 		{ id: SystemPromptSection.SYSTEM_INFO, fn: getSystemInfo },
 		{ id: SystemPromptSection.MCP, fn: getMcp },
 		{
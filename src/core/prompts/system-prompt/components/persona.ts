@@ -0,0 +1,19 @@
+import { SystemPromptSection } from "../templates/placeholders"
+import { TemplateEngine } from "../templates/TemplateEngine"
+import type { PromptVariant, SystemPromptContext } from "../types"
+
+const getPersonaTemplateText = (context: SystemPromptContext) => `PERSONA
+
+Take on the persona below. It shapes how you approach the task and communicate, within the rules and tool instructions in the rest of this prompt.
+
+${context.persona?.instructions}`
+
+export async function getPersonaSection(variant: PromptVariant, context: SystemPromptContext): Promise<string | undefined> {
+	if (!context.persona) {
+		return undefined
+	}
+
+	const template = variant.componentOverrides?.[SystemPromptSection.PERSONA]?.template || getPersonaTemplateText
+
+	return new TemplateEngine().resolve(template, context, {})
+}
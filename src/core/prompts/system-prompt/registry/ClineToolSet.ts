@@ -1,3 +1,4 @@
+import { PersonaLibrary } from "@/core/persona/PersonaLibrary"
 import { CLINE_MCP_TOOL_IDENTIFIER, McpServer } from "@/shared/mcp"
 import { ModelFamily } from "@/shared/prompts"
 import { ClineDefaultTool } from "@/shared/tools"
@@ -96,9 +97,11 @@ export class ClineToolSet {
 			}
 		}
 
-		// Filter by context requirements
+		// Filter by context requirements and the active persona's tool restrictions
 		const enabledTools = resolved.filter(
-			(tool) => !tool.config.contextRequirements || tool.config.contextRequirements(context),
+			(tool) =>
+				(!tool.config.contextRequirements || tool.config.contextRequirements(context)) &&
+				(!context.persona || PersonaLibrary.isToolAllowed(context.persona, tool.config.id)),
 		)
 
 		return enabledTools
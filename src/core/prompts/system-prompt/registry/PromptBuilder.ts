@@ -1,3 +1,4 @@
+import { PersonaLibrary } from "@/core/persona/PersonaLibrary"
 import type { ClineDefaultTool } from "@/shared/tools"
 import { ClineToolSet } from "../registry/ClineToolSet"
 import { type ClineToolSpec, resolveInstruction } from "../spec"
@@ -150,9 +151,11 @@ export class PromptBuilder {
 			resolvedTools = resolvedTools.sort((a, b) => a.config.id.localeCompare(b.config.id))
 		}
 
-		// Filter by context requirements
+		// Filter by context requirements and the active persona's tool restrictions
 		const enabledTools = resolvedTools.filter(
-			(tool) => !tool.config.contextRequirements || tool.config.contextRequirements(context),
+			(tool) =>
+				(!tool.config.contextRequirements || tool.config.contextRequirements(context)) &&
+				(!context.persona || PersonaLibrary.isToolAllowed(context.persona, tool.config.id)),
 		)
 
 		return enabledTools
@@ -1,5 +1,6 @@
 export enum SystemPromptSection {
 	AGENT_ROLE = "AGENT_ROLE_SECTION",
+	PERSONA = "PERSONA_SECTION",
 	TOOL_USE = "TOOL_USE_SECTION",
 	TOOLS = "TOOLS_SECTION",
 	MCP = "MCP_SECTION",
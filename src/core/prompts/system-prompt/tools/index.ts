@@ -10,12 +10,15 @@ export * from "./init"
 export * from "./list_code_definition_names"
 export * from "./list_files"
 export * from "./load_mcp_documentation"
+export * from "./manage_service"
 export * from "./new_task"
 export * from "./plan_mode_respond"
 export * from "./read_file"
 export * from "./replace_in_file"
 export * from "./search_files"
+export * from "./send_background_input"
 export * from "./use_mcp_tool"
+export * from "./use_subagents"
 export * from "./web_fetch"
 export * from "./web_search"
 export * from "./write_to_file"
@@ -12,12 +12,15 @@ import { generate_explanation_variants } from "./generate_explanation"
 import { list_code_definition_names_variants } from "./list_code_definition_names"
 import { list_files_variants } from "./list_files"
 import { load_mcp_documentation_variants } from "./load_mcp_documentation"
+import { manage_service_variants } from "./manage_service"
 import { new_task_variants } from "./new_task"
 import { plan_mode_respond_variants } from "./plan_mode_respond"
 import { read_file_variants } from "./read_file"
 import { replace_in_file_variants } from "./replace_in_file"
 import { search_files_variants } from "./search_files"
+import { send_background_input_variants } from "./send_background_input"
 import { use_mcp_tool_variants } from "./use_mcp_tool"
+import { use_subagents_variants } from "./use_subagents"
 import { web_fetch_variants } from "./web_fetch"
 import { web_search_variants } from "./web_search"
 import { write_to_file_variants } from "./write_to_file"
@@ -41,12 +44,15 @@ export function registerClineToolSets(): void {
 		...list_code_definition_names_variants,
 		...list_files_variants,
 		...load_mcp_documentation_variants,
+		...manage_service_variants,
 		...new_task_variants,
 		...plan_mode_respond_variants,
 		...read_file_variants,
 		...replace_in_file_variants,
 		...search_files_variants,
+		...send_background_input_variants,
 		...use_mcp_tool_variants,
+		...use_subagents_variants,
 		...web_fetch_variants,
 		...web_search_variants,
 		...write_to_file_variants,
@@ -0,0 +1,55 @@
+import { ModelFamily } from "@/shared/prompts"
+import { ClineDefaultTool } from "@/shared/tools"
+import type { ClineToolSpec } from "../spec"
+
+const GENERIC: ClineToolSpec = {
+	variant: ModelFamily.GENERIC,
+	id: ClineDefaultTool.SERVICE,
+	name: "manage_service",
+	description: `Request to start, stop, or restart a long-running service the workspace declares in .cline/services.json, such as a dev server, file watcher, or database, or to read its logs. Declared services are listed under "Services" in the environment details. Use this instead of execute_command to run them: starting waits until the service is ready (its readiness checks pass) and returns its recent output, and services are stopped automatically when the task ends. Read a service's logs to check on it, e.g. after a request to a dev server fails.`,
+	contextRequirements: (context) => (context.devServices?.length ?? 0) > 0,
+	parameters: [
+		{
+			name: "service",
+			required: true,
+			instruction: (context) => `The name of the service. Available services: ${context.devServices?.join(", ")}`,
+			usage: "Service name here",
+		},
+		{
+			name: "action",
+			required: true,
+			instruction:
+				"'start' to start the service and wait until it's ready (does nothing if it's already running), 'stop' to stop it, 'restart' to stop it and start it again, e.g. after changing its configuration, or 'logs' to read its latest output.",
+			usage: "start, stop, restart, or logs",
+		},
+	],
+}
+
+const NATIVE_NEXT_GEN: ClineToolSpec = {
+	variant: ModelFamily.NATIVE_NEXT_GEN,
+	id: ClineDefaultTool.SERVICE,
+	name: "manage_service",
+	description:
+		"Start, stop, or restart a long-running service declared in .cline/services.json, such as a dev server, or read its logs. Starting waits until the service is ready and returns its recent output. Prefer this over execute_command for declared services.",
+	contextRequirements: (context) => (context.devServices?.length ?? 0) > 0,
+	parameters: [
+		{
+			name: "service",
+			required: true,
+			instruction: (context) => `The name of the service. Available services: ${context.devServices?.join(", ")}`,
+		},
+		{
+			name: "action",
+			required: true,
+			instruction: "What to do with the service",
+			enum: ["start", "stop", "restart", "logs"],
+		},
+	],
+}
+
+const NATIVE_GPT_5: ClineToolSpec = {
+	...NATIVE_NEXT_GEN,
+	variant: ModelFamily.NATIVE_GPT_5,
+}
+
+export const manage_service_variants = [GENERIC, NATIVE_GPT_5, NATIVE_NEXT_GEN]
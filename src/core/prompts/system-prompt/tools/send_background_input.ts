@@ -0,0 +1,66 @@
+import { ModelFamily } from "@/shared/prompts"
+import { ClineDefaultTool } from "@/shared/tools"
+import type { ClineToolSpec } from "../spec"
+
+const GENERIC: ClineToolSpec = {
+	variant: ModelFamily.GENERIC,
+	id: ClineDefaultTool.BACKGROUND_INPUT,
+	name: "send_background_input",
+	description: `Request to interact with a command that is still running in the background, such as a prompt from \`npm init\`, a database CLI, or a REPL. Background commands are listed with their session name under "Background Commands" in the environment details; only those marked "accepts input" can receive input or signals. Returns the session's recent output after it responds, so you can read what it printed or is asking. Omit both input and signal to only read the recent output.`,
+	contextRequirements: (context) => context.terminalExecutionMode === "backgroundExec",
+	parameters: [
+		{
+			name: "session",
+			required: true,
+			instruction: "The session name of the background command, as listed in the environment details.",
+			usage: "npm-1",
+		},
+		{
+			name: "input",
+			required: false,
+			instruction: "Text to type into the session. Enter is pressed after it, so send one answer or line at a time.",
+			usage: "my-package",
+		},
+		{
+			name: "signal",
+			required: false,
+			instruction:
+				"A control signal to send after any input: 'ctrl_c' to interrupt the running program, or 'eof' (Ctrl-D) to end its input, e.g. to leave a REPL.",
+			usage: "ctrl_c or eof (optional)",
+		},
+	],
+}
+
+const NATIVE_NEXT_GEN: ClineToolSpec = {
+	variant: ModelFamily.NATIVE_NEXT_GEN,
+	id: ClineDefaultTool.BACKGROUND_INPUT,
+	name: "send_background_input",
+	description:
+		"Send input or a control signal to an interactive background command (listed with its session name in the environment details) and read its recent output. Omit input and signal to only read the output.",
+	contextRequirements: (context) => context.terminalExecutionMode === "backgroundExec",
+	parameters: [
+		{
+			name: "session",
+			required: true,
+			instruction: "The session name of the background command",
+		},
+		{
+			name: "input",
+			required: false,
+			instruction: "Text to type into the session. Enter is pressed after it.",
+		},
+		{
+			name: "signal",
+			required: false,
+			instruction: "'ctrl_c' to interrupt the program, or 'eof' (Ctrl-D) to end its input",
+			enum: ["ctrl_c", "eof"],
+		},
+	],
+}
+
+const NATIVE_GPT_5: ClineToolSpec = {
+	...NATIVE_NEXT_GEN,
+	variant: ModelFamily.NATIVE_GPT_5,
+}
+
+export const send_background_input_variants = [GENERIC, NATIVE_GPT_5, NATIVE_NEXT_GEN]
@@ -0,0 +1,58 @@
+import { DEFAULT_SUBAGENT_MAX_TOKENS } from "@core/subagents/specs"
+import { ModelFamily } from "@/shared/prompts"
+import { ClineDefaultTool } from "@/shared/tools"
+import type { ClineToolSpec } from "../spec"
+import type { SystemPromptContext } from "../types"
+
+const isAvailable = (context: SystemPromptContext) => !!context.subagentsEnabled && !context.isCliSubagent
+
+const getSubagentsInstruction = (context: SystemPromptContext) =>
+	`A JSON array of subagents to run in parallel. Each is an object with:
+- "prompt": (required) The complete task for the subagent. It starts without any of your context, so include everything it needs and say what it should report back.
+- "approvalPolicy": What the subagent may do without approval. Anything else it tries is denied. "read_only" (default) to read, list and search files; "edit" to also edit files and run safe commands; "full" to also run any command and use the browser and MCP servers.
+- "cwd": Directory to scope the subagent to, relative to the current working directory. Give subagents that edit files separate directories so they don't change the same files.
+- "maxTokens": Stop the subagent once it has used this many tokens. Defaults to ${DEFAULT_SUBAGENT_MAX_TOKENS}.
+- "maxCost": Stop the subagent once it has cost this many US dollars.${
+		context.isSubagentsEnabledAndCliInstalled
+			? `\n- "isolated": true to run the subagent in a separate Cline CLI process. An isolated subagent stops at anything its policy doesn't allow instead of being denied and carrying on.`
+			: ""
+	}`
+
+const GENERIC: ClineToolSpec = {
+	variant: ModelFamily.GENERIC,
+	id: ClineDefaultTool.SUBAGENTS,
+	name: "use_subagents",
+	description: `Request to delegate focused tasks to subagents: separate Cline agents that work in parallel, each with its own context, approval policy and token budget, and report back when they're done. Use them to keep your own context focused, e.g. to research a large codebase, gather information across many files, or make independent changes in separate directories at the same time. Prefer doing small tasks yourself, since subagents have none of your context. Each subagent's result includes its status (completed, failed, budget_exceeded or cancelled), a summary of what it found or did, the files it changed, and the tokens and cost it used. Subagents can't ask the user anything or start subagents of their own.`,
+	contextRequirements: isAvailable,
+	parameters: [
+		{
+			name: "subagents",
+			required: true,
+			instruction: getSubagentsInstruction,
+			usage: '[{"prompt": "Find every caller of parseConfig and summarize how each uses the result", "approvalPolicy": "read_only"}]',
+		},
+	],
+}
+
+const NATIVE_NEXT_GEN: ClineToolSpec = {
+	variant: ModelFamily.NATIVE_NEXT_GEN,
+	id: ClineDefaultTool.SUBAGENTS,
+	name: "use_subagents",
+	description:
+		"Delegate focused tasks to subagents that work in parallel, each with its own context, approval policy and token budget. Use them to research large codebases or make independent changes in separate directories. Returns each subagent's status, summary, changed files and usage.",
+	contextRequirements: isAvailable,
+	parameters: [
+		{
+			name: "subagents",
+			required: true,
+			instruction: getSubagentsInstruction,
+		},
+	],
+}
+
+const NATIVE_GPT_5: ClineToolSpec = {
+	...NATIVE_NEXT_GEN,
+	variant: ModelFamily.NATIVE_GPT_5,
+}
+
+export const use_subagents_variants = [GENERIC, NATIVE_GPT_5, NATIVE_NEXT_GEN]
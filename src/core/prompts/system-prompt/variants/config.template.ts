@@ -31,6 +31,7 @@ export const config: Omit<PromptVariant, "id"> = createVariant(ModelFamily.GENER
 	.components(
 		// Define component order - this is type-safe and will show available options
 		SystemPromptSection.AGENT_ROLE,
+		SystemPromptSection.PERSONA,
 		SystemPromptSection.TOOL_USE,
 		SystemPromptSection.MCP,
 		SystemPromptSection.EDITING_FILES,
@@ -106,6 +107,7 @@ export const createMinimalVariant = (family: ModelFamily) =>
 		.description("Minimal variant for lightweight models")
 		.components(
 			SystemPromptSection.AGENT_ROLE,
+			SystemPromptSection.PERSONA,
 			SystemPromptSection.TOOL_USE,
 			SystemPromptSection.RULES,
 			SystemPromptSection.SYSTEM_INFO,
@@ -118,6 +120,7 @@ export const createAdvancedVariant = (family: ModelFamily) =>
 		.description("Full-featured variant for advanced models")
 		.components(
 			SystemPromptSection.AGENT_ROLE,
+			SystemPromptSection.PERSONA,
 			SystemPromptSection.TOOL_USE,
 			SystemPromptSection.MCP,
 			SystemPromptSection.EDITING_FILES,
@@ -21,6 +21,7 @@ export const config = createVariant(ModelFamily.DEVSTRAL)
 	.template(baseTemplate)
 	.components(
 		SystemPromptSection.AGENT_ROLE,
+		SystemPromptSection.PERSONA,
 		SystemPromptSection.TOOL_USE,
 		SystemPromptSection.TASK_PROGRESS,
 		SystemPromptSection.MCP,
@@ -35,6 +36,9 @@ export const config = createVariant(ModelFamily.DEVSTRAL)
 	)
 	.tools(
 		ClineDefaultTool.BASH,
+		ClineDefaultTool.BACKGROUND_INPUT,
+		ClineDefaultTool.SERVICE,
+		ClineDefaultTool.SUBAGENTS,
 		ClineDefaultTool.FILE_READ,
 		ClineDefaultTool.FILE_NEW,
 		ClineDefaultTool.FILE_EDIT,
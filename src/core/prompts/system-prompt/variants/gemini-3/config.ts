@@ -30,6 +30,7 @@ export const config = createVariant(ModelFamily.GEMINI_3)
 	.template(baseTemplate)
 	.components(
 		SystemPromptSection.AGENT_ROLE,
+		SystemPromptSection.PERSONA,
 		SystemPromptSection.TOOL_USE,
 		SystemPromptSection.RULES,
 		SystemPromptSection.ACT_VS_PLAN,
@@ -46,6 +47,9 @@ export const config = createVariant(ModelFamily.GEMINI_3)
 	)
 	.tools(
 		ClineDefaultTool.BASH,
+		ClineDefaultTool.BACKGROUND_INPUT,
+		ClineDefaultTool.SERVICE,
+		ClineDefaultTool.SUBAGENTS,
 		ClineDefaultTool.FILE_READ,
 		ClineDefaultTool.FILE_NEW,
 		ClineDefaultTool.FILE_EDIT,
@@ -34,6 +34,7 @@ export const config = createVariant(ModelFamily.GENERIC)
 	.template(baseTemplate)
 	.components(
 		SystemPromptSection.AGENT_ROLE,
+		SystemPromptSection.PERSONA,
 		SystemPromptSection.TOOL_USE,
 		SystemPromptSection.TASK_PROGRESS,
 		SystemPromptSection.MCP,
@@ -48,6 +49,9 @@ export const config = createVariant(ModelFamily.GENERIC)
 	)
 	.tools(
 		ClineDefaultTool.BASH,
+		ClineDefaultTool.BACKGROUND_INPUT,
+		ClineDefaultTool.SERVICE,
+		ClineDefaultTool.SUBAGENTS,
 		ClineDefaultTool.FILE_READ,
 		ClineDefaultTool.FILE_NEW,
 		ClineDefaultTool.FILE_EDIT,
@@ -2,6 +2,8 @@ import { SystemPromptSection } from "../../templates/placeholders"
 
 export const baseTemplate = `{{${SystemPromptSection.AGENT_ROLE}}}
 
+{{${SystemPromptSection.PERSONA}}}
+
 {{${SystemPromptSection.TOOL_USE}}}
 
 ## {{${SystemPromptSection.TASK_PROGRESS}}}
@@ -30,6 +30,7 @@ export const config = createVariant(ModelFamily.GPT_5)
 	.template(GPT_5_TEMPLATE_OVERRIDES.BASE)
 	.components(
 		SystemPromptSection.AGENT_ROLE,
+		SystemPromptSection.PERSONA,
 		SystemPromptSection.TOOL_USE,
 		SystemPromptSection.TASK_PROGRESS,
 		SystemPromptSection.MCP,
@@ -45,6 +46,9 @@ export const config = createVariant(ModelFamily.GPT_5)
 	)
 	.tools(
 		ClineDefaultTool.BASH,
+		ClineDefaultTool.BACKGROUND_INPUT,
+		ClineDefaultTool.SERVICE,
+		ClineDefaultTool.SUBAGENTS,
 		ClineDefaultTool.FILE_READ,
 		ClineDefaultTool.FILE_NEW,
 		ClineDefaultTool.FILE_EDIT,
@@ -5,6 +5,8 @@ import { SystemPromptSection } from "../../templates/placeholders"
  */
 export const BASE = `{{${SystemPromptSection.AGENT_ROLE}}}
 
+{{${SystemPromptSection.PERSONA}}}
+
 {{${SystemPromptSection.TOOL_USE}}}
 
 ====
@@ -31,6 +31,7 @@ export const config = createVariant(ModelFamily.NATIVE_NEXT_GEN)
 	.template(TEMPLATE_OVERRIDES.BASE)
 	.components(
 		SystemPromptSection.AGENT_ROLE,
+		SystemPromptSection.PERSONA,
 		SystemPromptSection.TOOL_USE,
 		SystemPromptSection.TODO,
 		SystemPromptSection.ACT_VS_PLAN,
@@ -45,6 +46,9 @@ export const config = createVariant(ModelFamily.NATIVE_NEXT_GEN)
 	.tools(
 		ClineDefaultTool.ASK,
 		ClineDefaultTool.BASH,
+		ClineDefaultTool.BACKGROUND_INPUT,
+		ClineDefaultTool.SERVICE,
+		ClineDefaultTool.SUBAGENTS,
 		ClineDefaultTool.FILE_READ,
 		ClineDefaultTool.FILE_NEW,
 		ClineDefaultTool.FILE_EDIT,
@@ -7,6 +7,8 @@ import type { SystemPromptContext } from "../../types"
  */
 export const BASE = `{{${SystemPromptSection.AGENT_ROLE}}}
 
+{{${SystemPromptSection.PERSONA}}}
+
 {{${SystemPromptSection.TOOL_USE}}}
 
 ====
@@ -3,6 +3,8 @@ import type { SystemPromptContext } from "../../types"
 
 export const baseTemplate = `{{${SystemPromptSection.AGENT_ROLE}}}
 
+{{${SystemPromptSection.PERSONA}}}
+
 {{${SystemPromptSection.TOOL_USE}}}
 
 ====
@@ -40,17 +40,13 @@ const XS_OBJECTIVES = `EXECUTION FLOW
 - Prefer replace_in_file; respect final formatted state.
 - When all steps succeed and are confirmed, call attempt_completion (optional demo command).`
 
-const XS_CLI_SUBAGENTS = `USING THE CLINE CLI TOOL
+const XS_CLI_SUBAGENTS = `USING SUBAGENTS
 
-The Cline CLI tool is installed and available for you to use to handle focused tasks without polluting your main context window. This can be done using 
-\`\`\`bash
-cline t o "your prompt here"
+Use the use_subagents tool to hand focused tasks to subagents without polluting your main context window. Subagents run in parallel and start with none of your context, so give each a complete prompt.
 
-This must only be used for searching and exploring code. It cannot be used to edit files or execute commands.
+Use the "read_only" approval policy for searching and exploring code. Only give a subagent "edit" or "full" for independent changes in its own "cwd".
 Example:
-  # Find specific patterns
-  cline t o "find all React components that use the useState hook and list their names" 
-\`\`\``
+  [{"prompt": "find all React components that use the useState hook and list their names", "approvalPolicy": "read_only"}]`
 
 export const xsComponentOverrides: PromptVariant["componentOverrides"] = {
 	[SystemPromptSection.AGENT_ROLE]: {
@@ -0,0 +1,104 @@
+import type { McpHub } from "@services/mcp/McpHub"
+import { McpServer } from "@shared/mcp"
+import { expect } from "chai"
+import { afterEach, beforeEach, describe, it } from "mocha"
+import * as sinon from "sinon"
+import { parseSlashCommands } from ".."
+import { formatMcpPromptMessages, parseMcpPromptArguments } from "../mcpPrompts"
+
+describe("MCP prompt slash commands", () => {
+	const server: McpServer = {
+		name: "github",
+		config: "{}",
+		status: "connected",
+		prompts: [
+			{
+				name: "review-pr",
+				description: "Review a pull request",
+				arguments: [
+					{ name: "number", required: true },
+					{ name: "focus", required: false },
+				],
+			},
+		],
+	}
+	let getPrompt: sinon.SinonStub
+	let mcpHub: McpHub
+
+	beforeEach(() => {
+		getPrompt = sinon.stub().resolves({
+			messages: [{ role: "user", content: { type: "text", text: "Review PR 42 for security issues." } }],
+		})
+		mcpHub = { getServers: () => [server], getPrompt } as unknown as McpHub
+	})
+
+	afterEach(() => {
+		sinon.restore()
+	})
+
+	const parse = (text: string) => parseSlashCommands(text, {}, {}, "test-ulid", undefined, undefined, undefined, mcpHub)
+
+	describe("parseMcpPromptArguments", () => {
+		it("should read quoted and bare values for declared arguments", () => {
+			const text = ' number=42 focus="auth \\"flow\\"" and the rest'
+			const { args, length } = parseMcpPromptArguments(text, ["number", "focus"])
+
+			expect(args).to.deep.equal({ number: "42", focus: 'auth "flow"' })
+			expect(text.slice(length)).to.equal(" and the rest")
+		})
+
+		it("should stop at the first undeclared argument", () => {
+			const { args, length } = parseMcpPromptArguments(" number='7' other=1 focus=x", ["number", "focus"])
+
+			expect(args).to.deep.equal({ number: "7" })
+			expect(length).to.equal(" number='7'".length)
+		})
+	})
+
+	describe("formatMcpPromptMessages", () => {
+		it("should keep roles when the prompt is a conversation", () => {
+			const text = formatMcpPromptMessages({
+				messages: [
+					{ role: "user", content: { type: "text", text: "Hi" } },
+					{ role: "assistant", content: { type: "resource", resource: { uri: "file:///a.md", text: "A" } } },
+					{ role: "user", content: { type: "image", data: "", mimeType: "image/png" } },
+				],
+			})
+
+			expect(text).to.equal(
+				'<message role="user">\nHi\n</message>\n' +
+					'<message role="assistant">\n<resource uri="file:///a.md">\nA\n</resource>\n</message>\n' +
+					'<message role="user">\n[image content omitted]\n</message>',
+			)
+		})
+	})
+
+	describe("parseSlashCommands", () => {
+		it("should expand the prompt with its arguments and keep the rest of the message", async () => {
+			const result = await parse("<task>/mcp__github__review-pr number=42 focus=security please</task>")
+
+			sinon.assert.calledWith(getPrompt, "github", "review-pr", { number: "42", focus: "security" })
+			expect(result.processedText).to.equal(
+				'<explicit_instructions type="mcp__github__review-pr">\nReview PR 42 for security issues.\n</explicit_instructions>\n' +
+					"<task> please</task>",
+			)
+			expect(result.needsClinerulesFileCheck).to.be.false
+		})
+
+		it("should ask for missing required arguments without calling the server", async () => {
+			const result = await parse("<task>/mcp__github__review-pr</task>")
+
+			sinon.assert.notCalled(getPrompt)
+			expect(result.processedText).to.include("without its required arguments: number")
+			expect(result.processedText).to.include('/mcp__github__review-pr number="..."')
+		})
+
+		it("should explain when the server fails to return the prompt", async () => {
+			getPrompt.rejects(new Error("Prompt not found"))
+
+			const result = await parse("<task>/mcp__github__review-pr number=1</task>")
+
+			expect(result.processedText).to.include("could not be loaded: Prompt not found")
+		})
+	})
+})
@@ -0,0 +1,191 @@
+import { expect } from "chai"
+import fs from "fs/promises"
+import { afterEach, beforeEach, describe, it } from "mocha"
+import * as os from "os"
+import * as path from "path"
+import * as sinon from "sinon"
+import { parseSlashCommands } from ".."
+import { StateManager } from "../../storage/StateManager"
+import {
+	getWorkflowCommandDetails,
+	invalidateWorkflowCommandDetails,
+	parseWorkflowFrontMatter,
+	resolveWorkflowArguments,
+} from "../workflows"
+
+describe("Workflow slash commands", () => {
+	let tmpDir: string
+	let toggles: Record<string, boolean>
+
+	const writeWorkflow = async (fileName: string, content: string) => {
+		const filePath = path.join(tmpDir, fileName)
+		await fs.writeFile(filePath, content)
+		toggles[filePath] = true
+		return filePath
+	}
+
+	const parse = (text: string) => parseSlashCommands(text, toggles, {}, "test-ulid")
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "cline-workflows-"))
+		toggles = {}
+		sinon.stub(StateManager, "get").returns({
+			getRemoteConfigSettings: () => ({}),
+			getGlobalStateKey: () => undefined,
+		} as unknown as StateManager)
+	})
+
+	afterEach(async () => {
+		sinon.restore()
+		await fs.rm(tmpDir, { recursive: true, force: true })
+	})
+
+	const deployWorkflow = `---
+description: Deploy a service
+arguments:
+  - name: service
+    required: true
+  - name: environment
+    default: staging
+    options: [staging, production]
+  - name: replicas
+    type: number
+    default: 2
+---
+Deploy {{service}} to {{ environment }} with {{replicas}} replicas. Leave {{unknown}} alone.`
+
+	describe("parseWorkflowFrontMatter", () => {
+		it("should read declared arguments and strip the front matter from the body", () => {
+			const { frontMatter, body } = parseWorkflowFrontMatter(deployWorkflow)
+
+			expect(frontMatter.description).to.equal("Deploy a service")
+			expect(frontMatter.arguments.map((argument) => argument.name)).to.deep.equal(["service", "environment", "replicas"])
+			expect(frontMatter.arguments[2]).to.include({ type: "number", default: "2" })
+			expect(body.startsWith("Deploy {{service}}")).to.be.true
+		})
+
+		it("should treat a workflow that opens with a horizontal rule as having no front matter", () => {
+			const content = "---\nJust some text\n---\nMore text"
+
+			expect(parseWorkflowFrontMatter(content)).to.deep.equal({ frontMatter: { arguments: [] }, body: content })
+		})
+
+		it("should reject arguments that don't match the schema", () => {
+			expect(() => parseWorkflowFrontMatter("---\narguments:\n  - name: bad name\n---\nBody")).to.throw(
+				"Invalid front matter: arguments.0.name",
+			)
+		})
+	})
+
+	describe("resolveWorkflowArguments", () => {
+		it("should check required arguments, types and options", () => {
+			const { arguments: declared } = parseWorkflowFrontMatter(deployWorkflow).frontMatter
+
+			const { problems } = resolveWorkflowArguments(declared, { environment: "qa", replicas: "many" })
+
+			expect(problems).to.deep.equal([
+				"service is required",
+				'environment must be one of staging, production, got "qa"',
+				'replicas must be a number, got "many"',
+			])
+		})
+	})
+
+	describe("parseSlashCommands", () => {
+		it("should substitute arguments and defaults and keep the rest of the message", async () => {
+			await writeWorkflow("deploy.md", deployWorkflow)
+
+			const result = await parse(`<task>/deploy.md service="api server" replicas=3 now please</task>`)
+
+			expect(result.processedText).to.equal(
+				'<explicit_instructions type="deploy.md">\nDeploy api server to staging with 3 replicas. Leave {{unknown}} alone.\n</explicit_instructions>\n' +
+					"<task> now please</task>",
+			)
+		})
+
+		it("should explain missing or invalid arguments", async () => {
+			await writeWorkflow("deploy.md", deployWorkflow)
+
+			const result = await parse("<task>/deploy.md environment=qa</task>")
+
+			expect(result.processedText).to.include("with missing or invalid arguments: service is required")
+			expect(result.processedText).to.include('/deploy.md service="..." environment="qa" replicas="2"')
+			expect(result.processedText).to.not.include("Deploy")
+		})
+
+		it("should inline included workflows with the arguments they share", async () => {
+			await writeWorkflow(
+				"preflight.md",
+				"---\narguments:\n  - name: environment\n    required: true\n  - name: strict\n    type: boolean\n    default: false\n---\nCheck {{environment}} (strict: {{strict}}).",
+			)
+			await writeWorkflow(
+				"release.md",
+				deployWorkflow.replace("Deploy {{service}}", '{{> preflight.md strict="true"}}\nDeploy {{service}}'),
+			)
+
+			const result = await parse("<task>/release.md service=web environment=production</task>")
+
+			expect(result.processedText).to.include("Check production (strict: true).\nDeploy web to production with 2 replicas.")
+		})
+
+		it("should report include cycles and workflows that aren't enabled", async () => {
+			await writeWorkflow("a.md", "A\n{{> b.md}}")
+			await writeWorkflow("b.md", "B\n{{> a.md}}")
+			await writeWorkflow("c.md", "C\n{{> missing.md}}")
+
+			expect((await parse("<task>/a.md</task>")).processedText).to.include(
+				"Workflows include each other in a cycle: a.md -> b.md -> a.md",
+			)
+			expect((await parse("<task>/c.md</task>")).processedText).to.include(
+				`"c.md" includes "missing.md", which isn't an enabled workflow`,
+			)
+		})
+
+		it("should leave workflows without front matter unchanged", async () => {
+			await writeWorkflow("plain.md", "Run the tests with {{verbose}} output.\n")
+
+			const result = await parse("<task>/plain.md verbose=yes</task>")
+
+			expect(result.processedText).to.equal(
+				'<explicit_instructions type="plain.md">\nRun the tests with {{verbose}} output.\n</explicit_instructions>\n' +
+					"<task> verbose=yes</task>",
+			)
+		})
+	})
+
+	describe("getWorkflowCommandDetails", () => {
+		it("should list the description and arguments of workflows with front matter", async () => {
+			await writeWorkflow("deploy.md", deployWorkflow)
+			await writeWorkflow("plain.md", "No front matter")
+
+			const details = await getWorkflowCommandDetails(
+				Object.keys(toggles).map((fullPath) => ({ fullPath, fileName: path.basename(fullPath), isRemote: false })),
+			)
+
+			expect(Object.keys(details)).to.deep.equal(["deploy.md"])
+			expect(details["deploy.md"].description).to.equal("Deploy a service")
+			expect(details["deploy.md"].arguments?.[1]).to.include({ name: "environment", default: "staging" })
+		})
+
+		it("should keep the details until a workflow is toggled or the cache is invalidated", async () => {
+			const deploy = await writeWorkflow("deploy.md", deployWorkflow)
+			const plain = await writeWorkflow("plain.md", "---\ndescription: Plain\n---\nNo arguments")
+			const workflows = () =>
+				Object.keys(toggles)
+					.filter((fullPath) => toggles[fullPath])
+					.map((fullPath) => ({ fullPath, fileName: path.basename(fullPath), isRemote: false as const }))
+
+			await getWorkflowCommandDetails(workflows())
+			await fs.writeFile(deploy, "---\ndescription: Deploy again\n---\nDeploy")
+			expect((await getWorkflowCommandDetails(workflows()))["deploy.md"].description).to.equal("Deploy a service")
+
+			toggles[plain] = false
+			expect(Object.keys(await getWorkflowCommandDetails(workflows()))).to.deep.equal(["deploy.md"])
+			expect((await getWorkflowCommandDetails(workflows()))["deploy.md"].description).to.equal("Deploy again")
+
+			await fs.writeFile(deploy, "---\ndescription: Deploy once more\n---\nDeploy")
+			invalidateWorkflowCommandDetails()
+			expect((await getWorkflowCommandDetails(workflows()))["deploy.md"].description).to.equal("Deploy once more")
+		})
+	})
+})
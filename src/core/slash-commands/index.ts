@@ -1,6 +1,7 @@
 import type { ApiProviderInfo } from "@core/api"
+import type { McpHub } from "@services/mcp/McpHub"
 import { ClineRulesToggles } from "@shared/cline-rules"
-import fs from "fs/promises"
+import { MCP_PROMPT_COMMAND_PREFIX } from "@shared/slashCommands"
 import { telemetryService } from "@/services/telemetry"
 import { isNativeToolCallingConfig } from "@/utils/model-utils"
 import {
@@ -12,22 +13,8 @@ import {
 	reportBugToolResponse,
 	subagentToolResponse,
 } from "../prompts/commands"
-import { StateManager } from "../storage/StateManager"
-
-type FileBasedWorkflow = {
-	fullPath: string
-	fileName: string
-	isRemote: false
-}
-
-type RemoteWorkflow = {
-	fullPath: string
-	fileName: string
-	isRemote: true
-	contents: string
-}
-
-type Workflow = FileBasedWorkflow | RemoteWorkflow
+import { expandMcpPromptCommand } from "./mcpPrompts"
+import { expandWorkflowCommand, getEnabledWorkflows, readWorkflow } from "./workflows"
 
 /**
  * Processes text for slash commands and transforms them with appropriate instructions
@@ -41,6 +28,7 @@ export async function parseSlashCommands(
 	focusChainSettings?: { enabled: boolean },
 	enableNativeToolCalls?: boolean,
 	providerInfo?: ApiProviderInfo,
+	mcpHub?: McpHub,
 ): Promise<{ processedText: string; needsClinerulesFileCheck: boolean }> {
 	const SUPPORTED_DEFAULT_COMMANDS = [
 		"newtask",
@@ -143,42 +131,27 @@ export async function parseSlashCommands(
 				return { processedText: processedText, needsClinerulesFileCheck: commandName === "newrule" }
 			}
 
-			const globalWorkflows: Workflow[] = Object.entries(globalWorkflowToggles)
-				.filter(([_, enabled]) => enabled)
-				.map(([filePath, _]) => ({
-					fullPath: filePath,
-					fileName: filePath.replace(/^.*[/\\]/, ""),
-					isRemote: false,
-				}))
-
-			const localWorkflows: Workflow[] = Object.entries(localWorkflowToggles)
-				.filter(([_, enabled]) => enabled)
-				.map(([filePath, _]) => ({
-					fullPath: filePath,
-					fileName: filePath.replace(/^.*[/\\]/, ""),
-					isRemote: false,
-				}))
-
-			// Get remote workflows from remote config
-			const stateManager = StateManager.get()
-			const remoteConfigSettings = stateManager.getRemoteConfigSettings()
-			const remoteWorkflows = remoteConfigSettings.remoteGlobalWorkflows || []
-			const remoteWorkflowToggles = stateManager.getGlobalStateKey("remoteWorkflowToggles") || {}
-
-			const enabledRemoteWorkflows: Workflow[] = remoteWorkflows
-				.filter((workflow) => {
-					// If alwaysEnabled, always include; otherwise check toggle
-					return workflow.alwaysEnabled || remoteWorkflowToggles[workflow.name] !== false
-				})
-				.map((workflow) => ({
-					fullPath: "",
-					fileName: workflow.name,
-					isRemote: true,
-					contents: workflow.contents,
-				}))
+			// MCP prompts are expanded by their server, with the name="value" arguments that follow the command
+			if (mcpHub && commandName.startsWith(MCP_PROMPT_COMMAND_PREFIX)) {
+				const slashPosition = contentStartIndex + slashMatch.index + slashMatch[1].length
+				const commandEnd = slashPosition + 1 + commandName.length
+				const contentEnd = contentStartIndex + tagContent.length
+				const expanded = await expandMcpPromptCommand(mcpHub, commandName, text.substring(commandEnd, contentEnd))
+
+				if (expanded) {
+					const processedText =
+						expanded.instructions +
+						text.substring(0, slashPosition) +
+						text.substring(commandEnd + expanded.argumentsLength)
+
+					telemetryService.captureSlashCommandUsed(ulid, commandName, "mcp_prompt")
+
+					return { processedText, needsClinerulesFileCheck: false }
+				}
+			}
 
 			// local workflows have precedence over global workflows, which have precedence over remote workflows
-			const enabledWorkflows: Workflow[] = [...localWorkflows, ...globalWorkflows, ...enabledRemoteWorkflows]
+			const enabledWorkflows = getEnabledWorkflows(localWorkflowToggles, globalWorkflowToggles)
 
 			// Then check if the command matches any enabled workflow filename
 			const matchingWorkflow = enabledWorkflows.find((workflow) => workflow.fileName === commandName)
@@ -186,18 +159,27 @@ export async function parseSlashCommands(
 			if (matchingWorkflow) {
 				try {
 					// Get workflow content - either from file or from remote config
-					let workflowContent: string
-					if (matchingWorkflow.isRemote) {
-						workflowContent = matchingWorkflow.contents.trim()
-					} else {
-						workflowContent = (await fs.readFile(matchingWorkflow.fullPath, "utf8")).trim()
-					}
-
-					// remove the slash command and add custom instructions at the top of this message
-					const textWithoutSlashCommand = removeSlashCommand(text, tagContent, contentStartIndex, slashMatch)
+					const workflowContent = await readWorkflow(matchingWorkflow)
+
+					// Workflows can declare arguments, given as name="value" after the command, and include other workflows
+					const slashPosition = contentStartIndex + slashMatch.index + slashMatch[1].length
+					const commandEnd = slashPosition + 1 + commandName.length
+					const contentEnd = contentStartIndex + tagContent.length
+					const expanded = await expandWorkflowCommand(
+						matchingWorkflow.fileName,
+						workflowContent,
+						text.substring(commandEnd, contentEnd),
+						async (fileName) => {
+							const workflow = enabledWorkflows.find((w) => w.fileName === fileName)
+							return workflow ? readWorkflow(workflow) : undefined
+						},
+					)
+
+					// remove the slash command and its arguments, and add custom instructions at the top of this message
 					const processedText =
-						`<explicit_instructions type="${matchingWorkflow.fileName}">\n${workflowContent}\n</explicit_instructions>\n` +
-						textWithoutSlashCommand
+						expanded.instructions +
+						text.substring(0, slashPosition) +
+						text.substring(commandEnd + expanded.argumentsLength)
 
 					// Track telemetry for workflow command usage
 					telemetryService.captureSlashCommandUsed(ulid, commandName, "workflow")
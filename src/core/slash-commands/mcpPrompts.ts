@@ -0,0 +1,106 @@
+import type { McpHub } from "@services/mcp/McpHub"
+import { McpPromptResponse } from "@shared/mcp"
+import { getMcpPromptCommandName } from "@shared/slashCommands"
+
+// name="quoted value", name='quoted value' or name=value, each preceded by whitespace
+const ARGUMENT_REGEX = /\s+([a-zA-Z_][\w-]*)=(?:"((?:[^"\\]|\\.)*)"|'([^']*)'|([^\s"']\S*))/y
+
+/**
+ * Reads the name="value" arguments that directly follow an MCP prompt command. Only the prompt's
+ * own argument names are consumed, so the rest of the message is left alone.
+ */
+export function parseMcpPromptArguments(
+	textAfterCommand: string,
+	argumentNames: string[],
+): { args: Record<string, string>; length: number } {
+	const args: Record<string, string> = {}
+	let length = 0
+
+	ARGUMENT_REGEX.lastIndex = 0
+	let match = ARGUMENT_REGEX.exec(textAfterCommand)
+	while (match && argumentNames.includes(match[1])) {
+		args[match[1]] = match[2] !== undefined ? match[2].replace(/\\(.)/g, "$1") : (match[3] ?? match[4])
+		length = ARGUMENT_REGEX.lastIndex
+		match = ARGUMENT_REGEX.exec(textAfterCommand)
+	}
+	return { args, length }
+}
+
+/**
+ * Flattens the messages of an expanded MCP prompt into text for the user's message
+ */
+export function formatMcpPromptMessages(response: McpPromptResponse): string {
+	const parts = response.messages.map(({ role, content }) => {
+		let text: string
+		switch (content.type) {
+			case "text":
+				text = content.text
+				break
+			case "resource":
+				text = content.resource.text
+					? `<resource uri="${content.resource.uri}">\n${content.resource.text}\n</resource>`
+					: `[Resource: ${content.resource.uri}]`
+				break
+			case "resource_link":
+				text = `[Resource: ${content.uri}]`
+				break
+			default:
+				text = `[${content.type} content omitted]`
+		}
+		return { role, text }
+	})
+
+	// A prompt made only of user messages reads as one instruction; conversations keep their roles
+	if (parts.every((part) => part.role === "user")) {
+		return parts.map((part) => part.text).join("\n\n")
+	}
+	return parts.map((part) => `<message role="${part.role}">\n${part.text}\n</message>`).join("\n")
+}
+
+/**
+ * Expands an mcp__<server>__<prompt> slash command into explicit instructions using the prompt's messages.
+ * Returns undefined when no connected server publishes the prompt.
+ */
+export async function expandMcpPromptCommand(
+	mcpHub: McpHub,
+	commandName: string,
+	textAfterCommand: string,
+): Promise<{ instructions: string; argumentsLength: number } | undefined> {
+	for (const server of mcpHub.getServers()) {
+		const prompt = server.prompts?.find((p) => getMcpPromptCommandName(server.name, p.name) === commandName)
+		if (!prompt) {
+			continue
+		}
+
+		const { args, length } = parseMcpPromptArguments(
+			textAfterCommand,
+			(prompt.arguments ?? []).map((argument) => argument.name),
+		)
+		const wrap = (content: string) => `<explicit_instructions type="${commandName}">\n${content}\n</explicit_instructions>\n`
+
+		const missing = (prompt.arguments ?? []).filter((argument) => argument.required && !args[argument.name])
+		if (missing.length > 0) {
+			const usage = missing.map((argument) => `${argument.name}="..."`).join(" ")
+			return {
+				instructions: wrap(
+					`The user ran the MCP prompt "${prompt.name}" from the ${server.name} server without its required arguments: ${missing.map((argument) => argument.name).join(", ")}. Tell them to run it again as /${commandName} ${usage}`,
+				),
+				argumentsLength: length,
+			}
+		}
+
+		try {
+			const response = await mcpHub.getPrompt(server.name, prompt.name, args)
+			return { instructions: wrap(formatMcpPromptMessages(response)), argumentsLength: length }
+		} catch (error) {
+			console.error(`Error getting MCP prompt ${prompt.name} from ${server.name}:`, error)
+			return {
+				instructions: wrap(
+					`The MCP prompt "${prompt.name}" from the ${server.name} server could not be loaded: ${error instanceof Error ? error.message : String(error)}. Let the user know.`,
+				),
+				argumentsLength: length,
+			}
+		}
+	}
+	return undefined
+}
@@ -0,0 +1,320 @@
+import { ClineRulesToggles } from "@shared/cline-rules"
+import type { SlashCommandArgument, WorkflowCommandDetails } from "@shared/slashCommands"
+import fs from "fs/promises"
+import * as yaml from "js-yaml"
+import { z } from "zod"
+import { StateManager } from "../storage/StateManager"
+import { parseMcpPromptArguments } from "./mcpPrompts"
+
+export type FileBasedWorkflow = {
+	fullPath: string
+	fileName: string
+	isRemote: false
+}
+
+export type RemoteWorkflow = {
+	fullPath: string
+	fileName: string
+	isRemote: true
+	contents: string
+}
+
+export type Workflow = FileBasedWorkflow | RemoteWorkflow
+
+/** How deep workflows can include each other */
+const MAX_INCLUDE_DEPTH = 5
+
+const FRONT_MATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/
+
+// {{name}} or {{ name }}
+const PLACEHOLDER_REGEX = /\{\{\s*([a-zA-Z_][\w-]*)\s*\}\}/g
+
+// {{> other-workflow.md}}, optionally followed by name="value" arguments
+const INCLUDE_REGEX = /\{\{>\s*([a-zA-Z0-9_.-]+)((?:\s+[^}]*)?)\}\}/g
+
+const ArgumentValueSchema = z.union([z.string(), z.number(), z.boolean()]).transform(String)
+
+const WorkflowArgumentSchema = z.object({
+	name: z.string().regex(/^[a-zA-Z_][\w-]*$/, "Argument names may only contain letters, digits, _ and -"),
+	description: z.string().optional(),
+	type: z.enum(["string", "number", "boolean"]).optional().default("string"),
+	required: z.boolean().optional(),
+	default: ArgumentValueSchema.optional(),
+	options: z.array(ArgumentValueSchema).optional(),
+})
+
+const WorkflowFrontMatterSchema = z.object({
+	description: z.string().optional(),
+	arguments: z.array(WorkflowArgumentSchema).optional().default([]),
+})
+
+export type WorkflowFrontMatter = z.infer<typeof WorkflowFrontMatterSchema>
+
+/**
+ * Splits a workflow into its YAML front matter and its body. A workflow without front matter has no
+ * arguments and is used as is.
+ * @throws Error if the front matter isn't valid YAML or doesn't match the schema
+ */
+export function parseWorkflowFrontMatter(content: string): { frontMatter: WorkflowFrontMatter; body: string } {
+	const match = FRONT_MATTER_REGEX.exec(content)
+	if (!match) {
+		return { frontMatter: { arguments: [] }, body: content }
+	}
+
+	let data: unknown
+	try {
+		data = yaml.load(match[1])
+	} catch (error) {
+		throw new Error(`Invalid front matter: ${error instanceof Error ? error.message : String(error)}`)
+	}
+	// A workflow that merely opens with a horizontal rule has no front matter
+	if (typeof data !== "object" || data === null || Array.isArray(data)) {
+		return { frontMatter: { arguments: [] }, body: content }
+	}
+
+	const result = WorkflowFrontMatterSchema.safeParse(data)
+	if (!result.success) {
+		const issues = result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+		throw new Error(`Invalid front matter: ${issues.join("; ")}`)
+	}
+	return { frontMatter: result.data, body: content.slice(match[0].length) }
+}
+
+/**
+ * Resolves the values of a workflow's arguments from the given ones and the declared defaults.
+ * Optional arguments without a value or default resolve to an empty string.
+ * @returns The values by argument name, and a description of each missing or invalid argument
+ */
+export function resolveWorkflowArguments(
+	declared: SlashCommandArgument[],
+	given: Record<string, string>,
+): { values: Record<string, string>; problems: string[] } {
+	const values: Record<string, string> = {}
+	const problems: string[] = []
+
+	for (const argument of declared) {
+		const value = given[argument.name] ?? argument.default
+		if (value === undefined || value === "") {
+			if (argument.required) {
+				problems.push(`${argument.name} is required`)
+			}
+			values[argument.name] = ""
+			continue
+		}
+
+		if (argument.type === "number" && Number.isNaN(Number(value))) {
+			problems.push(`${argument.name} must be a number, got "${value}"`)
+		} else if (argument.type === "boolean" && value !== "true" && value !== "false") {
+			problems.push(`${argument.name} must be true or false, got "${value}"`)
+		} else if (argument.options && !argument.options.includes(value)) {
+			problems.push(`${argument.name} must be one of ${argument.options.join(", ")}, got "${value}"`)
+		}
+		values[argument.name] = value
+	}
+	return { values, problems }
+}
+
+/**
+ * Replaces {{name}} placeholders with argument values. Placeholders for undeclared names are left alone.
+ */
+export function substituteWorkflowArguments(body: string, values: Record<string, string>): string {
+	return body.replace(PLACEHOLDER_REGEX, (placeholder, name: string) =>
+		Object.hasOwn(values, name) ? values[name] : placeholder,
+	)
+}
+
+/**
+ * Renders a workflow: resolves its arguments, substitutes them into the body, and replaces each
+ * {{> other.md}} with the rendered workflow it includes. Included workflows receive the values of the
+ * arguments they share with the including workflow, plus any name="value" arguments given with the include.
+ * @param stack The workflows that include this one, to catch include cycles
+ * @throws Error if a workflow can't be loaded or parsed, an include cycles, or arguments are missing or invalid
+ */
+async function renderWorkflow(
+	fileName: string,
+	given: Record<string, string>,
+	loadWorkflow: (fileName: string) => Promise<string | undefined>,
+	stack: string[],
+): Promise<string> {
+	if (stack.includes(fileName)) {
+		throw new Error(`Workflows include each other in a cycle: ${[...stack, fileName].join(" -> ")}`)
+	}
+	if (stack.length > MAX_INCLUDE_DEPTH) {
+		throw new Error(`Workflows are included more than ${MAX_INCLUDE_DEPTH} levels deep: ${stack.join(" -> ")}`)
+	}
+
+	const content = await loadWorkflow(fileName)
+	if (content === undefined) {
+		throw new Error(`"${stack[stack.length - 1]}" includes "${fileName}", which isn't an enabled workflow`)
+	}
+
+	const { frontMatter, body } = parseWorkflowFrontMatter(content.trim())
+	const { values, problems } = resolveWorkflowArguments(frontMatter.arguments, given)
+	if (problems.length > 0) {
+		throw new Error(`Invalid arguments for "${fileName}": ${problems.join("; ")}`)
+	}
+	const rendered = substituteWorkflowArguments(body.trim(), values)
+
+	// Includes are rendered one at a time, in order, so errors name the first broken include
+	let result = ""
+	let lastIndex = 0
+	for (const match of rendered.matchAll(INCLUDE_REGEX)) {
+		const [include, includedName, argumentText] = match
+		const declaredNames = [...argumentText.matchAll(/\s+([a-zA-Z_][\w-]*)=/g)].map((argument) => argument[1])
+		const { args } = parseMcpPromptArguments(argumentText, declaredNames)
+
+		result += rendered.slice(lastIndex, match.index)
+		result += await renderWorkflow(includedName, { ...given, ...values, ...args }, loadWorkflow, [...stack, fileName])
+		lastIndex = match.index + include.length
+	}
+	return result + rendered.slice(lastIndex)
+}
+
+/**
+ * Expands a workflow slash command into explicit instructions, with the name="value" arguments that
+ * follow the command substituted into it and the workflows it includes inlined.
+ * @param loadWorkflow Loads an enabled workflow by file name, or returns undefined if there's none
+ */
+export async function expandWorkflowCommand(
+	fileName: string,
+	content: string,
+	textAfterCommand: string,
+	loadWorkflow: (fileName: string) => Promise<string | undefined>,
+): Promise<{ instructions: string; argumentsLength: number }> {
+	const wrap = (text: string) => `<explicit_instructions type="${fileName}">\n${text}\n</explicit_instructions>\n`
+
+	let declared: SlashCommandArgument[]
+	try {
+		declared = parseWorkflowFrontMatter(content.trim()).frontMatter.arguments
+	} catch (error) {
+		return {
+			instructions: wrap(`The workflow "${fileName}" could not be loaded: ${(error as Error).message}. Let the user know.`),
+			argumentsLength: 0,
+		}
+	}
+
+	const { args, length } = parseMcpPromptArguments(
+		textAfterCommand,
+		declared.map((argument) => argument.name),
+	)
+
+	const { problems } = resolveWorkflowArguments(declared, args)
+	if (problems.length > 0) {
+		const usage = declared.map((argument) => `${argument.name}="${args[argument.name] ?? argument.default ?? "..."}"`)
+		return {
+			instructions: wrap(
+				`The user ran the workflow "${fileName}" with missing or invalid arguments: ${problems.join("; ")}. Tell them to run it again as /${fileName} ${usage.join(" ")}`,
+			),
+			argumentsLength: length,
+		}
+	}
+
+	try {
+		const rendered = await renderWorkflow(
+			fileName,
+			args,
+			async (name) => (name === fileName ? content : loadWorkflow(name)),
+			[],
+		)
+		return { instructions: wrap(rendered), argumentsLength: length }
+	} catch (error) {
+		return {
+			instructions: wrap(`The workflow "${fileName}" could not be loaded: ${(error as Error).message}. Let the user know.`),
+			argumentsLength: length,
+		}
+	}
+}
+
+/**
+ * The enabled workflows, local ones first, then global and remote ones. A slash command runs the first
+ * workflow with its name, so local workflows take precedence over global ones, which take precedence over remote ones.
+ */
+export function getEnabledWorkflows(
+	localWorkflowToggles: ClineRulesToggles,
+	globalWorkflowToggles: ClineRulesToggles,
+): Workflow[] {
+	const toWorkflows = (toggles: ClineRulesToggles): Workflow[] =>
+		Object.entries(toggles)
+			.filter(([_, enabled]) => enabled)
+			.map(([filePath, _]) => ({
+				fullPath: filePath,
+				fileName: filePath.replace(/^.*[/\\]/, ""),
+				isRemote: false,
+			}))
+
+	// Get remote workflows from remote config
+	const stateManager = StateManager.get()
+	const remoteConfigSettings = stateManager.getRemoteConfigSettings()
+	const remoteWorkflows = remoteConfigSettings.remoteGlobalWorkflows || []
+	const remoteWorkflowToggles = stateManager.getGlobalStateKey("remoteWorkflowToggles") || {}
+
+	const enabledRemoteWorkflows: Workflow[] = remoteWorkflows
+		.filter((workflow) => {
+			// If alwaysEnabled, always include; otherwise check toggle
+			return workflow.alwaysEnabled || remoteWorkflowToggles[workflow.name] !== false
+		})
+		.map((workflow) => ({
+			fullPath: "",
+			fileName: workflow.name,
+			isRemote: true,
+			contents: workflow.contents,
+		}))
+
+	return [...toWorkflows(localWorkflowToggles), ...toWorkflows(globalWorkflowToggles), ...enabledRemoteWorkflows]
+}
+
+/**
+ * Reads a workflow's contents, from its file or from remote config
+ */
+export async function readWorkflow(workflow: Workflow): Promise<string> {
+	return workflow.isRemote ? workflow.contents : fs.readFile(workflow.fullPath, "utf8")
+}
+
+// Command details of the enabled workflows. Toggling a workflow changes the key; a changed workflow file invalidates it.
+let commandDetailsCache: { key: string; details: Promise<Record<string, WorkflowCommandDetails>> } | undefined
+
+/**
+ * The description and arguments each workflow declares in its front matter, by workflow name, for the
+ * slash command menu. Workflows without front matter, or with invalid front matter, are left out.
+ */
+export async function getWorkflowCommandDetails(workflows: Workflow[]): Promise<Record<string, WorkflowCommandDetails>> {
+	const key = JSON.stringify(workflows)
+	if (commandDetailsCache?.key !== key) {
+		commandDetailsCache = { key, details: readWorkflowCommandDetails(workflows) }
+	}
+	return commandDetailsCache.details
+}
+
+/**
+ * Drop the cached command details, e.g. after a workflow file changed
+ */
+export function invalidateWorkflowCommandDetails(): void {
+	commandDetailsCache = undefined
+}
+
+async function readWorkflowCommandDetails(workflows: Workflow[]): Promise<Record<string, WorkflowCommandDetails>> {
+	const result: Record<string, WorkflowCommandDetails> = {}
+	const seen = new Set<string>()
+
+	for (const workflow of workflows) {
+		// Only the workflow that takes precedence runs for a name
+		if (seen.has(workflow.fileName)) {
+			continue
+		}
+		seen.add(workflow.fileName)
+		try {
+			const details = toCommandDetails(await readWorkflow(workflow))
+			if (details.description || details.arguments?.length) {
+				result[workflow.fileName] = details
+			}
+		} catch {
+			// Missing files and invalid front matter are reported when the workflow runs
+		}
+	}
+	return result
+}
+
+function toCommandDetails(content: string): WorkflowCommandDetails {
+	const { frontMatter } = parseWorkflowFrontMatter(content.trim())
+	return { description: frontMatter.description, arguments: frontMatter.arguments }
+}
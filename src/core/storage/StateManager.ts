@@ -558,6 +558,7 @@ export class StateManager {
 			minimaxApiLine,
 			nousResearchApiKey,
 			requestTimeoutMs,
+			apiFallbackChain,
 			ocaBaseUrl,
 			ocaMode,
 			hicapApiKey,
@@ -752,6 +753,7 @@ export class StateManager {
 			zaiApiLine,
 			asksageApiUrl,
 			requestTimeoutMs,
+			apiFallbackChain,
 			fireworksModelMaxCompletionTokens,
 			fireworksModelMaxTokens,
 			sapAiCoreBaseUrl,
@@ -1184,6 +1186,7 @@ export class StateManager {
 			zaiApiLine: this.taskStateCache["zaiApiLine"] || this.globalStateCache["zaiApiLine"],
 			asksageApiUrl: this.taskStateCache["asksageApiUrl"] || this.globalStateCache["asksageApiUrl"],
 			requestTimeoutMs: this.taskStateCache["requestTimeoutMs"] || this.globalStateCache["requestTimeoutMs"],
+			apiFallbackChain: this.taskStateCache["apiFallbackChain"] || this.globalStateCache["apiFallbackChain"],
 			fireworksModelMaxCompletionTokens:
 				this.taskStateCache["fireworksModelMaxCompletionTokens"] ||
 				this.globalStateCache["fireworksModelMaxCompletionTokens"],
@@ -1,6 +1,7 @@
 import { Anthropic } from "@anthropic-ai/sdk"
 import { EnvironmentMetadataEntry, TaskMetadata } from "@core/context/context-tracking/ContextTrackerTypes"
 import { execa } from "@packages/execa"
+import { ArchitectState } from "@shared/architect-types"
 import { ClineMessage } from "@shared/ExtensionMessage"
 import { HistoryItem } from "@shared/HistoryItem"
 import { RemoteConfig } from "@shared/remote-config/schema"
@@ -57,6 +58,7 @@ export const GlobalFileNames = {
 	windsurfRules: ".windsurfrules",
 	agentsRulesFile: "AGENTS.md",
 	taskMetadata: "task_metadata.json",
+	architectState: "architect_state.json",
 	mcpMarketplaceCatalog: "mcp_marketplace_catalog.json",
 	remoteConfig: (orgId: string) => `remote_config_${orgId}.json`,
 }
@@ -112,9 +114,15 @@ export async function ensureRulesDirectoryExists(): Promise<string> {
 	return clineRulesDir
 }
 
+/**
+ * The global workflows directory, without creating it
+ */
+export async function getWorkflowsDirectoryPath(): Promise<string> {
+	return path.join(await getDocumentsPath(), "Cline", "Workflows")
+}
+
 export async function ensureWorkflowsDirectoryExists(): Promise<string> {
-	const userDocumentsPath = await getDocumentsPath()
-	const clineWorkflowsDir = path.join(userDocumentsPath, "Cline", "Workflows")
+	const clineWorkflowsDir = await getWorkflowsDirectoryPath()
 	try {
 		await fs.mkdir(clineWorkflowsDir, { recursive: true })
 	} catch (_error) {
@@ -123,6 +131,13 @@ export async function ensureWorkflowsDirectoryExists(): Promise<string> {
 	return clineWorkflowsDir
 }
 
+/**
+ * The global personas directory, without creating it
+ */
+export async function getPersonasDirectoryPath(): Promise<string> {
+	return path.join(await getDocumentsPath(), "Cline", "Personas")
+}
+
 export async function ensureMcpServersDirectoryExists(): Promise<string> {
 	const userDocumentsPath = await getDocumentsPath()
 	const mcpServersDir = path.join(userDocumentsPath, "Cline", "MCP")
@@ -247,6 +262,27 @@ export async function saveTaskMetadata(taskId: string, metadata: TaskMetadata) {
 	}
 }
 
+export async function getSavedArchitectState(taskId: string): Promise<ArchitectState | undefined> {
+	const filePath = path.join(await ensureTaskDirectoryExists(taskId), GlobalFileNames.architectState)
+	try {
+		if (await fileExistsAtPath(filePath)) {
+			return JSON.parse(await fs.readFile(filePath, "utf8"))
+		}
+	} catch (error) {
+		console.error("Failed to read architect state:", error)
+	}
+	return undefined
+}
+
+export async function saveArchitectState(taskId: string, state: ArchitectState) {
+	try {
+		const filePath = path.join(await ensureTaskDirectoryExists(taskId), GlobalFileNames.architectState)
+		await atomicWriteFile(filePath, JSON.stringify(state))
+	} catch (error) {
+		console.error("Failed to save architect state:", error)
+	}
+}
+
 export async function ensureStateDirectoryExists(): Promise<string> {
 	return getGlobalStorageDir("state")
 }
@@ -233,6 +233,7 @@ export async function readGlobalStateFromDisk(context: ExtensionContext): Promis
 		const globalClineRulesToggles =
 			context.globalState.get<GlobalStateAndSettings["globalClineRulesToggles"]>("globalClineRulesToggles")
 		const requestTimeoutMs = context.globalState.get<GlobalStateAndSettings["requestTimeoutMs"]>("requestTimeoutMs")
+		const apiFallbackChain = context.globalState.get<GlobalStateAndSettings["apiFallbackChain"]>("apiFallbackChain")
 		const shellIntegrationTimeout =
 			context.globalState.get<GlobalStateAndSettings["shellIntegrationTimeout"]>("shellIntegrationTimeout")
 		const enableCheckpointsSettingRaw =
@@ -279,6 +280,8 @@ export async function readGlobalStateFromDisk(context: ExtensionContext): Promis
 		const lastDismissedCliBannerVersion =
 			context.globalState.get<GlobalStateAndSettings["lastDismissedCliBannerVersion"]>("lastDismissedCliBannerVersion")
 		const dismissedBanners = context.globalState.get<GlobalStateAndSettings["dismissedBanners"]>("dismissedBanners")
+		const mcpTrustedProjectServers =
+			context.globalState.get<GlobalStateAndSettings["mcpTrustedProjectServers"]>("mcpTrustedProjectServers")
 		const qwenCodeOauthPath = context.globalState.get<GlobalStateAndSettings["qwenCodeOauthPath"]>("qwenCodeOauthPath")
 		const customPrompt = context.globalState.get<GlobalStateAndSettings["customPrompt"]>("customPrompt")
 		const autoCondenseThreshold =
@@ -326,6 +329,11 @@ export async function readGlobalStateFromDisk(context: ExtensionContext): Promis
 		const backgroundEditEnabled =
 			context.globalState.get<GlobalStateAndSettings["backgroundEditEnabled"]>("backgroundEditEnabled")
 		const architectConfig = context.globalState.get<GlobalStateAndSettings["architectConfig"]>("architectConfig")
+		const selectedPersona = context.globalState.get<GlobalStateAndSettings["selectedPersona"]>("selectedPersona")
+		const contextSummarizationEnabled =
+			context.globalState.get<GlobalStateAndSettings["contextSummarizationEnabled"]>("contextSummarizationEnabled")
+		const contextSummarizationModelId =
+			context.globalState.get<GlobalStateAndSettings["contextSummarizationModelId"]>("contextSummarizationModelId")
 
 		// Get mode-related configurations
 		const mode = context.globalState.get<GlobalStateAndSettings["mode"]>("mode")
@@ -561,6 +569,7 @@ export async function readGlobalStateFromDisk(context: ExtensionContext): Promis
 			asksageApiUrl,
 			favoritedModelIds: favoritedModelIds || [],
 			requestTimeoutMs,
+			apiFallbackChain,
 			sapAiCoreBaseUrl,
 			sapAiCoreTokenUrl,
 			sapAiResourceGroup,
@@ -695,6 +704,7 @@ export async function readGlobalStateFromDisk(context: ExtensionContext): Promis
 			lastDismissedModelBannerVersion: lastDismissedModelBannerVersion ?? 0,
 			lastDismissedCliBannerVersion: lastDismissedCliBannerVersion ?? 0,
 			dismissedBanners: dismissedBanners || [],
+			mcpTrustedProjectServers: mcpTrustedProjectServers || {},
 			nativeToolCallEnabled: nativeToolCallEnabled ?? true,
 			// Multi-root workspace support
 			workspaceRoots,
@@ -721,6 +731,9 @@ export async function readGlobalStateFromDisk(context: ExtensionContext): Promis
 			remoteRulesToggles: remoteRulesToggles || {},
 			remoteWorkflowToggles: remoteWorkflowToggles || {},
 			architectConfig: architectConfig || DEFAULT_ARCHITECT_CONFIG,
+			selectedPersona,
+			contextSummarizationEnabled: contextSummarizationEnabled ?? false,
+			contextSummarizationModelId,
 		}
 	} catch (error) {
 		console.error("[StateHelpers] Failed to read global state:", error)
@@ -0,0 +1,135 @@
+import type { TaskParams } from "@core/task"
+import { Logger } from "@services/logging/Logger"
+import type { GlobalState, Settings } from "@shared/storage/state-keys"
+import pWaitFor from "p-wait-for"
+import { ulid } from "ulid"
+import { getPolicyActions } from "./policies"
+import { buildSubagentResult } from "./results"
+import type { SubagentTask } from "./SubagentTask"
+import type { SubagentResult, SubagentRunner, SubagentRunOptions, SubagentSpec } from "./types"
+
+/** What the parent task shares with its in-process subagents */
+export type SubagentParentParams = Pick<
+	TaskParams,
+	| "controller"
+	| "mcpHub"
+	| "stateManager"
+	| "shellIntegrationTimeout"
+	| "terminalReuseEnabled"
+	| "terminalOutputLineLimit"
+	| "subagentTerminalOutputLineLimit"
+	| "defaultTerminalProfile"
+>
+
+/**
+ * Returns a view of an object with some members replaced, leaving the object itself untouched.
+ * Subagents share the parent's controller, MCP hub and state manager, but mustn't change or see everything they do.
+ */
+function withOverrides<T extends object>(target: T, overrides: Partial<Record<keyof T, unknown>>): T {
+	return new Proxy(target, {
+		get(obj, key) {
+			if (key in overrides) {
+				return overrides[key as keyof T]
+			}
+			const value = Reflect.get(obj, key, obj)
+			return typeof value === "function" ? value.bind(obj) : value
+		},
+	})
+}
+
+/**
+ * Runs subagents as child tasks in the extension host, sharing the parent's API configuration and MCP servers.
+ */
+export class InProcessSubagentRunner implements SubagentRunner {
+	constructor(private readonly parent: SubagentParentParams) {}
+
+	async run(spec: SubagentSpec, { cwd, signal }: SubagentRunOptions): Promise<SubagentResult> {
+		// Loaded lazily since SubagentTask extends Task, which creates this runner
+		const { SubagentTask } = await import("./SubagentTask")
+
+		let task: SubagentTask
+		try {
+			// A hook cancelling the task ends the subagent like any other way of stopping
+			const cancelTask = async () => {
+				task.outcome ??= { status: "failed", error: "The task was cancelled" }
+			}
+			task = new SubagentTask(this.createTaskParams(spec, cwd, cancelTask), spec)
+		} catch (error) {
+			return buildSubagentResult([], { status: "failed", error: (error as Error).message })
+		}
+
+		try {
+			task.startTask(spec.prompt).then(
+				() => {
+					task.outcome ??= { status: "failed", error: "Stopped without completing the task" }
+				},
+				(error: Error) => {
+					task.outcome ??= { status: "failed", error: error.message }
+				},
+			)
+			await pWaitFor(() => task.outcome !== undefined || signal.aborted, { interval: 100 })
+			const outcome = task.outcome ?? { status: "cancelled" as const }
+			return buildSubagentResult(task.messageStateHandler.getClineMessages(), outcome)
+		} finally {
+			try {
+				await task.abortTask()
+			} catch (error) {
+				Logger.error("Failed to abort subagent task", error)
+			}
+			task.taskState.abandoned = true
+		}
+	}
+
+	private createTaskParams(spec: SubagentSpec, cwd: string, cancelTask: () => Promise<void>): TaskParams {
+		const { controller, mcpHub, stateManager } = this.parent
+
+		const settings: Partial<Settings> = {
+			mode: "act",
+			yoloModeToggled: false,
+			autoApprovalSettings: {
+				...stateManager.getGlobalSettingsKey("autoApprovalSettings"),
+				actions: getPolicyActions(spec.approvalPolicy),
+				enableNotifications: false,
+				useApprovalOracle: false,
+			},
+			// Edits happen in the background so several subagents don't fight over the editor
+			backgroundEditEnabled: true,
+			enableCheckpointsSetting: false,
+			hooksEnabled: false,
+			subagentsEnabled: false,
+			architectConfig: { ...stateManager.getGlobalSettingsKey("architectConfig"), enabled: false },
+			focusChainSettings: { ...stateManager.getGlobalSettingsKey("focusChainSettings"), enabled: false },
+		}
+
+		return {
+			...this.parent,
+			controller: withOverrides(controller, {
+				// The parent is still the controller's task, so retries and background commands mustn't reach it
+				task: undefined,
+				updateBackgroundCommandState: () => {},
+			}),
+			mcpHub: withOverrides(mcpHub, {
+				// Notifications and sampling requests keep going to the parent
+				setNotificationCallback: () => {},
+				clearNotificationCallback: () => {},
+				setClientRequestHandler: () => {},
+				clearClientRequestHandler: () => {},
+			}),
+			stateManager: withOverrides(stateManager, {
+				getGlobalSettingsKey: (key: keyof Settings) =>
+					key in settings ? settings[key] : stateManager.getGlobalSettingsKey(key),
+				getGlobalStateKey: (key: keyof GlobalState) =>
+					key === "multiRootEnabled" ? false : stateManager.getGlobalStateKey(key),
+			}),
+			updateTaskHistory: async () => [],
+			postStateToWebview: async () => {},
+			reinitExistingTaskFromId: async () => {},
+			cancelTask,
+			vscodeTerminalExecutionMode: "backgroundExec",
+			cwd,
+			task: spec.prompt,
+			taskId: `subagent-${ulid()}`,
+			taskLockAcquired: false,
+		}
+	}
+}
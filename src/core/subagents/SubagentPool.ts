@@ -0,0 +1,98 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import { resolveSubagentCwd } from "./specs"
+import type { SubagentResult, SubagentRunner, SubagentSpec } from "./types"
+
+/** Subagents beyond this many wait for one to finish */
+export const MAX_PARALLEL_SUBAGENTS = 4
+
+export interface SubagentRunners {
+	inProcess: SubagentRunner
+	/** Runs subagents that ask to be isolated. Without it, they fail */
+	isolated?: SubagentRunner
+}
+
+export interface SubagentPoolRunOptions {
+	/** Aborting cancels every subagent that's still running or waiting */
+	signal: AbortSignal
+	/** Called when a subagent starts, with no result yet, and when it finishes */
+	onProgress?: (index: number, result?: SubagentResult) => void
+}
+
+/**
+ * Runs a parent task's subagents, a few at a time, each in its own working directory inside the parent's.
+ */
+export class SubagentPool {
+	constructor(
+		private readonly cwd: string,
+		private readonly runners: SubagentRunners,
+		private readonly maxParallel = MAX_PARALLEL_SUBAGENTS,
+	) {}
+
+	/**
+	 * Runs every spec and returns their results in the same order. Files changed are relative to the parent's directory.
+	 */
+	async run(specs: SubagentSpec[], { signal, onProgress }: SubagentPoolRunOptions): Promise<SubagentResult[]> {
+		const results: SubagentResult[] = new Array(specs.length)
+		let next = 0
+
+		const worker = async () => {
+			while (next < specs.length) {
+				const index = next++
+				if (!signal.aborted) {
+					onProgress?.(index)
+				}
+				results[index] = await this.runOne(specs[index], signal)
+				onProgress?.(index, results[index])
+			}
+		}
+
+		await Promise.all(Array.from({ length: Math.min(this.maxParallel, specs.length) }, worker))
+		return results
+	}
+
+	private async runOne(spec: SubagentSpec, signal: AbortSignal): Promise<SubagentResult> {
+		const failed = (status: SubagentResult["status"], error: string): SubagentResult => ({
+			status,
+			summary: "",
+			filesChanged: [],
+			tokensIn: 0,
+			tokensOut: 0,
+			cost: 0,
+			error,
+		})
+
+		if (signal.aborted) {
+			return failed("cancelled", "Cancelled before it started")
+		}
+
+		let cwd: string
+		try {
+			cwd = resolveSubagentCwd(this.cwd, spec)
+			if (!(await fs.stat(cwd)).isDirectory()) {
+				return failed("failed", `${spec.cwd} is not a directory`)
+			}
+		} catch (error) {
+			return failed(
+				"failed",
+				(error as NodeJS.ErrnoException).code === "ENOENT" ? `${spec.cwd} doesn't exist` : (error as Error).message,
+			)
+		}
+
+		const runner = spec.isolated ? this.runners.isolated : this.runners.inProcess
+		if (!runner) {
+			return failed("failed", "Isolated subagents aren't available here")
+		}
+
+		let result: SubagentResult
+		try {
+			result = await runner.run(spec, { cwd, signal })
+		} catch (error) {
+			return failed("failed", (error as Error).message)
+		}
+		return {
+			...result,
+			filesChanged: result.filesChanged.map((file) => path.relative(this.cwd, path.resolve(cwd, file)).toPosix()),
+		}
+	}
+}
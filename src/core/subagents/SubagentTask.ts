@@ -0,0 +1,76 @@
+import { Task, type TaskParams } from "@core/task"
+import type { ClineAsk } from "@shared/ExtensionMessage"
+import type { ClineContent } from "@shared/messages"
+import type { ClineAskResponse } from "@shared/WebviewMessage"
+import { getExceededBudget, getSubagentUsage } from "./results"
+import type { SubagentSpec, SubagentStatus } from "./types"
+
+const NO_USER_RESPONSE =
+	"You're running as a subagent, so there's no user to answer your question. Decide for yourself and carry on, and mention what you assumed in your completion result."
+
+const DENIED_RESPONSE =
+	"Denied: this isn't allowed by your approval policy as a subagent. Work within it, or finish and explain what's left to do in your completion result."
+
+/**
+ * A task that runs without a user. Asks are answered on the user's behalf: questions get a note telling the model to
+ * decide for itself, anything that would need approval is denied, and asks that would end the task with the user
+ * (completing it, giving up after too many mistakes or failed requests) end the subagent instead.
+ */
+export class SubagentTask extends Task {
+	/** Set once the subagent has stopped working, for the runner to abort it and build its result */
+	outcome?: { status: SubagentStatus; error?: string }
+
+	constructor(
+		params: TaskParams,
+		private readonly budget: Pick<SubagentSpec, "maxTokens" | "maxCost">,
+	) {
+		super(params)
+	}
+
+	override async ask(type: ClineAsk, text?: string, partial?: boolean) {
+		const answer = partial ? undefined : this.getAnswer(type, text)
+		const pending = super.ask(type, text, partial)
+		// The base class clears any previous response synchronously, so answering now can't be overwritten
+		if (answer) {
+			await this.handleWebviewAskResponse(answer.response, answer.text)
+		}
+		return pending
+	}
+
+	override async recursivelyMakeClineRequests(userContent: ClineContent[], includeFileDetails = false): Promise<boolean> {
+		const exceeded = getExceededBudget(this.budget, getSubagentUsage(this.messageStateHandler.getClineMessages()))
+		if (exceeded) {
+			this.outcome ??= { status: "budget_exceeded", error: exceeded }
+			return true
+		}
+		return super.recursivelyMakeClineRequests(userContent, includeFileDetails)
+	}
+
+	private getAnswer(type: ClineAsk, text?: string): { response: ClineAskResponse; text?: string } | undefined {
+		switch (type) {
+			case "completion_result":
+				this.outcome ??= { status: "completed" }
+				return undefined
+			case "mistake_limit_reached":
+				this.outcome ??= { status: "failed", error: "Made too many mistakes in a row" }
+				return undefined
+			case "api_req_failed":
+				this.outcome ??= { status: "failed", error: text || "API request failed" }
+				return undefined
+			case "resume_task":
+			case "resume_completed_task":
+				return undefined
+			// Left for the command to finish, like a user who doesn't click "Proceed While Running"
+			case "command_output":
+				return undefined
+			case "followup":
+			case "plan_mode_respond":
+				return { response: "messageResponse", text: NO_USER_RESPONSE }
+			// Accepting the model's own summary is what lets a long-running subagent keep going
+			case "condense":
+				return { response: "yesButtonClicked" }
+			default:
+				return { response: "noButtonClicked", text: DENIED_RESPONSE }
+		}
+	}
+}
@@ -0,0 +1,208 @@
+import type { ClineMessage } from "@shared/ExtensionMessage"
+import { expect } from "chai"
+import fs from "fs/promises"
+import { afterEach, beforeEach, describe, it } from "mocha"
+import * as os from "os"
+import * as path from "path"
+import { isPolicyCoveredBy } from "../policies"
+import { buildSubagentResult, getExceededBudget } from "../results"
+import { SubagentPool } from "../SubagentPool"
+import { parseSubagentSpecs } from "../specs"
+import type { SubagentResult, SubagentRunner, SubagentRunOptions, SubagentSpec } from "../types"
+
+const result = (overrides: Partial<SubagentResult> = {}): SubagentResult => ({
+	status: "completed",
+	summary: "",
+	filesChanged: [],
+	tokensIn: 0,
+	tokensOut: 0,
+	cost: 0,
+	...overrides,
+})
+
+/** Runs each subagent until it's released or cancelled, recording what it was given */
+class FakeRunner implements SubagentRunner {
+	readonly calls: { prompt: string; cwd: string }[] = []
+	running = 0
+	maxRunning = 0
+	private releases = new Map<string, () => void>()
+
+	async run(spec: SubagentSpec, { cwd, signal }: SubagentRunOptions): Promise<SubagentResult> {
+		this.calls.push({ prompt: spec.prompt, cwd })
+		this.running++
+		this.maxRunning = Math.max(this.maxRunning, this.running)
+		try {
+			const cancelled = await new Promise<boolean>((resolve) => {
+				this.releases.set(spec.prompt, () => resolve(false))
+				signal.addEventListener("abort", () => resolve(true), { once: true })
+			})
+			return cancelled
+				? result({ status: "cancelled" })
+				: result({ summary: `done: ${spec.prompt}`, filesChanged: ["a.ts"] })
+		} finally {
+			this.running--
+		}
+	}
+
+	async release(prompt: string) {
+		await waitFor(() => this.releases.has(prompt))
+		this.releases.get(prompt)!()
+	}
+}
+
+const waitFor = async (condition: () => boolean) => {
+	while (!condition()) {
+		await new Promise((resolve) => setTimeout(resolve, 5))
+	}
+}
+
+const spec = (prompt: string, overrides: Partial<SubagentSpec> = {}): SubagentSpec => ({
+	prompt,
+	approvalPolicy: "read_only",
+	...overrides,
+})
+
+describe("SubagentPool", () => {
+	let tmpDir: string
+	let runner: FakeRunner
+
+	beforeEach(async () => {
+		tmpDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "cline-subagents-")))
+		await fs.mkdir(path.join(tmpDir, "pkg"))
+		runner = new FakeRunner()
+	})
+
+	afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should limit how many subagents run at once and keep results in order", async () => {
+		const pool = new SubagentPool(tmpDir, { inProcess: runner }, 2)
+		const specs = ["one", "two", "three"].map((prompt) => spec(prompt))
+		const run = pool.run(specs, { signal: new AbortController().signal })
+
+		await runner.release("two")
+		await runner.release("three")
+		await runner.release("one")
+		const results = await run
+
+		expect(runner.maxRunning).to.equal(2)
+		expect(results.map((r) => r.summary)).to.deep.equal(["done: one", "done: two", "done: three"])
+	})
+
+	it("should run each subagent in its directory and report files relative to the parent", async () => {
+		const pool = new SubagentPool(tmpDir, { inProcess: runner })
+		const run = pool.run([spec("scoped", { cwd: "pkg" })], { signal: new AbortController().signal })
+		await runner.release("scoped")
+		const [scoped] = await run
+
+		expect(runner.calls[0].cwd).to.equal(path.join(tmpDir, "pkg"))
+		expect(scoped.filesChanged).to.deep.equal(["pkg/a.ts"])
+	})
+
+	it("should fail subagents with a directory that's missing or outside the parent's", async () => {
+		const pool = new SubagentPool(tmpDir, { inProcess: runner })
+		const results = await pool.run([spec("missing", { cwd: "nope" }), spec("outside", { cwd: ".." })], {
+			signal: new AbortController().signal,
+		})
+
+		expect(results.map((r) => r.status)).to.deep.equal(["failed", "failed"])
+		expect(results[0].error).to.equal("nope doesn't exist")
+		expect(results[1].error).to.contain("is outside")
+		expect(runner.calls).to.be.empty
+	})
+
+	it("should fail isolated subagents without an isolated runner", async () => {
+		const pool = new SubagentPool(tmpDir, { inProcess: runner })
+		const [isolated] = await pool.run([spec("isolated", { isolated: true })], { signal: new AbortController().signal })
+
+		expect(isolated.status).to.equal("failed")
+		expect(runner.calls).to.be.empty
+	})
+
+	it("should cancel running and waiting subagents when aborted", async () => {
+		const pool = new SubagentPool(tmpDir, { inProcess: runner }, 1)
+		const abortController = new AbortController()
+		const progress: [number, string | undefined][] = []
+		const run = pool.run([spec("first"), spec("second")], {
+			signal: abortController.signal,
+			onProgress: (index, r) => progress.push([index, r?.status]),
+		})
+
+		await waitFor(() => runner.running === 1)
+		abortController.abort()
+		const results = await run
+
+		expect(results.map((r) => r.status)).to.deep.equal(["cancelled", "cancelled"])
+		expect(runner.calls.map((call) => call.prompt)).to.deep.equal(["first"])
+		expect(progress).to.deep.equal([
+			[0, undefined],
+			[0, "cancelled"],
+			[1, "cancelled"],
+		])
+	})
+})
+
+describe("parseSubagentSpecs", () => {
+	it("should apply defaults", () => {
+		const [parsed] = parseSubagentSpecs('[{"prompt": "look around"}]')
+		expect(parsed.approvalPolicy).to.equal("read_only")
+		expect(parsed.maxTokens).to.be.greaterThan(0)
+	})
+
+	it("should explain what's wrong", () => {
+		expect(() => parseSubagentSpecs("not json")).to.throw("subagents must be a JSON array")
+		expect(() => parseSubagentSpecs("[]")).to.throw("At least one subagent is required")
+		expect(() => parseSubagentSpecs('[{"prompt": "x", "approvalPolicy": "root"}]')).to.throw(/0\.approvalPolicy/)
+	})
+})
+
+describe("Subagent policies and results", () => {
+	const noActions = {
+		readFiles: false,
+		editFiles: false,
+		executeSafeCommands: false,
+		executeAllCommands: false,
+		useBrowser: false,
+		useMcp: false,
+	}
+
+	it("should only treat a policy as covered when every action it allows is auto-approved", () => {
+		expect(isPolicyCoveredBy("read_only", { ...noActions, readFiles: true })).to.equal(true)
+		expect(isPolicyCoveredBy("edit", { ...noActions, readFiles: true, editFiles: true })).to.equal(false)
+		expect(isPolicyCoveredBy("edit", { ...noActions, readFiles: true, editFiles: true, executeSafeCommands: true })).to.equal(
+			true,
+		)
+	})
+
+	it("should report which budget was exceeded", () => {
+		expect(getExceededBudget({ maxTokens: 100 }, { tokensIn: 60, tokensOut: 40, cost: 0 })).to.contain("100 token budget")
+		expect(getExceededBudget({ maxCost: 0.5 }, { tokensIn: 0, tokensOut: 0, cost: 0.75 })).to.contain("$0.5 budget")
+		expect(getExceededBudget({ maxTokens: 100, maxCost: 1 }, { tokensIn: 10, tokensOut: 10, cost: 0.1 })).to.equal(undefined)
+	})
+
+	it("should build the result from the subagent's messages", () => {
+		const messages: ClineMessage[] = [
+			{ ts: 1, type: "say", say: "api_req_started", text: JSON.stringify({ tokensIn: 10, tokensOut: 5, cost: 0.01 }) },
+			{ ts: 2, type: "say", say: "tool", text: JSON.stringify({ tool: "editedExistingFile", path: "src/a.ts" }) },
+			{ ts: 3, type: "say", say: "tool", text: JSON.stringify({ tool: "readFile", path: "src/b.ts" }) },
+			{ ts: 4, type: "say", say: "tool", text: JSON.stringify({ tool: "newFileCreated", path: "src/c.ts" }) },
+			{ ts: 5, type: "say", say: "text", text: "Working on it" },
+			{ ts: 6, type: "say", say: "completion_result", text: "Fixed the bug" },
+		]
+
+		expect(buildSubagentResult(messages, { status: "completed" })).to.deep.equal({
+			status: "completed",
+			summary: "Fixed the bug",
+			filesChanged: ["src/a.ts", "src/c.ts"],
+			tokensIn: 10,
+			tokensOut: 5,
+			cost: 0.01,
+		})
+	})
+
+	it("should fall back to the last error for a subagent that didn't complete", () => {
+		const messages: ClineMessage[] = [{ ts: 1, type: "say", say: "error", text: "Something broke" }]
+		expect(buildSubagentResult(messages, { status: "failed" }).error).to.equal("Something broke")
+	})
+})
@@ -0,0 +1,47 @@
+import type { AutoApprovalSettings } from "@shared/AutoApprovalSettings"
+import type { SubagentApprovalPolicy } from "./types"
+
+type ApprovalActions = AutoApprovalSettings["actions"]
+
+const NO_ACTIONS: Required<ApprovalActions> = {
+	readFiles: false,
+	readFilesExternally: false,
+	editFiles: false,
+	editFilesExternally: false,
+	executeSafeCommands: false,
+	executeAllCommands: false,
+	useBrowser: false,
+	useMcp: false,
+}
+
+const POLICY_ACTIONS: Record<SubagentApprovalPolicy, Required<ApprovalActions>> = {
+	read_only: { ...NO_ACTIONS, readFiles: true },
+	edit: { ...NO_ACTIONS, readFiles: true, editFiles: true, executeSafeCommands: true },
+	full: {
+		...NO_ACTIONS,
+		readFiles: true,
+		editFiles: true,
+		executeSafeCommands: true,
+		executeAllCommands: true,
+		useBrowser: true,
+		useMcp: true,
+	},
+}
+
+/**
+ * The auto-approval actions a subagent runs with. Everything else it tries is denied.
+ */
+export function getPolicyActions(policy: SubagentApprovalPolicy): Required<ApprovalActions> {
+	return { ...POLICY_ACTIONS[policy] }
+}
+
+/**
+ * Whether the user's own auto-approval settings already allow everything a policy does,
+ * in which case spawning a subagent with it doesn't need their approval either.
+ */
+export function isPolicyCoveredBy(policy: SubagentApprovalPolicy, actions: ApprovalActions): boolean {
+	const policyActions = POLICY_ACTIONS[policy]
+	return (Object.keys(policyActions) as (keyof ApprovalActions)[]).every(
+		(action) => !policyActions[action] || !!actions[action],
+	)
+}
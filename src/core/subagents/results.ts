@@ -0,0 +1,72 @@
+import { findLast } from "@shared/array"
+import type { ClineMessage, ClineSayTool } from "@shared/ExtensionMessage"
+import { getApiMetrics } from "@shared/getApiMetrics"
+import type { SubagentResult, SubagentSpec, SubagentStatus } from "./types"
+
+const FILE_CHANGE_TOOLS = new Set<ClineSayTool["tool"]>(["editedExistingFile", "newFileCreated", "fileDeleted"])
+
+export interface SubagentUsage {
+	tokensIn: number
+	tokensOut: number
+	cost: number
+}
+
+export function getSubagentUsage(messages: ClineMessage[]): SubagentUsage {
+	const { totalTokensIn, totalTokensOut, totalCost } = getApiMetrics(messages)
+	return { tokensIn: totalTokensIn, tokensOut: totalTokensOut, cost: totalCost }
+}
+
+/**
+ * Returns which of the spec's limits the usage has reached, if any.
+ */
+export function getExceededBudget(spec: Pick<SubagentSpec, "maxTokens" | "maxCost">, usage: SubagentUsage): string | undefined {
+	if (spec.maxTokens !== undefined && usage.tokensIn + usage.tokensOut >= spec.maxTokens) {
+		return `Used ${usage.tokensIn + usage.tokensOut} of its ${spec.maxTokens} token budget`
+	}
+	if (spec.maxCost !== undefined && usage.cost >= spec.maxCost) {
+		return `Spent $${usage.cost.toFixed(4)} of its $${spec.maxCost} budget`
+	}
+	return undefined
+}
+
+/**
+ * Builds a subagent's result from the messages it produced, the same way whether it ran in-process or in the CLI.
+ */
+export function buildSubagentResult(
+	messages: ClineMessage[],
+	outcome: { status: SubagentStatus; error?: string },
+): SubagentResult {
+	const said = messages.filter((message) => message.type === "say" && !message.partial)
+
+	const completion = findLast(said, (message) => message.say === "completion_result" && !!message.text)
+	const lastText = findLast(said, (message) => message.say === "text" && !!message.text)
+	const summary = (completion ?? lastText)?.text?.trim() ?? ""
+
+	const filesChanged: string[] = []
+	for (const message of said) {
+		if (message.say !== "tool" || !message.text) {
+			continue
+		}
+		try {
+			const tool = JSON.parse(message.text) as ClineSayTool
+			if (FILE_CHANGE_TOOLS.has(tool.tool) && tool.path && !filesChanged.includes(tool.path)) {
+				filesChanged.push(tool.path)
+			}
+		} catch {
+			// Not every tool message is JSON
+		}
+	}
+
+	let error = outcome.error
+	if (!error && outcome.status !== "completed") {
+		error = findLast(said, (message) => message.say === "error" && !!message.text)?.text
+	}
+
+	return {
+		status: outcome.status,
+		summary,
+		filesChanged,
+		...getSubagentUsage(messages),
+		...(error ? { error } : {}),
+	}
+}
@@ -0,0 +1,57 @@
+import * as path from "path"
+import { z } from "zod"
+import { isLocatedInPath } from "@/utils/path"
+import { SUBAGENT_APPROVAL_POLICIES, type SubagentApprovalPolicy, type SubagentSpec } from "./types"
+
+/** Most subagents a single use_subagents call may start */
+export const MAX_SUBAGENTS_PER_CALL = 8
+
+/** Token budget of a subagent that doesn't set one */
+export const DEFAULT_SUBAGENT_MAX_TOKENS = 500_000
+
+const SubagentSpecSchema = z.object({
+	prompt: z.string().trim().min(1, "A prompt is required"),
+	cwd: z.string().optional(),
+	approvalPolicy: z
+		.enum(SUBAGENT_APPROVAL_POLICIES as [SubagentApprovalPolicy, ...SubagentApprovalPolicy[]])
+		.default("read_only"),
+	maxTokens: z.number().int().positive().default(DEFAULT_SUBAGENT_MAX_TOKENS),
+	maxCost: z.number().positive().optional(),
+	isolated: z.boolean().optional(),
+})
+
+const SubagentSpecsSchema = z
+	.array(SubagentSpecSchema)
+	.min(1, "At least one subagent is required")
+	.max(MAX_SUBAGENTS_PER_CALL, `At most ${MAX_SUBAGENTS_PER_CALL} subagents can run at once`)
+
+/**
+ * Parses the JSON array of subagents given to use_subagents, throwing an error that explains what's wrong.
+ */
+export function parseSubagentSpecs(json: string): SubagentSpec[] {
+	let value: unknown
+	try {
+		value = JSON.parse(json)
+	} catch {
+		throw new Error("subagents must be a JSON array")
+	}
+	const result = SubagentSpecsSchema.safeParse(value)
+	if (!result.success) {
+		const issues = result.error.issues.map((issue) =>
+			issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message,
+		)
+		throw new Error(`Invalid subagents: ${issues.join("; ")}`)
+	}
+	return result.data
+}
+
+/**
+ * Resolves a subagent's working directory against the parent's, which it isn't allowed to leave.
+ */
+export function resolveSubagentCwd(parentCwd: string, spec: SubagentSpec): string {
+	const cwd = path.resolve(parentCwd, spec.cwd ?? ".")
+	if (!isLocatedInPath(parentCwd, cwd)) {
+		throw new Error(`Subagent working directory "${spec.cwd}" is outside ${parentCwd}`)
+	}
+	return cwd
+}
@@ -0,0 +1,53 @@
+/**
+ * What a subagent may do without asking. There's no one to ask, so anything beyond its policy is denied.
+ * - read_only: read, list and search files
+ * - edit: also create and edit files and run commands the model considers safe
+ * - full: also run any command and use the browser and MCP servers
+ * No policy lets a subagent read or edit files outside the workspace.
+ */
+export type SubagentApprovalPolicy = "read_only" | "edit" | "full"
+
+export const SUBAGENT_APPROVAL_POLICIES: readonly SubagentApprovalPolicy[] = ["read_only", "edit", "full"]
+
+export interface SubagentSpec {
+	/** The task given to the subagent, which starts without any of the parent's context */
+	prompt: string
+	/** Working directory relative to the parent's, which must stay inside it. Defaults to the parent's */
+	cwd?: string
+	approvalPolicy: SubagentApprovalPolicy
+	/** The subagent is stopped before an API request once its requests have used this many tokens (input + output) */
+	maxTokens?: number
+	/** The subagent is stopped before an API request once its requests have cost this much, in USD */
+	maxCost?: number
+	/** Run the subagent in a separate Cline CLI process instead of in the extension host */
+	isolated?: boolean
+}
+
+export type SubagentStatus = "completed" | "failed" | "budget_exceeded" | "cancelled"
+
+export interface SubagentResult {
+	status: SubagentStatus
+	/** The subagent's completion result, or the last thing it said if it didn't finish */
+	summary: string
+	/** Files the subagent created, edited or deleted, relative to the working directory it ran in */
+	filesChanged: string[]
+	tokensIn: number
+	tokensOut: number
+	cost: number
+	/** Why the subagent didn't complete */
+	error?: string
+}
+
+export interface SubagentRunOptions {
+	/** Absolute working directory the subagent is scoped to */
+	cwd: string
+	/** Aborted when the parent task is cancelled */
+	signal: AbortSignal
+}
+
+/**
+ * Runs one subagent to the end. Runners report failures through the result's status instead of throwing.
+ */
+export interface SubagentRunner {
+	run(spec: SubagentSpec, options: SubagentRunOptions): Promise<SubagentResult>
+}
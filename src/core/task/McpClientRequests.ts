@@ -0,0 +1,260 @@
+import type { ApiHandler } from "@core/api"
+import type { ApiStreamUsageChunk } from "@core/api/transform/stream"
+import { getUsageApiReqInfo } from "@core/api/usage"
+import type {
+	CreateMessageRequestParams,
+	CreateMessageResult,
+	ElicitRequestFormParams,
+	ElicitResult,
+	SamplingMessage,
+} from "@modelcontextprotocol/sdk/types.js"
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js"
+import type { McpClientRequestHandler } from "@services/mcp/types"
+import { findLastIndex } from "@shared/array"
+import { ClineApiReqInfo, ClineAsk, ClineAskMcpElicitation, ClineAskMcpSampling } from "@shared/ExtensionMessage"
+import { MCP_SAMPLING_MAX_TOKENS, McpElicitationContent, McpElicitationSchema } from "@shared/mcp"
+import { ClineImageContentBlock, ClineStorageMessage, ClineTextContentBlock } from "@shared/messages/content"
+import { ClineAskResponse } from "@shared/WebviewMessage"
+import pWaitFor from "p-wait-for"
+import type { MessageStateHandler } from "./message-state"
+
+// Error code the MCP spec uses for a sampling request the user rejected
+const USER_REJECTED_ERROR_CODE = -1
+
+type SamplingBlock = Extract<SamplingMessage["content"], { type: string }>
+
+type AskResult = { response: ClineAskResponse; text?: string }
+
+type AskCallback = (type: ClineAsk, text?: string) => Promise<AskResult>
+
+/**
+ * Serves MCP servers' sampling and elicitation requests for a task. Sampling runs on the task's
+ * current model once the user approves it; elicitation forms are asked in the task's chat.
+ *
+ * A new ask would replace one the task is waiting on or a message it is streaming, so requests are
+ * served one at a time, each once the task is idle.
+ */
+export class McpClientRequests implements McpClientRequestHandler {
+	private queue: Promise<unknown> = Promise.resolve()
+
+	constructor(
+		// Builds a handler for the task's model, so aborting a sampling request leaves the task's own request alone
+		private buildApi: () => ApiHandler,
+		private ask: AskCallback,
+		private messageState: Pick<MessageStateHandler, "getClineMessages" | "updateClineMessage">,
+		private isTaskBusy: () => boolean,
+		// Adds a sampling request's usage to the task's API metrics
+		private recordUsage: (usage: ClineApiReqInfo) => Promise<unknown>,
+		// Stops the task waiting for an answer to the ask sent at askTs
+		private cancelAsk: (askTs: number) => void,
+	) {}
+
+	async createMessage(
+		serverName: string,
+		params: CreateMessageRequestParams,
+		signal: AbortSignal,
+	): Promise<CreateMessageResult> {
+		const maxTokens = Math.min(params.maxTokens, MCP_SAMPLING_MAX_TOKENS)
+		const request: ClineAskMcpSampling = {
+			serverName,
+			systemPrompt: params.systemPrompt,
+			messages: params.messages.map((message) => ({
+				role: message.role,
+				text: toBlocks(message.content)
+					.map((block) => (block.type === "text" ? block.text : `[${block.type} content]`))
+					.join("\n"),
+			})),
+			maxTokens,
+		}
+
+		return this.whenIdle(signal, async () => {
+			const answer = await this.askUnlessCancelled("mcp_sampling", JSON.stringify(request), signal)
+			if (!answer) {
+				await this.updateLastAsk(
+					"mcp_sampling",
+					JSON.stringify({ ...request, cancelled: true } satisfies ClineAskMcpSampling),
+				)
+				throw new McpError(ErrorCode.RequestTimeout, "Sampling request was cancelled")
+			}
+			if (answer.response !== "yesButtonClicked") {
+				throw new McpError(USER_REJECTED_ERROR_CODE, "User rejected sampling request")
+			}
+			return this.sample(params, maxTokens, signal)
+		})
+	}
+
+	private async sample(
+		params: CreateMessageRequestParams,
+		maxTokens: number,
+		signal: AbortSignal,
+	): Promise<CreateMessageResult> {
+		const api = this.buildApi()
+		const messages: ClineStorageMessage[] = params.messages.map((message) => ({
+			role: message.role,
+			content: toBlocks(message.content).map(toContentBlock),
+		}))
+
+		let text = ""
+		let outputTokens = 0
+		let stopReason: CreateMessageResult["stopReason"] = "endTurn"
+		const usageChunks: ApiStreamUsageChunk[] = []
+		for await (const chunk of api.createMessage(params.systemPrompt ?? "", messages)) {
+			if (chunk.type === "text") {
+				text += chunk.text
+			} else if (chunk.type === "usage") {
+				outputTokens += chunk.outputTokens
+				usageChunks.push(chunk)
+			}
+
+			const stopIndex = Math.min(...(params.stopSequences ?? []).map((stop) => text.indexOf(stop)).filter((i) => i >= 0))
+			if (Number.isFinite(stopIndex)) {
+				text = text.slice(0, stopIndex)
+				stopReason = "stopSequence"
+				break
+			}
+			// Providers report usage at the end of the stream, so the cap is enforced on ~4 characters per token while streaming
+			if (Math.max(outputTokens, Math.ceil(text.length / 4)) >= maxTokens) {
+				text = text.slice(0, maxTokens * 4)
+				stopReason = "maxTokens"
+				break
+			}
+			if (signal.aborted) {
+				break
+			}
+		}
+		api.abort?.()
+
+		if (usageChunks.length === 0) {
+			const usage = await api.getApiStreamUsage?.()
+			if (usage) {
+				usageChunks.push(usage)
+			}
+		}
+		// A stream stopped early may not have reported usage, so only count what was reported
+		if (usageChunks.length > 0) {
+			await this.recordUsage(getUsageApiReqInfo(usageChunks, api.getModel().info, "MCP sampling")).catch((error) =>
+				console.error("Error recording MCP sampling usage:", error),
+			)
+		}
+
+		return {
+			model: api.getModel().id,
+			role: "assistant",
+			stopReason,
+			content: { type: "text", text },
+		}
+	}
+
+	async elicit(serverName: string, params: ElicitRequestFormParams, signal: AbortSignal): Promise<ElicitResult> {
+		const request: ClineAskMcpElicitation = {
+			serverName,
+			message: params.message,
+			requestedSchema: params.requestedSchema as McpElicitationSchema,
+		}
+
+		let result: ElicitResult
+		try {
+			const answer = await this.whenIdle(signal, () =>
+				this.askUnlessCancelled("mcp_elicitation", JSON.stringify(request), signal),
+			)
+			if (!answer) {
+				// The server cancelled the request before the user answered
+				result = { action: "cancel" }
+			} else {
+				const content = answer.response === "yesButtonClicked" ? parseContent(answer.text) : undefined
+				result = content ? { action: "accept", content } : { action: "decline" }
+			}
+		} catch {
+			// The task was aborted or moved on before the user answered
+			return { action: "cancel" }
+		}
+
+		// Keep the answer on the message so the form shows it once submitted, or closes it once cancelled
+		await this.updateLastAsk(
+			"mcp_elicitation",
+			JSON.stringify({
+				...request,
+				response: { action: result.action, content: result.content as McpElicitationContent | undefined },
+			} satisfies ClineAskMcpElicitation),
+		)
+		return result
+	}
+
+	/**
+	 * Runs a request after the ones before it, once the task is idle. Rejects if the server cancels the request
+	 * while it waits.
+	 */
+	private whenIdle<T>(signal: AbortSignal, request: () => Promise<T>): Promise<T> {
+		const run = this.queue.then(async () => {
+			await pWaitFor(() => signal.aborted || !this.isTaskBusy(), { interval: 100 })
+			if (signal.aborted) {
+				throw new McpError(ErrorCode.RequestTimeout, "Request was cancelled while the task was busy")
+			}
+			return request()
+		})
+		this.queue = run.catch(() => undefined)
+		return run
+	}
+
+	/**
+	 * Asks the user, or resolves undefined if the server cancels the request first. The task stops waiting for a
+	 * cancelled ask; the caller marks its message so the row no longer offers an answer.
+	 */
+	private async askUnlessCancelled(type: ClineAsk, text: string, signal: AbortSignal): Promise<AskResult | undefined> {
+		if (signal.aborted) {
+			return undefined
+		}
+		let onAbort: (() => void) | undefined
+		const cancelled = new Promise<undefined>((resolve) => {
+			onAbort = () => resolve(undefined)
+			signal.addEventListener("abort", onAbort, { once: true })
+		})
+		try {
+			const answer = await Promise.race([this.ask(type, text), cancelled])
+			if (!answer) {
+				const messages = this.messageState.getClineMessages()
+				const index = findLastIndex(messages, (message) => message.ask === type)
+				if (index !== -1) {
+					this.cancelAsk(messages[index].ts)
+				}
+			}
+			return answer
+		} finally {
+			signal.removeEventListener("abort", onAbort!)
+		}
+	}
+
+	private async updateLastAsk(type: ClineAsk, text: string): Promise<void> {
+		const index = findLastIndex(this.messageState.getClineMessages(), (message) => message.ask === type)
+		if (index !== -1) {
+			await this.messageState.updateClineMessage(index, { text })
+		}
+	}
+}
+
+function toBlocks(content: SamplingMessage["content"]): SamplingBlock[] {
+	return Array.isArray(content) ? content : [content]
+}
+
+function toContentBlock(block: SamplingBlock): ClineTextContentBlock | ClineImageContentBlock {
+	switch (block.type) {
+		case "text":
+			return { type: "text", text: block.text }
+		case "image":
+			return {
+				type: "image",
+				source: { type: "base64", media_type: block.mimeType as "image/png", data: block.data },
+			}
+		default:
+			return { type: "text", text: `[${block.type} content omitted]` }
+	}
+}
+
+function parseContent(text: string | undefined): McpElicitationContent | undefined {
+	try {
+		const content = JSON.parse(text ?? "")
+		return content && typeof content === "object" && !Array.isArray(content) ? content : undefined
+	} catch {
+		return undefined
+	}
+}
@@ -1,5 +1,7 @@
 import { Anthropic } from "@anthropic-ai/sdk"
 import { AssistantMessageContent } from "@core/assistant-message"
+import type { ArchitectEditorLimits } from "@shared/architect-types"
+import type { Persona } from "@shared/personas"
 import { ClineAskResponse } from "@shared/WebviewMessage"
 import type { HookExecution } from "./types/HookExecution"
 
@@ -27,11 +29,22 @@ export class TaskState {
 	askResponseImages?: string[]
 	askResponseFiles?: string[]
 	lastMessageTs?: number
+	// The ask waiting for the user's response, if any
+	pendingAskTs?: number
 
 	// Plan mode specific state
 	isAwaitingPlanResponse = false
 	didRespondToPlanAskBySwitchingMode = false
 
+	// Architect mode: the Editor runs as a tool loop that ends at attempt_completion
+	isArchitectEditorLoop = false
+	architectEditorSummary?: string
+	architectEditorLimits?: ArchitectEditorLimits
+	architectEditorStoppedBy?: "cost" | "timeout"
+
+	// The persona in the last system prompt, whose tool restrictions apply to the response
+	activePersona?: Persona
+
 	// Context and history
 	conversationHistoryDeletedRange?: [number, number]
 
@@ -62,6 +75,9 @@ export class TaskState {
 	didFinishAbortingStream = false
 	abandoned = false
 
+	// Running MCP tool call, aborted when the task is cancelled so the server is told to stop
+	activeMcpToolCall?: AbortController
+
 	// Hook execution tracking for cancellation
 	activeHookExecution?: HookExecution
 
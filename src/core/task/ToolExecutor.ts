@@ -1,7 +1,11 @@
 import { ApiHandler } from "@core/api"
 import { FileContextTracker } from "@core/context/context-tracking/FileContextTracker"
 import { ClineIgnoreController } from "@core/ignore/ClineIgnoreController"
+import { PersonaLibrary } from "@core/persona/PersonaLibrary"
+import { SubagentPool } from "@core/subagents/SubagentPool"
+import { DevServiceManager } from "@integrations/dev-services/DevServiceManager"
 import { DiffViewProvider } from "@integrations/editor/DiffViewProvider"
+import type { BackgroundCommandInput } from "@integrations/terminal"
 import { BrowserSession } from "@services/browser/BrowserSession"
 import { UrlContentFetcher } from "@services/browser/UrlContentFetcher"
 import { McpHub } from "@services/mcp/McpHub"
@@ -32,13 +36,16 @@ import { GenerateExplanationToolHandler } from "./tools/handlers/GenerateExplana
 import { ListCodeDefinitionNamesToolHandler } from "./tools/handlers/ListCodeDefinitionNamesToolHandler"
 import { ListFilesToolHandler } from "./tools/handlers/ListFilesToolHandler"
 import { LoadMcpDocumentationHandler } from "./tools/handlers/LoadMcpDocumentationHandler"
+import { ManageServiceHandler } from "./tools/handlers/ManageServiceHandler"
 import { NewTaskHandler } from "./tools/handlers/NewTaskHandler"
 import { PlanModeRespondHandler } from "./tools/handlers/PlanModeRespondHandler"
 import { ReadFileToolHandler } from "./tools/handlers/ReadFileToolHandler"
 import { ReportBugHandler } from "./tools/handlers/ReportBugHandler"
 import { SearchFilesToolHandler } from "./tools/handlers/SearchFilesToolHandler"
+import { SendBackgroundInputHandler } from "./tools/handlers/SendBackgroundInputHandler"
 import { SummarizeTaskHandler } from "./tools/handlers/SummarizeTaskHandler"
 import { UseMcpToolHandler } from "./tools/handlers/UseMcpToolHandler"
+import { UseSubagentsHandler } from "./tools/handlers/UseSubagentsHandler"
 import { WebFetchToolHandler } from "./tools/handlers/WebFetchToolHandler"
 import { WebSearchToolHandler } from "./tools/handlers/WebSearchToolHandler"
 import { WriteToFileToolHandler } from "./tools/handlers/WriteToFileToolHandler"
@@ -79,6 +86,8 @@ export class ToolExecutor {
 		private clineIgnoreController: ClineIgnoreController,
 		private contextManager: ContextManager,
 		private stateManager: StateManager,
+		private devServiceManager: DevServiceManager,
+		private subagentPool: SubagentPool,
 
 		// Configuration & Settings
 
@@ -113,6 +122,7 @@ export class ToolExecutor {
 		private sayAndCreateMissingParamError: (toolName: ClineDefaultTool, paramName: string, relPath?: string) => Promise<any>,
 		private removeLastPartialMessageIfExistsWithType: (type: "ask" | "say", askOrSay: ClineAsk | ClineSay) => Promise<void>,
 		private executeCommandTool: (command: string, timeoutSeconds: number | undefined) => Promise<[boolean, any]>,
+		private sendBackgroundCommandInput: (name: string, input: BackgroundCommandInput) => Promise<string>,
 		private doesLatestTaskCompletionHaveNewChanges: () => Promise<boolean>,
 		private updateFCListFromToolResponse: (taskProgress: string | undefined) => Promise<void>,
 		private switchToActMode: () => Promise<boolean>,
@@ -127,7 +137,7 @@ export class ToolExecutor {
 			context: "initial_task" | "resume" | "feedback",
 		) => Promise<{ cancel?: boolean; wasCancelled?: boolean; contextModification?: string; errorMessage?: string }>,
 	) {
-		this.autoApprover = new AutoApprove(this.stateManager)
+		this.autoApprover = new AutoApprove(this.stateManager, this.api, this.cwd)
 
 		// Initialize the coordinator and register all tool handlers
 		this.coordinator = new ToolExecutorCoordinator()
@@ -165,6 +175,8 @@ export class ToolExecutor {
 				clineIgnoreController: this.clineIgnoreController,
 				contextManager: this.contextManager,
 				stateManager: this.stateManager,
+				devServiceManager: this.devServiceManager,
+				subagentPool: this.subagentPool,
 			},
 			callbacks: {
 				say: this.say,
@@ -175,6 +187,7 @@ export class ToolExecutor {
 				cancelTask: this.cancelTask,
 				updateTaskHistory: async (_: any) => [],
 				executeCommandTool: this.executeCommandTool,
+				sendBackgroundCommandInput: this.sendBackgroundCommandInput,
 				doesLatestTaskCompletionHaveNewChanges: this.doesLatestTaskCompletionHaveNewChanges,
 				updateFCListFromToolResponse: this.updateFCListFromToolResponse,
 				sayAndCreateMissingParamError: this.sayAndCreateMissingParamError,
@@ -219,6 +232,9 @@ export class ToolExecutor {
 		this.coordinator.register(new ListCodeDefinitionNamesToolHandler(validator))
 		this.coordinator.register(new SearchFilesToolHandler(validator))
 		this.coordinator.register(new ExecuteCommandToolHandler(validator))
+		this.coordinator.register(new SendBackgroundInputHandler())
+		this.coordinator.register(new ManageServiceHandler())
+		this.coordinator.register(new UseSubagentsHandler())
 		this.coordinator.register(new UseMcpToolHandler())
 		this.coordinator.register(new AccessMcpResourceHandler())
 		this.coordinator.register(new LoadMcpDocumentationHandler())
@@ -354,6 +370,12 @@ export class ToolExecutor {
 				return true
 			}
 
+			// The Architect Mode Editor ran out of time while this response was streaming
+			if (this.taskState.isArchitectEditorLoop && this.taskState.architectEditorStoppedBy === "timeout") {
+				this.createToolRejectionMessage(block, "Skipping tool because the Editor's time limit was reached.")
+				return true
+			}
+
 			// Check if a tool has already been used in this message (only enforced when parallel tool calling is disabled)
 			if (!this.isParallelToolCallingEnabled() && this.taskState.didAlreadyUseTool) {
 				this.taskState.userMessageContent.push({
@@ -376,6 +398,29 @@ export class ToolExecutor {
 				return true
 			}
 
+			// Architect Mode: the Editor may only use the tools its role allows
+			const allowedTools = this.taskState.architectEditorLimits?.allowedTools
+			if (allowedTools && block.name !== ClineDefaultTool.ATTEMPT && !allowedTools.includes(block.name)) {
+				// Partial blocks are dropped silently so a disallowed edit never opens a diff view
+				if (!block.partial) {
+					const errorMessage = `Tool '${block.name}' is not allowed for the Architect Mode Editor. Allowed tools: ${allowedTools.join(", ")}.`
+					await this.say("error", errorMessage)
+					this.pushToolResult(formatResponse.toolError(errorMessage), block)
+				}
+				return true
+			}
+
+			// The active persona may restrict which tools Cline can use
+			const persona = this.taskState.activePersona
+			if (persona && !PersonaLibrary.isToolAllowed(persona, block.name)) {
+				if (!block.partial) {
+					const errorMessage = `Tool '${block.name}' is not available to the ${persona.name} persona.`
+					await this.say("error", errorMessage)
+					this.pushToolResult(formatResponse.toolError(errorMessage), block)
+				}
+				return true
+			}
+
 			// Close browser for non-browser tools
 			if (block.name !== "browser_action") {
 				await this.browserSession.closeBrowser()
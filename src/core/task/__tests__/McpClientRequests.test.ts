@@ -0,0 +1,258 @@
+import type { ApiHandler } from "@core/api"
+import type { ApiStream } from "@core/api/transform/stream"
+import { McpError } from "@modelcontextprotocol/sdk/types.js"
+import { ClineMessage } from "@shared/ExtensionMessage"
+import { MCP_SAMPLING_MAX_TOKENS } from "@shared/mcp"
+import { expect } from "chai"
+import { describe, it } from "mocha"
+import pWaitFor from "p-wait-for"
+import * as sinon from "sinon"
+import { McpClientRequests } from "../McpClientRequests"
+
+describe("McpClientRequests", () => {
+	const signal = new AbortController().signal
+
+	const createApi = (chunks: string[]) => {
+		const createMessage = sinon.spy(async function* (): ApiStream {
+			for (const text of chunks) {
+				yield { type: "text", text }
+			}
+			yield { type: "usage", inputTokens: 10, outputTokens: 5 }
+		})
+		return { createMessage, getModel: () => ({ id: "test-model", info: {} }) } as unknown as ApiHandler & {
+			createMessage: sinon.SinonSpy
+		}
+	}
+
+	const createRequests = (
+		api: ApiHandler,
+		ask: sinon.SinonStub,
+		messages: ClineMessage[] = [],
+		updateClineMessage = sinon.stub().resolves(),
+		isTaskBusy = () => false,
+		recordUsage = sinon.stub().resolves(),
+		cancelAsk = sinon.stub(),
+	) =>
+		new McpClientRequests(
+			() => api,
+			ask,
+			{ getClineMessages: () => messages, updateClineMessage },
+			isTaskBusy,
+			recordUsage,
+			cancelAsk,
+		)
+
+	describe("createMessage", () => {
+		it("should sample the task's model once the user approves", async () => {
+			const api = createApi(["Hello", " world"])
+			const ask = sinon.stub().resolves({ response: "yesButtonClicked" })
+
+			const result = await createRequests(api, ask).createMessage(
+				"docs",
+				{
+					systemPrompt: "Be brief",
+					maxTokens: 100,
+					messages: [{ role: "user", content: { type: "text", text: "Summarize" } }],
+				},
+				signal,
+			)
+
+			expect(result).to.deep.equal({
+				model: "test-model",
+				role: "assistant",
+				stopReason: "endTurn",
+				content: { type: "text", text: "Hello world" },
+			})
+			sinon.assert.calledWith(api.createMessage, "Be brief", [
+				{ role: "user", content: [{ type: "text", text: "Summarize" }] },
+			])
+			expect(JSON.parse(ask.firstCall.args[1])).to.deep.equal({
+				serverName: "docs",
+				systemPrompt: "Be brief",
+				messages: [{ role: "user", text: "Summarize" }],
+				maxTokens: 100,
+			})
+		})
+
+		it("should add the request's usage to the task's metrics", async () => {
+			const api = createApi(["Hello"])
+			const ask = sinon.stub().resolves({ response: "yesButtonClicked" })
+			const recordUsage = sinon.stub().resolves()
+
+			await createRequests(api, ask, [], undefined, undefined, recordUsage).createMessage(
+				"docs",
+				{ maxTokens: 100, messages: [] },
+				signal,
+			)
+
+			sinon.assert.calledOnce(recordUsage)
+			expect(recordUsage.firstCall.args[0]).to.deep.include({ request: "MCP sampling", tokensIn: 10, tokensOut: 5 })
+		})
+
+		it("should wait until the task is idle and serve requests one at a time", async () => {
+			const api = createApi(["Hello"])
+			let busy = true
+			let answer: (() => void) | undefined
+			const ask = sinon
+				.stub()
+				.callsFake(() => new Promise((resolve) => (answer = () => resolve({ response: "yesButtonClicked" }))))
+			const requests = createRequests(api, ask, [], undefined, () => busy)
+
+			const first = requests.createMessage("docs", { maxTokens: 100, messages: [] }, signal)
+			const second = requests.createMessage("docs", { maxTokens: 100, messages: [] }, signal)
+			await new Promise((resolve) => setTimeout(resolve, 150))
+			sinon.assert.notCalled(ask)
+
+			busy = false
+			await pWaitFor(() => ask.called, { timeout: 2_000 })
+			sinon.assert.calledOnce(ask)
+			answer?.()
+			await first
+			await pWaitFor(() => ask.calledTwice, { timeout: 2_000 })
+			answer?.()
+			await second
+		})
+
+		it("should reject with an MCP error when cancelled while the task is busy", async () => {
+			const controller = new AbortController()
+			const ask = sinon.stub().resolves({ response: "yesButtonClicked" })
+			const request = createRequests(createApi([]), ask, [], undefined, () => true)
+				.createMessage("docs", { maxTokens: 100, messages: [] }, controller.signal)
+				.catch((e) => e)
+
+			controller.abort()
+			const error = await request
+
+			expect(error).to.be.instanceOf(McpError)
+			sinon.assert.notCalled(ask)
+		})
+
+		it("should dismiss the ask and mark it cancelled when the server cancels while the user decides", async () => {
+			const controller = new AbortController()
+			const ask = sinon.stub().returns(new Promise(() => {}))
+			const messages = [{ ts: 1, type: "ask", ask: "mcp_sampling", text: "{}" }] as ClineMessage[]
+			const updateClineMessage = sinon.stub().resolves()
+			const cancelAsk = sinon.stub()
+
+			const request = createRequests(createApi([]), ask, messages, updateClineMessage, undefined, undefined, cancelAsk)
+				.createMessage("docs", { maxTokens: 100, messages: [] }, controller.signal)
+				.catch((e) => e)
+			await pWaitFor(() => ask.called, { timeout: 2_000 })
+			controller.abort()
+
+			expect(await request).to.be.instanceOf(McpError)
+			sinon.assert.calledOnceWithExactly(cancelAsk, 1)
+			expect(updateClineMessage.firstCall.args[0]).to.equal(0)
+			expect(JSON.parse(updateClineMessage.firstCall.args[1].text).cancelled).to.equal(true)
+		})
+
+		it("should reject with the MCP user-rejected error when the user declines", async () => {
+			const api = createApi(["unused"])
+			const ask = sinon.stub().resolves({ response: "noButtonClicked" })
+
+			const error = await createRequests(api, ask)
+				.createMessage("docs", { maxTokens: 100, messages: [] }, signal)
+				.catch((e) => e)
+
+			expect(error).to.be.instanceOf(McpError)
+			expect(error.code).to.equal(-1)
+			sinon.assert.notCalled(api.createMessage)
+		})
+
+		it("should cap the requested tokens and stop streaming at the cap", async () => {
+			const api = createApi(["a".repeat(MCP_SAMPLING_MAX_TOKENS * 3), "a".repeat(MCP_SAMPLING_MAX_TOKENS * 3)])
+			const ask = sinon.stub().resolves({ response: "yesButtonClicked" })
+
+			const result = await createRequests(api, ask).createMessage(
+				"docs",
+				{ maxTokens: MCP_SAMPLING_MAX_TOKENS * 10, messages: [] },
+				signal,
+			)
+
+			expect(JSON.parse(ask.firstCall.args[1]).maxTokens).to.equal(MCP_SAMPLING_MAX_TOKENS)
+			expect(result.stopReason).to.equal("maxTokens")
+			expect((result.content as { text: string }).text).to.have.length(MCP_SAMPLING_MAX_TOKENS * 4)
+		})
+
+		it("should stop at the first stop sequence", async () => {
+			const api = createApi(["one\nEND", "two"])
+			const ask = sinon.stub().resolves({ response: "yesButtonClicked" })
+
+			const result = await createRequests(api, ask).createMessage(
+				"docs",
+				{ maxTokens: 100, stopSequences: ["END"], messages: [] },
+				signal,
+			)
+
+			expect(result.stopReason).to.equal("stopSequence")
+			expect(result.content).to.deep.equal({ type: "text", text: "one\n" })
+		})
+	})
+
+	describe("elicit", () => {
+		const params = {
+			message: "Which environment?",
+			requestedSchema: {
+				type: "object" as const,
+				properties: { env: { type: "string" as const, enum: ["staging", "prod"] } },
+				required: ["env"],
+			},
+		}
+
+		it("should accept with the submitted form and record the answer on the message", async () => {
+			const ask = sinon.stub().resolves({ response: "yesButtonClicked", text: '{"env":"prod"}' })
+			const messages = [{ ts: 1, type: "ask", ask: "mcp_elicitation", text: "{}" }] as ClineMessage[]
+			const updateClineMessage = sinon.stub().resolves()
+
+			const result = await createRequests(createApi([]), ask, messages, updateClineMessage).elicit("deploy", params, signal)
+
+			expect(result).to.deep.equal({ action: "accept", content: { env: "prod" } })
+			sinon.assert.calledOnce(updateClineMessage)
+			expect(updateClineMessage.firstCall.args[0]).to.equal(0)
+			expect(JSON.parse(updateClineMessage.firstCall.args[1].text).response).to.deep.equal({
+				action: "accept",
+				content: { env: "prod" },
+			})
+		})
+
+		it("should decline when the user declines the form", async () => {
+			const ask = sinon.stub().resolves({ response: "noButtonClicked" })
+
+			const result = await createRequests(createApi([]), ask).elicit("deploy", params, signal)
+
+			expect(result).to.deep.equal({ action: "decline" })
+		})
+
+		it("should cancel and close the form when the server cancels the request", async () => {
+			const controller = new AbortController()
+			const ask = sinon.stub().returns(new Promise(() => {}))
+			const messages = [{ ts: 1, type: "ask", ask: "mcp_elicitation", text: "{}" }] as ClineMessage[]
+			const updateClineMessage = sinon.stub().resolves()
+			const cancelAsk = sinon.stub()
+
+			const result = createRequests(
+				createApi([]),
+				ask,
+				messages,
+				updateClineMessage,
+				undefined,
+				undefined,
+				cancelAsk,
+			).elicit("deploy", params, controller.signal)
+			await new Promise((resolve) => setTimeout(resolve, 10))
+			controller.abort()
+
+			expect(await result).to.deep.equal({ action: "cancel" })
+			sinon.assert.calledOnceWithExactly(cancelAsk, 1)
+			expect(JSON.parse(updateClineMessage.firstCall.args[1].text).response).to.deep.equal({ action: "cancel" })
+		})
+
+		it("should cancel when the task stops waiting for an answer", async () => {
+			const ask = sinon.stub().rejects(new Error("Cline instance aborted"))
+
+			const result = await createRequests(createApi([]), ask).elicit("deploy", params, signal)
+
+			expect(result).to.deep.equal({ action: "cancel" })
+		})
+	})
+})
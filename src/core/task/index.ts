@@ -2,13 +2,16 @@ import { setTimeout as setTimeoutPromise } from "node:timers/promises"
 import { ApiHandler, ApiProviderInfo, buildApiHandler } from "@core/api"
 import { ApiStream } from "@core/api/transform/stream"
 import { ArchitectOrchestrator } from "@core/architect/ArchitectOrchestrator"
+import { buildEditorResult, formatIterationDiff } from "@core/architect/IterationDiff"
 import { AssistantMessageContent, parseAssistantMessageV2, ToolUse } from "@core/assistant-message"
 import { ContextManager } from "@core/context/context-management/ContextManager"
 import { checkContextWindowExceededError } from "@core/context/context-management/context-error-handling"
+import { getSummarizationConfiguration } from "@core/context/context-management/context-summarization"
 import { getContextWindowInfo } from "@core/context/context-management/context-window-utils"
 import { EnvironmentContextTracker } from "@core/context/context-tracking/EnvironmentContextTracker"
 import { FileContextTracker } from "@core/context/context-tracking/FileContextTracker"
 import { ModelContextTracker } from "@core/context/context-tracking/ModelContextTracker"
+import { LLMContextManager } from "@core/context/LLMContextManager"
 import {
 	getGlobalClineRules,
 	getLocalClineRules,
@@ -24,22 +27,31 @@ import { sendPartialMessageEvent } from "@core/controller/ui/subscribeToPartialM
 import { executePreCompactHookWithCleanup, HookCancellationError, HookExecution } from "@core/hooks/precompact-executor"
 import { ClineIgnoreController } from "@core/ignore/ClineIgnoreController"
 import { parseMentions } from "@core/mentions"
+import { PersonaLibrary, PersonaStore } from "@core/persona/PersonaLibrary"
 import { summarizeTask } from "@core/prompts/contextManagement"
 import { formatResponse } from "@core/prompts/responses"
 import { parseSlashCommands } from "@core/slash-commands"
+import { InProcessSubagentRunner } from "@core/subagents/InProcessSubagentRunner"
+import { SubagentPool } from "@core/subagents/SubagentPool"
 import {
 	ensureRulesDirectoryExists,
 	ensureTaskDirectoryExists,
 	GlobalFileNames,
+	getPersonasDirectoryPath,
 	getSavedApiConversationHistory,
+	getSavedArchitectState,
 	getSavedClineMessages,
+	saveArchitectState,
 } from "@core/storage/disk"
 import { releaseTaskLock } from "@core/task/TaskLockUtils"
 import { isMultiRootEnabled } from "@core/workspace/multi-root-utils"
 import { WorkspaceRootManager } from "@core/workspace/WorkspaceRootManager"
 import { buildCheckpointManager, shouldUseMultiRoot } from "@integrations/checkpoints/factory"
 import { ensureCheckpointInitialized } from "@integrations/checkpoints/initializer"
+import CheckpointTracker from "@integrations/checkpoints/CheckpointTracker"
 import { ICheckpointManager } from "@integrations/checkpoints/types"
+import { CliSubagentRunner } from "@integrations/cli-subagents/CliSubagentRunner"
+import { DevServiceManager } from "@integrations/dev-services/DevServiceManager"
 import { DiffViewProvider } from "@integrations/editor/DiffViewProvider"
 import { formatContentBlockToMarkdown } from "@integrations/misc/export-markdown"
 import { processFilesIntoText } from "@integrations/misc/extract-text"
@@ -51,16 +63,19 @@ import { featureFlagsService } from "@services/feature-flags"
 import { listFiles } from "@services/glob/list-files"
 import { Logger } from "@services/logging/Logger"
 import { McpHub } from "@services/mcp/McpHub"
-import { ApiConfiguration } from "@shared/api"
+import { ApiConfiguration, ApiFallbackEvent } from "@shared/api"
+import { ArchitectEditorLimits, ArchitectEditorResult } from "@shared/architect-types"
 import { findLast, findLastIndex } from "@shared/array"
 import { combineApiRequests } from "@shared/combineApiRequests"
 import { combineCommandSequences } from "@shared/combineCommandSequences"
 import { ClineApiReqCancelReason, ClineApiReqInfo, ClineAsk, ClineMessage, ClineSay } from "@shared/ExtensionMessage"
+import { getApiMetrics } from "@shared/getApiMetrics"
 import { HistoryItem } from "@shared/HistoryItem"
 import { DEFAULT_LANGUAGE_SETTINGS, getLanguageKey, LanguageDisplay } from "@shared/Languages"
 import { USER_CONTENT_TAGS } from "@shared/messages/constants"
 import { convertClineMessageToProto } from "@shared/proto-conversions/cline-message"
 import { ClineDefaultTool, READ_ONLY_TOOLS } from "@shared/tools"
+import type { Persona } from "@shared/personas"
 import { ClineAskResponse } from "@shared/WebviewMessage"
 import { isClaude4PlusModelFamily, isGPT5ModelFamily, isLocalModel, isNextGenModelFamily } from "@utils/model-utils"
 import { arePathsEqual, getDesktopDir } from "@utils/path"
@@ -71,10 +86,11 @@ import pWaitFor from "p-wait-for"
 import * as path from "path"
 import { ulid } from "ulid"
 import type { SystemPromptContext } from "@/core/prompts/system-prompt"
-import { getSystemPrompt } from "@/core/prompts/system-prompt"
+import { getSystemPrompt, PromptRegistry } from "@/core/prompts/system-prompt"
 import { HostProvider } from "@/hosts/host-provider"
 import { FileEditProvider } from "@/integrations/editor/FileEditProvider"
 import {
+	BackgroundCommandInput,
 	CommandExecutor,
 	CommandExecutorCallbacks,
 	FullCommandExecutorConfig,
@@ -100,6 +116,7 @@ import { Controller } from "../controller"
 import { executeHook } from "../hooks/hook-executor"
 import { StateManager } from "../storage/StateManager"
 import { FocusChainManager } from "./focus-chain"
+import { McpClientRequests } from "./McpClientRequests"
 import { MessageStateHandler } from "./message-state"
 import { StreamResponseHandler } from "./StreamResponseHandler"
 import { TaskState } from "./TaskState"
@@ -109,7 +126,7 @@ import { buildUserFeedbackContent } from "./utils/buildUserFeedbackContent"
 
 export type ToolResponse = ClineToolResponseContent
 
-type TaskParams = {
+export type TaskParams = {
 	controller: Controller
 	mcpHub: McpHub
 	updateTaskHistory: (historyItem: HistoryItem) => Promise<HistoryItem[]>
@@ -200,6 +217,8 @@ export class Task {
 	private diffViewProvider: DiffViewProvider
 	public checkpointManager?: ICheckpointManager
 	private initialCheckpointCommitPromise?: Promise<string | undefined>
+	private pendingArchitectEditorContent: ClineContent[] = []
+	private architectEditorStartIndex = 0
 	private clineIgnoreController: ClineIgnoreController
 	private toolExecutor: ToolExecutor
 	/**
@@ -215,6 +234,8 @@ export class Task {
 
 	// Metadata tracking
 	private fileContextTracker: FileContextTracker
+	// Records the files this task modifies in the workspace's LLM context, if it keeps one
+	private llmContextManager: LLMContextManager
 	private modelContextTracker: ModelContextTracker
 	private environmentContextTracker: EnvironmentContextTracker
 
@@ -242,6 +263,12 @@ export class Task {
 	// Command executor for running shell commands (extracted from executeCommandTool)
 	private commandExecutor!: CommandExecutor
 
+	// Long-running services declared in .cline/services.json, stopped when the task ends
+	private devServiceManager: DevServiceManager
+
+	// Runs the subagents started by use_subagents
+	private subagentPool: SubagentPool
+
 	constructor(params: TaskParams) {
 		const {
 			controller,
@@ -340,8 +367,33 @@ export class Task {
 			updateTaskHistory: this.updateTaskHistory,
 		})
 
+		// Serve MCP servers' sampling and elicitation requests with this task's model and chat
+		this.mcpHub.setClientRequestHandler(
+			new McpClientRequests(
+				() =>
+					buildApiHandler(
+						{ ...this.stateManager.getApiConfiguration(), ulid: this.ulid },
+						this.stateManager.getGlobalSettingsKey("mode"),
+					),
+				(type, text) => this.ask(type, text),
+				this.messageStateHandler,
+				() =>
+					this.taskState.pendingAskTs !== undefined ||
+					this.messageStateHandler.getClineMessages().at(-1)?.partial === true,
+				(usage) => this.say("auxiliary_api_req", JSON.stringify(usage)),
+				(askTs) => {
+					// Ends the wait on an ask the server cancelled; nothing reads this answer
+					if (this.taskState.lastMessageTs === askTs) {
+						this.taskState.askResponse = "noButtonClicked"
+					}
+				},
+			),
+		)
+
 		// Initialize context trackers
 		this.fileContextTracker = new FileContextTracker(controller, this.taskId)
+		this.llmContextManager = new LLMContextManager(cwd, this.taskId)
+		this.llmContextManager.trackModifiedFiles(this.fileContextTracker)
 		this.modelContextTracker = new ModelContextTracker(this.taskId)
 		this.environmentContextTracker = new EnvironmentContextTracker(this.taskId)
 
@@ -446,6 +498,11 @@ export class Task {
 					}
 				}
 			},
+			onProviderFallback: (event: ApiFallbackEvent) => {
+				this.say("provider_fallback", JSON.stringify(event)).catch((e) =>
+					console.error(`[Task ${this.taskId}] Error showing provider fallback:`, e),
+				)
+			},
 		}
 		const mode = this.stateManager.getGlobalSettingsKey("mode")
 		const currentProvider = mode === "plan" ? apiConfiguration.planModeApiProvider : apiConfiguration.actModeApiProvider
@@ -525,6 +582,20 @@ export class Task {
 		}
 
 		this.commandExecutor = new CommandExecutor(commandExecutorConfig, commandExecutorCallbacks)
+		this.devServiceManager = new DevServiceManager(this.cwd)
+		this.subagentPool = new SubagentPool(this.cwd, {
+			inProcess: new InProcessSubagentRunner({
+				controller,
+				mcpHub,
+				stateManager,
+				shellIntegrationTimeout,
+				terminalReuseEnabled,
+				terminalOutputLineLimit,
+				subagentTerminalOutputLineLimit,
+				defaultTerminalProfile,
+			}),
+			isolated: new CliSubagentRunner(),
+		})
 
 		this.toolExecutor = new ToolExecutor(
 			this.controller.context,
@@ -539,6 +610,8 @@ export class Task {
 			this.clineIgnoreController,
 			this.contextManager,
 			this.stateManager,
+			this.devServiceManager,
+			this.subagentPool,
 			cwd,
 			this.taskId,
 			this.ulid,
@@ -551,6 +624,7 @@ export class Task {
 			this.sayAndCreateMissingParamError.bind(this),
 			this.removeLastPartialMessageIfExistsWithType.bind(this),
 			this.executeCommandTool.bind(this),
+			this.sendBackgroundCommandInput.bind(this),
 			() => this.checkpointManager?.doesLatestTaskCompletionHaveNewChanges() ?? Promise.resolve(false),
 			this.FocusChainManager?.updateFCListFromToolResponse.bind(this.FocusChainManager) || (async () => {}),
 			this.switchToActModeCallback.bind(this),
@@ -679,9 +753,16 @@ export class Task {
 			await this.postStateToWebview()
 		}
 
-		await pWaitFor(() => this.taskState.askResponse !== undefined || this.taskState.lastMessageTs !== askTs, {
-			interval: 100,
-		})
+		this.taskState.pendingAskTs = askTs
+		try {
+			await pWaitFor(() => this.taskState.askResponse !== undefined || this.taskState.lastMessageTs !== askTs, {
+				interval: 100,
+			})
+		} finally {
+			if (this.taskState.pendingAskTs === askTs) {
+				this.taskState.pendingAskTs = undefined
+			}
+		}
 		if (this.taskState.lastMessageTs !== askTs) {
 			throw new Error("Current ask promise was ignored") // could happen if we send multiple asks in a row i.e. with command_output. It's important that when we know an ask could fail, it is handled gracefully
 		}
@@ -1332,7 +1413,7 @@ export class Task {
 	 */
 	private async runArchitectMode(userContent: ClineContent[]): Promise<void> {
 		const architectConfig = this.stateManager.getGlobalSettingsKey("architectConfig")
-		
+
 		if (!architectConfig?.enabled) {
 			// Fallback to normal mode
 			await this.recursivelyMakeClineRequests(userContent, true)
@@ -1348,20 +1429,29 @@ export class Task {
 			.map((block) => ("text" in block ? block.text : ""))
 			.join("\n")
 
+		let orchestrator: ArchitectOrchestrator | undefined
 		try {
 			const apiConfiguration = this.stateManager.getApiConfiguration()
-			const apiKey =
-				apiConfiguration.apiKey ||
-				apiConfiguration.openRouterApiKey ||
-				"" // Use configured API key
 
-			const orchestrator = new ArchitectOrchestrator(
+			let includeFileDetails = true
+			orchestrator = new ArchitectOrchestrator(
 				architectConfig,
 				apiConfiguration,
-				apiKey,
-				this.cwd
+				this.cwd,
+				async (instructions, editorHandler, limits) => {
+					const result = await this.runArchitectEditor(instructions, editorHandler, limits, includeFileDetails)
+					includeFileDetails = false
+					return result
+				},
+				await this.getSelectedPersona(),
 			)
 
+			// Pick up an interrupted session in the phase it was saved in
+			const savedState = await getSavedArchitectState(this.taskId)
+			if (ArchitectOrchestrator.isResumable(savedState)) {
+				orchestrator.restore(savedState)
+			}
+
 			// Stream architect updates to UI
 			for await (const update of orchestrator.run(taskText, codebaseContext)) {
 				if (this.taskState.abort) {
@@ -1375,7 +1465,7 @@ export class Task {
 							JSON.stringify({
 								phase: update.phase,
 								iteration: update.iteration,
-							})
+							}),
 						)
 						break
 
@@ -1390,7 +1480,7 @@ export class Task {
 								content: update.content,
 								thinking: update.thinking,
 								iteration: this.taskState.apiRequestCount,
-							})
+							}),
 						)
 						break
 
@@ -1399,13 +1489,14 @@ export class Task {
 							"architect_implementation",
 							JSON.stringify({
 								content: update.content,
+								diff: update.diff,
 								iteration: this.taskState.apiRequestCount,
-							})
+							}),
 						)
 						break
 
 					case "evaluation":
-						const approved = update.content.toUpperCase().startsWith("APPROVED")
+						const approved = update.approved ?? update.content.toUpperCase().startsWith("APPROVED")
 						await this.say(
 							"architect_evaluation",
 							JSON.stringify({
@@ -1413,7 +1504,22 @@ export class Task {
 								thinking: update.thinking,
 								iteration: this.taskState.apiRequestCount,
 								approved,
-							})
+								reviewer: update.reviewer,
+								failed: update.failed,
+							}),
+						)
+						break
+
+					case "review_verdict":
+						await this.say(
+							"architect_evaluation",
+							JSON.stringify({
+								content: update.message,
+								iteration: this.taskState.apiRequestCount,
+								approved: update.approved,
+								policy: update.policy,
+								failed: update.failed,
+							}),
 						)
 						break
 
@@ -1424,38 +1530,138 @@ export class Task {
 							JSON.stringify({
 								iterations: update.iterations,
 								success: update.type === "complete",
-							})
+							}),
 						)
 						break
 
 					case "approval_request":
 						// Handle approval requests from ApprovalOracle
-						await this.say(
-							"info",
-							`Approval: ${update.action} on ${update.target}`
-						)
+						await this.say("info", `Approval: ${update.action} on ${update.target}`)
 						break
 
 					case "architecture_review":
 						// Handle architecture warnings
 						await this.say("info", update.message)
 						break
+
+					case "budget_exceeded":
+						await this.say("error", update.message)
+						break
 				}
+
+				await saveArchitectState(this.taskId, orchestrator.getState())
 			}
 		} catch (error) {
-			await this.say(
-				"error",
-				`Architect Mode failed: ${error instanceof Error ? error.message : String(error)}`
-			)
+			await this.say("error", `Architect Mode failed: ${error instanceof Error ? error.message : String(error)}`)
 			// Fallback to normal mode
 			await this.recursivelyMakeClineRequests(userContent, true)
+		} finally {
+			await orchestrator?.dispose()
+		}
+	}
+
+	/**
+	 * Runs the Architect Mode Editor through the regular tool loop with the editor model, so its edits
+	 * get diff views, approvals and checkpoints. Returns the workspace diff between checkpoints taken
+	 * before and after the run.
+	 */
+	private async runArchitectEditor(
+		instructions: string,
+		editorHandler: ApiHandler,
+		limits: ArchitectEditorLimits,
+		includeFileDetails: boolean,
+	): Promise<ArchitectEditorResult> {
+		const baseHash = await this.checkpointManager?.commit()
+
+		const taskApi = this.api
+		this.api = editorHandler
+		this.taskState.isArchitectEditorLoop = true
+		this.taskState.architectEditorSummary = undefined
+		this.taskState.architectEditorLimits = limits
+		this.taskState.architectEditorStoppedBy = undefined
+		this.architectEditorStartIndex = this.messageStateHandler.getClineMessages().length
+		const userContent: ClineContent[] = [...this.pendingArchitectEditorContent, { type: "text", text: instructions }]
+		this.pendingArchitectEditorContent = []
+		try {
+			await this.recursivelyMakeClineRequests(userContent, includeFileDetails)
+		} finally {
+			this.api = taskApi
+			this.taskState.isArchitectEditorLoop = false
+			this.taskState.architectEditorLimits = undefined
+		}
+
+		const summary = this.taskState.architectEditorSummary ?? ""
+		const cost = this.getArchitectEditorCost()
+		const stoppedBy = this.taskState.architectEditorStoppedBy
+		if (!baseHash) {
+			// Checkpoints are disabled or failed to initialize, so there is no diff to review
+			return { summary, diff: "", files: [], cost, stoppedBy }
+		}
+		try {
+			const headHash = await this.checkpointManager?.commit()
+			const tracker: CheckpointTracker | undefined = await this.checkpointManager?.checkpointTrackerCheckAndInit?.()
+			const changedFiles = tracker && headHash ? await tracker.getDiffSet(baseHash, headHash) : []
+			return { ...buildEditorResult(summary, changedFiles), cost, stoppedBy }
+		} catch (error) {
+			console.error("Failed to diff the Architect Mode editor iteration:", error)
+			return { summary, diff: "", files: [], cost, stoppedBy }
 		}
 	}
 
+	/**
+	 * Diff of the workspace since a checkpoint, for @checkpoint mentions. Checkpoints are numbered from 1 in the
+	 * order they appear in the chat, the same way the mention menu lists them.
+	 */
+	private async getCheckpointDiff(checkpointNumber: number): Promise<string> {
+		const checkpoints = this.messageStateHandler
+			.getClineMessages()
+			.filter((message) => message.say === "checkpoint_created" && message.lastCheckpointHash)
+		const hash = checkpoints[checkpointNumber - 1]?.lastCheckpointHash
+		if (!hash) {
+			throw new Error(
+				checkpoints.length > 0
+					? `Checkpoint ${checkpointNumber} doesn't exist. This task has checkpoints 1 to ${checkpoints.length}.`
+					: "This task has no checkpoints yet.",
+			)
+		}
+		const tracker: CheckpointTracker | undefined = await this.checkpointManager?.checkpointTrackerCheckAndInit?.()
+		if (!tracker) {
+			throw new Error("Checkpoints are not available for this task.")
+		}
+		const changedFiles = await tracker.getDiffSet(hash)
+		return changedFiles.length > 0 ? formatIterationDiff(changedFiles) : "No changes since this checkpoint."
+	}
+
+	/**
+	 * Dollars spent by the current Architect Mode Editor run, from its api_req_started rows
+	 */
+	private getArchitectEditorCost(): number {
+		return getApiMetrics(this.messageStateHandler.getClineMessages().slice(this.architectEditorStartIndex)).totalCost
+	}
+
+	/**
+	 * Whether the Architect Mode Editor has run out of budget or time and should stop before its next request
+	 */
+	private getArchitectEditorStopReason(): "cost" | "timeout" | undefined {
+		if (this.isArchitectEditorPastDeadline()) {
+			return "timeout"
+		}
+		const limits = this.taskState.architectEditorLimits
+		if (limits?.maxCost !== undefined && this.getArchitectEditorCost() >= limits.maxCost) {
+			return "cost"
+		}
+		return undefined
+	}
+
+	private isArchitectEditorPastDeadline(): boolean {
+		const deadline = this.taskState.architectEditorLimits?.deadline
+		return deadline !== undefined && Date.now() >= deadline
+	}
+
 	private async initiateTaskLoop(userContent: ClineContent[]): Promise<void> {
 		// Check if Architect Mode is enabled
 		const architectConfig = this.stateManager.getGlobalSettingsKey("architectConfig")
-		
+
 		if (architectConfig?.enabled) {
 			// Use Architect Mode (two-context workflow)
 			await this.runArchitectMode(userContent)
@@ -1578,6 +1784,15 @@ export class Task {
 				}
 			}
 
+			try {
+				await this.devServiceManager.stopAll()
+			} catch (error) {
+				Logger.error("Failed to stop services during task abort", error)
+			}
+
+			// Sends notifications/cancelled to the server running the tool
+			this.taskState.activeMcpToolCall?.abort()
+
 			// PHASE 4: Run TaskCancel hook
 			// This allows the hook UI to appear in the webview
 			// Use the shouldRunTaskCancelHook value we captured in Phase 1
@@ -1663,6 +1878,7 @@ export class Task {
 			await this.diffViewProvider.revertChanges()
 			// Clear the notification callback when task is aborted
 			this.mcpHub.clearNotificationCallback()
+			this.mcpHub.clearClientRequestHandler()
 			if (this.FocusChainManager) {
 				this.FocusChainManager.dispose()
 			}
@@ -1692,6 +1908,10 @@ export class Task {
 		return this.commandExecutor.execute(command, timeoutSeconds)
 	}
 
+	async sendBackgroundCommandInput(name: string, input: BackgroundCommandInput): Promise<string> {
+		return this.commandExecutor.sendBackgroundCommandInput(name, input)
+	}
+
 	/**
 	 * Cancel a background command that is running in the background
 	 * @returns true if a command was cancelled, false if no command was running
@@ -1823,6 +2043,54 @@ export class Task {
 		this.taskState.didAutomaticallyRetryFailedApiRequest = true
 	}
 
+	/**
+	 * The model that summarizes history the context manager truncates, if context summarization is on. It uses the
+	 * task's provider, with the configured model or else the task's own model.
+	 */
+	private getContextSummarizationApi(): ApiHandler | undefined {
+		if (!this.stateManager.getGlobalSettingsKey("contextSummarizationEnabled")) {
+			return undefined
+		}
+		const modelId = this.stateManager.getGlobalSettingsKey("contextSummarizationModelId")
+		if (!modelId) {
+			return this.api
+		}
+		const mode = this.stateManager.getGlobalSettingsKey("mode")
+		return buildApiHandler(getSummarizationConfiguration(this.stateManager.getApiConfiguration(), mode, modelId), mode)
+	}
+
+	/**
+	 * The persona picked in the chat toolbar, from the global or workspace persona directory
+	 */
+	private async getSelectedPersona(): Promise<Persona | undefined> {
+		const selectedPersona = this.stateManager.getGlobalSettingsKey("selectedPersona")
+		if (!selectedPersona) {
+			return undefined
+		}
+		const personas = await PersonaStore.forWorkspace(await getPersonasDirectoryPath(), this.cwd).load()
+		return personas.find((persona) => persona.id === selectedPersona)
+	}
+
+	/**
+	 * The selected persona if it targets the current mode and the model answering in it. The Architect Mode
+	 * Editor runs in this task, so it's matched as the editor.
+	 */
+	private async resolvePersona(context: SystemPromptContext): Promise<Persona | undefined> {
+		const persona = await this.getSelectedPersona()
+		if (!persona) {
+			return undefined
+		}
+		const registry = PromptRegistry.getInstance()
+		await registry.load()
+		const applies = PersonaLibrary.appliesTo(persona, {
+			mode: this.taskState.isArchitectEditorLoop ? "editor" : this.stateManager.getGlobalSettingsKey("mode"),
+			providerId: context.providerInfo.providerId,
+			modelId: context.providerInfo.model.id,
+			modelFamily: registry.getModelFamily(context),
+		})
+		return applies ? persona : undefined
+	}
+
 	async *attemptApiRequest(previousApiReqIndex: number): ApiStream {
 		// Wait for MCP servers to be connected before generating system prompt
 		await pWaitFor(() => this.mcpHub.isConnecting !== true, {
@@ -1918,12 +2186,16 @@ export class Task {
 			workspaceRoots,
 			isSubagentsEnabledAndCliInstalled,
 			isCliSubagent,
+			subagentsEnabled,
 			enableNativeToolCalls: this.stateManager.getGlobalStateKey("nativeToolCallEnabled"),
 			enableParallelToolCalling: this.stateManager.getGlobalSettingsKey("enableParallelToolCalling"),
 			terminalExecutionMode: this.terminalExecutionMode,
+			devServices: await this.devServiceManager.getServiceNames(),
 		}
 
-		const { systemPrompt, tools } = await getSystemPrompt(promptContext)
+		const persona = await this.resolvePersona(promptContext)
+		this.taskState.activePersona = persona
+		const { systemPrompt, tools } = await getSystemPrompt({ ...promptContext, persona })
 		this.useNativeToolCalls = !!tools?.length
 
 		const contextManagementMetadata = await this.contextManager.getNewContextMessagesAndMetadata(
@@ -1934,8 +2206,13 @@ export class Task {
 			previousApiReqIndex,
 			await ensureTaskDirectoryExists(this.taskId),
 			this.stateManager.getGlobalSettingsKey("useAutoCondense") && isNextGenModelFamily(this.api.getModel().id),
+			this.getContextSummarizationApi(),
 		)
 
+		if (contextManagementMetadata.contextSummaryUsage) {
+			await this.say("auxiliary_api_req", JSON.stringify(contextManagementMetadata.contextSummaryUsage))
+		}
+
 		if (contextManagementMetadata.updatedConversationHistoryDeletedRange) {
 			this.taskState.conversationHistoryDeletedRange = contextManagementMetadata.conversationHistoryDeletedRange
 			await this.messageStateHandler.saveClineMessagesAndUpdateHistory()
@@ -2760,6 +3037,13 @@ export class Task {
 						break
 					}
 
+					// The Architect Mode Editor's time limit also ends a response that runs past it; its remaining tools are skipped
+					if (this.taskState.isArchitectEditorLoop && this.isArchitectEditorPastDeadline()) {
+						this.taskState.architectEditorStoppedBy = "timeout"
+						assistantMessage += "\n\n[Response interrupted: the Editor's time limit was reached]"
+						break
+					}
+
 					// Interrupt stream if a tool was used and parallel calling is disabled
 					// PREV: we need to let the request finish for openrouter to get generation details
 					// UPDATE: it's better UX to interrupt the request at the cost of the api cost not being retrieved
@@ -2971,6 +3255,16 @@ export class Task {
 				// Save checkpoint after all tools in this response have finished executing
 				await this.checkpointManager?.saveCheckpoint()
 
+				// The Architect Mode Editor is done once it attempts completion or runs out of budget;
+				// its tool results open the next Editor run
+				if (this.taskState.isArchitectEditorLoop) {
+					this.taskState.architectEditorStoppedBy ??= this.getArchitectEditorStopReason()
+					if (this.taskState.architectEditorSummary !== undefined || this.taskState.architectEditorStoppedBy) {
+						this.pendingArchitectEditorContent = this.taskState.userMessageContent
+						return true
+					}
+				}
+
 				// if the model did not tool use, then we need to tell it to either use a tool or attempt_completion
 				const didToolUse = this.taskState.assistantMessageContent.some((block) => block.type === "tool_use")
 
@@ -3110,6 +3404,8 @@ export class Task {
 				this.urlContentFetcher,
 				this.fileContextTracker,
 				this.workspaceManager,
+				this.devServiceManager,
+				(checkpointNumber) => this.getCheckpointDiff(checkpointNumber),
 			)
 
 			const { processedText, needsClinerulesFileCheck: needsCheck } = await parseSlashCommands(
@@ -3120,6 +3416,7 @@ export class Task {
 				focusChainSettings,
 				useNativeToolCalls,
 				providerInfo,
+				this.mcpHub,
 			)
 
 			if (needsCheck) {
@@ -3381,10 +3678,21 @@ export class Task {
 			}
 		}
 
+		// Commands left running with "Proceed While Running", with the session names used to send them input
+		const backgroundCommandSummary = this.commandExecutor.getBackgroundCommandSummary()
+		if (backgroundCommandSummary) {
+			terminalDetails += `\n\n${backgroundCommandSummary}`
+		}
+
 		if (terminalDetails) {
 			details += terminalDetails
 		}
 
+		const devServicesSummary = await this.devServiceManager.getSummary()
+		if (devServicesSummary) {
+			details += `\n\n${devServicesSummary}`
+		}
+
 		// Add recently modified files section
 		const recentlyModifiedFiles = this.fileContextTracker.getAndClearRecentlyModifiedFiles()
 		if (recentlyModifiedFiles.length > 0) {
@@ -3436,6 +3744,12 @@ export class Task {
 			if (availableCliTools.length > 0) {
 				details += `\n\n# Detected CLI Tools\nThese are some of the tools on the user's machine, and may be useful if needed to accomplish the task: ${availableCliTools.join(", ")}. This list is not exhaustive, and other tools may be available.`
 			}
+
+			// Add what earlier sessions recorded in the workspace's LLM context
+			const llmContext = await this.llmContextManager.load()
+			if (llmContext) {
+				details += `\n\n# LLM Context\nWhat this workspace's LLM context file records across sessions:\n${llmContext}`
+			}
 		}
 
 		// Add context window usage information (conditionally for some models)
@@ -1,19 +1,49 @@
+import { ApiHandler } from "@core/api"
+import { ApprovalAuditLog } from "@core/approval/ApprovalAuditLog"
+import { createApprovalBackend } from "@core/approval/ApprovalBackend"
+import { ApprovalOracle, ApprovalOutcome } from "@core/approval/ApprovalOracle"
+import { ApprovalRuleStore } from "@core/approval/ApprovalRuleStore"
 import { resolveWorkspacePath } from "@core/workspace"
 import { isMultiRootEnabled } from "@core/workspace/multi-root-utils"
+import { ApprovalOracleConfig, ApprovalRequest } from "@shared/architect-types"
 import { ClineDefaultTool } from "@shared/tools"
 import { StateManager } from "@/core/storage/StateManager"
 import { HostProvider } from "@/hosts/host-provider"
 import { getCwd, getDesktopDir, isLocatedInPath, isLocatedInWorkspace } from "@/utils/path"
 
+// Tools whose approval the ApprovalOracle takes over when useApprovalOracle is on
+const APPROVAL_ORACLE_TOOLS = new Set<ClineDefaultTool>([
+	ClineDefaultTool.BASH,
+	ClineDefaultTool.FILE_NEW,
+	ClineDefaultTool.FILE_EDIT,
+	ClineDefaultTool.NEW_RULE,
+	ClineDefaultTool.APPLY_PATCH,
+	ClineDefaultTool.BROWSER,
+	ClineDefaultTool.MCP_USE,
+])
+
+export interface ApprovalOracleResult {
+	approved: boolean
+	reasoning: string
+	// True when every request was decided by a fast-path pattern or an allow rule the user already has
+	routine: boolean
+}
+
 export class AutoApprove {
 	private stateManager: StateManager
+	private api?: ApiHandler
+	private cwd?: string
+	// Built on first use so tasks that never enable the oracle don't pay for it
+	private approvalOracle: ApprovalOracle | null = null
 	// Cache for workspace paths - populated on first access and reused for the task lifetime
 	// NOTE: This assumes that the task has a fixed set of workspace roots(which is currently true).
 	private workspacePathsCache: { paths: string[] } | null = null
 	private isMultiRootScenarioCache: boolean | null = null
 
-	constructor(stateManager: StateManager) {
+	constructor(stateManager: StateManager, api?: ApiHandler, cwd?: string) {
 		this.stateManager = stateManager
+		this.api = api
+		this.cwd = cwd
 	}
 
 	/**
@@ -51,6 +81,8 @@ export class AutoApprove {
 				case ClineDefaultTool.FILE_EDIT:
 				case ClineDefaultTool.APPLY_PATCH:
 				case ClineDefaultTool.BASH:
+				case ClineDefaultTool.BACKGROUND_INPUT:
+				case ClineDefaultTool.SERVICE:
 					return [true, true]
 
 				case ClineDefaultTool.BROWSER:
@@ -76,6 +108,8 @@ export class AutoApprove {
 			case ClineDefaultTool.APPLY_PATCH:
 				return [autoApprovalSettings.actions.editFiles, autoApprovalSettings.actions.editFilesExternally ?? false]
 			case ClineDefaultTool.BASH:
+			case ClineDefaultTool.BACKGROUND_INPUT:
+			case ClineDefaultTool.SERVICE:
 				return [
 					autoApprovalSettings.actions.executeSafeCommands ?? false,
 					autoApprovalSettings.actions.executeAllCommands ?? false,
@@ -112,8 +146,8 @@ export class AutoApprove {
 				// Multi-root: check if file is in ANY workspace
 				isLocalRead = await isLocatedInWorkspace(autoApproveActionpath)
 			} else {
-				// Single-root: use existing logic
-				const cwd = await getCwd(getDesktopDir())
+				// Single-root: check against the task's own directory, which a subagent may have narrowed
+				const cwd = this.cwd ?? (await getCwd(getDesktopDir()))
 				// When called with a string cwd, resolveWorkspacePath returns a string
 				const absolutePath = resolveWorkspacePath(
 					cwd,
@@ -139,4 +173,57 @@ export class AutoApprove {
 			return false
 		}
 	}
+
+	// Whether this tool call should be decided by the ApprovalOracle instead of the boolean settings
+	isApprovalOracleEnabled(toolName: ClineDefaultTool): boolean {
+		if (this.stateManager.getGlobalSettingsKey("yoloModeToggled")) {
+			return false
+		}
+		const autoApprovalSettings = this.stateManager.getGlobalSettingsKey("autoApprovalSettings")
+		return !!autoApprovalSettings.useApprovalOracle && APPROVAL_ORACLE_TOOLS.has(toolName) && !!this.cwd
+	}
+
+	// Ask the ApprovalOracle about every request of a tool call. The call is approved only if all of them are.
+	// Returns undefined when the oracle does not handle this tool, so callers keep their usual flow.
+	async decideWithApprovalOracle(
+		toolName: ClineDefaultTool,
+		requests: ApprovalRequest[],
+	): Promise<ApprovalOracleResult | undefined> {
+		if (!this.isApprovalOracleEnabled(toolName) || requests.length === 0) {
+			return undefined
+		}
+
+		const oracle = this.getApprovalOracle()
+		const outcomes: ApprovalOutcome[] = []
+		for (const request of requests) {
+			const outcome = await oracle.decideWithOutcome(request)
+			outcomes.push(outcome)
+			// No need to ask about the rest once one part needs the user
+			if (!outcome.decision.allow || outcome.decision.needsUserApproval) {
+				return { approved: false, reasoning: outcome.decision.reasoning, routine: false }
+			}
+		}
+
+		return {
+			approved: true,
+			reasoning: Array.from(new Set(outcomes.map((o) => o.decision.reasoning))).join("; "),
+			routine: outcomes.every((o) => o.path === "allow_pattern" || o.path === "cache"),
+		}
+	}
+
+	private getApprovalOracle(): ApprovalOracle {
+		if (!this.approvalOracle) {
+			const cwd = this.cwd as string
+			const oracleConfig: Partial<ApprovalOracleConfig> =
+				this.stateManager.getGlobalSettingsKey("architectConfig")?.approvalOracle ?? {}
+			const backend = createApprovalBackend(oracleConfig, this.stateManager.getApiConfiguration(), this.api)
+			this.approvalOracle = new ApprovalOracle(
+				backend,
+				oracleConfig,
+				ApprovalRuleStore.forWorkspace(cwd),
+				oracleConfig.auditLog === false ? undefined : new ApprovalAuditLog(cwd),
+			)
+		}
+		return this.approvalOracle
+	}
 }
@@ -15,6 +15,7 @@ import type { IFullyManagedTool } from "../ToolExecutorCoordinator"
 import type { ToolValidator } from "../ToolValidator"
 import type { TaskConfig } from "../types/TaskConfig"
 import type { StronglyTypedUIHelpers } from "../types/UIHelpers"
+import { ApprovalOracleUtils } from "../utils/ApprovalOracleUtils"
 import { type FileOpsResult, FileProviderOperations } from "../utils/FileProviderOperations"
 import { PatchParser } from "../utils/PatchParser"
 import { PathResolver } from "../utils/PathResolver"
@@ -261,8 +262,9 @@ export class ApplyPatchHandler implements IFullyManagedTool {
 
 			const finalResponses = []
 
-			for (const message of messages) {
-				const approved = await this.handleApproval(config, block, message, rawInput)
+			for (const [index, message] of messages.entries()) {
+				// A move deletes its source as well as writing its destination, so the oracle checks both
+				const approved = await this.handleApproval(config, block, message, rawInput, [changedFiles[index], message.path])
 				if (!approved) {
 					await this.revertChanges()
 					return "The user denied this patch operation."
@@ -653,10 +655,28 @@ export class ApplyPatchHandler implements IFullyManagedTool {
 		return summaries
 	}
 
-	private async handleApproval(config: TaskConfig, block: ToolUse, message: ClineSayTool, rawInput: string): Promise<boolean> {
+	private async handleApproval(
+		config: TaskConfig,
+		block: ToolUse,
+		message: ClineSayTool,
+		rawInput: string,
+		paths: Array<string | undefined>,
+	): Promise<boolean> {
 		const patch = { ...message, content: rawInput }
 		const completeMessage = JSON.stringify(patch)
-		const shouldAutoApprove = await config.callbacks.shouldAutoApproveToolWithPath(block.name, message.path)
+		const absolutePaths = [...new Set(paths.filter((path): path is string => !!path))].map((path) => {
+			const pathResult = resolveWorkspacePath(config, path, "ApplyPatchHandler.handleApproval")
+			return typeof pathResult === "string" ? pathResult : pathResult.absolutePath
+		})
+		const oracleApproval = await ApprovalOracleUtils.decide(
+			config,
+			block,
+			"tool",
+			absolutePaths,
+			`${message.tool}\n${message.content ?? ""}`,
+		)
+		const shouldAutoApprove =
+			oracleApproval ?? (await config.callbacks.shouldAutoApproveToolWithPath(block.name, message.path))
 
 		// Extract provider using the proven pattern from ReportBugHandler
 		const apiConfig = config.services.stateManager.getApiConfiguration()
@@ -53,6 +53,14 @@ export class AttemptCompletionHandler implements IToolHandler, IPartialBlockHand
 
 		config.taskState.consecutiveMistakeCount = 0
 
+		// In Architect Mode the Architect reviews the Editor's work, so the result goes back to the orchestrator
+		if (config.taskState.isArchitectEditorLoop) {
+			config.taskState.architectEditorSummary = result
+			// The summary is shown with the implementation row instead of as a completion
+			await config.callbacks.removeLastPartialMessageIfExistsWithType("say", "completion_result")
+			return "[attempt_completion] Result: Handed back to the Architect for review"
+		}
+
 		// Run PreToolUse hook before execution
 		try {
 			const { ToolHookUtils } = await import("../utils/ToolHookUtils")
@@ -7,6 +7,7 @@ import { showNotificationForApproval } from "../../utils"
 import type { IFullyManagedTool } from "../ToolExecutorCoordinator"
 import type { TaskConfig } from "../types/TaskConfig"
 import type { StronglyTypedUIHelpers } from "../types/UIHelpers"
+import { ApprovalOracleUtils } from "../utils/ApprovalOracleUtils"
 import { ToolResultUtils } from "../utils/ToolResultUtils"
 
 export class BrowserToolHandler implements IFullyManagedTool {
@@ -89,7 +90,10 @@ export class BrowserToolHandler implements IFullyManagedTool {
 
 				// Handle approval flow for launch using callbacks
 				const autoApprover = config.autoApprover || { shouldAutoApproveTool: () => false }
-				if (autoApprover.shouldAutoApproveTool(block.name)) {
+				const oracleApproval = config.autoApprover
+					? await ApprovalOracleUtils.decide(config, block, "browser_action_launch", [url])
+					: undefined
+				if (oracleApproval ?? autoApprover.shouldAutoApproveTool(block.name)) {
 					await config.callbacks.removeLastPartialMessageIfExistsWithType("ask", "browser_action_launch")
 					await config.callbacks.say("browser_action_launch", url, undefined, undefined, false)
 				} else {
@@ -0,0 +1,176 @@
+import type { ToolUse } from "@core/assistant-message"
+import { formatResponse } from "@core/prompts/responses"
+import { ClineAsk, ClineSayTool } from "@shared/ExtensionMessage"
+import { telemetryService } from "@/services/telemetry"
+import { ClineDefaultTool } from "@/shared/tools"
+import type { ToolResponse } from "../../index"
+import { showNotificationForApproval } from "../../utils"
+import type { IFullyManagedTool } from "../ToolExecutorCoordinator"
+import type { TaskConfig } from "../types/TaskConfig"
+import type { StronglyTypedUIHelpers } from "../types/UIHelpers"
+import { ToolResultUtils } from "../utils/ToolResultUtils"
+
+const ACTIONS = ["start", "stop", "restart", "logs"] as const
+type ServiceAction = (typeof ACTIONS)[number]
+
+/** Lines of a service's output returned with the tool result */
+const RESULT_LOG_LINES = 20
+
+export class ManageServiceHandler implements IFullyManagedTool {
+	readonly name = ClineDefaultTool.SERVICE
+
+	getDescription(block: ToolUse): string {
+		return `[${block.name} ${block.params.action} '${block.params.service}']`
+	}
+
+	async handlePartialBlock(block: ToolUse, uiHelpers: StronglyTypedUIHelpers): Promise<void> {
+		const partialMessage = JSON.stringify({
+			tool: "service",
+			path: uiHelpers.removeClosingTag(block, "service", block.params.service),
+			action: uiHelpers.removeClosingTag(block, "action", block.params.action),
+		} satisfies ClineSayTool)
+
+		// When auto-approval may apply, wait for the complete block, since starting a service can still need approval
+		const autoApproveResult = uiHelpers.shouldAutoApproveTool(this.name)
+		const autoApproveSafe = Array.isArray(autoApproveResult) ? autoApproveResult[0] : autoApproveResult
+		if (!autoApproveSafe) {
+			await uiHelpers.removeLastPartialMessageIfExistsWithType("say", "tool")
+			await uiHelpers.ask("tool" as ClineAsk, partialMessage, block.partial).catch(() => {})
+		}
+	}
+
+	async execute(config: TaskConfig, block: ToolUse): Promise<ToolResponse> {
+		const name: string | undefined = block.params.service
+		const action = block.params.action?.trim().toLowerCase()
+
+		const apiConfig = config.services.stateManager.getApiConfiguration()
+		const currentMode = config.services.stateManager.getGlobalSettingsKey("mode")
+		const provider = (currentMode === "plan" ? apiConfig.planModeApiProvider : apiConfig.actModeApiProvider) as string
+
+		if (!name) {
+			config.taskState.consecutiveMistakeCount++
+			return await config.callbacks.sayAndCreateMissingParamError(this.name, "service")
+		}
+		if (!action) {
+			config.taskState.consecutiveMistakeCount++
+			return await config.callbacks.sayAndCreateMissingParamError(this.name, "action")
+		}
+		if (!ACTIONS.includes(action as ServiceAction)) {
+			config.taskState.consecutiveMistakeCount++
+			return formatResponse.toolError(`Invalid action "${action}". Use one of: ${ACTIONS.join(", ")}.`)
+		}
+
+		const devServiceManager = config.services.devServiceManager
+		let command: string | undefined
+		try {
+			command = (await devServiceManager.readConfig())[name]?.command
+		} catch (error) {
+			config.taskState.consecutiveMistakeCount++
+			return formatResponse.toolError((error as Error).message)
+		}
+		if (command === undefined) {
+			config.taskState.consecutiveMistakeCount++
+			const available = await devServiceManager.getServiceNames()
+			return formatResponse.toolError(
+				`No service named "${name}". Available services: ${available.length > 0 ? available.join(", ") : "(none)"}`,
+			)
+		}
+		config.taskState.consecutiveMistakeCount = 0
+
+		const completeMessage = JSON.stringify({
+			tool: "service",
+			path: name,
+			action,
+			content: command,
+		} satisfies ClineSayTool)
+
+		// Stopping a service or reading its logs is as safe as a safe command; starting one runs the command from
+		// the workspace's services file, so it needs the same approval as a command the model flags as requiring approval
+		const autoApproveResult = config.autoApprover?.shouldAutoApproveTool(block.name)
+		const [autoApproveSafe, autoApproveAll] = Array.isArray(autoApproveResult)
+			? autoApproveResult
+			: [autoApproveResult, false]
+
+		if (autoApproveSafe && (action === "stop" || action === "logs" || autoApproveAll)) {
+			await config.callbacks.removeLastPartialMessageIfExistsWithType("ask", "tool")
+			await config.callbacks.say("tool", completeMessage, undefined, undefined, false)
+			telemetryService.captureToolUsage(
+				config.ulid,
+				block.name,
+				config.api.getModel().id,
+				provider,
+				true,
+				true,
+				undefined,
+				block.isNativeToolCall,
+			)
+		} else {
+			showNotificationForApproval(
+				`Cline wants to ${action} the ${name} service`,
+				config.autoApprovalSettings.enableNotifications,
+			)
+			await config.callbacks.removeLastPartialMessageIfExistsWithType("say", "tool")
+
+			const didApprove = await ToolResultUtils.askApprovalAndPushFeedback("tool", completeMessage, config)
+			telemetryService.captureToolUsage(
+				config.ulid,
+				block.name,
+				config.api.getModel().id,
+				provider,
+				false,
+				didApprove,
+				undefined,
+				block.isNativeToolCall,
+			)
+			if (!didApprove) {
+				return formatResponse.toolDenied()
+			}
+		}
+
+		// Run PreToolUse hook after approval but before execution
+		try {
+			const { ToolHookUtils } = await import("../utils/ToolHookUtils")
+			await ToolHookUtils.runPreToolUseIfEnabled(config, block)
+		} catch (error) {
+			const { PreToolUseHookCancellationError } = await import("@core/hooks/PreToolUseHookCancellationError")
+			if (error instanceof PreToolUseHookCancellationError) {
+				return formatResponse.toolDenied()
+			}
+			throw error
+		}
+
+		try {
+			switch (action as ServiceAction) {
+				case "start":
+					await devServiceManager.start(name)
+					break
+				case "restart":
+					await devServiceManager.restart(name)
+					break
+				case "stop": {
+					const wasRunning = await devServiceManager.stop(name)
+					return formatResponse.toolResult(
+						wasRunning ? `Service "${name}" stopped.` : `Service "${name}" is not running.`,
+					)
+				}
+				case "logs": {
+					const logs = devServiceManager.getLogs(name)
+					if (logs === undefined) {
+						return formatResponse.toolResult(`Service "${name}" has not been started in this task.`)
+					}
+					return formatResponse.toolResult(
+						`Service "${name}" (${devServiceManager.getStatus(name)}):\n\n${logs || "(no output)"}`,
+					)
+				}
+			}
+		} catch (error) {
+			const logs = devServiceManager.getLogs(name, RESULT_LOG_LINES)
+			return formatResponse.toolError(`${(error as Error).message}\n\nRecent output:\n${logs || "(no output)"}`)
+		}
+
+		const logs = devServiceManager.getLogs(name, RESULT_LOG_LINES)
+		return formatResponse.toolResult(
+			`Service "${name}" is ready. It keeps running until you stop it or the task ends.\n\nRecent output:\n${logs || "(no output)"}`,
+		)
+	}
+}
@@ -0,0 +1,137 @@
+import type { ToolUse } from "@core/assistant-message"
+import { formatResponse } from "@core/prompts/responses"
+import type { BackgroundCommandInput, TerminalInputSignal } from "@integrations/terminal"
+import { ClineAsk, ClineSayTool } from "@shared/ExtensionMessage"
+import { telemetryService } from "@/services/telemetry"
+import { ClineDefaultTool } from "@/shared/tools"
+import type { ToolResponse } from "../../index"
+import { showNotificationForApproval } from "../../utils"
+import type { IFullyManagedTool } from "../ToolExecutorCoordinator"
+import type { TaskConfig } from "../types/TaskConfig"
+import type { StronglyTypedUIHelpers } from "../types/UIHelpers"
+import { ToolResultUtils } from "../utils/ToolResultUtils"
+
+const SIGNALS: TerminalInputSignal[] = ["ctrl_c", "eof"]
+
+export class SendBackgroundInputHandler implements IFullyManagedTool {
+	readonly name = ClineDefaultTool.BACKGROUND_INPUT
+
+	getDescription(block: ToolUse): string {
+		return `[${block.name} for '${block.params.session}']`
+	}
+
+	async handlePartialBlock(block: ToolUse, uiHelpers: StronglyTypedUIHelpers): Promise<void> {
+		const session = block.params.session || ""
+		const partialMessage = JSON.stringify({
+			tool: "backgroundInput",
+			path: uiHelpers.removeClosingTag(block, "session", session),
+			content: uiHelpers.removeClosingTag(block, "input", block.params.input),
+		} satisfies ClineSayTool)
+
+		// When auto-approval may apply, wait for the complete block, since sending input can still need approval
+		const autoApproveResult = uiHelpers.shouldAutoApproveTool(this.name)
+		const autoApproveSafe = Array.isArray(autoApproveResult) ? autoApproveResult[0] : autoApproveResult
+		if (!autoApproveSafe) {
+			await uiHelpers.removeLastPartialMessageIfExistsWithType("say", "tool")
+			await uiHelpers.ask("tool" as ClineAsk, partialMessage, block.partial).catch(() => {})
+		}
+	}
+
+	async execute(config: TaskConfig, block: ToolUse): Promise<ToolResponse> {
+		const session: string | undefined = block.params.session
+		const text: string | undefined = block.params.input
+		const signal = block.params.signal?.trim().toLowerCase()
+
+		const apiConfig = config.services.stateManager.getApiConfiguration()
+		const currentMode = config.services.stateManager.getGlobalSettingsKey("mode")
+		const provider = (currentMode === "plan" ? apiConfig.planModeApiProvider : apiConfig.actModeApiProvider) as string
+
+		if (!session) {
+			config.taskState.consecutiveMistakeCount++
+			return await config.callbacks.sayAndCreateMissingParamError(this.name, "session")
+		}
+		if (signal && !SIGNALS.includes(signal as TerminalInputSignal)) {
+			config.taskState.consecutiveMistakeCount++
+			return formatResponse.toolError(`Invalid signal "${signal}". Use one of: ${SIGNALS.join(", ")}.`)
+		}
+		config.taskState.consecutiveMistakeCount = 0
+
+		const input: BackgroundCommandInput = {
+			// Each input is typed as a line, like answering a prompt in a terminal
+			text: text !== undefined ? `${text}\n` : undefined,
+			signal: signal as TerminalInputSignal | undefined,
+		}
+		const sendsInput = input.text !== undefined || input.signal !== undefined
+
+		const completeMessage = JSON.stringify({
+			tool: "backgroundInput",
+			path: session,
+			content: [text, signal && `[${signal}]`].filter(Boolean).join("\n"),
+		} satisfies ClineSayTool)
+
+		// Reading output is as safe as a safe command; typing into a session can run anything, so it needs
+		// the same approval as a command the model flags as requiring approval
+		const autoApproveResult = config.autoApprover?.shouldAutoApproveTool(block.name)
+		const [autoApproveSafe, autoApproveAll] = Array.isArray(autoApproveResult)
+			? autoApproveResult
+			: [autoApproveResult, false]
+
+		if (autoApproveSafe && (!sendsInput || autoApproveAll)) {
+			await config.callbacks.removeLastPartialMessageIfExistsWithType("ask", "tool")
+			await config.callbacks.say("tool", completeMessage, undefined, undefined, false)
+			telemetryService.captureToolUsage(
+				config.ulid,
+				block.name,
+				config.api.getModel().id,
+				provider,
+				true,
+				true,
+				undefined,
+				block.isNativeToolCall,
+			)
+		} else {
+			showNotificationForApproval(
+				sendsInput
+					? `Cline wants to send input to background session ${session}`
+					: `Cline wants to read ${session}'s output`,
+				config.autoApprovalSettings.enableNotifications,
+			)
+			await config.callbacks.removeLastPartialMessageIfExistsWithType("say", "tool")
+
+			const didApprove = await ToolResultUtils.askApprovalAndPushFeedback("tool", completeMessage, config)
+			telemetryService.captureToolUsage(
+				config.ulid,
+				block.name,
+				config.api.getModel().id,
+				provider,
+				false,
+				didApprove,
+				undefined,
+				block.isNativeToolCall,
+			)
+			if (!didApprove) {
+				return formatResponse.toolDenied()
+			}
+		}
+
+		// Run PreToolUse hook after approval but before execution
+		try {
+			const { ToolHookUtils } = await import("../utils/ToolHookUtils")
+			await ToolHookUtils.runPreToolUseIfEnabled(config, block)
+		} catch (error) {
+			const { PreToolUseHookCancellationError } = await import("@core/hooks/PreToolUseHookCancellationError")
+			if (error instanceof PreToolUseHookCancellationError) {
+				return formatResponse.toolDenied()
+			}
+			throw error
+		}
+
+		try {
+			const output = await config.callbacks.sendBackgroundCommandInput(session, input)
+			const action = sendsInput ? `Sent input to background session ${session}.` : `Background session ${session}:`
+			return formatResponse.toolResult(`${action}\n\nRecent output:\n${output || "(no output)"}`)
+		} catch (error) {
+			return formatResponse.toolError((error as Error).message)
+		}
+	}
+}
@@ -1,6 +1,10 @@
 import type { ToolUse } from "@core/assistant-message"
+import { sendPartialMessageEvent } from "@core/controller/ui/subscribeToPartialMessage"
 import { formatResponse } from "@core/prompts/responses"
+import { findLastIndex } from "@shared/array"
 import { ClineAsk, ClineAskUseMcpServer } from "@shared/ExtensionMessage"
+import { McpToolProgress } from "@shared/mcp"
+import { convertClineMessageToProto } from "@shared/proto-conversions/cline-message"
 import { telemetryService } from "@/services/telemetry"
 import { ClineDefaultTool } from "@/shared/tools"
 import type { ToolResponse } from "../../index"
@@ -8,8 +12,12 @@ import { showNotificationForApproval } from "../../utils"
 import type { IFullyManagedTool } from "../ToolExecutorCoordinator"
 import type { TaskConfig } from "../types/TaskConfig"
 import type { StronglyTypedUIHelpers } from "../types/UIHelpers"
+import { ApprovalOracleUtils } from "../utils/ApprovalOracleUtils"
 import { ToolResultUtils } from "../utils/ToolResultUtils"
 
+// Servers can report progress many times a second; the chat row is updated at most this often
+const PROGRESS_UPDATE_INTERVAL_MS = 250
+
 export class UseMcpToolHandler implements IFullyManagedTool {
 	readonly name = ClineDefaultTool.MCP_USE
 
@@ -89,7 +97,14 @@ export class UseMcpToolHandler implements IFullyManagedTool {
 			?.find((conn: any) => conn.server.name === server_name)
 			?.server.tools?.find((tool: any) => tool.name === tool_name)?.autoApprove
 
-		if (config.callbacks.shouldAutoApproveTool(block.name) && isToolAutoApproved) {
+		const oracleApproval = await ApprovalOracleUtils.decide(
+			config,
+			block,
+			"use_mcp_server",
+			[`${server_name}/${tool_name}`],
+			mcp_arguments ? `Arguments: ${mcp_arguments}` : undefined,
+		)
+		if (oracleApproval ?? (config.callbacks.shouldAutoApproveTool(block.name) && isToolAutoApproved)) {
 			// Auto-approval flow
 			await config.callbacks.removeLastPartialMessageIfExistsWithType("ask", "use_mcp_server")
 			await config.callbacks.say("use_mcp_server", completeMessage, undefined, undefined, false)
@@ -163,8 +178,46 @@ export class UseMcpToolHandler implements IFullyManagedTool {
 				await config.callbacks.say("mcp_notification", `[${notification.serverName}] ${notification.message}`)
 			}
 
-			// Execute the MCP tool
-			const toolResult = await config.services.mcpHub.callTool(server_name, tool_name, parsedArguments, config.ulid)
+			// Execute the MCP tool, showing its progress in the tool's chat row until it finishes or the task is cancelled
+			const abortController = new AbortController()
+			config.taskState.activeMcpToolCall = abortController
+			// Progress arriving within the interval is held back, and only the latest is shown once the interval ends
+			// or the call settles, so the row ends on the server's last report
+			let lastProgressUpdate = 0
+			let pendingProgress: McpToolProgress | undefined
+			let progressTimer: NodeJS.Timeout | undefined
+			let progressShown: Promise<void> = Promise.resolve()
+			const flushProgress = () => {
+				clearTimeout(progressTimer)
+				progressTimer = undefined
+				const progress = pendingProgress
+				if (progress) {
+					pendingProgress = undefined
+					lastProgressUpdate = Date.now()
+					// One update at a time, so an earlier report never lands after a later one
+					progressShown = progressShown
+						.then(() => this.showProgress(config, progress))
+						.catch((error) => console.error("Failed to show MCP progress:", error))
+				}
+				return progressShown
+			}
+			const toolResult = await config.services.mcpHub
+				.callTool(server_name, tool_name, parsedArguments, config.ulid, {
+					onProgress: (progress) => {
+						pendingProgress = progress
+						const wait = lastProgressUpdate + PROGRESS_UPDATE_INTERVAL_MS - Date.now()
+						if (wait <= 0) {
+							flushProgress()
+						} else {
+							progressTimer ??= setTimeout(flushProgress, wait)
+						}
+					},
+					signal: abortController.signal,
+				})
+				.finally(async () => {
+					config.taskState.activeMcpToolCall = undefined
+					await flushProgress()
+				})
 
 			// Check for any pending notifications after the tool call
 			const notificationsAfter = config.services.mcpHub.getPendingNotifications()
@@ -210,4 +263,21 @@ export class UseMcpToolHandler implements IFullyManagedTool {
 			return `Error executing MCP tool: ${(error as Error)?.message}`
 		}
 	}
+
+	/**
+	 * Shows a tool call's latest progress on its use_mcp_server message
+	 */
+	private async showProgress(config: TaskConfig, progress: McpToolProgress): Promise<void> {
+		const clineMessages = config.messageState.getClineMessages()
+		const index = findLastIndex(clineMessages, (m) => m.say === "use_mcp_server" || m.ask === "use_mcp_server")
+		if (index === -1) {
+			return
+		}
+
+		const useMcpServer = JSON.parse(clineMessages[index].text || "{}") as ClineAskUseMcpServer
+		await config.messageState.updateClineMessage(index, {
+			text: JSON.stringify({ ...useMcpServer, progress } satisfies ClineAskUseMcpServer),
+		})
+		await sendPartialMessageEvent(convertClineMessageToProto(clineMessages[index]))
+	}
 }
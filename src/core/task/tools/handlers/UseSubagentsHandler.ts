@@ -0,0 +1,175 @@
+import type { ToolUse } from "@core/assistant-message"
+import { formatResponse } from "@core/prompts/responses"
+import { isPolicyCoveredBy } from "@core/subagents/policies"
+import { parseSubagentSpecs, resolveSubagentCwd } from "@core/subagents/specs"
+import type { SubagentResult, SubagentSpec } from "@core/subagents/types"
+import { ClineAsk, ClineSaySubagents, ClineSayTool } from "@shared/ExtensionMessage"
+import { telemetryService } from "@/services/telemetry"
+import { ClineDefaultTool } from "@/shared/tools"
+import type { ToolResponse } from "../../index"
+import { showNotificationForApproval } from "../../utils"
+import type { IFullyManagedTool } from "../ToolExecutorCoordinator"
+import type { TaskConfig } from "../types/TaskConfig"
+import type { StronglyTypedUIHelpers } from "../types/UIHelpers"
+import { ToolResultUtils } from "../utils/ToolResultUtils"
+
+/** How often a running call checks whether the task was cancelled */
+const ABORT_POLL_INTERVAL_MS = 200
+
+export class UseSubagentsHandler implements IFullyManagedTool {
+	readonly name = ClineDefaultTool.SUBAGENTS
+
+	getDescription(block: ToolUse): string {
+		return `[${block.name}]`
+	}
+
+	async handlePartialBlock(block: ToolUse, uiHelpers: StronglyTypedUIHelpers): Promise<void> {
+		const partialMessage = JSON.stringify({
+			tool: "subagents",
+			content: uiHelpers.removeClosingTag(block, "subagents", block.params.subagents),
+		} satisfies ClineSayTool)
+
+		await uiHelpers.removeLastPartialMessageIfExistsWithType("say", "tool")
+		await uiHelpers.ask("tool" as ClineAsk, partialMessage, block.partial).catch(() => {})
+	}
+
+	async execute(config: TaskConfig, block: ToolUse): Promise<ToolResponse> {
+		const subagentsJson: string | undefined = block.params.subagents
+
+		const apiConfig = config.services.stateManager.getApiConfiguration()
+		const provider = (config.mode === "plan" ? apiConfig.planModeApiProvider : apiConfig.actModeApiProvider) as string
+
+		if (!subagentsJson) {
+			config.taskState.consecutiveMistakeCount++
+			return await config.callbacks.sayAndCreateMissingParamError(this.name, "subagents")
+		}
+
+		let specs: SubagentSpec[]
+		try {
+			specs = parseSubagentSpecs(subagentsJson)
+			specs.forEach((spec) => resolveSubagentCwd(config.cwd, spec))
+		} catch (error) {
+			config.taskState.consecutiveMistakeCount++
+			return formatResponse.toolError((error as Error).message)
+		}
+		if (config.mode === "plan" && specs.some((spec) => spec.approvalPolicy !== "read_only")) {
+			config.taskState.consecutiveMistakeCount++
+			return formatResponse.toolError(
+				'In plan mode, subagents can only use the "read_only" approval policy. Switch to act mode for subagents that make changes.',
+			)
+		}
+		config.taskState.consecutiveMistakeCount = 0
+
+		const completeMessage = JSON.stringify({
+			tool: "subagents",
+			content: JSON.stringify(specs, null, 2),
+		} satisfies ClineSayTool)
+
+		// Subagents can do whatever their policy allows without asking, so starting them only skips approval when the
+		// user's own settings would already allow all of it
+		const autoApprove =
+			config.yoloModeToggled ||
+			specs.every((spec) => isPolicyCoveredBy(spec.approvalPolicy, config.autoApprovalSettings.actions))
+
+		if (autoApprove) {
+			await config.callbacks.removeLastPartialMessageIfExistsWithType("ask", "tool")
+			await config.callbacks.say("tool", completeMessage, undefined, undefined, false)
+			telemetryService.captureToolUsage(
+				config.ulid,
+				block.name,
+				config.api.getModel().id,
+				provider,
+				true,
+				true,
+				undefined,
+				block.isNativeToolCall,
+			)
+		} else {
+			showNotificationForApproval(
+				`Cline wants to start ${specs.length === 1 ? "a subagent" : `${specs.length} subagents`}`,
+				config.autoApprovalSettings.enableNotifications,
+			)
+			await config.callbacks.removeLastPartialMessageIfExistsWithType("say", "tool")
+
+			const didApprove = await ToolResultUtils.askApprovalAndPushFeedback("tool", completeMessage, config)
+			telemetryService.captureToolUsage(
+				config.ulid,
+				block.name,
+				config.api.getModel().id,
+				provider,
+				false,
+				didApprove,
+				undefined,
+				block.isNativeToolCall,
+			)
+			if (!didApprove) {
+				return formatResponse.toolDenied()
+			}
+		}
+
+		// Run PreToolUse hook after approval but before execution
+		try {
+			const { ToolHookUtils } = await import("../utils/ToolHookUtils")
+			await ToolHookUtils.runPreToolUseIfEnabled(config, block)
+		} catch (error) {
+			const { PreToolUseHookCancellationError } = await import("@core/hooks/PreToolUseHookCancellationError")
+			if (error instanceof PreToolUseHookCancellationError) {
+				return formatResponse.toolDenied()
+			}
+			throw error
+		}
+
+		const progress: ClineSaySubagents = {
+			subagents: specs.map((spec) => ({
+				prompt: spec.prompt,
+				cwd: spec.cwd,
+				approvalPolicy: spec.approvalPolicy,
+				isolated: spec.isolated,
+				status: "pending",
+			})),
+			tokensIn: 0,
+			tokensOut: 0,
+			cost: 0,
+		}
+		const progressTs = await config.callbacks.say("subagents", JSON.stringify(progress))
+		const updateProgress = async (index: number, result?: SubagentResult) => {
+			progress.subagents[index] = { ...progress.subagents[index], ...(result ?? { status: "running" }) }
+			if (result) {
+				progress.tokensIn += result.tokensIn
+				progress.tokensOut += result.tokensOut
+				progress.cost += result.cost
+			}
+			const messageIndex = config.messageState.getClineMessages().findIndex((message) => message.ts === progressTs)
+			if (messageIndex !== -1) {
+				await config.messageState.updateClineMessage(messageIndex, { text: JSON.stringify(progress) })
+				await config.callbacks.postStateToWebview()
+			}
+		}
+
+		const abortController = new AbortController()
+		const abortWatcher = setInterval(() => {
+			if (config.taskState.abort) {
+				abortController.abort()
+			}
+		}, ABORT_POLL_INTERVAL_MS)
+
+		// Updates are chained so the message never goes back to an older state
+		let progressUpdates = Promise.resolve()
+		let results: SubagentResult[]
+		try {
+			results = await config.services.subagentPool.run(specs, {
+				signal: abortController.signal,
+				onProgress: (index, result) => {
+					progressUpdates = progressUpdates.then(() => updateProgress(index, result)).catch(() => {})
+				},
+			})
+		} finally {
+			clearInterval(abortWatcher)
+		}
+		await progressUpdates
+
+		return formatResponse.toolResult(
+			`Results of the subagents, in the order they were given:\n\n${JSON.stringify(results, null, 2)}`,
+		)
+	}
+}
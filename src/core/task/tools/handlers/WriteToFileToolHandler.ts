@@ -16,6 +16,7 @@ import type { IFullyManagedTool } from "../ToolExecutorCoordinator"
 import type { ToolValidator } from "../ToolValidator"
 import type { TaskConfig } from "../types/TaskConfig"
 import type { StronglyTypedUIHelpers } from "../types/UIHelpers"
+import { ApprovalOracleUtils } from "../utils/ApprovalOracleUtils"
 import { applyModelContentFixes } from "../utils/ModelContentProcessor"
 import { ToolDisplayUtils } from "../utils/ToolDisplayUtils"
 import { ToolResultUtils } from "../utils/ToolResultUtils"
@@ -166,7 +167,8 @@ export class WriteToFileToolHandler implements IFullyManagedTool {
 				// : undefined,
 			} satisfies ClineSayTool)
 
-			if (await config.callbacks.shouldAutoApproveToolWithPath(block.name, relPath)) {
+			const oracleApproval = await ApprovalOracleUtils.decide(config, block, "tool", [absolutePath], diff || content)
+			if (oracleApproval ?? (await config.callbacks.shouldAutoApproveToolWithPath(block.name, relPath))) {
 				// Auto-approval flow
 				await config.callbacks.removeLastPartialMessageIfExistsWithType("ask", "tool")
 				await config.callbacks.say("tool", completeMessage, undefined, undefined, false)
@@ -1,7 +1,10 @@
 import type { ApiHandler } from "@core/api"
 import type { FileContextTracker } from "@core/context/context-tracking/FileContextTracker"
 import type { ClineIgnoreController } from "@core/ignore/ClineIgnoreController"
+import type { SubagentPool } from "@core/subagents/SubagentPool"
+import type { DevServiceManager } from "@integrations/dev-services/DevServiceManager"
 import type { DiffViewProvider } from "@integrations/editor/DiffViewProvider"
+import type { BackgroundCommandInput } from "@integrations/terminal"
 import type { BrowserSession } from "@services/browser/BrowserSession"
 import type { UrlContentFetcher } from "@services/browser/UrlContentFetcher"
 import type { McpHub } from "@services/mcp/McpHub"
@@ -76,6 +79,8 @@ export interface TaskServices {
 	clineIgnoreController: ClineIgnoreController
 	contextManager: ContextManager
 	stateManager: StateManager
+	devServiceManager: DevServiceManager
+	subagentPool: SubagentPool
 }
 
 /**
@@ -103,6 +108,8 @@ export interface TaskCallbacks {
 
 	executeCommandTool: (command: string, timeoutSeconds: number | undefined) => Promise<[boolean, any]>
 
+	sendBackgroundCommandInput: (name: string, input: BackgroundCommandInput) => Promise<string>
+
 	doesLatestTaskCompletionHaveNewChanges: () => Promise<boolean>
 
 	updateFCListFromToolResponse: (taskProgress: string | undefined) => Promise<void>
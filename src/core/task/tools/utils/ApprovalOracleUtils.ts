@@ -0,0 +1,95 @@
+import type { ToolUse } from "@core/assistant-message"
+import type { ApprovalRequest } from "@shared/architect-types"
+import type { ClineAsk, ClineSayApprovalOracle } from "@shared/ExtensionMessage"
+import { ClineDefaultTool } from "@shared/tools"
+import type { TaskConfig } from "../types/TaskConfig"
+
+// Tool context can include whole file contents; the oracle only needs a preview
+const MAX_CONTEXT_LENGTH = 2000
+
+/**
+ * Utility functions for ApprovalOracle-backed tool approval.
+ */
+export class ApprovalOracleUtils {
+	/**
+	 * Maps a tool call to the requests the ApprovalOracle decides, one per target.
+	 * Handlers pass targets they have already resolved (the command without a workspace hint,
+	 * absolute file paths, "server/tool" for MCP) so the oracle sees what will actually run.
+	 */
+	static toApprovalRequests(block: ToolUse, targets: string[], context?: string): ApprovalRequest[] {
+		let action: ApprovalRequest["action"]
+		switch (block.name) {
+			case ClineDefaultTool.BASH:
+				action = "execute"
+				break
+			case ClineDefaultTool.FILE_NEW:
+			case ClineDefaultTool.FILE_EDIT:
+			case ClineDefaultTool.NEW_RULE:
+			case ClineDefaultTool.APPLY_PATCH:
+				action = "write"
+				break
+			case ClineDefaultTool.BROWSER:
+				action = "browser"
+				break
+			case ClineDefaultTool.MCP_USE:
+				action = "mcp"
+				break
+			default:
+				return []
+		}
+
+		const fullContext = [`Tool: ${block.name}`, context].filter(Boolean).join("\n")
+		return targets.map((target) => ({
+			action,
+			target,
+			context: fullContext.length > MAX_CONTEXT_LENGTH ? `${fullContext.slice(0, MAX_CONTEXT_LENGTH)}...` : fullContext,
+			previousDecisions: new Map(),
+		}))
+	}
+
+	/**
+	 * Lets the ApprovalOracle decide a tool call when oracle mode is on, and shows its reasoning
+	 * right above the tool's approval row.
+	 *
+	 * @param messageType The ask/say type the handler uses for this tool's row
+	 * @returns true to auto-approve, false to ask the user, undefined when the oracle does not handle
+	 * this call and the handler should use its usual auto-approval settings
+	 */
+	static async decide(
+		config: TaskConfig,
+		block: ToolUse,
+		messageType: ClineAsk,
+		targets: string[],
+		context?: string,
+	): Promise<boolean | undefined> {
+		const result = await config.autoApprover.decideWithApprovalOracle(
+			block.name as ClineDefaultTool,
+			ApprovalOracleUtils.toApprovalRequests(block, targets, context),
+		)
+		if (!result) {
+			return undefined
+		}
+
+		const showRoutineApprovals =
+			config.services.stateManager.getGlobalSettingsKey("architectConfig")?.approvalOracle?.showRoutineApprovals ?? false
+		if (!result.approved || !result.routine || showRoutineApprovals) {
+			// Partial rows streamed so far would otherwise sit above the reasoning instead of replacing the approval row
+			await config.callbacks.removeLastPartialMessageIfExistsWithType("ask", messageType)
+			await config.callbacks.removeLastPartialMessageIfExistsWithType("say", messageType)
+			await config.callbacks.say(
+				"approval_oracle",
+				JSON.stringify({
+					tool: block.name,
+					targets,
+					approved: result.approved,
+					reasoning: result.reasoning,
+				} satisfies ClineSayApprovalOracle),
+				undefined,
+				undefined,
+				false,
+			)
+		}
+
+		return result.approved
+	}
+}
@@ -44,6 +44,8 @@ export const TASK_SERVICES_KEYS = [
 	"clineIgnoreController",
 	"contextManager",
 	"stateManager",
+	"devServiceManager",
+	"subagentPool",
 ] as const
 
 /**
@@ -57,6 +59,7 @@ export const TASK_CALLBACKS_KEYS = [
 	"sayAndCreateMissingParamError",
 	"removeLastPartialMessageIfExistsWithType",
 	"executeCommandTool",
+	"sendBackgroundCommandInput",
 	"doesLatestTaskCompletionHaveNewChanges",
 	"updateFCListFromToolResponse",
 	"shouldAutoApproveToolWithPath",
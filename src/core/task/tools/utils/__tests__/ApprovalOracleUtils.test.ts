@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, it } from "mocha"
+import "should"
+import type { ToolUse } from "@core/assistant-message"
+import { ClineDefaultTool } from "@shared/tools"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { AutoApprove } from "../../autoApprove"
+import type { TaskConfig } from "../../types/TaskConfig"
+import { ApprovalOracleUtils } from "../ApprovalOracleUtils"
+
+function toolUse(name: ClineDefaultTool, params: Record<string, string> = {}): ToolUse {
+	return { type: "tool_use", name, params, partial: false } as ToolUse
+}
+
+describe("ApprovalOracleUtils", () => {
+	let workspaceRoot: string
+	let globalSettings: Record<string, any>
+	let said: Array<{ type: string; text?: string }>
+	let config: TaskConfig
+
+	beforeEach(() => {
+		workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), "approval-oracle-utils-"))
+		globalSettings = {
+			yoloModeToggled: false,
+			autoApprovalSettings: { actions: {}, useApprovalOracle: true },
+			architectConfig: { approvalOracle: { backend: "rules", auditLog: false } },
+		}
+		said = []
+
+		const stateManager = {
+			getGlobalSettingsKey: (key: string) => globalSettings[key],
+			getApiConfiguration: () => ({}),
+		}
+		config = {
+			autoApprover: new AutoApprove(stateManager as any, undefined, workspaceRoot),
+			services: { stateManager },
+			callbacks: {
+				say: async (type: string, text?: string) => {
+					said.push({ type, text })
+					return undefined
+				},
+				removeLastPartialMessageIfExistsWithType: async () => {},
+			},
+		} as unknown as TaskConfig
+	})
+
+	afterEach(() => {
+		fs.rmSync(workspaceRoot, { recursive: true, force: true })
+	})
+
+	describe("toApprovalRequests", () => {
+		it("should map each supported tool to an oracle action", () => {
+			const cases: Array<[ClineDefaultTool, string]> = [
+				[ClineDefaultTool.BASH, "execute"],
+				[ClineDefaultTool.FILE_NEW, "write"],
+				[ClineDefaultTool.FILE_EDIT, "write"],
+				[ClineDefaultTool.APPLY_PATCH, "write"],
+				[ClineDefaultTool.BROWSER, "browser"],
+				[ClineDefaultTool.MCP_USE, "mcp"],
+			]
+			for (const [tool, action] of cases) {
+				ApprovalOracleUtils.toApprovalRequests(toolUse(tool), ["target"])[0].action.should.equal(action)
+			}
+		})
+
+		it("should return no requests for tools the oracle does not handle", () => {
+			ApprovalOracleUtils.toApprovalRequests(toolUse(ClineDefaultTool.FILE_READ), ["/a.ts"]).length.should.equal(0)
+		})
+
+		it("should truncate long context", () => {
+			const [request] = ApprovalOracleUtils.toApprovalRequests(
+				toolUse(ClineDefaultTool.FILE_NEW),
+				["/a.ts"],
+				"x".repeat(5000),
+			)
+			request.context.length.should.be.below(2100)
+			request.context.should.startWith(`Tool: ${ClineDefaultTool.FILE_NEW}`)
+		})
+	})
+
+	describe("decide", () => {
+		it("should auto-approve routine fast-path calls without an extra row", async () => {
+			const approved = await ApprovalOracleUtils.decide(config, toolUse(ClineDefaultTool.BASH), "command", [
+				"npm run build && npm test",
+			])
+
+			approved!.should.be.true()
+			said.length.should.equal(0)
+		})
+
+		it("should fall back to the user and show the reasoning when the oracle denies", async () => {
+			const approved = await ApprovalOracleUtils.decide(config, toolUse(ClineDefaultTool.BASH), "command", [
+				"sudo rm -rf /var/lib",
+			])
+
+			approved!.should.be.false()
+			said.length.should.equal(1)
+			said[0].type.should.equal("approval_oracle")
+			const row = JSON.parse(said[0].text!)
+			row.approved.should.be.false()
+			row.reasoning.should.equal("Blocked pattern")
+		})
+
+		it("should deny a call when any of its targets is denied", async () => {
+			const approved = await ApprovalOracleUtils.decide(config, toolUse(ClineDefaultTool.APPLY_PATCH), "tool", [
+				path.join(workspaceRoot, "src", "index.ts"),
+				path.join(workspaceRoot, ".env"),
+			])
+
+			approved!.should.be.false()
+		})
+
+		it("should leave the decision to the usual settings when oracle mode is off", async () => {
+			globalSettings.autoApprovalSettings.useApprovalOracle = false
+			;(
+				(await ApprovalOracleUtils.decide(config, toolUse(ClineDefaultTool.BASH), "command", ["ls"])) === undefined
+			).should.be.true()
+
+			globalSettings.autoApprovalSettings.useApprovalOracle = true
+			globalSettings.yoloModeToggled = true
+			;(
+				(await ApprovalOracleUtils.decide(config, toolUse(ClineDefaultTool.BASH), "command", ["ls"])) === undefined
+			).should.be.true()
+		})
+	})
+})
@@ -1,4 +1,5 @@
 import { ApiHandler } from "@core/api"
+import { FallbackApiHandler } from "@core/api/fallback"
 import { execSync } from "child_process"
 import { showSystemNotification } from "@/integrations/notifications"
 import { ClineApiReqCancelReason, ClineApiReqInfo } from "@/shared/ExtensionMessage"
@@ -53,6 +54,7 @@ export const updateApiReqMsg = async (params: UpdateApiReqMsgParams) => {
 				),
 			cancelReason: params.cancelReason,
 			streamingFailedMessage: params.streamingFailedMessage,
+			provider: params.api instanceof FallbackApiHandler ? params.api.getAnsweringProvider() : undefined,
 		} satisfies ClineApiReqInfo),
 	})
 }
@@ -89,6 +89,15 @@ export async function activate(context: vscode.ExtensionContext) {
 
 	Logger.log("Cline extension activated")
 
+	// Keep the roots advertised to MCP servers in step with the workspace folders
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeWorkspaceFolders(() => {
+			webview.controller.refreshWorkspaceRoots().catch((error) => {
+				console.error("Failed to refresh workspace roots:", error)
+			})
+		}),
+	)
+
 	const testModeWatchers = await initializeTestMode(webview)
 	// Initialize test mode and add disposables to context
 	context.subscriptions.push(...testModeWatchers)
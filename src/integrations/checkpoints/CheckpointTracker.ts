@@ -2,12 +2,13 @@ import { sendCheckpointEvent } from "@core/controller/checkpoints/subscribeToChe
 import fs from "fs/promises"
 import { isBinaryFile } from "isbinaryfile"
 import * as path from "path"
-import simpleGit from "simple-git"
+import simpleGit, { type SimpleGit } from "simple-git"
 import type { FolderLockWithRetryResult } from "@/core/locks/types"
 import { telemetryService } from "@/services/telemetry"
 import { GitOperations } from "./CheckpointGitOperations"
 import { releaseCheckpointLock, tryAcquireCheckpointLockWithRetry } from "./CheckpointLockUtils"
 import { getShadowGitPath, hashWorkingDir } from "./CheckpointUtils"
+import type { CheckpointTimeline } from "./types"
 
 /**
  * Operation types for checkpoint events
@@ -43,9 +44,21 @@ type CheckpointOperation = "CHECKPOINT_INIT" | "CHECKPOINT_COMMIT" | "CHECKPOINT
  * Checkpoint Architecture:
  * - Unique shadow git repository for each workspace
  * - Workspaces are identified by name, and hashed to a unique number
- * - All commits for a workspace are stored in one shadow git, under a single branch
+ * - All commits for a workspace are stored in one shadow git
+ * - Restoring to an earlier checkpoint starts a new timeline branch (cline/<taskId>/<name>) at that checkpoint,
+ *   so the checkpoints made after it stay reachable on the timeline they were made on
+ * - Timeline branches are updated without moving HEAD, which the workspace's other tasks keep committing on
  */
 
+// Name of the timeline a task's checkpoints were on before its first fork
+const MAIN_TIMELINE = "main"
+const MAX_TIMELINE_CHECKPOINTS = 100
+
+// Timelines after main are named timeline-2, timeline-3, ...
+function getTimelineNumber(name: string): number {
+	return Number(name.match(/^timeline-(\d+)$/)?.[1] ?? 1)
+}
+
 class CheckpointTracker {
 	private taskId: string
 	private cwd: string
@@ -247,11 +260,21 @@ class CheckpointTracker {
 			const commitMessage = "checkpoint-" + this.cwdHash + "-" + this.taskId
 
 			console.info(`Creating checkpoint commit with message: ${commitMessage}`)
-			const result = await git.commit(commitMessage, {
-				"--allow-empty": null,
-				"--no-verify": null,
-			})
-			const commitHash = (result.commit || "").replace(/^HEAD\s+/, "")
+			let commitHash: string
+			const timeline = await this.getCurrentTimeline(git)
+			if (timeline) {
+				// Commit onto the timeline's branch from the staged files, leaving HEAD where it is
+				const branchRef = `refs/heads/${this.getTimelineBranch(timeline)}`
+				const tree = (await git.raw(["write-tree"])).trim()
+				commitHash = (await git.raw(["commit-tree", tree, "-p", branchRef, "-m", commitMessage])).trim()
+				await git.raw(["update-ref", branchRef, commitHash])
+			} else {
+				const result = await git.commit(commitMessage, {
+					"--allow-empty": null,
+					"--no-verify": null,
+				})
+				commitHash = (result.commit || "").replace(/^HEAD\s+/, "")
+			}
 			console.warn(`Checkpoint commit created: `, commitHash)
 
 			const durationMs = Math.round(performance.now() - startTime)
@@ -311,13 +334,14 @@ class CheckpointTracker {
 	}
 
 	/**
-	 * Resets the shadow git repository's HEAD to a specific checkpoint commit.
-	 * This will discard all changes after the target commit and restore the
-	 * working directory to that checkpoint's state.
+	 * Restores the working directory to a specific checkpoint commit.
+	 * Uncommitted changes since the last checkpoint are discarded.
 	 *
 	 * Key behaviors:
 	 * - Acquires folder lock before proceeding to prevent conflicts
-	 * - Performs hard reset to target commit
+	 * - If the target is the current timeline's latest checkpoint, restores the working directory to it
+	 * - Otherwise starts a new timeline branch at the target, leaving the later checkpoints on the current timeline
+	 * - Never moves HEAD, so the workspace's other tasks keep committing where they were
 	 * - Releases folder lock after completion
 	 *
 	 * Dependencies:
@@ -325,14 +349,14 @@ class CheckpointTracker {
 	 * - Must be called with a valid commit hash from this task's history
 	 *
 	 * @param commitHash - The hash of the checkpoint commit to reset to
-	 * @returns Promise<void> Resolves when reset is complete
+	 * @returns Promise<string | undefined> The name of the new timeline, or undefined if no timeline was started
 	 * @throws Error if unable to:
 	 * - Acquire folder lock (timeout or conflict)
 	 * - Access shadow git path
 	 * - Initialize simple-git
 	 * - Reset to target commit
 	 */
-	public async resetHead(commitHash: string): Promise<void> {
+	public async resetHead(commitHash: string): Promise<string | undefined> {
 		let lockAcquired: boolean = false
 
 		try {
@@ -360,12 +384,20 @@ class CheckpointTracker {
 			const gitPath = await getShadowGitPath(this.cwdHash)
 			const git = simpleGit(path.dirname(gitPath))
 			console.debug(`Using shadow git at: ${gitPath}`)
-			await git.reset(["--hard", this.cleanCommitHash(commitHash)]) // Hard reset to target commit
-			console.debug(`Successfully reset to checkpoint: ${commitHash}`)
+			const target = (await git.revparse([this.cleanCommitHash(commitHash)])).trim()
+			const tip = await this.getTip(git)
+
+			let timeline: string | undefined
+			if (target !== tip) {
+				timeline = await this.startTimeline(git, target)
+			}
+			await this.restoreWorkingTree(git, target)
+			console.debug(`Successfully reset to checkpoint: ${commitHash}${timeline ? ` on timeline ${timeline}` : ""}`)
 
 			const durationMs = Math.round(performance.now() - startTime)
 			await this.sendCheckpointSubscriptionEvent("CHECKPOINT_RESTORE", false, commitHash)
 			telemetryService.captureCheckpointUsage(this.taskId, "restored", durationMs)
+			return timeline
 		} catch (error) {
 			console.error("Failed to reset to checkpoint:", {
 				taskId: this.taskId,
@@ -380,6 +412,160 @@ class CheckpointTracker {
 		}
 	}
 
+	/**
+	 * Lists the task's checkpoint timelines. Empty until a restore starts the first new timeline.
+	 *
+	 * @returns Timelines in the order they were started, each with its own checkpoints newest first
+	 */
+	public async getTimelines(): Promise<CheckpointTimeline[]> {
+		const gitPath = await getShadowGitPath(this.cwdHash)
+		const git = simpleGit(path.dirname(gitPath))
+
+		const current = await this.getCurrentTimeline(git)
+		const timelines: CheckpointTimeline[] = []
+		for (const name of await this.listTimelineNames(git)) {
+			const branch = this.getTimelineBranch(name)
+			const forkedFrom = await git
+				.raw(["config", "--get", `branch.${branch}.cline-forked-from`])
+				.then((value) => value.trim() || undefined)
+				.catch(() => undefined)
+			// Only this task's commits: other tasks in the same workspace share the shadow git
+			const log = await git.raw([
+				"log",
+				"--format=%H %ct",
+				"--fixed-strings",
+				`--grep=checkpoint-${this.cwdHash}-${this.taskId}`,
+				`--max-count=${MAX_TIMELINE_CHECKPOINTS}`,
+				forkedFrom ? `${forkedFrom}..${branch}` : branch,
+			])
+			const checkpoints = log
+				.split("\n")
+				.filter(Boolean)
+				.map((line) => {
+					const [hash, seconds] = line.split(" ")
+					return { hash, timestamp: Number(seconds) * 1000 }
+				})
+			timelines.push({ name, isCurrent: name === current, forkedFrom, checkpoints })
+		}
+		return timelines
+	}
+
+	/**
+	 * Switches the working directory to the latest checkpoint of another timeline.
+	 * The current state is committed first, so changes since the last checkpoint stay on the current timeline.
+	 *
+	 * @param name - The name of the timeline to switch to
+	 * @throws Error if the timeline doesn't exist or the folder lock can't be acquired
+	 */
+	public async switchTimeline(name: string): Promise<void> {
+		const gitPath = await getShadowGitPath(this.cwdHash)
+		const git = simpleGit(path.dirname(gitPath))
+		const branch = this.getTimelineBranch(name)
+		const exists = await git
+			.raw(["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`])
+			.then((value) => value.trim() !== "")
+			.catch(() => false)
+		if (!exists) {
+			throw new Error(`Timeline "${name}" doesn't exist.`)
+		}
+
+		await this.gitOperations.addCheckpointFiles(git)
+		if ((await git.raw(["diff", "--cached", "--name-only", await this.getTip(git)])).trim()) {
+			await this.commit()
+		}
+
+		let lockAcquired = false
+		try {
+			await this.sendCheckpointSubscriptionEvent("CHECKPOINT_RESTORE", true)
+			const lockResult: FolderLockWithRetryResult = await tryAcquireCheckpointLockWithRetry(this.cwdHash, this.taskId)
+			if (!lockResult.acquired && !lockResult.skipped) {
+				throw new Error(
+					"Failed to acquire checkpoint folder lock - another Cline instance may be performing checkpoint operations",
+				)
+			}
+			lockAcquired = lockResult.acquired
+
+			await this.setCurrentTimeline(git, name)
+			await this.restoreWorkingTree(git, `refs/heads/${branch}`)
+			await this.sendCheckpointSubscriptionEvent("CHECKPOINT_RESTORE", false)
+			console.info(`Switched to checkpoint timeline ${name}`)
+		} finally {
+			if (lockAcquired) {
+				await releaseCheckpointLock(this.cwdHash, this.taskId)
+			}
+		}
+	}
+
+	/**
+	 * Branch name for one of this task's timelines
+	 */
+	private getTimelineBranch(name: string): string {
+		return `cline/${this.taskId}/${name}`
+	}
+
+	/**
+	 * Names of this task's timelines in the order they were started
+	 */
+	private async listTimelineNames(git: SimpleGit): Promise<string[]> {
+		const prefix = this.getTimelineBranch("")
+		const branches = await git.raw(["for-each-ref", "--format=%(refname:short)", `refs/heads/${prefix}`])
+		return branches
+			.split("\n")
+			.filter(Boolean)
+			.map((branch) => branch.slice(prefix.length))
+			.sort((a, b) => getTimelineNumber(a) - getTimelineNumber(b))
+	}
+
+	/**
+	 * The timeline the task is on, once it has forked. Recorded in the shadow git's config rather than by
+	 * checking out the branch, because HEAD is shared by every task in the workspace.
+	 */
+	private async getCurrentTimeline(git: SimpleGit): Promise<string | undefined> {
+		const name = await git
+			.raw(["config", "--get", `cline.${this.taskId}.timeline`])
+			.then((value) => value.trim())
+			.catch(() => "")
+		return name && (await this.listTimelineNames(git)).includes(name) ? name : undefined
+	}
+
+	private async setCurrentTimeline(git: SimpleGit, name: string): Promise<void> {
+		await git.raw(["config", `cline.${this.taskId}.timeline`, name])
+	}
+
+	/**
+	 * The latest commit of the task's current timeline, or HEAD before it has forked
+	 */
+	private async getTip(git: SimpleGit): Promise<string> {
+		const timeline = await this.getCurrentTimeline(git)
+		return (await git.revparse([timeline ? `refs/heads/${this.getTimelineBranch(timeline)}` : "HEAD"])).trim()
+	}
+
+	/**
+	 * Makes the working directory and index match a checkpoint without moving HEAD
+	 */
+	private async restoreWorkingTree(git: SimpleGit, commit: string): Promise<void> {
+		await git.raw(["read-tree", "-u", "--reset", commit])
+	}
+
+	/**
+	 * Starts a new timeline at a checkpoint, records where it was forked from and makes it the current timeline.
+	 * The first time a task forks, where it left off is kept as its "main" timeline.
+	 */
+	private async startTimeline(git: SimpleGit, forkedFrom: string): Promise<string> {
+		if (!(await this.getCurrentTimeline(git))) {
+			await git.raw(["update-ref", `refs/heads/${this.getTimelineBranch(MAIN_TIMELINE)}`, "HEAD"])
+		}
+
+		const existing = await this.listTimelineNames(git)
+		const name = `timeline-${getTimelineNumber(existing[existing.length - 1] ?? MAIN_TIMELINE) + 1}`
+		const branch = this.getTimelineBranch(name)
+
+		await git.raw(["update-ref", `refs/heads/${branch}`, forkedFrom])
+		await git.raw(["config", `branch.${branch}.cline-forked-from`, forkedFrom])
+		await this.setCurrentTimeline(git, name)
+		return name
+	}
+
 	/**
 	 * Return an array describing changed files between one commit and either:
 	 *   - another commit, or
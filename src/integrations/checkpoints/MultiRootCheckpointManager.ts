@@ -15,12 +15,13 @@
  * 1. Enable the multi-root feature flag in StateManager
  * 2. Update the checkpoint factory to use this manager when appropriate
  * 3. Test thoroughly with multiple workspace roots
- * 4. Add proper restoration logic for all workspace roots (not just primary)
+ * 4. Record checkpoints on the task's messages and add restoration (with timelines) for all workspace roots
  * 5. Implement full diff checking across all workspace roots
  *
  * See PRD: Multi-Workspace Folder Support for complete requirements
  */
 
+import { sendRelinquishControlEvent } from "@core/controller/ui/subscribeToRelinquishControl"
 import { MessageStateHandler } from "@core/task/message-state"
 import { showChangedFilesDiff } from "@core/task/multifile-diff"
 import { WorkspaceRootManager } from "@core/workspace"
@@ -173,31 +174,19 @@ export class MultiRootCheckpointManager implements ICheckpointManager {
 	}
 
 	/**
-	 * Restore checkpoint for workspace roots
-	 * For now, this restores the primary root only for simplicity
-	 * Future enhancement: restore all roots to their respective checkpoints
+	 * Restoring isn't offered for multi-root workspaces: checkpoints here aren't recorded on the task's messages,
+	 * so there is no checkpoint to restore or branch a timeline from. Says so instead of leaving the restore
+	 * pending.
 	 */
-	async restoreCheckpoint(): Promise<any> {
-		const primaryRoot = this.workspaceManager.getPrimaryRoot()
-		if (!primaryRoot) {
-			console.error("[MultiRootCheckpointManager] No primary root found")
-			return { error: "No primary workspace found" }
-		}
-
-		const tracker = this.trackers.get(primaryRoot.path)
-
-		if (!tracker) {
-			console.error(`[MultiRootCheckpointManager] No tracker found for primary root: ${primaryRoot.path}`)
-			return { error: "No checkpoint tracker for primary workspace" }
-		}
-
-		console.log(`[MultiRootCheckpointManager] Restoring checkpoint for primary root: ${primaryRoot.name}`)
-
-		// TODO: Implement full restore logic similar to TaskCheckpointManager
-		// For now, this is a placeholder that would delegate to the existing restore logic
-		// In a full implementation, we'd restore all roots or provide options to the user
-
-		return {}
+	async restoreCheckpoint(): Promise<{ checkpointManagerErrorMessage: string }> {
+		const errorMessage = "Restoring checkpoints isn't supported in multi-root workspaces yet."
+		console.error(`[MultiRootCheckpointManager] ${errorMessage}`)
+		HostProvider.window.showMessage({
+			type: ShowMessageType.ERROR,
+			message: errorMessage,
+		})
+		sendRelinquishControlEvent()
+		return { checkpointManagerErrorMessage: errorMessage }
 	}
 
 	/**
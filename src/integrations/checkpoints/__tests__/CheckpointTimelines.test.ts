@@ -0,0 +1,117 @@
+import { expect } from "chai"
+import fs from "fs/promises"
+import { afterEach, beforeEach, describe, it } from "mocha"
+import * as os from "os"
+import * as path from "path"
+import simpleGit from "simple-git"
+import { setVscodeHostProviderMock } from "@/test/host-provider-test-utils"
+import CheckpointTracker from "../CheckpointTracker"
+import { getShadowGitPath, hashWorkingDir } from "../CheckpointUtils"
+
+describe("CheckpointTracker timelines", function () {
+	this.timeout(30_000)
+
+	let tmpDir: string
+	let workspace: string
+	let tracker: CheckpointTracker
+
+	const writeFile = (content: string) => fs.writeFile(path.join(workspace, "file.txt"), content)
+	const readFile = () => fs.readFile(path.join(workspace, "file.txt"), "utf8")
+	const checkpoint = async (content: string) => {
+		await writeFile(content)
+		return (await tracker.commit())!
+	}
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "cline-checkpoint-timelines-"))
+		workspace = path.join(tmpDir, "workspace")
+		await fs.mkdir(workspace)
+		await writeFile("initial")
+		setVscodeHostProviderMock({ globalStorageFsPath: path.join(tmpDir, "storage") })
+		tracker = (await CheckpointTracker.create("task-1", true, workspace))!
+	})
+
+	afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should reset in place when restoring the latest checkpoint", async () => {
+		const latest = await checkpoint("one")
+		await writeFile("uncommitted")
+
+		expect(await tracker.resetHead(latest)).to.equal(undefined)
+		expect(await readFile()).to.equal("one")
+		expect(await tracker.getTimelines()).to.deep.equal([])
+	})
+
+	it("should keep later checkpoints on the timeline they were made on when restoring an earlier one", async () => {
+		const first = await checkpoint("one")
+		const second = await checkpoint("two")
+
+		expect(await tracker.resetHead(first)).to.equal("timeline-2")
+		expect(await readFile()).to.equal("one")
+		const third = await checkpoint("three")
+
+		const [main, fork] = await tracker.getTimelines()
+		expect(main.name).to.equal("main")
+		expect(main.isCurrent).to.equal(false)
+		expect(main.checkpoints.map((c) => c.hash.slice(0, second.length))).to.deep.equal([second, first])
+		expect(fork.name).to.equal("timeline-2")
+		expect(fork.isCurrent).to.equal(true)
+		expect(fork.forkedFrom?.startsWith(first)).to.equal(true)
+		expect(fork.checkpoints.map((c) => c.hash.slice(0, third.length))).to.deep.equal([third])
+
+		// Checkpoints on different timelines can be compared
+		const diff = await tracker.getDiffSet(second, third)
+		expect(diff.map(({ relativePath, before, after }) => ({ relativePath, before, after }))).to.deep.equal([
+			{ relativePath: "file.txt", before: "two", after: "three" },
+		])
+	})
+
+	it("should switch between timelines and keep uncommitted changes on the one being left", async () => {
+		const first = await checkpoint("one")
+		await checkpoint("two")
+		await tracker.resetHead(first)
+		await writeFile("work in progress")
+
+		await tracker.switchTimeline("main")
+		expect(await readFile()).to.equal("two")
+
+		await tracker.switchTimeline("timeline-2")
+		expect(await readFile()).to.equal("work in progress")
+		expect((await tracker.getTimelines()).find((t) => t.isCurrent)?.name).to.equal("timeline-2")
+
+		const error = await tracker.switchTimeline("missing").catch((error: Error) => error)
+		expect((error as Error).message).to.equal(`Timeline "missing" doesn't exist.`)
+	})
+
+	it("should leave HEAD to the workspace's other tasks", async () => {
+		const shadowGit = simpleGit(path.dirname(await getShadowGitPath(hashWorkingDir(workspace))))
+		const headBranch = (await shadowGit.raw(["symbolic-ref", "HEAD"])).trim()
+		const other = (await CheckpointTracker.create("task-2", true, workspace))!
+
+		const first = await checkpoint("one")
+		await checkpoint("two")
+		await tracker.resetHead(first)
+		await writeFile("other task")
+		const otherCheckpoint = (await other.commit())!
+		const third = await checkpoint("three")
+
+		expect((await shadowGit.raw(["symbolic-ref", "HEAD"])).trim()).to.equal(headBranch)
+		const timeline = await shadowGit.raw(["rev-list", "refs/heads/cline/task-1/timeline-2"])
+		expect(timeline).to.contain(third.slice(0, 7))
+		expect(timeline).to.not.contain(otherCheckpoint.slice(0, 7))
+		expect(await other.getTimelines()).to.deep.equal([])
+	})
+
+	it("should number timelines in the order they were started", async () => {
+		const first = await checkpoint("one")
+		await checkpoint("two")
+
+		expect(await tracker.resetHead(first)).to.equal("timeline-2")
+		await checkpoint("three")
+		expect(await tracker.resetHead(first)).to.equal("timeline-3")
+
+		expect((await tracker.getTimelines()).map((t) => t.name)).to.deep.equal(["main", "timeline-2", "timeline-3"])
+	})
+})
@@ -8,7 +8,7 @@ import { DiffViewProvider } from "@integrations/editor/DiffViewProvider"
 import { findLast, findLastIndex } from "@shared/array"
 import { combineApiRequests } from "@shared/combineApiRequests"
 import { combineCommandSequences } from "@shared/combineCommandSequences"
-import { ClineApiReqInfo, ClineMessage, ClineSay } from "@shared/ExtensionMessage"
+import { ClineApiReqInfo, ClineMessage, ClineSay, ClineSayCheckpointTimeline } from "@shared/ExtensionMessage"
 import { getApiMetrics } from "@shared/getApiMetrics"
 import { HistoryItem } from "@shared/HistoryItem"
 import { ClineCheckpointRestore } from "@shared/WebviewMessage"
@@ -17,7 +17,7 @@ import { HostProvider } from "@/hosts/host-provider"
 import { ShowMessageType } from "@/shared/proto/host/window"
 import { MessageStateHandler } from "../../core/task/message-state"
 import { TaskState } from "../../core/task/TaskState"
-import { ICheckpointManager } from "./types"
+import { CheckpointTimeline, ICheckpointManager } from "./types"
 
 // Type definitions for better code organization
 type SayFunction = (
@@ -71,6 +71,8 @@ interface CheckpointRestoreStateUpdate {
  * - saveCheckpoint: Creates a new checkpoint of the current workspace state
  * - restoreCheckpoint: Restores the task to a previous checkpoint
  * - presentMultifileDiff: Displays a multi-file diff view between checkpoints
+ * - getTimelines / switchTimeline: Lists and switches between the timelines started by restoring earlier checkpoints
+ * - compareCheckpoints: Displays a multi-file diff view between any two checkpoints, across timelines
  * - doesLatestTaskCompletionHaveNewChanges: Checks if the latest task completion has new changes, used by the "See New Changes" button
  *
  * This class is designed as the main interface between the task and the checkpoint system. It is responsible for:
@@ -253,6 +255,8 @@ export class TaskCheckpointManager implements ICheckpointManager {
 			}
 
 			let didWorkspaceRestoreFail = false
+			// Set when restoring moved the workspace onto a new timeline instead of resetting the current one
+			let timeline: string | undefined
 
 			switch (restoreType) {
 				case "task":
@@ -295,7 +299,7 @@ export class TaskCheckpointManager implements ICheckpointManager {
 					}
 					if (message.lastCheckpointHash && this.state.checkpointTracker) {
 						try {
-							await this.state.checkpointTracker.resetHead(message.lastCheckpointHash)
+							timeline = await this.state.checkpointTracker.resetHead(message.lastCheckpointHash)
 						} catch (error) {
 							const errorMessage = error instanceof Error ? error.message : "Unknown error"
 							console.error(
@@ -310,7 +314,7 @@ export class TaskCheckpointManager implements ICheckpointManager {
 						}
 					} else if (offset && lastMessageWithHash.lastCheckpointHash && this.state.checkpointTracker) {
 						try {
-							await this.state.checkpointTracker.resetHead(lastMessageWithHash.lastCheckpointHash)
+							timeline = await this.state.checkpointTracker.resetHead(lastMessageWithHash.lastCheckpointHash)
 						} catch (error) {
 							const errorMessage = error instanceof Error ? error.message : "Unknown error"
 							console.error(
@@ -329,7 +333,7 @@ export class TaskCheckpointManager implements ICheckpointManager {
 							`[TaskCheckpointManager] Message ${messageTs} has no checkpoint hash, falling back to previous checkpoint for task ${this.task.taskId}`,
 						)
 						try {
-							await this.state.checkpointTracker.resetHead(lastMessageWithHash.lastCheckpointHash)
+							timeline = await this.state.checkpointTracker.resetHead(lastMessageWithHash.lastCheckpointHash)
 						} catch (error) {
 							const errorMessage = error instanceof Error ? error.message : "Unknown error"
 							console.error(
@@ -357,7 +361,7 @@ export class TaskCheckpointManager implements ICheckpointManager {
 			const checkpointManagerStateUpdate: CheckpointRestoreStateUpdate = {}
 
 			if (!didWorkspaceRestoreFail) {
-				await this.handleSuccessfulRestore(restoreType, message, messageIndex, messageTs)
+				await this.handleSuccessfulRestore(restoreType, message, messageIndex, messageTs, timeline)
 
 				// Collect state updates
 				if (this.state.conversationHistoryDeletedRange !== undefined) {
@@ -536,6 +540,83 @@ export class TaskCheckpointManager implements ICheckpointManager {
 		}
 	}
 
+	/**
+	 * Lists the task's checkpoint timelines, which are started by restoring the workspace to an earlier checkpoint
+	 * @returns The timelines, or an empty list if checkpoints are unavailable or no timeline has been started yet
+	 */
+	async getTimelines(): Promise<CheckpointTimeline[]> {
+		try {
+			const checkpointTracker = await this.checkpointTrackerCheckAndInit()
+			return (await checkpointTracker?.getTimelines()) ?? []
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : "Unknown error"
+			console.error(`[TaskCheckpointManager] Failed to list timelines for task ${this.task.taskId}:`, errorMessage)
+			return []
+		}
+	}
+
+	/**
+	 * Moves the workspace to the latest state of another timeline. Uncommitted changes are kept on the timeline being left.
+	 * @param name - Name of the timeline to switch to
+	 */
+	async switchTimeline(name: string): Promise<void> {
+		try {
+			const checkpointTracker = await this.checkpointTrackerCheckAndInit()
+			if (!checkpointTracker) {
+				throw new Error("Checkpoint tracker not available")
+			}
+			await checkpointTracker.switchTimeline(name)
+			HostProvider.window.showMessage({
+				type: ShowMessageType.INFORMATION,
+				message: `Workspace files have been switched to timeline "${name}"`,
+			})
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : "Unknown error"
+			console.error(`[TaskCheckpointManager] Failed to switch timeline for task ${this.task.taskId}:`, errorMessage)
+			HostProvider.window.showMessage({
+				type: ShowMessageType.ERROR,
+				message: "Failed to switch timeline: " + errorMessage,
+			})
+		}
+	}
+
+	/**
+	 * Presents a multi-file diff view between two checkpoints, which may be on different timelines
+	 * @param lhsHash - Hash of the checkpoint to compare from
+	 * @param rhsHash - Hash of the checkpoint to compare to
+	 */
+	async compareCheckpoints(lhsHash: string, rhsHash: string): Promise<void> {
+		try {
+			const checkpointTracker = await this.checkpointTrackerCheckAndInit()
+			if (!checkpointTracker) {
+				throw new Error("Checkpoint tracker not available")
+			}
+			const changedFiles = await checkpointTracker.getDiffSet(lhsHash, rhsHash)
+			if (!changedFiles.length) {
+				HostProvider.window.showMessage({
+					type: ShowMessageType.INFORMATION,
+					message: "No changes found",
+				})
+				return
+			}
+			await HostProvider.diff.openMultiFileDiff({
+				title: `Checkpoint ${lhsHash.slice(0, 7)} ↔ ${rhsHash.slice(0, 7)}`,
+				diffs: changedFiles.map((file) => ({
+					filePath: file.absolutePath,
+					leftContent: file.before,
+					rightContent: file.after,
+				})),
+			})
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : "Unknown error"
+			console.error(`[TaskCheckpointManager] Failed to compare checkpoints for task ${this.task.taskId}:`, errorMessage)
+			HostProvider.window.showMessage({
+				type: ShowMessageType.ERROR,
+				message: "Failed to retrieve diff set: " + errorMessage,
+			})
+		}
+	}
+
 	/**
 	 * Creates a checkpoint commit in the underlying tracker
 	 * @returns Promise<string | undefined> The created commit hash, or undefined if failed
@@ -656,6 +737,7 @@ export class TaskCheckpointManager implements ICheckpointManager {
 		message: ClineMessage,
 		messageIndex: number,
 		messageTs: number,
+		timeline?: string,
 	): Promise<void> {
 		switch (restoreType) {
 			case "task":
@@ -707,6 +789,7 @@ export class TaskCheckpointManager implements ICheckpointManager {
 				break
 		}
 
+		const timelineSuffix = timeline ? ` on new timeline "${timeline}"` : ""
 		switch (restoreType) {
 			case "task":
 				HostProvider.window.showMessage({
@@ -717,17 +800,22 @@ export class TaskCheckpointManager implements ICheckpointManager {
 			case "workspace":
 				HostProvider.window.showMessage({
 					type: ShowMessageType.INFORMATION,
-					message: "Workspace files have been restored to the checkpoint",
+					message: "Workspace files have been restored to the checkpoint" + timelineSuffix,
 				})
 				break
 			case "taskAndWorkspace":
 				HostProvider.window.showMessage({
 					type: ShowMessageType.INFORMATION,
-					message: "Task and workspace have been restored to the checkpoint",
+					message: "Task and workspace have been restored to the checkpoint" + timelineSuffix,
 				})
 				break
 		}
 
+		if (timeline) {
+			// The checkpoints after the restored one stay on the timeline that was left, so show where they went
+			await this.callbacks.say("checkpoint_timeline", JSON.stringify({ timeline } satisfies ClineSayCheckpointTimeline))
+		}
+
 		if (restoreType !== "task") {
 			// Set isCheckpointCheckedOut flag on the message
 			// Find all checkpoint messages before this one
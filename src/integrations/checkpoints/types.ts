@@ -18,4 +18,24 @@ export interface ICheckpointManager {
 
 	// Optional method for checking and initializing checkpoint tracker
 	checkpointTrackerCheckAndInit?(): Promise<any>
+
+	// Optional methods for checkpoint timelines (branches of the task's checkpoints)
+	getTimelines?(): Promise<CheckpointTimeline[]>
+
+	switchTimeline?(name: string): Promise<void>
+
+	compareCheckpoints?(lhsHash: string, rhsHash: string): Promise<void>
+}
+
+/**
+ * A branch of a task's checkpoints in the shadow git repository. Restoring to an earlier checkpoint starts a new
+ * timeline there, so the checkpoints made after it stay on the timeline they were made on.
+ */
+export interface CheckpointTimeline {
+	name: string
+	isCurrent: boolean
+	/** The checkpoint this timeline was started from. The task's first timeline, "main", has none */
+	forkedFrom?: string
+	/** Checkpoints made on this timeline, newest first */
+	checkpoints: { hash: string; timestamp: number }[]
 }
@@ -0,0 +1,160 @@
+import { getPolicyActions } from "@core/subagents/policies"
+import { buildSubagentResult, getExceededBudget, getSubagentUsage } from "@core/subagents/results"
+import type { SubagentResult, SubagentRunner, SubagentRunOptions, SubagentSpec, SubagentStatus } from "@core/subagents/types"
+import type { ClineAsk, ClineMessage } from "@shared/ExtensionMessage"
+import { spawn } from "child_process"
+
+/** Asks the CLI shows while it works, which don't need an answer */
+const NON_BLOCKING_ASKS = new Set<ClineAsk>(["command_output", "resume_task", "resume_completed_task"])
+
+/** Lines of stderr kept to explain a CLI that exits without finishing */
+const STDERR_TAIL_LINES = 5
+
+/** How long the CLI gets to cancel its task and exit before it's killed */
+const EXIT_GRACE_PERIOD_MS = 3_000
+
+/**
+ * Builds the Cline CLI arguments that run a subagent's prompt in act mode with its approval policy.
+ * Yolo mode would approve everything, so the CLI runs interactively and anything outside the policy stops it.
+ */
+export function buildCliSubagentArgs(spec: SubagentSpec): string[] {
+	const args = [
+		spec.prompt,
+		"-m",
+		"act",
+		"-F",
+		"json",
+		"-s",
+		"max_consecutive_mistakes=6",
+		"-s",
+		"enable_checkpoints_setting=false",
+	]
+	for (const [action, enabled] of Object.entries(getPolicyActions(spec.approvalPolicy))) {
+		const setting = action.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`)
+		args.push("-s", `auto_approval_settings.actions.${setting}=${enabled}`)
+	}
+	return args
+}
+
+/**
+ * Runs subagents as separate Cline CLI processes, each starting its own Cline Core in the subagent's working directory.
+ * The CLI's JSON output is followed to collect the subagent's messages and to stop it once it completes, reaches its
+ * budget, or asks for something it would need the user for.
+ */
+export class CliSubagentRunner implements SubagentRunner {
+	/**
+	 * @param command The CLI executable
+	 * @param commandArgs Arguments that come before the subagent's own, e.g. a script for the executable to run
+	 */
+	constructor(
+		private readonly command = "cline",
+		private readonly commandArgs: string[] = [],
+	) {}
+
+	run(spec: SubagentSpec, { cwd, signal }: SubagentRunOptions): Promise<SubagentResult> {
+		return new Promise((resolve) => {
+			// The CLI prints every update to a message, so only the latest version of each is kept
+			const messagesByTs = new Map<number, ClineMessage>()
+			const getMessages = () => [...messagesByTs.values()].sort((a, b) => a.ts - b.ts)
+			const stderrLines: string[] = []
+			let outcome: { status: SubagentStatus; error?: string } | undefined
+			let killTimer: NodeJS.Timeout | undefined
+
+			const child = spawn(this.command, [...this.commandArgs, ...buildCliSubagentArgs(spec)], {
+				cwd,
+				stdio: ["ignore", "pipe", "pipe"],
+			})
+
+			// The interactive CLI cancels its task on SIGTERM but keeps following it, so it may need to be killed
+			const stop = (status: SubagentStatus, error?: string) => {
+				if (!outcome) {
+					outcome = { status, error }
+					child.kill("SIGTERM")
+					killTimer = setTimeout(() => child.kill("SIGKILL"), EXIT_GRACE_PERIOD_MS)
+				}
+			}
+			const onAbort = () => stop("cancelled")
+			if (signal.aborted) {
+				onAbort()
+			} else {
+				signal.addEventListener("abort", onAbort, { once: true })
+			}
+
+			const handleMessage = (message: ClineMessage) => {
+				messagesByTs.set(message.ts, message)
+				if (message.type === "say" && message.say === "api_req_started") {
+					const exceeded = getExceededBudget(spec, getSubagentUsage(getMessages()))
+					if (exceeded) {
+						stop("budget_exceeded", exceeded)
+					}
+					return
+				}
+				if (message.type !== "ask" || message.partial || !message.ask || NON_BLOCKING_ASKS.has(message.ask)) {
+					return
+				}
+				switch (message.ask) {
+					case "completion_result":
+						stop("completed")
+						break
+					case "mistake_limit_reached":
+						stop("failed", "Made too many mistakes in a row")
+						break
+					case "api_req_failed":
+						stop("failed", message.text || "API request failed")
+						break
+					case "followup":
+					case "plan_mode_respond":
+						stop("failed", `Stopped to ask a question: ${message.text ?? ""}`.trim())
+						break
+					default:
+						stop("failed", `Stopped at a "${message.ask}" request that its approval policy doesn't allow`)
+				}
+			}
+
+			// json output prints each message indented over several lines, opening and closing at the start of a line
+			let buffer: string[] | undefined
+			let pending = ""
+			child.stdout.on("data", (data: Buffer) => {
+				const lines = (pending + data.toString()).split("\n")
+				pending = lines.pop() ?? ""
+				for (const line of lines.map((l) => l.replace(/\r$/, ""))) {
+					if (line === "{") {
+						buffer = [line]
+					} else if (buffer) {
+						buffer.push(line)
+						if (line === "}") {
+							try {
+								handleMessage(JSON.parse(buffer.join("\n")))
+							} catch {
+								// Not a message
+							}
+							buffer = undefined
+						}
+					}
+				}
+			})
+			child.stderr.on("data", (data: Buffer) => {
+				stderrLines.push(...data.toString().split("\n").filter(Boolean))
+				stderrLines.splice(0, Math.max(0, stderrLines.length - STDERR_TAIL_LINES))
+			})
+
+			child.on("error", (error) => {
+				outcome ??= { status: "failed", error: `Couldn't run ${this.command}: ${error.message}` }
+			})
+			child.on("close", (code) => {
+				clearTimeout(killTimer)
+				signal.removeEventListener("abort", onAbort)
+				const details = stderrLines.join("\n")
+				resolve(
+					buildSubagentResult(
+						getMessages(),
+						outcome ?? {
+							status: "failed",
+							error: `The CLI exited with code ${code} before completing the task${details ? `:\n${details}` : ""}`,
+						},
+					),
+				)
+			})
+		})
+	}
+}
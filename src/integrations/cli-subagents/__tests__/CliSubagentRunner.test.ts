@@ -0,0 +1,93 @@
+import { expect } from "chai"
+import fs from "fs/promises"
+import { afterEach, beforeEach, describe, it } from "mocha"
+import * as os from "os"
+import * as path from "path"
+import { buildCliSubagentArgs, CliSubagentRunner } from "../CliSubagentRunner"
+
+/** Prints the given messages the way the CLI's json output does, then waits to be stopped unless told to exit */
+const fakeCliScript = (messages: object[], { exitCode }: { exitCode?: number } = {}) => `
+for (const message of ${JSON.stringify(messages)}) {
+	console.log(JSON.stringify(message, null, 2))
+}
+console.log("not a message")
+${exitCode === undefined ? "setInterval(() => {}, 1000)" : `console.error("something went wrong"); process.exit(${exitCode})`}
+`
+
+describe("CliSubagentRunner", function () {
+	this.timeout(15_000)
+
+	let tmpDir: string
+
+	const runWith = async (script: string, maxTokens?: number) => {
+		const scriptPath = path.join(tmpDir, "cli.js")
+		await fs.writeFile(scriptPath, script)
+		const runner = new CliSubagentRunner(process.execPath, [scriptPath])
+		return runner.run(
+			{ prompt: "do it", approvalPolicy: "edit", maxTokens },
+			{ cwd: tmpDir, signal: new AbortController().signal },
+		)
+	}
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "cline-cli-subagents-"))
+	})
+
+	afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should pass the prompt and policy to the CLI", () => {
+		const args = buildCliSubagentArgs({ prompt: "do it", approvalPolicy: "read_only" })
+		expect(args.slice(0, 5)).to.deep.equal(["do it", "-m", "act", "-F", "json"])
+		expect(args).to.include("auto_approval_settings.actions.read_files=true")
+		expect(args).to.include("auto_approval_settings.actions.edit_files=false")
+	})
+
+	it("should stop the CLI once it completes and keep the latest version of each message", async () => {
+		const result = await runWith(
+			fakeCliScript([
+				{ ts: 1, type: "say", say: "api_req_started", text: JSON.stringify({ tokensIn: 10, tokensOut: 2, cost: 0.001 }) },
+				{ ts: 2, type: "say", say: "tool", text: JSON.stringify({ tool: "editedExistingFile", path: "a.ts" }) },
+				{ ts: 3, type: "say", say: "completion_result", text: "Do", partial: true },
+				{ ts: 3, type: "say", say: "completion_result", text: "Done" },
+				{ ts: 4, type: "ask", ask: "completion_result", text: "" },
+			]),
+		)
+
+		expect(result).to.deep.equal({
+			status: "completed",
+			summary: "Done",
+			filesChanged: ["a.ts"],
+			tokensIn: 10,
+			tokensOut: 2,
+			cost: 0.001,
+		})
+	})
+
+	it("should stop the CLI at a request its policy doesn't allow", async () => {
+		const result = await runWith(fakeCliScript([{ ts: 1, type: "ask", ask: "command", text: "rm -rf build" }]))
+
+		expect(result.status).to.equal("failed")
+		expect(result.error).to.contain('"command"')
+	})
+
+	it("should stop the CLI once it reaches its budget", async () => {
+		const result = await runWith(
+			fakeCliScript([
+				{ ts: 1, type: "say", say: "api_req_started", text: JSON.stringify({ tokensIn: 80, tokensOut: 40 }) },
+			]),
+			100,
+		)
+
+		expect(result.status).to.equal("budget_exceeded")
+		expect(result.error).to.contain("100 token budget")
+	})
+
+	it("should report a CLI that exits early with its stderr", async () => {
+		const result = await runWith(fakeCliScript([], { exitCode: 3 }))
+
+		expect(result.status).to.equal("failed")
+		expect(result.error).to.contain("code 3").and.contain("something went wrong")
+	})
+})
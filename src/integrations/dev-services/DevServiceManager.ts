@@ -0,0 +1,395 @@
+/**
+ * DevServiceManager - Runs the long-running services a workspace declares in .cline/services.json.
+ *
+ * Services are started on demand through the manage_service tool. A start only returns once the
+ * service passes its readiness checks (an output pattern, an open port, or a responding URL), so
+ * the model neither waits on a dev server that never exits nor moves on before it's listening.
+ *
+ * - Keeps recent output in memory for the @service:<name> mention
+ * - Restarts services that exit on their own according to their restart policy
+ * - Stops every service when the task ends
+ */
+
+import { ChildProcess, spawn } from "child_process"
+import fs from "fs/promises"
+import * as http from "http"
+import * as https from "https"
+import * as net from "net"
+import * as path from "path"
+import { stripAnsi } from "@/hosts/vscode/terminal/ansiUtils"
+import { fileExistsAtPath } from "@/utils/fs"
+import { terminateProcessTree } from "@/utils/process-termination"
+import { DEFAULT_READINESS_TIMEOUT_SECONDS, DEV_SERVICES_FILE, type DevServiceConfig, DevServicesSettingsSchema } from "./schemas"
+
+/** Lines of output kept in memory per service */
+const MAX_LOG_LINES = 1000
+
+/** Lines of output shown by default when tailing a service's logs */
+export const DEFAULT_LOG_TAIL_LINES = 100
+
+/** How often readiness checks run while a service starts */
+const READINESS_POLL_INTERVAL_MS = 500
+
+/** Timeout for a single port or URL probe */
+const PROBE_TIMEOUT_MS = 2000
+
+/** Delay before restarting a service that exited */
+const RESTART_DELAY_MS = 1000
+
+/**
+ * - 'starting': Running, but hasn't passed its readiness checks yet
+ * - 'ready': Running and ready
+ * - 'exited': Exited on its own (it may be about to restart)
+ * - 'stopped': Stopped by Cline
+ */
+export type DevServiceStatus = "starting" | "ready" | "exited" | "stopped"
+
+interface DevService {
+	name: string
+	config: DevServiceConfig
+	status: DevServiceStatus
+	/** The running process, if any */
+	child?: ChildProcess
+	logs: string[]
+	/** Output after the last newline */
+	buffer: string
+	/** Whether the readiness pattern matched since the last (re)start */
+	patternMatched: boolean
+	restarts: number
+	exitCode?: number | null
+	restartTimer?: NodeJS.Timeout
+}
+
+export class DevServiceManager {
+	private services: Map<string, DevService> = new Map()
+
+	constructor(private readonly cwd: string) {}
+
+	/**
+	 * Read the workspace's service declarations.
+	 * @returns The services by name, or none when the workspace has no services file
+	 * @throws Error if the file isn't valid JSON or doesn't match the schema
+	 */
+	async readConfig(): Promise<Record<string, DevServiceConfig>> {
+		const filePath = path.join(this.cwd, DEV_SERVICES_FILE)
+		if (!(await fileExistsAtPath(filePath))) {
+			return {}
+		}
+
+		let json: unknown
+		try {
+			json = JSON.parse(await fs.readFile(filePath, "utf-8"))
+		} catch (error) {
+			throw new Error(`Invalid JSON in ${DEV_SERVICES_FILE}: ${error.message}`)
+		}
+
+		const result = DevServicesSettingsSchema.safeParse(json)
+		if (!result.success) {
+			const issues = result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+			throw new Error(`Invalid ${DEV_SERVICES_FILE}: ${issues.join("; ")}`)
+		}
+		return result.data.services
+	}
+
+	/**
+	 * Names of the services the workspace declares. Returns none if the services file is invalid.
+	 */
+	async getServiceNames(): Promise<string[]> {
+		try {
+			return Object.keys(await this.readConfig())
+		} catch {
+			return []
+		}
+	}
+
+	/**
+	 * Start a service, or keep using it if it's already running, and wait until it's ready.
+	 * The declaration is read again on every start, so edits apply after a restart.
+	 * @param name The service name
+	 * @throws Error if the service isn't declared, exits before it's ready, or isn't ready in time
+	 */
+	async start(name: string): Promise<void> {
+		const config = (await this.readConfig())[name]
+		if (!config) {
+			throw new Error(`No service named "${name}" in ${DEV_SERVICES_FILE}.`)
+		}
+
+		let service = this.services.get(name)
+		if (!service || !this.isRunning(service)) {
+			service = {
+				name,
+				config,
+				status: "starting",
+				logs: service?.logs ?? [],
+				buffer: "",
+				patternMatched: false,
+				restarts: 0,
+			}
+			this.services.set(name, service)
+			this.spawnService(service)
+		}
+
+		await this.waitForReady(service)
+	}
+
+	/**
+	 * Stop a service and the processes it started.
+	 * @param name The service name
+	 * @returns true if the service was running
+	 */
+	async stop(name: string): Promise<boolean> {
+		const service = this.services.get(name)
+		if (!service || !this.isRunning(service)) {
+			return false
+		}
+
+		if (service.restartTimer) {
+			clearTimeout(service.restartTimer)
+			service.restartTimer = undefined
+		}
+		service.status = "stopped"
+		this.appendLog(service, "[cline] Stopped")
+
+		const child = service.child
+		if (child?.pid && child.exitCode === null && child.signalCode === null) {
+			await terminateProcessTree({
+				pid: child.pid,
+				childProcess: child,
+				isCompleted: () => child.exitCode !== null || child.signalCode !== null,
+			})
+		}
+		return true
+	}
+
+	/**
+	 * Stop a service if it's running, then start it again and wait until it's ready.
+	 * @param name The service name
+	 */
+	async restart(name: string): Promise<void> {
+		await this.stop(name)
+		await this.start(name)
+	}
+
+	/**
+	 * Stop every running service. Called when the task ends.
+	 */
+	async stopAll(): Promise<void> {
+		await Promise.all(Array.from(this.services.keys()).map((name) => this.stop(name)))
+	}
+
+	/**
+	 * Get a service's status, or undefined if it hasn't been started in this task.
+	 */
+	getStatus(name: string): DevServiceStatus | undefined {
+		return this.services.get(name)?.status
+	}
+
+	/**
+	 * Get the last lines a service printed, or undefined if it hasn't been started in this task.
+	 * @param name The service name
+	 * @param lineCount Maximum number of lines to return
+	 */
+	getLogs(name: string, lineCount: number = DEFAULT_LOG_TAIL_LINES): string | undefined {
+		const service = this.services.get(name)
+		if (!service) {
+			return undefined
+		}
+		const lines = service.buffer ? [...service.logs, service.buffer] : service.logs
+		return lines.slice(-lineCount).join("\n")
+	}
+
+	/**
+	 * Get a summary string for environment details.
+	 * Lists the declared services with their status.
+	 */
+	async getSummary(): Promise<string> {
+		let config: Record<string, DevServiceConfig>
+		try {
+			config = await this.readConfig()
+		} catch (error) {
+			return `# Services\n${error.message}`
+		}
+
+		const names = Object.keys(config)
+		if (names.length === 0) {
+			return ""
+		}
+
+		const lines = ["# Services (managed with the manage_service tool)"]
+		for (const name of names) {
+			const service = this.services.get(name)
+			let status: string = service?.status ?? "not started"
+			if (service?.status === "exited") {
+				status = `exited with code ${service.exitCode}${service.restartTimer ? ", restarting" : ""}`
+			}
+			lines.push(`- ${name}: ${status} (${config[name].command})`)
+		}
+		return lines.join("\n")
+	}
+
+	private isRunning(service: DevService): boolean {
+		return service.status === "starting" || service.status === "ready" || !!service.restartTimer
+	}
+
+	private spawnService(service: DevService): void {
+		const { config } = service
+		service.status = "starting"
+		service.patternMatched = false
+		service.exitCode = undefined
+		this.appendLog(service, `[cline] Starting: ${config.command}`)
+
+		const child = spawn(config.command, {
+			cwd: path.resolve(this.cwd, config.cwd ?? "."),
+			env: { ...process.env, ...config.env },
+			shell: true,
+			stdio: ["ignore", "pipe", "pipe"],
+			// A process group of its own lets stop() end everything the service started
+			detached: process.platform !== "win32",
+		})
+		service.child = child
+
+		child.stdout?.on("data", (data: Buffer) => this.handleOutput(service, data.toString()))
+		child.stderr?.on("data", (data: Buffer) => this.handleOutput(service, data.toString()))
+		child.on("error", (error: Error) => {
+			this.appendLog(service, `[cline] Failed to start: ${error.message}`)
+			this.handleExit(service, child, null)
+		})
+		child.on("close", (code: number | null) => this.handleExit(service, child, code))
+
+		this.monitorReadiness(service, child)
+	}
+
+	private handleOutput(service: DevService, data: string): void {
+		service.buffer += stripAnsi(data)
+		let lineEndIndex: number
+		while ((lineEndIndex = service.buffer.indexOf("\n")) !== -1) {
+			const line = service.buffer.slice(0, lineEndIndex).trimEnd()
+			service.buffer = service.buffer.slice(lineEndIndex + 1)
+			this.appendLog(service, line)
+
+			const pattern = service.config.readiness?.pattern
+			if (pattern && !service.patternMatched && new RegExp(pattern).test(line)) {
+				service.patternMatched = true
+			}
+		}
+	}
+
+	private handleExit(service: DevService, child: ChildProcess, code: number | null): void {
+		// Ignore processes that were replaced by a restart, and repeated exit events
+		if (service.child !== child) {
+			return
+		}
+		service.child = undefined
+		if (service.buffer) {
+			this.appendLog(service, service.buffer.trimEnd())
+			service.buffer = ""
+		}
+		if (service.status === "stopped") {
+			return
+		}
+
+		service.status = "exited"
+		service.exitCode = code
+		this.appendLog(service, `[cline] Exited with code ${code}`)
+
+		const { restart, maxRestarts } = service.config
+		const shouldRestart = restart === "always" || (restart === "on-failure" && code !== 0)
+		if (shouldRestart && service.restarts < maxRestarts) {
+			service.restarts++
+			this.appendLog(service, `[cline] Restarting (${service.restarts}/${maxRestarts})`)
+			service.restartTimer = setTimeout(() => {
+				service.restartTimer = undefined
+				this.spawnService(service)
+			}, RESTART_DELAY_MS)
+		}
+	}
+
+	/**
+	 * Run the readiness checks until they pass, the process exits, or the timeout passes.
+	 * Runs for every (re)start, so a service that restarts on its own becomes ready again too.
+	 */
+	private async monitorReadiness(service: DevService, child: ChildProcess): Promise<void> {
+		const timeoutSeconds = service.config.readiness?.timeoutSeconds ?? DEFAULT_READINESS_TIMEOUT_SECONDS
+		const deadline = Date.now() + timeoutSeconds * 1000
+		const isCurrent = () => service.child === child && service.status === "starting"
+
+		while (isCurrent() && Date.now() < deadline) {
+			if ((await this.passesReadinessChecks(service)) && isCurrent()) {
+				service.status = "ready"
+				return
+			}
+			await new Promise((resolve) => setTimeout(resolve, READINESS_POLL_INTERVAL_MS))
+		}
+		if (isCurrent()) {
+			this.appendLog(service, `[cline] Not ready after ${timeoutSeconds}s`)
+		}
+	}
+
+	private async waitForReady(service: DevService): Promise<void> {
+		const timeoutSeconds = service.config.readiness?.timeoutSeconds ?? DEFAULT_READINESS_TIMEOUT_SECONDS
+		const deadline = Date.now() + timeoutSeconds * 1000
+
+		while (service.status === "starting" || (service.status === "exited" && service.restartTimer)) {
+			if (Date.now() >= deadline) {
+				throw new Error(`Service "${service.name}" did not become ready within ${timeoutSeconds}s. It is still running.`)
+			}
+			await new Promise((resolve) => setTimeout(resolve, READINESS_POLL_INTERVAL_MS))
+		}
+
+		if (service.status === "exited") {
+			throw new Error(`Service "${service.name}" exited with code ${service.exitCode} before it was ready.`)
+		}
+		if (service.status === "stopped") {
+			throw new Error(`Service "${service.name}" was stopped before it was ready.`)
+		}
+	}
+
+	private async passesReadinessChecks(service: DevService): Promise<boolean> {
+		const readiness = service.config.readiness
+		if (!readiness) {
+			return true
+		}
+		if (readiness.pattern && !service.patternMatched) {
+			return false
+		}
+		if (readiness.port && !(await isPortOpen(readiness.port, readiness.host ?? "localhost"))) {
+			return false
+		}
+		if (readiness.url && !(await isUrlResponding(readiness.url))) {
+			return false
+		}
+		return true
+	}
+
+	private appendLog(service: DevService, line: string): void {
+		service.logs.push(line)
+		if (service.logs.length > MAX_LOG_LINES) {
+			service.logs.splice(0, service.logs.length - MAX_LOG_LINES)
+		}
+	}
+}
+
+function isPortOpen(port: number, host: string): Promise<boolean> {
+	return new Promise((resolve) => {
+		const socket = net.connect({ port, host })
+		const done = (open: boolean) => {
+			socket.destroy()
+			resolve(open)
+		}
+		socket.setTimeout(PROBE_TIMEOUT_MS, () => done(false))
+		socket.once("connect", () => done(true))
+		socket.once("error", () => done(false))
+	})
+}
+
+// Probes go straight to the service rather than through the configured proxy, since they're usually local
+function isUrlResponding(url: string): Promise<boolean> {
+	return new Promise((resolve) => {
+		const request = (url.startsWith("https:") ? https : http).get(url, { timeout: PROBE_TIMEOUT_MS }, (response) => {
+			response.resume()
+			resolve((response.statusCode ?? 500) < 500)
+		})
+		request.on("timeout", () => request.destroy())
+		request.on("error", () => resolve(false))
+	})
+}
@@ -0,0 +1,87 @@
+import { expect } from "chai"
+import fs from "fs/promises"
+import { afterEach, beforeEach, describe, it } from "mocha"
+import * as os from "os"
+import * as path from "path"
+import { DevServiceManager } from "../DevServiceManager"
+
+describe("DevServiceManager", function () {
+	this.timeout(15_000)
+
+	let tmpDir: string
+	let manager: DevServiceManager
+
+	const writeServices = async (services: Record<string, unknown>) => {
+		await fs.mkdir(path.join(tmpDir, ".cline"), { recursive: true })
+		await fs.writeFile(path.join(tmpDir, ".cline", "services.json"), JSON.stringify({ services }))
+	}
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "cline-dev-services-"))
+		manager = new DevServiceManager(tmpDir)
+	})
+
+	afterEach(async () => {
+		await manager.stopAll()
+		await fs.rm(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should have no services without a services file", async () => {
+		expect(await manager.getServiceNames()).to.deep.equal([])
+		expect(await manager.getSummary()).to.equal("")
+	})
+
+	it("should wait for the readiness pattern and keep the service's output", async () => {
+		await writeServices({
+			web: {
+				command: `echo booting; sleep 1; echo "listening on 3000"; sleep 30`,
+				readiness: { pattern: "listening on \\d+" },
+			},
+		})
+
+		await manager.start("web")
+
+		expect(manager.getStatus("web")).to.equal("ready")
+		expect(manager.getLogs("web")).to.contain("booting").and.contain("listening on 3000")
+		expect(await manager.getSummary()).to.contain("- web: ready")
+
+		expect(await manager.stop("web")).to.equal(true)
+		expect(manager.getStatus("web")).to.equal("stopped")
+		expect(await manager.stop("web")).to.equal(false)
+	})
+
+	it("should fail when the service exits before it's ready", async () => {
+		await writeServices({ broken: { command: "echo oops; exit 3", readiness: { pattern: "ready" } } })
+
+		const error = await manager.start("broken").catch((error: Error) => error)
+
+		expect((error as Error).message).to.equal(`Service "broken" exited with code 3 before it was ready.`)
+		expect(manager.getLogs("broken")).to.contain("oops")
+	})
+
+	it("should restart a failing service up to its restart limit", async () => {
+		await writeServices({
+			flaky: { command: "exit 1", readiness: { pattern: "ready" }, restart: "on-failure", maxRestarts: 1 },
+		})
+
+		await manager.start("flaky").catch(() => {})
+
+		const logs = manager.getLogs("flaky") ?? ""
+		expect(logs).to.contain("[cline] Restarting (1/1)")
+		expect(logs.match(/\[cline\] Starting/g)).to.have.length(2)
+		expect(manager.getStatus("flaky")).to.equal("exited")
+	})
+
+	it("should reject unknown services and invalid declarations", async () => {
+		await writeServices({ web: { command: "sleep 30" } })
+		const unknown = await manager.start("api").catch((error: Error) => error)
+		expect((unknown as Error).message).to.equal(`No service named "api" in ${path.join(".cline", "services.json")}.`)
+		expect(manager.getLogs("api")).to.equal(undefined)
+
+		await writeServices({ web: { command: "sleep 30", readiness: { pattern: "(" } } })
+		expect(await manager.getServiceNames()).to.deep.equal([])
+		expect(await manager.getSummary()).to.contain(
+			"services.web.readiness.pattern: Pattern must be a valid regular expression",
+		)
+	})
+})
@@ -0,0 +1,56 @@
+import * as path from "path"
+import { z } from "zod"
+
+/**
+ * Workspace file declaring the long-running services (dev servers, watchers, databases) Cline can manage,
+ * relative to the workspace root
+ */
+export const DEV_SERVICES_FILE = path.join(".cline", "services.json")
+
+export const DEFAULT_READINESS_TIMEOUT_SECONDS = 60
+export const DEFAULT_MAX_RESTARTS = 3
+
+function isValidRegex(pattern: string): boolean {
+	try {
+		new RegExp(pattern)
+		return true
+	} catch {
+		return false
+	}
+}
+
+/**
+ * How a service signals it's ready. Every check that is set has to pass.
+ * Without any, a service is ready as soon as it starts.
+ */
+export const ReadinessSchema = z.object({
+	/** Regular expression matched against each line the service prints */
+	pattern: z.string().refine(isValidRegex, "Pattern must be a valid regular expression").optional(),
+	/** TCP port that accepts connections once the service is up */
+	port: z.number().int().min(1).max(65535).optional(),
+	/** Host to probe the port on */
+	host: z.string().optional(),
+	/** URL that answers with a non-5xx status once the service is up */
+	url: z.string().url("URL must be a valid URL format").optional(),
+	timeoutSeconds: z.number().positive().optional().default(DEFAULT_READINESS_TIMEOUT_SECONDS),
+})
+
+export const DevServiceConfigSchema = z.object({
+	command: z.string().min(1),
+	/** Working directory, relative to the workspace root */
+	cwd: z.string().optional(),
+	env: z.record(z.string()).optional(),
+	readiness: ReadinessSchema.optional(),
+	/** Whether to start the service again when it exits on its own */
+	restart: z.enum(["never", "on-failure", "always"]).optional().default("never"),
+	maxRestarts: z.number().int().min(0).optional().default(DEFAULT_MAX_RESTARTS),
+})
+
+export const DevServicesSettingsSchema = z.object({
+	services: z.record(
+		z.string().regex(/^[\w-]+$/, "Service names may only contain letters, digits, _ and -"),
+		DevServiceConfigSchema,
+	),
+})
+
+export type DevServiceConfig = z.infer<typeof DevServiceConfigSchema>
@@ -23,6 +23,7 @@ import { ClineToolResponseContent } from "@shared/messages"
 import { orchestrateCommandExecution } from "./CommandOrchestrator"
 import { StandaloneTerminalManager } from "./standalone/StandaloneTerminalManager"
 import type {
+	BackgroundCommandInput,
 	CommandExecutorCallbacks,
 	CommandExecutorConfig,
 	ITerminalManager,
@@ -125,7 +126,11 @@ export class CommandExecutor {
 		// Get terminal and run command
 		const terminalInfo = await manager.getOrCreateTerminal(this.cwd)
 		terminalInfo.terminal.show()
-		const process = manager.runCommand(terminalInfo, command)
+		// Commands in the hidden background terminal keep their input open so the model can
+		// answer prompts after "Proceed While Running". Subagents never need input.
+		const process = manager.runCommand(terminalInfo, command, {
+			interactive: !isSubagent && this.terminalExecutionMode === "backgroundExec",
+		})
 
 		// Reset cancellation flag and track the current process
 		this.wasCancelledExternally = false
@@ -238,6 +243,15 @@ export class CommandExecutor {
 		return this.standaloneManager.hasActiveBackgroundCommands()
 	}
 
+	/**
+	 * Send input to an interactive background command by session name.
+	 * Delegates to StandaloneTerminalManager.
+	 * @returns The command's recent output
+	 */
+	async sendBackgroundCommandInput(name: string, input: BackgroundCommandInput): Promise<string> {
+		return this.standaloneManager.sendBackgroundCommandInput(name, input)
+	}
+
 	/**
 	 * Get a summary of background commands for environment details.
 	 * Delegates to StandaloneTerminalManager which tracks multiple commands.
@@ -79,6 +79,15 @@ export const DEFAULT_SUBAGENT_TERMINAL_OUTPUT_LINE_LIMIT = 2000
 /** Hard timeout for background commands to prevent zombie processes (10 minutes) */
 export const BACKGROUND_COMMAND_TIMEOUT_MS = 10 * 60 * 1000
 
+/** Lines of recent output returned after sending input to an interactive background command */
+export const BACKGROUND_INPUT_OUTPUT_LINES = 50
+
+/** Quiet period after which a background command is considered to have answered input */
+export const BACKGROUND_INPUT_SETTLE_MS = 300
+
+/** Maximum time to wait for a background command to answer input (3 seconds) */
+export const BACKGROUND_INPUT_MAX_WAIT_MS = 3_000
+
 // =============================================================================
 // Compilation Detection Markers
 // =============================================================================
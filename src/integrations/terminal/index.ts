@@ -36,6 +36,8 @@ export type {
 	// Command Executor types
 	ActiveBackgroundCommand,
 	AskResponse,
+	BackgroundCommand,
+	BackgroundCommandInput,
 	CommandExecutorCallbacks,
 	CommandExecutorConfig,
 	FullCommandExecutorConfig,
@@ -47,8 +49,10 @@ export type {
 	// Command Orchestrator types
 	OrchestrationOptions,
 	OrchestrationResult,
+	RunCommandOptions,
 	StandaloneTerminalOptions,
 	TerminalInfo,
+	TerminalInputSignal,
 	TerminalProcessEvents,
 	TerminalProcessResultPromise,
 } from "./types"
@@ -10,6 +10,7 @@
  * - Tracks command status (running, completed, error, timed_out)
  * - Implements 10-minute hard timeout to prevent zombie processes
  * - Provides summary for environment details
+ * - Forwards input and signals to interactive commands by session name
  */
 
 import * as fs from "fs"
@@ -17,10 +18,20 @@ import * as os from "os"
 import * as path from "path"
 import {
 	BACKGROUND_COMMAND_TIMEOUT_MS,
+	BACKGROUND_INPUT_MAX_WAIT_MS,
+	BACKGROUND_INPUT_OUTPUT_LINES,
+	BACKGROUND_INPUT_SETTLE_MS,
 	DEFAULT_SUBAGENT_TERMINAL_OUTPUT_LINE_LIMIT,
 	DEFAULT_TERMINAL_OUTPUT_LINE_LIMIT,
 } from "../constants"
-import type { BackgroundCommand, ITerminalManager, TerminalInfo, TerminalProcessResultPromise } from "../types"
+import type {
+	BackgroundCommand,
+	BackgroundCommandInput,
+	ITerminalManager,
+	RunCommandOptions,
+	TerminalInfo,
+	TerminalProcessResultPromise,
+} from "../types"
 import { StandaloneTerminalProcess } from "./StandaloneTerminalProcess"
 import { StandaloneTerminalRegistry } from "./StandaloneTerminalRegistry"
 
@@ -101,17 +112,21 @@ export class StandaloneTerminalManager implements ITerminalManager {
 	/** Map of background command ID to timeout handle */
 	private backgroundTimeouts: Map<string, NodeJS.Timeout> = new Map()
 
+	/** Number of background commands tracked so far, used to number session names */
+	private backgroundCommandCount: number = 0
+
 	/**
 	 * Run a command in the specified terminal.
 	 * @param terminalInfo The terminal to run the command in
 	 * @param command The command to execute
+	 * @param options Set interactive to keep the command's input open under a pseudo-terminal
 	 * @returns A promise-like object that emits events and resolves on completion
 	 */
-	runCommand(terminalInfo: TerminalInfo, command: string): TerminalProcessResultPromise {
+	runCommand(terminalInfo: TerminalInfo, command: string, options: RunCommandOptions = {}): TerminalProcessResultPromise {
 		terminalInfo.busy = true
 		terminalInfo.lastCommand = command
 
-		const process = new StandaloneTerminalProcess()
+		const process = new StandaloneTerminalProcess({ interactive: options.interactive })
 		this.processes.set(terminalInfo.id, process)
 
 		process.once("completed", () => {
@@ -435,6 +450,7 @@ export class StandaloneTerminalManager implements ITerminalManager {
 
 		const backgroundCommand: BackgroundCommand = {
 			id,
+			name: this.createSessionName(command),
 			command,
 			startTime: Date.now(),
 			status: "running",
@@ -519,6 +535,13 @@ export class StandaloneTerminalManager implements ITerminalManager {
 		return this.backgroundCommands.get(id)
 	}
 
+	/**
+	 * Get a specific background command by its session name.
+	 */
+	getBackgroundCommandByName(name: string): BackgroundCommand | undefined {
+		return this.getAllBackgroundCommands().find((c) => c.name === name)
+	}
+
 	/**
 	 * Get all tracked background commands.
 	 */
@@ -575,9 +598,60 @@ export class StandaloneTerminalManager implements ITerminalManager {
 		return true
 	}
 
+	/**
+	 * Send input to an interactive background command and return its recent output.
+	 * Waits until the command stops printing (or BACKGROUND_INPUT_MAX_WAIT_MS passes) so the output
+	 * includes its answer. Without text or a signal, just returns the recent output.
+	 *
+	 * @param name The session name of the background command
+	 * @param input The text and/or signal to send
+	 * @returns The last lines of the command's output
+	 * @throws Error if no running interactive command has that name
+	 */
+	async sendBackgroundCommandInput(name: string, input: BackgroundCommandInput): Promise<string> {
+		const command = this.getBackgroundCommandByName(name)
+		if (!command) {
+			const names = this.getRunningBackgroundCommands().map((c) => c.name)
+			throw new Error(
+				`No background session named "${name}". ${names.length > 0 ? `Running sessions: ${names.join(", ")}` : "No sessions are running."}`,
+			)
+		}
+
+		const { process } = command
+		const getRecentOutput = () => process.getRecentOutput?.(BACKGROUND_INPUT_OUTPUT_LINES) ?? ""
+		const hasInput = input.text !== undefined || input.signal !== undefined
+		if (!hasInput) {
+			return getRecentOutput()
+		}
+		if (command.status !== "running") {
+			throw new Error(`Background session "${name}" has exited (${command.status}) and no longer accepts input.`)
+		}
+		if (!process.acceptsInput || !process.write || !process.sendSignal) {
+			throw new Error(`Background session "${name}" was not started in interactive mode and does not accept input.`)
+		}
+
+		if (input.text !== undefined) {
+			process.write(input.text)
+		}
+		if (input.signal) {
+			process.sendSignal(input.signal)
+		}
+
+		// Wait for the output to settle so it includes the command's response
+		const deadline = Date.now() + BACKGROUND_INPUT_MAX_WAIT_MS
+		let previousOutput: string | undefined
+		let output = getRecentOutput()
+		while (output !== previousOutput && command.status === "running" && Date.now() < deadline) {
+			await new Promise((resolve) => setTimeout(resolve, BACKGROUND_INPUT_SETTLE_MS))
+			previousOutput = output
+			output = getRecentOutput()
+		}
+		return output
+	}
+
 	/**
 	 * Get a summary string for environment details.
-	 * Shows running background commands with duration, line count, and log paths.
+	 * Shows running background commands with session name, duration, line count, and log paths.
 	 */
 	getBackgroundCommandsSummary(): string {
 		const running = this.getRunningBackgroundCommands()
@@ -588,11 +662,33 @@ export class StandaloneTerminalManager implements ITerminalManager {
 		const lines = [`# Background Commands (${running.length} running)`]
 		for (const c of running) {
 			const duration = Math.round((Date.now() - c.startTime) / 1000 / 60)
-			lines.push(`- ${c.command} (running ${duration}m, ${c.lineCount} lines, log: ${c.logFilePath})`)
+			const interactive = c.process.acceptsInput ? ", accepts input" : ""
+			lines.push(
+				`- [${c.name}] ${c.command} (running ${duration}m, ${c.lineCount} lines${interactive}, log: ${c.logFilePath})`,
+			)
 		}
 		return lines.join("\n")
 	}
 
+	/**
+	 * Create a short, unique session name from the program a command runs (e.g. "npm-1").
+	 * @param command The command string
+	 * @returns The session name
+	 */
+	private createSessionName(command: string): string {
+		this.backgroundCommandCount++
+		// Skip a leading `cd <dir> &&` so the name reflects the program that was started
+		const program = path
+			.basename(
+				command
+					.replace(/^\s*cd\s+[^&;]+(?:&&|;)/, "")
+					.trim()
+					.split(/\s+/)[0] || "",
+			)
+			.replace(/[^\w.-]/g, "")
+		return `${program || "command"}-${this.backgroundCommandCount}`
+	}
+
 	/**
 	 * Clean up all background command resources.
 	 * Called when disposing the manager.
@@ -5,12 +5,17 @@
  * outside of VSCode (CLI, JetBrains). It spawns child processes and streams
  * their output through events.
  *
+ * Interactive processes run under a pseudo-terminal (via the `script` utility on
+ * Linux and macOS) with their input kept open, so prompts from tools like
+ * `npm init` or a REPL can be answered through write() and sendSignal().
+ *
  * Implements ITerminalProcess interface for polymorphic usage with CommandExecutor.
  */
 
 import { telemetryService } from "@services/telemetry"
 import { ChildProcess, spawn } from "child_process"
 import { EventEmitter } from "events"
+import { stripAnsi } from "@/hosts/vscode/terminal/ansiUtils"
 import { terminateProcessTree } from "@/utils/process-termination"
 
 import {
@@ -21,7 +26,7 @@ import {
 	PROCESS_HOT_TIMEOUT_NORMAL,
 	TRUNCATE_KEEP_LINES,
 } from "../constants"
-import type { ITerminal, ITerminalProcess, TerminalProcessEvents } from "../types"
+import type { ITerminal, ITerminalProcess, TerminalInputSignal, TerminalProcessEvents } from "../types"
 
 /**
  * Manages the execution of a command in a standalone terminal environment.
@@ -67,8 +72,15 @@ export class StandaloneTerminalProcess extends EventEmitter<TerminalProcessEvent
 	/** Whether the process has completed */
 	private isCompleted: boolean = false
 
-	constructor() {
+	/** Whether the process's input is kept open for write() and sendSignal() */
+	readonly acceptsInput: boolean
+
+	/** Whether the process runs under a pseudo-terminal */
+	private usesPty: boolean = false
+
+	constructor(options: { interactive?: boolean } = {}) {
 		super()
+		this.acceptsInput = options.interactive ?? false
 	}
 
 	/**
@@ -88,15 +100,17 @@ export class StandaloneTerminalProcess extends EventEmitter<TerminalProcessEvent
 			// Create shell options
 			const shellOptions: {
 				cwd: string
-				stdio: ["ignore", "pipe", "pipe"]
+				stdio: ["ignore" | "pipe", "pipe", "pipe"]
 				env: NodeJS.ProcessEnv
 				shell?: boolean
 			} = {
 				cwd: cwd,
-				stdio: ["ignore", "pipe", "pipe"], // Disable STDIN to prevent interactivity
+				// Disable STDIN to prevent interactivity, unless the caller will answer prompts
+				stdio: [this.acceptsInput ? "pipe" : "ignore", "pipe", "pipe"],
 				env: {
 					...process.env,
-					TERM: "xterm-256color",
+					// Interactive output is read by the model, so ask tools not to draw colors and cursor movements
+					...(this.acceptsInput ? { TERM: "dumb", NO_COLOR: "1" } : { TERM: "xterm-256color" }),
 					PAGER: "cat", // Prevent less from being used, reducing interactivity
 					EDITOR: process.env.EDITOR || "cat", // Set EDITOR if not already set
 					GIT_PAGER: "cat", // Prevent git from using less
@@ -111,6 +125,15 @@ export class StandaloneTerminalProcess extends EventEmitter<TerminalProcessEvent
 
 				// Spawn the process with special handling for "cmd.exe"
 				this.childProcess = spawn("cmd.exe", shellArgs, shellOptions)
+			} else if (this.acceptsInput && process.platform !== "win32") {
+				// Run the shell under a pseudo-terminal so commands prompt for input as they would in a terminal
+				this.usesPty = true
+				const pty = this.getPtyInvocation(shell, command)
+				this.childProcess = spawn("script", pty.args, {
+					...shellOptions,
+					env: { ...shellOptions.env, ...pty.env },
+					detached: true,
+				})
 			} else {
 				// Spawn the process with detached: true to create a process group
 				// This allows us to kill the entire process tree when terminating
@@ -125,7 +148,7 @@ export class StandaloneTerminalProcess extends EventEmitter<TerminalProcessEvent
 
 			// Handle stdout
 			this.childProcess.stdout?.on("data", (data: Buffer) => {
-				const output = data.toString()
+				const output = this.normalizeOutput(data.toString())
 				this.handleOutput(output, didEmitEmptyLine)
 				if (!didEmitEmptyLine && output) {
 					this.emit("line", "") // Signal start of output
@@ -135,7 +158,7 @@ export class StandaloneTerminalProcess extends EventEmitter<TerminalProcessEvent
 
 			// Handle stderr
 			this.childProcess.stderr?.on("data", (data: Buffer) => {
-				const output = data.toString()
+				const output = this.normalizeOutput(data.toString())
 				this.handleOutput(output, didEmitEmptyLine)
 				if (!didEmitEmptyLine && output) {
 					this.emit("line", "")
@@ -178,6 +201,15 @@ export class StandaloneTerminalProcess extends EventEmitter<TerminalProcessEvent
 		}
 	}
 
+	/**
+	 * Strip the escape sequences and carriage returns a pseudo-terminal adds to output.
+	 * @param data The output data
+	 * @returns The output as plain text
+	 */
+	private normalizeOutput(data: string): string {
+		return this.usesPty ? stripAnsi(data).replace(/\r\n/g, "\n") : data
+	}
+
 	/**
 	 * Handle output from the process.
 	 * @param data The output data
@@ -277,6 +309,57 @@ export class StandaloneTerminalProcess extends EventEmitter<TerminalProcessEvent
 		return this.removeLastLineArtifacts(unretrieved)
 	}
 
+	/**
+	 * Get the last lines of output without marking them as retrieved.
+	 * Includes a trailing line without a newline, such as a prompt waiting for input.
+	 * @param lineCount Maximum number of lines to return
+	 * @returns The recent output
+	 */
+	getRecentOutput(lineCount: number): string {
+		return this.fullOutput.trimEnd().split("\n").slice(-lineCount).join("\n")
+	}
+
+	/**
+	 * Write text to the process's input.
+	 * @param text The text to write
+	 * @throws Error if the process isn't interactive or has exited
+	 */
+	write(text: string): void {
+		const stdin = this.childProcess?.stdin
+		if (!this.acceptsInput || this.isCompleted || !stdin?.writable) {
+			throw new Error("The process is not accepting input")
+		}
+		stdin.write(text)
+	}
+
+	/**
+	 * Send a control signal to the process.
+	 * Under a pseudo-terminal the control character is typed, so the terminal delivers it to
+	 * whichever program is in the foreground. Otherwise Ctrl-C interrupts the process group
+	 * and EOF closes the input.
+	 * @param signal The signal to send
+	 * @throws Error if the process isn't interactive or has exited
+	 */
+	sendSignal(signal: TerminalInputSignal): void {
+		if (this.usesPty) {
+			this.write(signal === "ctrl_c" ? "\x03" : "\x04")
+			return
+		}
+
+		const stdin = this.childProcess?.stdin
+		if (!this.acceptsInput || this.isCompleted || !this.childProcess || !stdin?.writable) {
+			throw new Error("The process is not accepting input")
+		}
+		if (signal === "eof") {
+			stdin.end()
+		} else if (this.childProcess.pid && process.platform !== "win32") {
+			// The process was spawned detached, so its negative PID addresses the whole group
+			process.kill(-this.childProcess.pid, "SIGINT")
+		} else {
+			this.childProcess.kill("SIGINT")
+		}
+	}
+
 	/**
 	 * Remove shell prompt artifacts from the end of output.
 	 * @param output The output to clean
@@ -322,6 +405,33 @@ export class StandaloneTerminalProcess extends EventEmitter<TerminalProcessEvent
 		}
 	}
 
+	/**
+	 * Get the arguments and extra environment for running a command under `script`, which
+	 * allocates the pseudo-terminal.
+	 * @param shell The shell path
+	 * @param command The command to execute
+	 * @returns The `script` arguments and environment variables to add
+	 */
+	private getPtyInvocation(shell: string, command: string): { args: string[]; env: NodeJS.ProcessEnv } {
+		if (process.platform === "darwin") {
+			// BSD script takes the program to run after the typescript file
+			return { args: ["-q", "/dev/null", shell, ...this.getShellArgs(shell, command)], env: {} }
+		}
+		// util-linux script runs its -c string with $SHELL, so run a small sh wrapper that takes the
+		// real shell and command from the environment instead of quoting them. -e returns the command's exit code.
+		return {
+			args: [
+				"-q",
+				"-e",
+				"-f",
+				"-c",
+				'SHELL="$CLINE_PTY_SHELL" exec "$CLINE_PTY_SHELL" -l -c "$CLINE_PTY_COMMAND"',
+				"/dev/null",
+			],
+			env: { SHELL: "/bin/sh", CLINE_PTY_SHELL: shell, CLINE_PTY_COMMAND: command },
+		}
+	}
+
 	/**
 	 * Terminate the process and all its children.
 	 *
@@ -0,0 +1,89 @@
+import { expect } from "chai"
+import { once } from "events"
+import { afterEach, beforeEach, describe, it } from "mocha"
+import * as os from "os"
+import type { TerminalInfo } from "../../types"
+import { StandaloneTerminalManager } from "../StandaloneTerminalManager"
+
+describe("StandaloneTerminalManager background input", function () {
+	// The pseudo-terminal comes from the `script` utility, which Windows doesn't have
+	if (process.platform === "win32") {
+		return
+	}
+	this.timeout(15_000)
+
+	let manager: StandaloneTerminalManager
+	let terminalInfo: TerminalInfo
+
+	beforeEach(async () => {
+		manager = new StandaloneTerminalManager()
+		terminalInfo = await manager.getOrCreateTerminal(os.tmpdir())
+		;(terminalInfo.terminal as any)._shellPath = "/bin/sh"
+	})
+
+	afterEach(() => {
+		manager.disposeAll()
+	})
+
+	const startInBackground = (command: string, interactive = true) => {
+		const process = manager.runCommand(terminalInfo, command, { interactive })
+		process.continue()
+		return manager.trackBackgroundCommand(process, command)
+	}
+
+	// Resolves once the command has printed a line containing text, so input isn't sent before it is read
+	const waitForLine = (command: ReturnType<typeof startInBackground>, text: string) =>
+		new Promise<void>((resolve) => {
+			const onLine = (line: string) => {
+				if (line.includes(text)) {
+					command.process.off("line", onLine)
+					resolve()
+				}
+			}
+			command.process.on("line", onLine)
+		})
+
+	it("should answer a prompt from an interactive command and return its response", async () => {
+		const command = startInBackground(`echo "name?"; read name; echo "hello $name"; sleep 5`)
+		await waitForLine(command, "name?")
+
+		expect(await manager.sendBackgroundCommandInput(command.name, {})).to.contain("name?")
+
+		const output = await manager.sendBackgroundCommandInput(command.name, { text: "cline\n" })
+
+		expect(output).to.contain("hello cline")
+	})
+
+	it("should interrupt an interactive command with ctrl_c", async () => {
+		const command = startInBackground("echo started; sleep 30")
+		const completed = once(command.process, "completed")
+		await waitForLine(command, "started")
+
+		await manager.sendBackgroundCommandInput(command.name, { signal: "ctrl_c" })
+		await completed
+
+		expect(command.status).to.equal("completed")
+	})
+
+	it("should name sessions after the program they run", () => {
+		const first = startInBackground(`cd "${os.tmpdir()}" && sleep 5`)
+		const second = startInBackground("/bin/sleep 5")
+
+		expect(first.name).to.equal("sleep-1")
+		expect(second.name).to.equal("sleep-2")
+		expect(manager.getBackgroundCommandByName("sleep-2")).to.equal(second)
+		expect(manager.getBackgroundCommandsSummary()).to.contain("- [sleep-2] /bin/sleep 5 (running 0m, 0 lines, accepts input")
+	})
+
+	it("should reject input for unknown sessions and commands that weren't started interactively", async () => {
+		const command = startInBackground("sleep 5", false)
+
+		const unknown = await manager.sendBackgroundCommandInput("npm-9", { text: "y\n" }).catch((error: Error) => error)
+		expect((unknown as Error).message).to.equal(`No background session named "npm-9". Running sessions: ${command.name}`)
+
+		const notInteractive = await manager
+			.sendBackgroundCommandInput(command.name, { text: "y\n" })
+			.catch((error: Error) => error)
+		expect((notInteractive as Error).message).to.contain("was not started in interactive mode")
+	})
+})
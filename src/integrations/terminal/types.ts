@@ -66,8 +66,40 @@ export interface ITerminalProcess extends EventEmitter<TerminalProcessEvents> {
 	 * May be async to allow for graceful shutdown with SIGKILL fallback.
 	 */
 	terminate?(): void | Promise<void>
+
+	/**
+	 * Whether the process reads input written through write() and sendSignal().
+	 * Only interactive standalone processes do.
+	 */
+	acceptsInput?: boolean
+
+	/**
+	 * Write text to the process's input.
+	 * Only available for interactive standalone processes.
+	 */
+	write?(text: string): void
+
+	/**
+	 * Send a control signal to the process, as if typed in a terminal.
+	 * Only available for interactive standalone processes.
+	 */
+	sendSignal?(signal: TerminalInputSignal): void
+
+	/**
+	 * Get the last lines of output, including a prompt that hasn't ended with a newline yet.
+	 * Unlike getUnretrievedOutput(), this doesn't mark the output as retrieved.
+	 * Only available for standalone processes.
+	 */
+	getRecentOutput?(lineCount: number): string
 }
 
+/**
+ * Control signals that can be sent to an interactive process:
+ * - 'ctrl_c': Interrupt (SIGINT)
+ * - 'eof': End of input (Ctrl-D)
+ */
+export type TerminalInputSignal = "ctrl_c" | "eof"
+
 // =============================================================================
 // Terminal Types
 // =============================================================================
@@ -156,9 +188,10 @@ export interface ITerminalManager {
 	 * Run a command in the specified terminal.
 	 * @param terminalInfo The terminal to run the command in
 	 * @param command The command to execute
+	 * @param options Optional settings for how the command runs
 	 * @returns A promise-like object that emits events and resolves on completion
 	 */
-	runCommand(terminalInfo: TerminalInfo, command: string): TerminalProcessResultPromise
+	runCommand(terminalInfo: TerminalInfo, command: string, options?: RunCommandOptions): TerminalProcessResultPromise
 
 	/**
 	 * Get or create a terminal for the specified working directory.
@@ -233,6 +266,17 @@ export interface ITerminalManager {
 	processOutput(outputLines: string[], overrideLimit?: number, isSubagentCommand?: boolean): string
 }
 
+/**
+ * Options for running a command.
+ */
+export interface RunCommandOptions {
+	/**
+	 * Run the command in a pseudo-terminal with its input kept open, so it can be answered
+	 * after "Proceed While Running". Only supported by StandaloneTerminalManager.
+	 */
+	interactive?: boolean
+}
+
 /**
  * Options for creating a standalone terminal.
  */
@@ -256,6 +300,8 @@ export interface StandaloneTerminalOptions {
 export interface BackgroundCommand {
 	/** Unique identifier for the background command */
 	id: string
+	/** Short session name the model uses to address the command (e.g. "npm-1") */
+	name: string
 	/** The command string being executed */
 	command: string
 	/** Timestamp when the command started */
@@ -272,6 +318,17 @@ export interface BackgroundCommand {
 	process: TerminalProcessResultPromise
 }
 
+/**
+ * Input sent to an interactive background command.
+ * The text is written first, then the signal.
+ */
+export interface BackgroundCommandInput {
+	/** Text to write to the command's input */
+	text?: string
+	/** Control signal to send */
+	signal?: TerminalInputSignal
+}
+
 // =============================================================================
 // Command Executor Types
 // =============================================================================
@@ -1,4 +1,5 @@
 import { setTimeout as setTimeoutPromise } from "node:timers/promises"
+import { pathToFileURL } from "node:url"
 import { sendMcpServersUpdate } from "@core/controller/mcp/subscribeToMcpServers"
 import { GlobalFileNames } from "@core/storage/disk"
 import { StateManager } from "@core/storage/StateManager"
@@ -9,21 +10,36 @@ import { getDefaultEnvironment, StdioClientTransport } from "@modelcontextprotoc
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
 import {
 	CallToolResultSchema,
+	CreateMessageRequestSchema,
+	ElicitRequestFormParams,
+	ElicitRequestSchema,
+	ErrorCode,
+	GetPromptResultSchema,
+	ListPromptsResultSchema,
 	ListResourcesResultSchema,
 	ListResourceTemplatesResultSchema,
+	ListRootsRequestSchema,
 	ListToolsResultSchema,
+	McpError,
+	PromptListChangedNotificationSchema,
 	ReadResourceResultSchema,
+	Root,
 } from "@modelcontextprotocol/sdk/types.js"
 import {
 	DEFAULT_MCP_TIMEOUT_SECONDS,
+	McpPrompt,
+	McpPromptResponse,
 	McpResource,
 	McpResourceResponse,
 	McpResourceTemplate,
 	McpServer,
+	McpServerSource,
 	McpTool,
 	McpToolCallResponse,
+	McpToolProgress,
 	MIN_MCP_TIMEOUT_SECONDS,
 } from "@shared/mcp"
+import { WorkspaceRoot } from "@shared/multi-root/types"
 import { convertMcpServersToProtoMcpServers } from "@shared/proto-conversions/mcp/mcp-server-conversion"
 import { fileExistsAtPath } from "@utils/fs"
 import { secondsToMs } from "@utils/time"
@@ -42,8 +58,9 @@ import { getServerAuthHash } from "@/utils/mcpAuth"
 import { TelemetryService } from "../telemetry/TelemetryService"
 import { DEFAULT_REQUEST_TIMEOUT_MS } from "./constants"
 import { McpOAuthManager } from "./McpOAuthManager"
+import { getTrustFingerprint, mergeMcpServers, PROJECT_MCP_SETTINGS_FILE, requiresTrust } from "./projectSettings"
 import { BaseConfigSchema, McpSettingsSchema, ServerConfigSchema } from "./schemas"
-import { McpConnection, McpServerConfig, Transport } from "./types"
+import { McpClientRequestHandler, McpConnection, McpServerConfig, Transport } from "./types"
 export class McpHub {
 	getMcpServersPath: () => Promise<string>
 	private getSettingsDirectoryPath: () => Promise<string>
@@ -87,6 +104,24 @@ export class McpHub {
 	// Callback for sending notifications to active task
 	private notificationCallback?: (serverName: string, level: string, message: string) => void
 
+	// Serves sampling and elicitation requests from servers while a task is active
+	private clientRequestHandler?: McpClientRequestHandler
+
+	// Workspace folders advertised to servers as MCP roots
+	private roots: Root[] = []
+
+	// Primary workspace root, whose .cline/mcp.json is merged over the global settings
+	private projectDirectory?: string
+
+	// Where each configured server comes from, in settings order
+	private serverSources: Record<string, McpServerSource> = {}
+
+	// Workspace servers the user declined to trust, so they aren't asked about again this session
+	private declinedProjectServers = new Set<string>()
+
+	// Settings reloads run one at a time so concurrent changes don't connect a server twice
+	private pendingReload: Promise<void> = Promise.resolve()
+
 	constructor(
 		getMcpServersPath: () => Promise<string>,
 		getSettingsDirectoryPath: () => Promise<string>,
@@ -99,7 +134,7 @@ export class McpHub {
 		this.telemetryService = telemetryService
 		this.mcpOAuthManager = new McpOAuthManager()
 		this.watchMcpSettingsFile()
-		this.initializeMcpServers()
+		this.reloadMcpServers()
 	}
 
 	getServers(): McpServer[] {
@@ -190,10 +225,191 @@ export class McpHub {
 		}
 	}
 
+	/**
+	 * Path of the workspace's MCP settings file, if a workspace is open
+	 */
+	getProjectMcpSettingsFilePath(): string | undefined {
+		return this.projectDirectory ? path.join(this.projectDirectory, PROJECT_MCP_SETTINGS_FILE) : undefined
+	}
+
+	/**
+	 * Reads the server entries of the workspace's `.cline/mcp.json`. Entries are left unvalidated
+	 * since overrides only carry the fields they change.
+	 */
+	private async readProjectMcpSettingsFile(interactive = false): Promise<Record<string, Record<string, unknown>>> {
+		const settingsPath = this.getProjectMcpSettingsFilePath()
+		if (!settingsPath || !(await fileExistsAtPath(settingsPath))) {
+			return {}
+		}
+
+		try {
+			const config = JSON.parse(await fs.readFile(settingsPath, "utf-8"))
+			const servers = config?.mcpServers
+			if (servers && typeof servers === "object" && !Array.isArray(servers)) {
+				return Object.fromEntries(
+					Object.entries(servers).filter(([, entry]) => entry && typeof entry === "object" && !Array.isArray(entry)),
+				) as Record<string, Record<string, unknown>>
+			}
+		} catch (error) {
+			console.error(`Failed to read ${settingsPath}:`, error)
+		}
+		if (interactive) {
+			HostProvider.window.showMessage({
+				type: ShowMessageType.ERROR,
+				message: `Invalid MCP settings in ${PROJECT_MCP_SETTINGS_FILE}. Please ensure it has an "mcpServers" object.`,
+			})
+		}
+		return {}
+	}
+
+	/**
+	 * Reads the global settings with the workspace's `.cline/mcp.json` merged on top, and records
+	 * where each server comes from. Workspace servers and overrides the user hasn't trusted are left out;
+	 * when interactive, the user is asked to trust them and told about invalid workspace entries.
+	 */
+	private async readMcpSettings(interactive = false): Promise<z.infer<typeof McpSettingsSchema> | undefined> {
+		const settings = await this.readAndValidateMcpSettingsFile()
+		if (!settings) {
+			return undefined
+		}
+
+		const projectServers = await this.readProjectMcpSettingsFile(interactive)
+		const merged = mergeMcpServers(settings.mcpServers, projectServers)
+		const candidates: Array<[string, McpServerConfig, McpServerSource]> = []
+		for (const [name, entry] of Object.entries(merged.servers)) {
+			const source = merged.sources[name]
+			if (source === "global") {
+				candidates.push([name, entry as McpServerConfig, source])
+				continue
+			}
+
+			const result = ServerConfigSchema.safeParse(expandEnvironmentVariables(entry))
+			if (result.success) {
+				candidates.push([name, result.data, source])
+				continue
+			}
+			if (interactive) {
+				HostProvider.window.showMessage({
+					type: ShowMessageType.ERROR,
+					message: `Invalid MCP server "${name}" in ${PROJECT_MCP_SETTINGS_FILE}: ${result.error.issues[0]?.message}`,
+				})
+			}
+			// An invalid override leaves the global server as it is
+			if (settings.mcpServers[name]) {
+				candidates.push([name, settings.mcpServers[name], "global"])
+			}
+		}
+
+		// Fingerprints of the workspace's servers and overrides that need the user's trust
+		const fingerprints = new Map<string, string>()
+		for (const [name, config, source] of candidates) {
+			if (source !== "global" && requiresTrust(projectServers[name], source)) {
+				fingerprints.set(name, getTrustFingerprint(name, config))
+			}
+		}
+		const trusted = this.getTrustedProjectServers()
+		const untrusted = [...fingerprints.entries()].filter(([, fingerprint]) => !trusted.has(fingerprint))
+		if (interactive && untrusted.some(([, fingerprint]) => !this.declinedProjectServers.has(fingerprint))) {
+			await this.askToTrustProjectServers(
+				candidates.filter(([name]) => untrusted.some(([untrustedName]) => untrustedName === name)),
+			)
+		}
+
+		const mcpServers: Record<string, McpServerConfig> = {}
+		const sources: Record<string, McpServerSource> = {}
+		const nowTrusted = this.getTrustedProjectServers()
+		for (const [name, config, source] of candidates) {
+			const fingerprint = fingerprints.get(name)
+			if (fingerprint && !nowTrusted.has(fingerprint)) {
+				// An untrusted override leaves the global server as it is
+				if (settings.mcpServers[name]) {
+					mcpServers[name] = settings.mcpServers[name]
+					sources[name] = "global"
+				}
+				continue
+			}
+			mcpServers[name] = config
+			sources[name] = source
+		}
+		this.serverSources = sources
+
+		return { mcpServers }
+	}
+
+	/**
+	 * Asks the user whether to use the servers and overrides a workspace adds. Trusted servers are remembered
+	 * per workspace until what they run, connect to or auto-approve changes.
+	 */
+	private async askToTrustProjectServers(servers: Array<[string, McpServerConfig, McpServerSource]>): Promise<void> {
+		const projectDirectory = this.projectDirectory
+		if (!projectDirectory) {
+			return
+		}
+
+		const fingerprints = servers.map(([name, config]) => getTrustFingerprint(name, config))
+		const details = servers.map(([name, config]) => {
+			const target = config.type === "stdio" ? [config.command, ...(config.args ?? [])].join(" ") : config.url
+			const autoApprove = config.autoApprove?.length ? `, auto-approves ${config.autoApprove.join(", ")}` : ""
+			return `${name}: ${target}${autoApprove}${config.disabled ? ", disabled" : ""}`
+		})
+		const response = await HostProvider.window.showMessage({
+			type: ShowMessageType.WARNING,
+			message: `${path.basename(projectDirectory)} configures MCP servers in ${PROJECT_MCP_SETTINGS_FILE} that can run commands on your machine, send your headers to other hosts or run tools without asking. Only trust them if you trust this repository.`,
+			options: { modal: true, items: ["Trust", "Don't Trust"], detail: details.join("\n") },
+		})
+
+		if (response.selectedOption !== "Trust") {
+			fingerprints.forEach((fingerprint) => this.declinedProjectServers.add(fingerprint))
+			return
+		}
+		const stateManager = StateManager.get()
+		const trustedServers = stateManager.getGlobalStateKey("mcpTrustedProjectServers") ?? {}
+		stateManager.setGlobalState("mcpTrustedProjectServers", {
+			...trustedServers,
+			[projectDirectory]: [...new Set([...(trustedServers[projectDirectory] ?? []), ...fingerprints])],
+		})
+	}
+
+	private getTrustedProjectServers(): Set<string> {
+		if (!this.projectDirectory) {
+			return new Set()
+		}
+		return new Set(StateManager.get().getGlobalStateKey("mcpTrustedProjectServers")?.[this.projectDirectory])
+	}
+
+	/**
+	 * Settings file a server's entry is written to: the workspace's `.cline/mcp.json` for servers
+	 * it adds or overrides, the global settings file otherwise
+	 */
+	private async getSettingsFilePathForServer(serverName: string): Promise<string> {
+		const projectSettingsPath = this.getProjectMcpSettingsFilePath()
+		if (projectSettingsPath && serverName in (await this.readProjectMcpSettingsFile())) {
+			return projectSettingsPath
+		}
+		return this.getMcpSettingsFilePath()
+	}
+
+	/**
+	 * Updates a server's entry in the settings file it comes from
+	 */
+	private async updateServerSettings(serverName: string, update: (entry: Record<string, any>) => void): Promise<void> {
+		const settingsPath = await this.getSettingsFilePathForServer(serverName)
+		const content = await fs.readFile(settingsPath, "utf-8")
+		const config = JSON.parse(content)
+
+		if (!config.mcpServers?.[serverName]) {
+			throw new Error(`Server "${serverName}" not found in settings`)
+		}
+		update(config.mcpServers[serverName])
+
+		await fs.writeFile(settingsPath, JSON.stringify(config, null, 2))
+	}
+
 	private async watchMcpSettingsFile(): Promise<void> {
 		const settingsPath = await this.getMcpSettingsFilePath()
+		const projectSettingsPath = this.getProjectMcpSettingsFilePath()
 
-		this.settingsWatcher = chokidar.watch(settingsPath, {
+		this.settingsWatcher = chokidar.watch(projectSettingsPath ? [settingsPath, projectSettingsPath] : settingsPath, {
 			persistent: true, // Keep the process running as long as files are being watched
 			ignoreInitial: true, // Don't fire 'add' events when discovering the file initially
 			awaitWriteFinish: {
@@ -204,20 +420,17 @@ export class McpHub {
 			atomic: true, // Handle atomic writes where editors write to a temp file then rename (prevents duplicate events)
 		})
 
-		this.settingsWatcher.on("change", async () => {
+		// The workspace's settings file may be created or removed while it's watched
+		this.settingsWatcher.on("all", async (event) => {
+			if (event !== "change" && event !== "add" && event !== "unlink") {
+				return
+			}
 			// Skip processing if we're updating Cline-specific settings (autoApprove, timeout)
 			if (this.isUpdatingClineSettings) {
 				return
 			}
 
-			const settings = await this.readAndValidateMcpSettingsFile()
-			if (settings) {
-				try {
-					await this.updateServerConnections(settings.mcpServers)
-				} catch (error) {
-					console.error("Failed to process MCP settings change:", error)
-				}
-			}
+			await this.reloadMcpServers()
 		})
 
 		this.settingsWatcher.on("error", (error) => {
@@ -225,11 +438,43 @@ export class McpHub {
 		})
 	}
 
-	private async initializeMcpServers(): Promise<void> {
-		const settings = await this.readAndValidateMcpSettingsFile()
-		if (settings) {
-			await this.updateServerConnections(settings.mcpServers)
+	/**
+	 * Reads the merged settings and connects, updates or removes servers to match them
+	 */
+	private reloadMcpServers(): Promise<void> {
+		this.pendingReload = this.pendingReload.then(async () => {
+			try {
+				const settings = await this.readMcpSettings(true)
+				if (settings) {
+					await this.updateServerConnections(settings.mcpServers)
+				}
+			} catch (error) {
+				console.error("Failed to process MCP settings change:", error)
+			}
+		})
+		return this.pendingReload
+	}
+
+	/**
+	 * Switches the workspace whose `.cline/mcp.json` is merged over the global settings
+	 */
+	private async setProjectDirectory(projectDirectory: string | undefined): Promise<void> {
+		if (projectDirectory === this.projectDirectory) {
+			return
 		}
+
+		const previousSettingsPath = this.getProjectMcpSettingsFilePath()
+		this.projectDirectory = projectDirectory
+		const settingsPath = this.getProjectMcpSettingsFilePath()
+		if (previousSettingsPath) {
+			this.settingsWatcher?.unwatch(previousSettingsPath)
+		}
+		if (settingsPath) {
+			this.settingsWatcher?.add(settingsPath)
+		}
+
+		// Servers reconnect in the background so starting a task doesn't wait on them or on the trust prompt
+		this.reloadMcpServers()
 	}
 
 	private findConnection(name: string, _source: "rpc" | "internal"): McpConnection | undefined {
@@ -316,10 +561,31 @@ export class McpHub {
 					version: this.clientVersion,
 				},
 				{
-					capabilities: {},
+					capabilities: {
+						roots: { listChanged: true },
+						sampling: {},
+						elicitation: { form: {} },
+					},
 				},
 			)
 
+			client.setRequestHandler(ListRootsRequestSchema, async () => ({ roots: this.roots }))
+
+			client.setRequestHandler(CreateMessageRequestSchema, async (request, extra) => {
+				if (!this.clientRequestHandler) {
+					throw new McpError(ErrorCode.InvalidRequest, "Sampling is only available while a Cline task is running")
+				}
+				return this.clientRequestHandler.createMessage(name, request.params, extra.signal)
+			})
+
+			client.setRequestHandler(ElicitRequestSchema, async (request, extra) => {
+				// URL-mode elicitation is not advertised, so the SDK only lets form requests through
+				if (!this.clientRequestHandler || (request.params.mode ?? "form") !== "form") {
+					return { action: "cancel" }
+				}
+				return this.clientRequestHandler.elicit(name, request.params as ElicitRequestFormParams, extra.signal)
+			})
+
 			let transport: StdioClientTransport | SSEClientTransport | StreamableHTTPClientTransport
 
 			// Create OAuth provider for remote transports (SSE and HTTP)
@@ -582,6 +848,12 @@ export class McpHub {
 				})
 				//console.log(`[MCP Debug] Successfully set notifications/message handler for ${name}`)
 
+				// Keep the prompts offered as slash commands current
+				connection.client.setNotificationHandler(PromptListChangedNotificationSchema, async () => {
+					connection.server.prompts = await this.fetchPromptsList(name)
+					await this.notifyWebviewOfServerChanges()
+				})
+
 				// Also set a fallback handler for any other notification types
 				connection.client.fallbackNotificationHandler = async (notification: any) => {
 					//console.log(`[MCP Fallback Notification] ${name}:`, JSON.stringify(notification, null, 2))
@@ -601,6 +873,7 @@ export class McpHub {
 			connection.server.tools = await this.fetchToolsList(name)
 			connection.server.resources = await this.fetchResourcesList(name)
 			connection.server.resourceTemplates = await this.fetchResourceTemplatesList(name)
+			connection.server.prompts = await this.fetchPromptsList(name)
 		} catch (error) {
 			// Update status with error
 			const connection = this.findConnection(name, source)
@@ -635,10 +908,8 @@ export class McpHub {
 			})
 
 			// Get autoApprove settings
-			const settingsPath = await this.getMcpSettingsFilePath()
-			const content = await fs.readFile(settingsPath, "utf-8")
-			const config = JSON.parse(content)
-			const autoApproveConfig = config.mcpServers[serverName]?.autoApprove || []
+			const settings = await this.readMcpSettings()
+			const autoApproveConfig = settings?.mcpServers[serverName]?.autoApprove || []
 
 			// Mark tools as always allowed based on settings
 			const tools = (response?.tools || []).map((tool) => ({
@@ -696,6 +967,25 @@ export class McpHub {
 		}
 	}
 
+	private async fetchPromptsList(serverName: string): Promise<McpPrompt[]> {
+		try {
+			const connection = this.connections.find((conn) => conn.server.name === serverName)
+
+			// Disabled servers don't have clients, and servers without the prompts capability can't list any
+			if (!connection || connection.server.disabled || !connection.client?.getServerCapabilities()?.prompts) {
+				return []
+			}
+
+			const response = await connection.client.request({ method: "prompts/list" }, ListPromptsResultSchema, {
+				timeout: DEFAULT_REQUEST_TIMEOUT_MS,
+			})
+			return response?.prompts || []
+		} catch (error) {
+			console.error(`Failed to fetch prompts for ${serverName}:`, error)
+			return []
+		}
+	}
+
 	async deleteConnection(name: string): Promise<void> {
 		const connection = this.connections.find((conn) => conn.server.name === name)
 		if (connection) {
@@ -940,7 +1230,7 @@ export class McpHub {
 
 		this.isConnecting = false
 
-		const config = await this.readAndValidateMcpSettingsFile()
+		const config = await this.readMcpSettings()
 		if (!config) {
 			throw new Error("Failed to read or validate MCP settings")
 		}
@@ -997,15 +1287,12 @@ export class McpHub {
 				const indexB = serverOrder.indexOf(b.server.name)
 				return indexA - indexB
 			})
-			.map((connection) => connection.server)
+			.map((connection) => ({ ...connection.server, source: this.serverSources[connection.server.name] }))
 	}
 
 	private async notifyWebviewOfServerChanges(): Promise<void> {
-		// servers should always be sorted in the order they are defined in the settings file
-		const settingsPath = await this.getMcpSettingsFilePath()
-		const content = await fs.readFile(settingsPath, "utf-8")
-		const config = JSON.parse(content)
-		const serverOrder = Object.keys(config.mcpServers || {})
+		// servers should always be sorted in the order they are defined in the settings files
+		const serverOrder = Object.keys(this.serverSources)
 
 		// Get sorted servers
 		const sortedServers = this.getSortedMcpServers(serverOrder)
@@ -1021,7 +1308,7 @@ export class McpHub {
 	}
 
 	async getLatestMcpServersRPC(): Promise<McpServer[]> {
-		const settings = await this.readAndValidateMcpSettingsFile()
+		const settings = await this.readMcpSettings()
 		if (!settings) {
 			// Return empty array if settings can't be read or validated
 			return []
@@ -1037,16 +1324,15 @@ export class McpHub {
 
 	public async toggleServerDisabledRPC(serverName: string, disabled: boolean): Promise<McpServer[]> {
 		try {
-			const config = await this.readAndValidateMcpSettingsFile()
+			const config = await this.readMcpSettings()
 			if (!config) {
 				throw new Error("Failed to read or validate MCP settings")
 			}
 
 			if (config.mcpServers[serverName]) {
-				config.mcpServers[serverName].disabled = disabled
-
-				const settingsPath = await this.getMcpSettingsFilePath()
-				await fs.writeFile(settingsPath, JSON.stringify(config, null, 2))
+				await this.updateServerSettings(serverName, (entry) => {
+					entry.disabled = disabled
+				})
 
 				const connection = this.connections.find((conn) => conn.server.name === serverName)
 				if (connection) {
@@ -1096,11 +1382,41 @@ export class McpHub {
 		)
 	}
 
+	async getPrompt(serverName: string, promptName: string, args: Record<string, string>): Promise<McpPromptResponse> {
+		const connection = this.connections.find((conn) => conn.server.name === serverName)
+		if (!connection) {
+			throw new Error(`No connection found for server: ${serverName}`)
+		}
+		if (connection.server.disabled) {
+			throw new Error(`Server "${serverName}" is disabled`)
+		}
+
+		return (await connection.client.request(
+			{
+				method: "prompts/get",
+				params: {
+					name: promptName,
+					arguments: args,
+				},
+			},
+			GetPromptResultSchema,
+			{
+				timeout: DEFAULT_REQUEST_TIMEOUT_MS,
+			},
+		)) as McpPromptResponse
+	}
+
 	async callTool(
 		serverName: string,
 		toolName: string,
 		toolArguments: Record<string, unknown> | undefined,
 		ulid: string,
+		options?: {
+			// Called with each notifications/progress the server sends for the call
+			onProgress?: (progress: McpToolProgress) => void
+			// Aborting sends notifications/cancelled to the server
+			signal?: AbortSignal
+		},
 	): Promise<McpToolCallResponse> {
 		const connection = this.connections.find((conn) => conn.server.name === serverName)
 		if (!connection) {
@@ -1144,6 +1460,11 @@ export class McpHub {
 				CallToolResultSchema,
 				{
 					timeout,
+					// A progress token is only sent when there's a handler for its notifications
+					onprogress: options?.onProgress,
+					// A server reporting progress is still working, so the timeout restarts with each notification
+					resetTimeoutOnProgress: true,
+					signal: options?.signal,
 				},
 			)
 
@@ -1184,16 +1505,13 @@ export class McpHub {
 		// Set flag to prevent file watcher from triggering during our update
 		this.isUpdatingClineSettings = true
 		try {
-			const settingsPath = await this.getMcpSettingsFilePath()
-			const content = await fs.readFile(settingsPath, "utf-8")
-			const config = JSON.parse(content)
-
-			// Initialize autoApprove if it doesn't exist
-			if (!config.mcpServers[serverName].autoApprove) {
-				config.mcpServers[serverName].autoApprove = []
+			const config = await this.readMcpSettings()
+			if (!config?.mcpServers[serverName]) {
+				throw new Error(`Server "${serverName}" not found in settings`)
 			}
 
-			const autoApprove = config.mcpServers[serverName].autoApprove
+			// Start from the merged list so a workspace override keeps the global server's approvals
+			const autoApprove = [...(config.mcpServers[serverName].autoApprove || [])]
 			for (const toolName of toolNames) {
 				const toolIndex = autoApprove.indexOf(toolName)
 
@@ -1206,7 +1524,9 @@ export class McpHub {
 				}
 			}
 
-			await fs.writeFile(settingsPath, JSON.stringify(config, null, 2))
+			await this.updateServerSettings(serverName, (entry) => {
+				entry.autoApprove = autoApprove
+			})
 
 			// Update the tools list to reflect the change
 			const connection = this.connections.find((conn) => conn.server.name === serverName)
@@ -1237,16 +1557,13 @@ export class McpHub {
 		// Set flag to prevent file watcher from triggering during our update
 		this.isUpdatingClineSettings = true
 		try {
-			const settingsPath = await this.getMcpSettingsFilePath()
-			const content = await fs.readFile(settingsPath, "utf-8")
-			const config = JSON.parse(content)
-
-			// Initialize autoApprove if it doesn't exist
-			if (!config.mcpServers[serverName].autoApprove) {
-				config.mcpServers[serverName].autoApprove = []
+			const config = await this.readMcpSettings()
+			if (!config?.mcpServers[serverName]) {
+				throw new Error(`Server "${serverName}" not found in settings`)
 			}
 
-			const autoApprove = config.mcpServers[serverName].autoApprove
+			// Start from the merged list so a workspace override keeps the global server's approvals
+			const autoApprove = [...(config.mcpServers[serverName].autoApprove || [])]
 			for (const toolName of toolNames) {
 				const toolIndex = autoApprove.indexOf(toolName)
 
@@ -1259,7 +1576,9 @@ export class McpHub {
 				}
 			}
 
-			await fs.writeFile(settingsPath, JSON.stringify(config, null, 2))
+			await this.updateServerSettings(serverName, (entry) => {
+				entry.autoApprove = autoApprove
+			})
 
 			// Update the tools list to reflect the change
 			const connection = this.connections.find((conn) => conn.server.name === serverName)
@@ -1292,7 +1611,7 @@ export class McpHub {
 		transportType: string = "streamableHttp",
 	): Promise<McpServer[]> {
 		try {
-			const settings = await this.readAndValidateMcpSettingsFile()
+			const settings = await this.readMcpSettings()
 			if (!settings) {
 				throw new Error("Failed to read MCP settings")
 			}
@@ -1318,7 +1637,13 @@ export class McpHub {
 
 			const parsedConfig = ServerConfigSchema.parse(expandedConfig)
 
+			// Remote servers are added to the global settings file; the merged settings also hold the workspace's servers
+			const globalSettings = await this.readAndValidateMcpSettingsFile()
+			if (!globalSettings) {
+				throw new Error("Failed to read MCP settings")
+			}
 			settings.mcpServers[serverName] = parsedConfig
+			this.serverSources[serverName] = "global"
 			const settingsPath = await this.getMcpSettingsFilePath()
 
 			// We don't write the zod-transformed version to the file.
@@ -1328,7 +1653,7 @@ export class McpHub {
 			// ToDo: We could benefit from input / output types reflecting the non-transformed / transformed versions
 			await fs.writeFile(
 				settingsPath,
-				JSON.stringify({ mcpServers: { ...settings.mcpServers, [serverName]: serverConfig } }, null, 2),
+				JSON.stringify({ mcpServers: { ...globalSettings.mcpServers, [serverName]: serverConfig } }, null, 2),
 			)
 
 			await this.updateServerConnectionsRPC(settings.mcpServers)
@@ -1351,7 +1676,8 @@ export class McpHub {
 			// Clear OAuth data BEFORE removing from config (while we still have the connection/URL)
 			await this.clearOAuthForConnection(serverName)
 
-			const settingsPath = await this.getMcpSettingsFilePath()
+			// Deleting a workspace override brings back the global server it overrode
+			const settingsPath = await this.getSettingsFilePathForServer(serverName)
 			const content = await fs.readFile(settingsPath, "utf-8")
 			const config = JSON.parse(content)
 			if (!config.mcpServers || typeof config.mcpServers !== "object") {
@@ -1364,10 +1690,11 @@ export class McpHub {
 					mcpServers: config.mcpServers,
 				}
 				await fs.writeFile(settingsPath, JSON.stringify(updatedConfig, null, 2))
-				await this.updateServerConnectionsRPC(config.mcpServers)
+				const settings = await this.readMcpSettings()
+				await this.updateServerConnectionsRPC(settings?.mcpServers ?? {})
 
 				// Get the servers in their correct order from settings
-				const serverOrder = Object.keys(config.mcpServers || {})
+				const serverOrder = Object.keys(settings?.mcpServers || {})
 				return this.getSortedMcpServers(serverOrder)
 			} else {
 				throw new Error(`${serverName} not found in MCP configuration`)
@@ -1388,20 +1715,9 @@ export class McpHub {
 				throw new Error(`Invalid timeout value: ${timeout}. Must be at minimum ${MIN_MCP_TIMEOUT_SECONDS} seconds.`)
 			}
 
-			const settingsPath = await this.getMcpSettingsFilePath()
-			const content = await fs.readFile(settingsPath, "utf-8")
-			const config = JSON.parse(content)
-
-			if (!config.mcpServers?.[serverName]) {
-				throw new Error(`Server "${serverName}" not found in settings`)
-			}
-
-			config.mcpServers[serverName] = {
-				...config.mcpServers[serverName],
-				timeout,
-			}
-
-			await fs.writeFile(settingsPath, JSON.stringify(config, null, 2))
+			await this.updateServerSettings(serverName, (entry) => {
+				entry.timeout = timeout
+			})
 
 			// Update in-memory config to reflect the new timeout
 			const connection = this.connections.find((conn) => conn.server.name === serverName)
@@ -1411,7 +1727,7 @@ export class McpHub {
 				connection.server.config = JSON.stringify(currentConfig)
 			}
 
-			const serverOrder = Object.keys(config.mcpServers || {})
+			const serverOrder = Object.keys(this.serverSources)
 			return this.getSortedMcpServers(serverOrder)
 		} catch (error) {
 			console.error("Failed to update server timeout:", error)
@@ -1463,6 +1779,48 @@ export class McpHub {
 		//console.log("[MCP Debug] Notification callback cleared")
 	}
 
+	/**
+	 * Set the workspace folders advertised as MCP roots. Connected servers are sent
+	 * roots/list_changed when they differ from the ones advertised before. The primary
+	 * root's `.cline/mcp.json` is merged over the global settings.
+	 */
+	async setWorkspaceRoots(workspaceRoots: WorkspaceRoot[], primaryRootPath = workspaceRoots[0]?.path): Promise<void> {
+		await this.setProjectDirectory(primaryRootPath)
+
+		const roots: Root[] = workspaceRoots.map((root) => ({
+			uri: pathToFileURL(root.path).href,
+			name: root.name || path.basename(root.path),
+		}))
+		if (deepEqual(roots, this.roots)) {
+			return
+		}
+		this.roots = roots
+
+		await Promise.all(
+			this.connections
+				.filter((conn) => conn.server.status === "connected" && !conn.server.disabled)
+				.map((conn) =>
+					conn.client.sendRootsListChanged().catch((error) => {
+						console.error(`Failed to notify ${conn.server.name} of changed roots:`, error)
+					}),
+				),
+		)
+	}
+
+	/**
+	 * Set the handler for sampling and elicitation requests from servers
+	 */
+	setClientRequestHandler(handler: McpClientRequestHandler): void {
+		this.clientRequestHandler = handler
+	}
+
+	/**
+	 * Clear the sampling and elicitation handler; servers' requests are refused until a task sets one again
+	 */
+	clearClientRequestHandler(): void {
+		this.clientRequestHandler = undefined
+	}
+
 	/**
 	 * Initiates OAuth flow for a server
 	 * Opens browser to authorization URL
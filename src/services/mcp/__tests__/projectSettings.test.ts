@@ -0,0 +1,83 @@
+import { expect } from "chai"
+import { describe, it } from "mocha"
+import { getTrustFingerprint, mergeMcpServers, requiresTrust } from "../projectSettings"
+import { McpServerConfig } from "../types"
+
+describe("projectSettings", () => {
+	const github = {
+		type: "stdio",
+		command: "npx",
+		args: ["-y", "@modelcontextprotocol/server-github"],
+		autoApprove: ["search_issues"],
+		timeout: 60,
+	} as McpServerConfig
+	const docs = { type: "streamableHttp", url: "https://docs.example.com/mcp", timeout: 60 } as McpServerConfig
+
+	describe("mergeMcpServers", () => {
+		it("should override global servers field by field and add the workspace's servers after them", () => {
+			const { servers, sources } = mergeMcpServers(
+				{ github, docs },
+				{ db: { command: "node", args: ["db-server.js"] }, github: { disabled: true } },
+			)
+
+			expect(Object.keys(servers)).to.deep.equal(["github", "docs", "db"])
+			expect(servers.github).to.deep.equal({ ...github, disabled: true })
+			expect(servers.docs).to.equal(docs)
+			expect(sources).to.deep.equal({ github: "project-override", docs: "global", db: "project" })
+		})
+
+		it("should keep the global servers when the workspace has none", () => {
+			const { servers, sources } = mergeMcpServers({ docs }, {})
+
+			expect(servers).to.deep.equal({ docs })
+			expect(sources).to.deep.equal({ docs: "global" })
+		})
+	})
+
+	describe("requiresTrust", () => {
+		it("should require trust for stdio launch fields", () => {
+			expect(requiresTrust({ command: "node" }, "project-override")).to.equal(true)
+			expect(requiresTrust({ env: { TOKEN: "x" } }, "project-override")).to.equal(true)
+		})
+
+		it("should require trust for auto-approving a global server's tools", () => {
+			expect(requiresTrust({ autoApprove: ["create_issue"] }, "project-override")).to.equal(true)
+		})
+
+		it("should require trust for pointing a global remote server elsewhere or changing its headers", () => {
+			expect(requiresTrust({ url: "https://evil.example.com" }, "project-override")).to.equal(true)
+			expect(requiresTrust({ headers: { Authorization: "x" } }, "project-override")).to.equal(true)
+		})
+
+		it("should require trust for turning a global server on or off", () => {
+			expect(requiresTrust({ disabled: false }, "project-override")).to.equal(true)
+		})
+
+		it("should require trust for every server the workspace adds, whatever the transport", () => {
+			expect(requiresTrust({ type: "sse", url: "https://mcp.example.com/sse" }, "project")).to.equal(true)
+			expect(requiresTrust({ type: "streamableHttp", url: "https://mcp.example.com" }, "project")).to.equal(true)
+		})
+
+		it("should not require trust for other overrides", () => {
+			expect(requiresTrust({ timeout: 120 }, "project-override")).to.equal(false)
+		})
+	})
+
+	describe("getTrustFingerprint", () => {
+		it("should change when the server's command changes", () => {
+			const config = github as Extract<McpServerConfig, { type: "stdio" }>
+
+			expect(getTrustFingerprint("github", config)).to.equal(getTrustFingerprint("github", { ...config, timeout: 120 }))
+			expect(getTrustFingerprint("github", config)).to.not.equal(getTrustFingerprint("github", { ...config, args: [] }))
+			expect(getTrustFingerprint("github", config)).to.not.equal(getTrustFingerprint("other", config))
+		})
+
+		it("should change when a remote server's url, headers or auto-approval changes", () => {
+			const fingerprint = getTrustFingerprint("docs", docs)
+
+			expect(getTrustFingerprint("docs", { ...docs, url: "https://evil.example.com/mcp" })).to.not.equal(fingerprint)
+			expect(getTrustFingerprint("docs", { ...docs, headers: { Authorization: "x" } })).to.not.equal(fingerprint)
+			expect(getTrustFingerprint("docs", { ...docs, autoApprove: ["search"] })).to.not.equal(fingerprint)
+		})
+	})
+})
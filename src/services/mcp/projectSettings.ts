@@ -0,0 +1,68 @@
+import { McpServerSource } from "@shared/mcp"
+import crypto from "crypto"
+import * as path from "path"
+import { McpServerConfig } from "./types"
+
+/**
+ * Workspace-level MCP settings, relative to the primary workspace root. Entries are merged
+ * on top of the global settings file.
+ */
+export const PROJECT_MCP_SETTINGS_FILE = path.join(".cline", "mcp.json")
+
+// Fields that decide what a server runs or connects to, what it's sent and which of its tools run without asking.
+// A workspace entry setting any of them, whatever the transport, needs the user's trust.
+const TRUSTED_FIELDS = ["command", "args", "cwd", "env", "url", "headers", "autoApprove", "disabled"]
+
+export interface MergedMcpServers {
+	servers: Record<string, Record<string, unknown>>
+	sources: Record<string, McpServerSource>
+}
+
+/**
+ * Merges the workspace's server entries over the global ones. An entry with the name of a global
+ * server overrides that server's fields (e.g. `{ "disabled": true }` turns it off in this workspace);
+ * any other entry adds a server. Global servers keep their order, followed by the workspace's.
+ */
+export function mergeMcpServers(
+	globalServers: Record<string, McpServerConfig>,
+	projectServers: Record<string, Record<string, unknown>>,
+): MergedMcpServers {
+	const servers: Record<string, Record<string, unknown>> = {}
+	const sources: Record<string, McpServerSource> = {}
+
+	for (const [name, config] of Object.entries(globalServers)) {
+		servers[name] = config
+		sources[name] = "global"
+	}
+	for (const [name, config] of Object.entries(projectServers)) {
+		if (servers[name]) {
+			servers[name] = { ...servers[name], ...config }
+			sources[name] = "project-override"
+		} else {
+			servers[name] = config
+			sources[name] = "project"
+		}
+	}
+
+	return { servers, sources }
+}
+
+/**
+ * Whether a workspace entry needs the user's trust: every server the workspace adds does, and so does an
+ * override that changes what a global server runs or connects to, its headers, auto-approval or whether it's on
+ */
+export function requiresTrust(projectEntry: Record<string, unknown>, source: McpServerSource): boolean {
+	return source === "project" || TRUSTED_FIELDS.some((field) => field in projectEntry)
+}
+
+/**
+ * Identifies the trusted fields of a server, so a trusted server asks again once any of them changes
+ */
+export function getTrustFingerprint(name: string, config: McpServerConfig): string {
+	const launch = config.type === "stdio" ? [config.command, config.args ?? [], config.cwd ?? "", config.env ?? {}] : []
+	const remote = config.type === "stdio" ? [] : [config.url, config.headers ?? {}]
+	return crypto
+		.createHash("sha256")
+		.update(JSON.stringify([name, ...launch, ...remote, config.autoApprove ?? [], config.disabled ?? false]))
+		.digest("hex")
+}
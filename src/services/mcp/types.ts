@@ -3,6 +3,12 @@ import { Client } from "@modelcontextprotocol/sdk/client/index.js"
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js"
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js"
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
+import type {
+	CreateMessageRequestParams,
+	CreateMessageResult,
+	ElicitRequestFormParams,
+	ElicitResult,
+} from "@modelcontextprotocol/sdk/types.js"
 import { McpServer } from "@shared/mcp"
 import { z } from "zod"
 import { ServerConfigSchema } from "./schemas"
@@ -19,3 +25,12 @@ export type McpConnection = {
 export type McpTransportType = "stdio" | "sse" | "http"
 
 export type McpServerConfig = z.infer<typeof ServerConfigSchema>
+
+/**
+ * Serves the requests that connected servers make of Cline as an MCP client. Set by the active task,
+ * since sampling runs on the task's model and elicitation forms are shown in its chat.
+ */
+export interface McpClientRequestHandler {
+	createMessage(serverName: string, params: CreateMessageRequestParams, signal: AbortSignal): Promise<CreateMessageResult>
+	elicit(serverName: string, params: ElicitRequestFormParams, signal: AbortSignal): Promise<ElicitResult>
+}
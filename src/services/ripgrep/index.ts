@@ -157,6 +157,39 @@ export async function regexSearchFiles(
 	return formatResults(filteredResults, cwd)
 }
 
+/**
+ * Lists the files under `directoryPath` that contain `text` as a literal string, at most `limit` of them.
+ * Used to narrow down which files are worth parsing before looking for a symbol.
+ */
+export async function listFilesContaining(
+	directoryPath: string,
+	text: string,
+	options: { globs?: string[]; wholeWord?: boolean; ignoreCase?: boolean; limit?: number } = {},
+): Promise<string[]> {
+	const args = ["--files-with-matches", "--fixed-strings"]
+	if (options.wholeWord) {
+		args.push("--word-regexp")
+	}
+	if (options.ignoreCase) {
+		args.push("--ignore-case")
+	}
+	for (const glob of options.globs ?? []) {
+		args.push("--glob", glob)
+	}
+	args.push("-e", text, directoryPath)
+
+	let output: string
+	try {
+		output = await execRipgrep(args)
+	} catch (error) {
+		throw Error("Error calling ripgrep", { cause: error })
+	}
+	return output
+		.split("\n")
+		.filter((line) => line)
+		.slice(0, options.limit ?? MAX_RESULTS)
+}
+
 const MAX_RIPGREP_MB = 0.25
 const MAX_BYTE_SIZE = MAX_RIPGREP_MB * 1024 * 1024 // 0./25MB in bytes
 
@@ -1481,9 +1481,9 @@ export class TelemetryService {
 	 * Records when slash commands or workflows are activated
 	 * @param ulid Unique identifier for the task
 	 * @param commandName The name of the command (e.g., "newtask", "reportbug", or custom workflow name)
-	 * @param commandType Whether it's a built-in command or custom workflow
+	 * @param commandType Whether it's a built-in command, custom workflow or MCP prompt
 	 */
-	public captureSlashCommandUsed(ulid: string, commandName: string, commandType: "builtin" | "workflow") {
+	public captureSlashCommandUsed(ulid: string, commandName: string, commandType: "builtin" | "workflow" | "mcp_prompt") {
 		this.capture({
 			event: TelemetryService.EVENTS.TASK.SLASH_COMMAND_USED,
 			properties: {
@@ -1878,11 +1878,22 @@ export class TelemetryService {
 
 	/**
 	 * Records when a mention is successfully used and content is retrieved
-	 * @param mentionType Type of mention (file, folder, url, problems, terminal, git-changes, commit)
+	 * @param mentionType Type of mention (file, folder, url, problems, terminal, git-changes, commit, service, diff, symbol, checkpoint)
 	 * @param contentLength Optional length of content retrieved (for size tracking)
 	 */
 	public captureMentionUsed(
-		mentionType: "file" | "folder" | "url" | "problems" | "terminal" | "git-changes" | "commit",
+		mentionType:
+			| "file"
+			| "folder"
+			| "url"
+			| "problems"
+			| "terminal"
+			| "git-changes"
+			| "commit"
+			| "service"
+			| "diff"
+			| "symbol"
+			| "checkpoint",
 		contentLength?: number,
 	) {
 		this.capture({
@@ -1902,7 +1913,18 @@ export class TelemetryService {
 	 * @param errorMessage Optional error message for debugging (will be truncated)
 	 */
 	public captureMentionFailed(
-		mentionType: "file" | "folder" | "url" | "problems" | "terminal" | "git-changes" | "commit",
+		mentionType:
+			| "file"
+			| "folder"
+			| "url"
+			| "problems"
+			| "terminal"
+			| "git-changes"
+			| "commit"
+			| "service"
+			| "diff"
+			| "symbol"
+			| "checkpoint",
 		errorType: "not_found" | "permission_denied" | "network_error" | "parse_error" | "unknown",
 		errorMessage?: string,
 	) {
@@ -0,0 +1,128 @@
+import type { ClineIgnoreController } from "@core/ignore/ClineIgnoreController"
+import * as ripgrep from "@services/ripgrep"
+import * as fs from "fs/promises"
+import { afterEach, before, beforeEach, describe, it } from "mocha"
+import * as os from "os"
+import * as path from "path"
+import "should"
+import sinon from "sinon"
+import Parser from "web-tree-sitter"
+import * as languageParser from "../languageParser"
+import { typescriptQuery } from "../queries"
+import { findSymbolDefinitions, getSymbolDefinitionContent, searchSymbols } from "../symbols"
+
+// The extension loads grammars from its build output; tests load them from the package
+const loadTypeScriptParser = async (): Promise<languageParser.LanguageParser> => {
+	await Parser.init()
+	const language = await Parser.Language.load(require.resolve("tree-sitter-wasms/out/tree-sitter-typescript.wasm"))
+	const parser = new Parser()
+	parser.setLanguage(language)
+	return { ts: { parser, query: language.query(typescriptQuery) } }
+}
+
+describe("symbols", () => {
+	let workspace: string
+	let parsers: languageParser.LanguageParser
+
+	before(async () => {
+		parsers = await loadTypeScriptParser()
+	})
+
+	beforeEach(async () => {
+		workspace = await fs.mkdtemp(path.join(os.tmpdir(), "symbols-"))
+		await fs.mkdir(path.join(workspace, "src"))
+		await fs.writeFile(
+			path.join(workspace, "src/task.ts"),
+			[
+				"export class TaskManager {",
+				"\tstart() {",
+				'\t\treturn "task"',
+				"\t}",
+				"}",
+				"",
+				"export function startAll() {}",
+			].join("\n"),
+		)
+		await fs.writeFile(
+			path.join(workspace, "src/server.ts"),
+			["export class Server {", "\tstart() {", '\t\treturn "server"', "\t}", "}"].join("\n"),
+		)
+
+		// ripgrep isn't bundled with the tests, so candidate files are found by reading them
+		sinon.stub(ripgrep, "listFilesContaining").callsFake(async (directoryPath, text, options = {}) => {
+			const files = (await fs.readdir(path.join(directoryPath, "src"))).map((file) => path.join(directoryPath, "src", file))
+			const matches: string[] = []
+			for (const file of files) {
+				const content = await fs.readFile(file, "utf8")
+				if (options.ignoreCase ? content.toLowerCase().includes(text.toLowerCase()) : content.includes(text)) {
+					matches.push(file)
+				}
+			}
+			return matches
+		})
+		sinon.stub(languageParser, "loadRequiredLanguageParsers").resolves(parsers)
+	})
+
+	afterEach(async () => {
+		sinon.restore()
+		await fs.rm(workspace, { recursive: true, force: true })
+	})
+
+	describe("findSymbolDefinitions", () => {
+		it("should find a method by its qualified name", async () => {
+			const definitions = await findSymbolDefinitions(workspace, "TaskManager.start")
+
+			definitions.should.deepEqual([
+				{ name: "TaskManager.start", kind: "method", relativePath: "src/task.ts", startLine: 1, endLine: 3 },
+			])
+		})
+
+		it("should return every definition of an ambiguous name", async () => {
+			const definitions = await findSymbolDefinitions(workspace, "start")
+
+			definitions
+				.map((definition) => definition.name)
+				.sort()
+				.should.deepEqual(["Server.start", "TaskManager.start"])
+		})
+
+		it("should find top-level functions and nothing for unknown names", async () => {
+			;(await findSymbolDefinitions(workspace, "startAll"))
+				.map((definition) => definition.name)
+				.should.deepEqual(["startAll"])
+			;(await findSymbolDefinitions(workspace, "Server.startAll")).should.be.empty()
+			;(await findSymbolDefinitions(workspace, "")).should.be.empty()
+		})
+
+		it("should leave out files the .clineignore excludes", async () => {
+			const clineIgnoreController = {
+				filterPaths: (paths: string[]) => paths.filter((file) => !file.endsWith("server.ts")),
+			} as unknown as ClineIgnoreController
+
+			const definitions = await findSymbolDefinitions(workspace, "start", clineIgnoreController)
+
+			definitions.map((definition) => definition.name).should.deepEqual(["TaskManager.start"])
+		})
+	})
+
+	describe("searchSymbols", () => {
+		it("should match qualified names case-insensitively, shortest first", async () => {
+			const symbols = await searchSymbols(workspace, "START")
+
+			symbols.map((symbol) => symbol.name).should.deepEqual(["startAll", "Server.start", "TaskManager.start"])
+			;(await searchSymbols(workspace, "start", 1)).should.have.length(1)
+		})
+	})
+
+	describe("getSymbolDefinitionContent", () => {
+		it("should return the source of each definition with its location", async () => {
+			const content = await getSymbolDefinitionContent(workspace, "TaskManager.start")
+
+			content.should.equal('method TaskManager.start (src/task.ts:2-4)\n\tstart() {\n\t\treturn "task"\n\t}')
+		})
+
+		it("should throw when the symbol isn't defined", async () => {
+			await getSymbolDefinitionContent(workspace, "Missing").should.be.rejectedWith('No definition found for "Missing"')
+		})
+	})
+})
@@ -0,0 +1,81 @@
+import * as path from "path"
+import Parser from "web-tree-sitter"
+import { initializeParser, loadLanguage } from "./languageParser"
+import { goImportQuery, javascriptImportQuery, pythonImportQuery } from "./queries"
+
+export type ImportLanguage = "javascript" | "python" | "go"
+
+const IMPORT_GRAMMARS: Record<string, { grammar: string; language: ImportLanguage; query: string }> = {
+	ts: { grammar: "typescript", language: "javascript", query: javascriptImportQuery },
+	mts: { grammar: "typescript", language: "javascript", query: javascriptImportQuery },
+	cts: { grammar: "typescript", language: "javascript", query: javascriptImportQuery },
+	tsx: { grammar: "tsx", language: "javascript", query: javascriptImportQuery },
+	js: { grammar: "javascript", language: "javascript", query: javascriptImportQuery },
+	jsx: { grammar: "javascript", language: "javascript", query: javascriptImportQuery },
+	mjs: { grammar: "javascript", language: "javascript", query: javascriptImportQuery },
+	cjs: { grammar: "javascript", language: "javascript", query: javascriptImportQuery },
+	py: { grammar: "python", language: "python", query: pythonImportQuery },
+	go: { grammar: "go", language: "go", query: goImportQuery },
+}
+
+// Parsers are loaded once per grammar and shared by every file
+const importParsers = new Map<string, Promise<{ parser: Parser; query: Parser.Query }>>()
+
+async function loadImportParser(grammar: string, querySource: string) {
+	let loaded = importParsers.get(grammar)
+	if (!loaded) {
+		loaded = (async () => {
+			await initializeParser()
+			const language = await loadLanguage(grammar)
+			const parser = new Parser()
+			parser.setLanguage(language)
+			return { parser, query: language.query(querySource) }
+		})()
+		// A failed load is retried next time instead of being cached
+		loaded.catch(() => importParsers.delete(grammar))
+		importParsers.set(grammar, loaded)
+	}
+	return loaded
+}
+
+/**
+ * The import graph language of a file, or undefined when its imports are not analyzed
+ */
+export function getImportLanguage(filePath: string): ImportLanguage | undefined {
+	return IMPORT_GRAMMARS[path.extname(filePath).toLowerCase().slice(1)]?.language
+}
+
+/**
+ * Extracts the raw import specifiers of a source file: module paths for JS/TS ("./a", "react"),
+ * dotted modules for Python (".sibling", "pkg.mod") and package paths for Go.
+ * Returns undefined for languages without an import query.
+ */
+export async function parseImports(filePath: string, content: string): Promise<string[] | undefined> {
+	const config = IMPORT_GRAMMARS[path.extname(filePath).toLowerCase().slice(1)]
+	if (!config) {
+		return undefined
+	}
+
+	const { parser, query } = await loadImportParser(config.grammar, config.query)
+	const tree = parser.parse(content)
+	const specifiers = new Set<string>()
+	try {
+		for (const match of query.matches(tree.rootNode)) {
+			const captured = (name: string) => match.captures.find((capture) => capture.name === name)?.node.text
+			const specifier = captured("import")
+			if (specifier !== undefined) {
+				specifiers.add(config.language === "go" ? specifier.slice(1, -1) : specifier)
+				continue
+			}
+			// from X import a: a may be a submodule of X
+			const module = captured("module")
+			const name = captured("name")
+			if (module !== undefined && name !== undefined) {
+				specifiers.add(/^\.+$/.test(module) ? `${module}${name}` : `${module}.${name}`)
+			}
+		}
+	} finally {
+		tree.delete()
+	}
+	return [...specifiers]
+}
@@ -23,13 +23,13 @@ export interface LanguageParser {
 	}
 }
 
-async function loadLanguage(langName: string) {
+export async function loadLanguage(langName: string) {
 	return await Parser.Language.load(path.join(__dirname, `tree-sitter-${langName}.wasm`))
 }
 
 let isParserInitialized = false
 
-async function initializeParser() {
+export async function initializeParser() {
 	if (!isParserInitialized) {
 		await Parser.init()
 		isParserInitialized = true
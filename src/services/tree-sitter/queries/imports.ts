@@ -0,0 +1,36 @@
+/*
+Import queries used to build the workspace module graph. Every specifier is captured as @import;
+Python "from X import a" also captures X as @module and a as @name, since a may be a submodule.
+*/
+
+// Works with the typescript, tsx and javascript grammars
+export const javascriptImportQuery = `
+(import_statement source: (string (string_fragment) @import))
+
+(export_statement source: (string (string_fragment) @import))
+
+(call_expression
+  function: (identifier) @_require
+  arguments: (arguments . (string (string_fragment) @import))
+  (#eq? @_require "require"))
+
+(call_expression
+  function: (import)
+  arguments: (arguments . (string (string_fragment) @import)))
+`
+
+export const pythonImportQuery = `
+(import_statement name: (dotted_name) @import)
+
+(import_statement name: (aliased_import name: (dotted_name) @import))
+
+(import_from_statement module_name: (_) @import)
+
+(import_from_statement
+  module_name: (_) @module
+  name: [(dotted_name) @name (aliased_import name: (dotted_name) @name)])
+`
+
+export const goImportQuery = `
+(import_spec path: (interpreted_string_literal) @import)
+`
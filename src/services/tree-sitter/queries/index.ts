@@ -11,3 +11,4 @@ export { default as rubyQuery } from "./ruby"
 export { default as rustQuery } from "./rust"
 export { default as swiftQuery } from "./swift"
 export { default as typescriptQuery } from "./typescript"
+export { goImportQuery, javascriptImportQuery, pythonImportQuery } from "./imports"
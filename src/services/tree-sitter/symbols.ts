@@ -0,0 +1,162 @@
+import { ClineIgnoreController } from "@core/ignore/ClineIgnoreController"
+import { listFilesContaining } from "@services/ripgrep"
+import * as fs from "fs/promises"
+import * as path from "path"
+import type Parser from "web-tree-sitter"
+import { PARSABLE_EXTENSIONS } from "."
+import { loadRequiredLanguageParsers } from "./languageParser"
+
+export interface SymbolDefinition {
+	/** Name qualified by the definitions it's nested in, e.g. "TaskManager.start" */
+	name: string
+	/** Kind from the definition query, e.g. "class", "method", "function" */
+	kind: string
+	/** Path relative to the directory that was searched, in posix form */
+	relativePath: string
+	/** 0-based line range of the definition */
+	startLine: number
+	endLine: number
+}
+
+// Candidate files are found with ripgrep first, so only a handful of files are ever parsed
+const MAX_FILES_TO_PARSE = 30
+const MAX_DEFINITION_LINES = 300
+
+const SOURCE_GLOBS = PARSABLE_EXTENSIONS.map((ext) => `*${ext}`)
+
+/**
+ * Finds definitions of a symbol such as "ClassName.method" or "functionName" in the workspace.
+ * The last part of the name locates candidate files, and the full name must match the definition's qualified name.
+ */
+export async function findSymbolDefinitions(
+	cwd: string,
+	symbol: string,
+	clineIgnoreController?: ClineIgnoreController,
+): Promise<SymbolDefinition[]> {
+	const baseName = symbol.split(".").pop()
+	if (!baseName) {
+		return []
+	}
+	const files = await listFilesContaining(cwd, baseName, { globs: SOURCE_GLOBS, wholeWord: true, limit: MAX_FILES_TO_PARSE })
+	const definitions = await parseDefinitions(cwd, files, clineIgnoreController)
+	return definitions.filter((definition) => definition.name === symbol || definition.name.endsWith(`.${symbol}`))
+}
+
+/**
+ * Lists definitions whose qualified name contains the query, for autocompleting @symbol mentions.
+ */
+export async function searchSymbols(
+	cwd: string,
+	query: string,
+	limit = 20,
+	clineIgnoreController?: ClineIgnoreController,
+): Promise<SymbolDefinition[]> {
+	const baseName = query.split(".").pop()
+	if (!baseName) {
+		return []
+	}
+	const files = await listFilesContaining(cwd, baseName, { globs: SOURCE_GLOBS, ignoreCase: true, limit: MAX_FILES_TO_PARSE })
+	const lowerQuery = query.toLowerCase()
+	const definitions = await parseDefinitions(cwd, files, clineIgnoreController)
+	return definitions
+		.filter((definition) => definition.name.toLowerCase().includes(lowerQuery))
+		.sort((a, b) => a.name.length - b.name.length)
+		.slice(0, limit)
+}
+
+/**
+ * Returns the source of each definition of a symbol, formatted for the model.
+ */
+export async function getSymbolDefinitionContent(
+	cwd: string,
+	symbol: string,
+	clineIgnoreController?: ClineIgnoreController,
+): Promise<string> {
+	const definitions = await findSymbolDefinitions(cwd, symbol, clineIgnoreController)
+	if (definitions.length === 0) {
+		throw new Error(`No definition found for "${symbol}"`)
+	}
+
+	const sections: string[] = []
+	for (const definition of definitions) {
+		const lines = (await fs.readFile(path.resolve(cwd, definition.relativePath), "utf8")).split("\n")
+		const endLine = Math.min(definition.endLine, definition.startLine + MAX_DEFINITION_LINES - 1)
+		let source = lines.slice(definition.startLine, endLine + 1).join("\n")
+		if (endLine < definition.endLine) {
+			source += `\n[...${definition.endLine - endLine} more lines]`
+		}
+		sections.push(
+			`${definition.kind} ${definition.name} (${definition.relativePath}:${definition.startLine + 1}-${definition.endLine + 1})\n${source}`,
+		)
+	}
+	return sections.join("\n\n")
+}
+
+async function parseDefinitions(
+	cwd: string,
+	filePaths: string[],
+	clineIgnoreController?: ClineIgnoreController,
+): Promise<SymbolDefinition[]> {
+	const allowedFiles = clineIgnoreController ? clineIgnoreController.filterPaths(filePaths) : filePaths
+	if (allowedFiles.length === 0) {
+		return []
+	}
+	const languageParsers = await loadRequiredLanguageParsers(allowedFiles)
+
+	const definitions: SymbolDefinition[] = []
+	for (const filePath of allowedFiles) {
+		const ext = path.extname(filePath).toLowerCase().slice(1)
+		const { parser, query } = languageParsers[ext] || {}
+		if (!parser || !query) {
+			continue
+		}
+		try {
+			const tree = parser.parse(await fs.readFile(filePath, "utf8"))
+			if (!tree?.rootNode) {
+				continue
+			}
+			const relativePath = path.relative(cwd, filePath).toPosix()
+			definitions.push(...collectDefinitions(tree.rootNode, query, relativePath))
+		} catch (error) {
+			console.log(`Error parsing file: ${error}\n`)
+		}
+	}
+	return definitions
+}
+
+/*
+Each query match pairs a definition node (captured as "definition.<kind>") with its name node (captured as
+"name.definition.<kind>", or just "name" in some queries). Definitions nested inside other definitions, like methods
+inside a class, are qualified by walking up to the enclosing definition nodes.
+*/
+function collectDefinitions(rootNode: Parser.SyntaxNode, query: Parser.Query, relativePath: string): SymbolDefinition[] {
+	const namesByNodeId = new Map<number, string>()
+	const found: { node: Parser.SyntaxNode; kind: string }[] = []
+
+	for (const match of query.matches(rootNode)) {
+		const definition = match.captures.find((capture) => capture.name.startsWith("definition."))
+		const name = match.captures.find((capture) => capture.name === "name" || capture.name.startsWith("name.definition."))
+		if (!definition || !name || namesByNodeId.has(definition.node.id)) {
+			continue
+		}
+		namesByNodeId.set(definition.node.id, name.node.text)
+		found.push({ node: definition.node, kind: definition.name.slice("definition.".length) })
+	}
+
+	return found.map(({ node, kind }) => {
+		const parts = [namesByNodeId.get(node.id)!]
+		for (let ancestor = node.parent; ancestor; ancestor = ancestor.parent) {
+			const ancestorName = namesByNodeId.get(ancestor.id)
+			if (ancestorName) {
+				parts.unshift(ancestorName)
+			}
+		}
+		return {
+			name: parts.join("."),
+			kind,
+			relativePath,
+			startLine: node.startPosition.row,
+			endLine: node.endPosition.row,
+		}
+	})
+}
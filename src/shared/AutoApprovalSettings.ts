@@ -23,6 +23,7 @@ export interface AutoApprovalSettings {
 	}
 	// Global settings
 	enableNotifications: boolean // Show notifications for approval and task completion
+	useApprovalOracle?: boolean // Let the ApprovalOracle decide commands, edits, browser and MCP calls instead of the toggles above
 }
 
 export const DEFAULT_AUTO_APPROVAL_SETTINGS: AutoApprovalSettings = {
@@ -41,4 +42,5 @@ export const DEFAULT_AUTO_APPROVAL_SETTINGS: AutoApprovalSettings = {
 		useMcp: true,
 	},
 	enableNotifications: false,
+	useApprovalOracle: false,
 }
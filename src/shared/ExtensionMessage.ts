@@ -11,9 +11,12 @@ import { ClineRulesToggles } from "./cline-rules"
 import { DictationSettings } from "./DictationSettings"
 import { FocusChainSettings } from "./FocusChainSettings"
 import { HistoryItem } from "./HistoryItem"
+import { McpElicitationContent, McpElicitationSchema, McpToolProgress } from "./mcp"
 import { McpDisplayMode } from "./McpDisplayMode"
 import { ClineMessageModelInfo } from "./messages"
+import type { PersonaSummary } from "./personas"
 import { OnboardingModelGroup } from "./proto/cline/state"
+import type { WorkflowCommandDetails } from "./slashCommands"
 import { Mode, OpenaiReasoningEffort } from "./storage/types"
 import { TelemetrySetting } from "./TelemetrySetting"
 import { UserInfo } from "./UserInfo"
@@ -82,11 +85,18 @@ export interface ExtensionState {
 	localWindsurfRulesToggles: ClineRulesToggles
 	remoteRulesToggles?: ClineRulesToggles
 	remoteWorkflowToggles?: ClineRulesToggles
+	// Descriptions and arguments from workflow front matter, by workflow name
+	workflowCommandDetails?: Record<string, WorkflowCommandDetails>
+	// Personas from the global and workspace persona directories, and the one picked in the chat toolbar
+	personas?: PersonaSummary[]
+	selectedPersona?: string
 	localAgentsRulesToggles: ClineRulesToggles
 	mcpResponsesCollapsed?: boolean
 	strictPlanModeEnabled?: boolean
 	yoloModeToggled?: boolean
 	useAutoCondense?: boolean
+	contextSummarizationEnabled?: boolean
+	contextSummarizationModelId?: string
 	clineWebToolsEnabled?: ClineFeatureSetting
 	focusChainSettings: FocusChainSettings
 	dictationSettings: DictationSettings
@@ -146,6 +156,8 @@ export type ClineAsk =
 	| "condense"
 	| "summarize_task"
 	| "report_bug"
+	| "mcp_sampling"
+	| "mcp_elicitation"
 
 export type ClineSay =
 	| "task"
@@ -173,6 +185,7 @@ export type ClineSay =
 	| "use_mcp_server"
 	| "diff_error"
 	| "deleted_api_reqs"
+	| "auxiliary_api_req" // usage of a request made besides the conversation's own (e.g. a context summary)
 	| "clineignore_error"
 	| "checkpoint_created"
 	| "load_mcp_documentation"
@@ -187,6 +200,10 @@ export type ClineSay =
 	| "architect_implementation"
 	| "architect_evaluation"
 	| "architect_complete"
+	| "approval_oracle"
+	| "checkpoint_timeline"
+	| "subagents"
+	| "provider_fallback"
 
 export interface ClineSayTool {
 	tool:
@@ -201,11 +218,15 @@ export interface ClineSayTool {
 		| "webFetch"
 		| "webSearch"
 		| "summarizeTask"
+		| "backgroundInput"
+		| "service"
+		| "subagents"
 	path?: string
 	diff?: string
 	content?: string
 	regex?: string
 	filePattern?: string
+	action?: string
 	operationIsLocatedInWorkspace?: boolean
 }
 
@@ -260,6 +281,37 @@ export interface ClineSayArchitectEvaluation {
 	approved: boolean
 }
 
+export interface ClineSayApprovalOracle {
+	tool: string
+	targets: string[]
+	approved: boolean // false means the user is asked instead
+	reasoning: string
+}
+
+export interface ClineSayCheckpointTimeline {
+	timeline: string // Timeline the workspace moved to when it was restored to an earlier checkpoint
+}
+
+export interface ClineSaySubagents {
+	subagents: {
+		prompt: string
+		cwd?: string
+		approvalPolicy: "read_only" | "edit" | "full"
+		isolated?: boolean
+		status: "pending" | "running" | "completed" | "failed" | "budget_exceeded" | "cancelled"
+		summary?: string
+		filesChanged?: string[]
+		error?: string
+		tokensIn?: number
+		tokensOut?: number
+		cost?: number
+	}[]
+	// Totals across subagents, counted in the task's API metrics
+	tokensIn: number
+	tokensOut: number
+	cost: number
+}
+
 // must keep in sync with system prompt
 export const browserActions = ["launch", "click", "type", "scroll_down", "scroll_up", "close"] as const
 export type BrowserAction = (typeof browserActions)[number]
@@ -291,6 +343,26 @@ export interface ClineAskUseMcpServer {
 	toolName?: string
 	arguments?: string
 	uri?: string
+	progress?: McpToolProgress
+}
+
+export interface ClineAskMcpSampling {
+	serverName: string
+	systemPrompt?: string
+	messages: Array<{ role: "user" | "assistant"; text: string }>
+	maxTokens: number
+	// Set once the server cancels the request before the user answered
+	cancelled?: boolean
+}
+
+export interface ClineAskMcpElicitation {
+	serverName: string
+	message: string
+	requestedSchema: McpElicitationSchema
+	response?: {
+		action: "accept" | "decline" | "cancel"
+		content?: McpElicitationContent
+	}
 }
 
 export interface ClinePlanModeResponse {
@@ -318,6 +390,7 @@ export interface ClineApiReqInfo {
 	cost?: number
 	cancelReason?: ClineApiReqCancelReason
 	streamingFailedMessage?: string
+	provider?: string // Provider that answered, when the request went through a fallback chain
 	retryStatus?: {
 		attempt: number
 		maxAttempts: number
@@ -97,6 +97,13 @@ describe("Mention Regex", () => {
 				["@problems", "@problems"],
 				["@git-changes", "@git-changes"],
 				["@terminal", "@terminal"],
+				["@service:web", "@service:web"],
+				["@service:api-server.", "@service:api-server"],
+				["@diff:staged", "@diff:staged"],
+				["@diff:main..HEAD.", "@diff:main..HEAD"],
+				["@diff:HEAD~3", "@diff:HEAD~3"],
+				["@symbol:TaskManager.start,", "@symbol:TaskManager.start"],
+				["@checkpoint:3", "@checkpoint:3"],
 			]
 
 			cases.forEach(([input, expected]) => {
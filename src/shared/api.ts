@@ -88,6 +88,25 @@ export interface ApiHandlerSecrets {
 	nousResearchApiKey?: string
 }
 
+/**
+ * A provider to try when the providers before it in the fallback chain fail, with the model to use there
+ */
+export interface ApiFallbackProvider {
+	provider: ApiProvider
+	modelId: string
+}
+
+/**
+ * Reported when a fallback chain switches providers for a request
+ */
+export interface ApiFallbackEvent {
+	fromProvider: string
+	fromModelId: string
+	toProvider: string
+	toModelId: string
+	reason: string
+}
+
 export interface ApiHandlerOptions {
 	// Global configuration (not mode-specific)
 	ulid?: string // Used to identify the task in API requests
@@ -132,6 +151,8 @@ export interface ApiHandlerOptions {
 	hicapApiKey?: string
 	hicapModelId?: string
 	onRetryAttempt?: (attempt: number, maxRetries: number, delay: number, error: any) => void
+	apiFallbackChain?: ApiFallbackProvider[] // Providers to try in order when the selected provider fails
+	onProviderFallback?: (event: ApiFallbackEvent) => void
 	ocaBaseUrl?: string
 	minimaxApiLine?: string
 	ocaMode?: string
@@ -2,6 +2,8 @@
  * Architect Mode configuration and state types
  */
 
+import type { ApiProvider } from "./api";
+
 // ============================================
 // PERSONA
 // ============================================
@@ -22,19 +24,60 @@ export interface ApprovalOracleConfig {
   showRoutineApprovals: boolean;
   customAllowPatterns: string[];
   customDenyPatterns: string[];
+
+  // Backend for requests no pattern matches: "model" asks an LLM, "rules" stays offline
+  backend?: "model" | "rules";
+  provider?: ApiProvider;   // defaults to the architect provider
+  model?: string;           // defaults to the architect model
+
+  // What to do when the backend errors or returns garbage (default "fail-open")
+  failurePolicy?: ApprovalFailurePolicy;
+  // Append every decision to .cline/approval-audit.jsonl (default true)
+  auditLog?: boolean;
 }
 
+export type ApprovalFailurePolicy = "fail-open" | "fail-closed" | "ask";
+
 export interface ApprovalRequest {
-  action: "read" | "write" | "execute" | "browser" | "delete";
+  action: "read" | "write" | "execute" | "browser" | "delete" | "mcp";
   target: string;
   context: string;
   previousDecisions: Map<string, string>;
 }
 
+export type ApprovalRuleScope = "once" | "session" | "always";
+
 export interface ApprovalDecision {
   allow: boolean;
-  persist: "once" | "session" | "always";
+  persist: ApprovalRuleScope;
+  reasoning: string;
+  // Set when the oracle could not decide and the user must be asked through the normal ask flow
+  needsUserApproval?: boolean;
+}
+
+// Which step of ApprovalOracle.decide() produced the decision
+export type ApprovalDecisionPath = "cache" | "deny_pattern" | "allow_pattern" | "backend" | "failure";
+
+export interface ApprovalAuditEntry {
+  timestamp: string;
+  request: Pick<ApprovalRequest, "action" | "target" | "context">;
+  pattern: string;
+  path: ApprovalDecisionPath;
+  matchedRule?: string;     // regex source or cached rule pattern
+  backend?: string;
+  decision: ApprovalDecision;
+  error?: string;
+}
+
+export interface ApprovalRule {
+  pattern: string;
+  allow: boolean;
+  scope: ApprovalRuleScope;
   reasoning: string;
+  source: "pattern" | "model" | "user";
+  createdAt: string;
+  updatedAt: string;
+  lastUsedAt?: string;
 }
 
 // ============================================
@@ -76,6 +119,36 @@ export interface ArchitectureConfig {
 // ARCHITECT MODE (main config)
 // ============================================
 
+export type ArchitectRole = "architect" | "editor";
+
+/**
+ * Tool permissions and budgets for one role. Unset fields are unlimited.
+ */
+export interface ArchitectRoleBudget {
+  // Tool names this role may call (e.g. "read_file", "replace_in_file").
+  // The Architect answers without tools, so today this only restricts the Editor.
+  allowedTools?: string[];
+  // Dollar ceiling for this role over the whole session
+  maxCost?: number;
+  // Wall-clock limit for each of this role's phases
+  timeoutSeconds?: number;
+}
+
+/**
+ * An extra model that reviews each iteration alongside the Architect
+ */
+export interface ArchitectReviewerConfig {
+  provider: ApiProvider;
+  model: string;
+  // Shown on the reviewer's critique (defaults to the model id)
+  label?: string;
+}
+
+// How the reviewers' verdicts combine into the iteration's verdict:
+// "unanimous" needs every reviewer to approve, "majority" more than half,
+// and "any-reject" approves unless some reviewer explicitly asks for revisions
+export type ArchitectReviewPolicy = "unanimous" | "majority" | "any-reject";
+
 export interface ArchitectConfig {
   enabled: boolean;
 
@@ -92,6 +165,16 @@ export interface ArchitectConfig {
   // Loop control
   maxIterations: number;
 
+  // Extra reviewers that evaluate each iteration in parallel with the Architect
+  reviewers?: ArchitectReviewerConfig[];
+  reviewPolicy?: ArchitectReviewPolicy;   // default "unanimous"
+
+  // Per-role tool permissions and budgets
+  architectBudget?: ArchitectRoleBudget;
+  editorBudget?: ArchitectRoleBudget;
+  // Dollar ceiling for both roles together in one task
+  maxTaskCost?: number;
+
   // Sub-configs
   persona?: PersonaConfig;
   approvalOracle?: ApprovalOracleConfig;
@@ -120,16 +203,72 @@ export interface ArchitectState {
   implementation: string | null;
   evaluation: string | null;
   thinkingContent: string | null;
+  // The task and the context as it has grown with feedback, so a saved session can resume
+  task: string | null;
+  context: string | null;
+  // Dollars spent per role so far, priced like the task's API requests
+  spent: Record<ArchitectRole, number>;
+}
+
+/**
+ * What the Editor left behind after one iteration. When the Editor runs as a
+ * tool-using loop this is the real change set, not the model's description of it.
+ */
+export interface ArchitectEditorResult {
+  // The Editor's own summary (its attempt_completion result, or the streamed text)
+  summary: string;
+  // Unified diff of the workspace changes made during the iteration
+  diff: string;
+  // Contents of each changed file after the iteration, for the architecture review
+  files: Array<{ path: string; content: string }>;
+  // Dollars the Editor spent in this run
+  cost: number;
+  // Set when the run was cut short by the Editor's budget
+  stoppedBy?: "cost" | "timeout";
+}
+
+/**
+ * What the Editor may do in one run: its tool allowlist, the budget it has left and when it must stop.
+ */
+export interface ArchitectEditorLimits {
+  allowedTools?: string[];
+  maxCost?: number;
+  deadline?: number;
 }
 
 export type ArchitectUpdate =
   | { type: "phase"; phase: string; iteration: number }
   | { type: "thinking"; content: string }
   | { type: "plan"; content: string; thinking?: string }
-  | { type: "implementation"; content: string }
-  | { type: "evaluation"; content: string; thinking?: string }
+  | { type: "implementation"; content: string; diff?: string }
+  | {
+      type: "evaluation";
+      content: string;
+      thinking?: string;
+      // Set for each critique when several reviewers evaluate the iteration
+      reviewer?: string;
+      approved?: boolean;
+      // The reviewer's request failed, so it gave no verdict
+      failed?: boolean;
+    }
+  | {
+      type: "review_verdict";
+      policy: ArchitectReviewPolicy;
+      approved: boolean;
+      approvals: number;
+      rejections: number;
+      // Reviewers whose requests failed; the policy only counts the others
+      failed: string[];
+      message: string;
+    }
   | { type: "approval_request"; action: string; target: string; decision: ApprovalDecision }
   | { type: "architecture_review"; message: string; options: string[] }
+  | {
+      type: "budget_exceeded";
+      role: ArchitectRole | "task";
+      limit: "cost" | "timeout";
+      message: string;
+    }
   | { type: "complete"; iterations: number }
   | { type: "max_iterations"; iterations: number };
 
@@ -151,6 +290,8 @@ export interface LLMContext {
   files?: {
     hot?: string[];
     modified_this_session?: string[];
+    // The session modified_this_session belongs to; another session's changes start a new list
+    modified_session?: string;
     do_not_modify?: string[];
   };
   tests?: {
@@ -166,3 +307,24 @@ export interface LLMContext {
   session_notes?: string;
   human_context?: Record<string, any>;
 }
+
+// One change to the LLM context, as recorded in the session journal
+export type LLMContextOp =
+  | { op: "state"; last_action?: string; active_task?: string | null }
+  | { op: "modified_files"; files: string[] }
+  | { op: "notes"; text: string }
+  | { op: "decision"; date: string; decision: string; rationale?: string }
+  | { op: "block"; task: string; reason: string }
+  | { op: "unblock"; task: string }
+  | { op: "hot_file"; path: string }
+  | { op: "debt"; file: string; line: number; type: string; note: string }
+  | { op: "momentum"; velocity: string; risk: string | null }
+  | { op: "set"; key: keyof LLMContext; value: unknown };
+
+// A line of .cline/llm-context.journal.jsonl: the changes one save made
+export interface LLMContextJournalEntry {
+  id: string;
+  ts: string;       // ISO timestamp
+  session: string;
+  ops: LLMContextOp[];
+}
@@ -43,6 +43,10 @@ Mention regex:
 	- The exact word 'problems'.
   - The exact word 'terminal'.
 	- The exact word 'git-changes'.
+	- 'service:' followed by a service name, for the logs of a service declared in .cline/services.json.
+	- 'diff:' followed by 'staged' or a revision range such as 'main..HEAD', for a git diff.
+	- 'symbol:' followed by a symbol name such as 'ClassName.method', for the symbol's definition.
+	- 'checkpoint:' followed by a checkpoint number, for the changes made since that checkpoint.
   - It ensures that any trailing punctuation marks (such as ',', '.', '!', etc.) are not included in the matched mention, allowing the punctuation to follow the mention naturally in the text.
 
 - **Global Regex**:
@@ -60,6 +64,10 @@ export const mentionRegex = new RegExp(
 		`|problems\\b` + // Exact word 'problems'
 		`|terminal\\b` + // Exact word 'terminal'
 		`|git-changes\\b` + // Exact word 'git-changes'
+		`|service:[\\w-]+\\b` + // Dev service logs: @service:name
+		`|diff:[\\w./~^-]+?` + // Git diffs: @diff:staged, @diff:main..HEAD
+		`|symbol:[\\w$.]+?` + // Symbol definitions: @symbol:ClassName.method
+		`|checkpoint:\\d+\\b` + // Changes since a task checkpoint: @checkpoint:3
 		`)` +
 		`(?=[.,;:!?()]*(?=[\\s\\r\\n]|$))`, // Lookahead for trailing punctuation (multiple allowed)
 )
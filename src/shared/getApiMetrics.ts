@@ -12,7 +12,9 @@ interface ApiMetrics {
  * Calculates API metrics from an array of ClineMessages.
  *
  * This function processes 'api_req_started' messages that have been combined with their
- * corresponding 'api_req_finished' messages by the combineApiRequests function. It also takes into account 'deleted_api_reqs' messages, which are aggregated from deleted messages.
+ * corresponding 'api_req_finished' messages by the combineApiRequests function. It also takes into account 'deleted_api_reqs' messages, which are aggregated from deleted messages,
+ * 'auxiliary_api_req' messages, which record requests made besides the conversation's own (e.g. context summaries),
+ * and 'subagents' messages, which total what the task's subagents used.
  * It extracts and sums up the tokensIn, tokensOut, cacheWrites, cacheReads, and cost from these messages.
  *
  * @param messages - An array of ClineMessage objects to process.
@@ -35,7 +37,14 @@ export function getApiMetrics(messages: ClineMessage[]): ApiMetrics {
 	}
 
 	messages.forEach((message) => {
-		if (message.type === "say" && (message.say === "api_req_started" || message.say === "deleted_api_reqs") && message.text) {
+		if (
+			message.type === "say" &&
+			(message.say === "api_req_started" ||
+				message.say === "deleted_api_reqs" ||
+				message.say === "auxiliary_api_req" ||
+				message.say === "subagents") &&
+			message.text
+		) {
 			try {
 				const parsedData = JSON.parse(message.text)
 				const { tokensIn, tokensOut, cacheWrites, cacheReads, cost } = parsedData
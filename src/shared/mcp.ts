@@ -6,6 +6,7 @@
 export const CLINE_MCP_TOOL_IDENTIFIER = "0mcp0"
 export const DEFAULT_MCP_TIMEOUT_SECONDS = 60 // matches Anthropic's default timeout in their MCP SDK
 export const MIN_MCP_TIMEOUT_SECONDS = 1
+export const MCP_SAMPLING_MAX_TOKENS = 4096 // upper bound on what a server can sample from the task's model, whatever maxTokens it asks for
 export type McpMode = "full" | "server-use-only" | "off"
 
 export type McpServer = {
@@ -16,11 +17,28 @@ export type McpServer = {
 	tools?: McpTool[]
 	resources?: McpResource[]
 	resourceTemplates?: McpResourceTemplate[]
+	prompts?: McpPrompt[]
 	disabled?: boolean
 	timeout?: number
 	uid?: string
 	oauthRequired?: boolean
 	oauthAuthStatus?: McpOAuthAuthStatus
+	source?: McpServerSource
+}
+
+/**
+ * Where a server's settings come from: the global settings file, the workspace's `.cline/mcp.json`,
+ * or a workspace entry overriding a global server
+ */
+export type McpServerSource = "global" | "project" | "project-override"
+
+/**
+ * Latest progress a server reported for a running tool call through `notifications/progress`
+ */
+export type McpToolProgress = {
+	progress: number
+	total?: number
+	message?: string
 }
 
 export type McpOAuthAuthStatus = "authenticated" | "unauthenticated" | "pending"
@@ -46,6 +64,28 @@ export type McpResourceTemplate = {
 	mimeType?: string
 }
 
+export type McpPrompt = {
+	name: string
+	title?: string
+	description?: string
+	arguments?: McpPromptArgument[]
+}
+
+export type McpPromptArgument = {
+	name: string
+	description?: string
+	required?: boolean
+}
+
+export type McpPromptResponse = {
+	_meta?: Record<string, any>
+	description?: string
+	messages: Array<{
+		role: "user" | "assistant"
+		content: McpToolCallResponse["content"][number]
+	}>
+}
+
 export type McpResourceResponse = {
 	_meta?: Record<string, any>
 	contents: Array<{
@@ -130,3 +170,26 @@ export interface McpDownloadResponse {
 }
 
 export type McpViewTab = "marketplace" | "addRemote" | "configure"
+
+// A field of an MCP elicitation form: a restricted subset of JSON Schema with primitive, enum and multi-select types
+export type McpElicitationField = {
+	type: "string" | "number" | "integer" | "boolean" | "array"
+	title?: string
+	description?: string
+	format?: "email" | "uri" | "date" | "date-time"
+	minimum?: number
+	maximum?: number
+	enum?: string[]
+	enumNames?: string[]
+	oneOf?: Array<{ const: string; title: string }>
+	items?: { enum?: string[]; anyOf?: Array<{ const: string; title: string }> }
+	default?: string | number | boolean | string[]
+}
+
+export type McpElicitationSchema = {
+	type: "object"
+	properties: Record<string, McpElicitationField>
+	required?: string[]
+}
+
+export type McpElicitationContent = Record<string, string | number | boolean | string[]>
@@ -0,0 +1,34 @@
+/**
+ * Where a persona applies: Cline's Plan and Act modes, or a role in Architect Mode
+ */
+export type PersonaMode = "plan" | "act" | "architect" | "editor"
+
+export const PERSONA_MODES: PersonaMode[] = ["plan", "act", "architect", "editor"]
+
+/**
+ * A persona from the global or workspace persona directory, as shown in the persona picker
+ */
+export interface PersonaSummary {
+	/** File name without .md. A workspace persona replaces the global persona with the same id. */
+	id: string
+	name: string
+	description?: string
+	/** Modes the persona applies in; empty applies in every mode */
+	modes: PersonaMode[]
+	/** Model families (e.g. claude, gpt, gemini) the persona applies to; empty applies to every model */
+	modelFamilies: string[]
+	/** API providers (e.g. anthropic, openrouter) the persona applies to; empty applies to every provider */
+	providers: string[]
+	tools: {
+		/** Only these tools are offered while the persona applies */
+		allow?: string[]
+		/** These tools are never offered while the persona applies */
+		deny?: string[]
+	}
+	source: "global" | "workspace"
+}
+
+export interface Persona extends PersonaSummary {
+	path: string
+	instructions: string
+}
@@ -26,6 +26,8 @@ function convertClineAskToProtoEnum(ask: AppClineAsk | undefined): ClineAsk | un
 		condense: ClineAsk.CONDENSE,
 		summarize_task: ClineAsk.SUMMARIZE_TASK,
 		report_bug: ClineAsk.REPORT_BUG,
+		mcp_sampling: ClineAsk.MCP_SAMPLING,
+		mcp_elicitation: ClineAsk.MCP_ELICITATION,
 	}
 
 	const result = mapping[ask]
@@ -60,6 +62,8 @@ function convertProtoEnumToClineAsk(ask: ClineAsk): AppClineAsk | undefined {
 		[ClineAsk.CONDENSE]: "condense",
 		[ClineAsk.SUMMARIZE_TASK]: "summarize_task",
 		[ClineAsk.REPORT_BUG]: "report_bug",
+		[ClineAsk.MCP_SAMPLING]: "mcp_sampling",
+		[ClineAsk.MCP_ELICITATION]: "mcp_elicitation",
 	}
 
 	return mapping[ask]
@@ -111,6 +115,11 @@ function convertClineSayToProtoEnum(say: AppClineSay | undefined): ClineSay | un
 		architect_implementation: ClineSay.INFO,
 		architect_evaluation: ClineSay.INFO,
 		architect_complete: ClineSay.INFO,
+		approval_oracle: ClineSay.INFO,
+		checkpoint_timeline: ClineSay.INFO,
+		subagents: ClineSay.INFO,
+		provider_fallback: ClineSay.INFO,
+		auxiliary_api_req: ClineSay.INFO,
 	}
 
 	const result = mapping[say]
@@ -1,11 +1,12 @@
 import {
 	McpServerStatus,
+	McpPrompt as ProtoMcpPrompt,
 	McpResource as ProtoMcpResource,
 	McpResourceTemplate as ProtoMcpResourceTemplate,
 	McpServer as ProtoMcpServer,
 	McpTool as ProtoMcpTool,
 } from "@shared/proto/cline/mcp"
-import { McpOAuthAuthStatus, McpResource, McpResourceTemplate, McpServer, McpTool } from "../../mcp"
+import { McpOAuthAuthStatus, McpPrompt, McpResource, McpResourceTemplate, McpServer, McpServerSource, McpTool } from "../../mcp"
 
 // Helper to convert TS status to Proto enum
 function convertMcpStatusToProto(status: McpServer["status"]): McpServerStatus {
@@ -30,11 +31,13 @@ export function convertMcpServersToProtoMcpServers(mcpServers: McpServer[]): Pro
 		tools: (server.tools || []).map(convertTool),
 		resources: (server.resources || []).map(convertResource),
 		resourceTemplates: (server.resourceTemplates || []).map(convertResourceTemplate),
+		prompts: (server.prompts || []).map(convertPrompt),
 
 		disabled: server.disabled,
 		timeout: server.timeout,
 		oauthRequired: server.oauthRequired,
 		oauthAuthStatus: server.oauthAuthStatus,
+		source: server.source,
 	}))
 	return protoServers
 }
@@ -81,6 +84,22 @@ function convertResourceTemplate(template: McpResourceTemplate): ProtoMcpResourc
 	}
 }
 
+/**
+ * Converts McpPrompt to ProtoMcpPrompt format, ensuring all required fields have values
+ */
+function convertPrompt(prompt: McpPrompt): ProtoMcpPrompt {
+	return {
+		name: prompt.name,
+		title: prompt.title,
+		description: prompt.description,
+		arguments: (prompt.arguments || []).map((argument) => ({
+			name: argument.name,
+			description: argument.description,
+			required: argument.required,
+		})),
+	}
+}
+
 // Helper to convert Proto enum to TS status
 function convertProtoStatusToMcp(status: McpServerStatus): McpServer["status"] {
 	switch (status) {
@@ -106,11 +125,13 @@ export function convertProtoMcpServersToMcpServers(protoServers: ProtoMcpServer[
 			tools: protoServer.tools.map(convertProtoTool),
 			resources: protoServer.resources.map(convertProtoResource),
 			resourceTemplates: protoServer.resourceTemplates.map(convertProtoResourceTemplate),
+			prompts: protoServer.prompts.map(convertProtoPrompt),
 
 			disabled: protoServer.disabled,
 			timeout: protoServer.timeout,
 			oauthRequired: protoServer.oauthRequired,
 			oauthAuthStatus: protoServer.oauthAuthStatus === "" ? undefined : (protoServer.oauthAuthStatus as McpOAuthAuthStatus),
+			source: protoServer.source ? (protoServer.source as McpServerSource) : undefined,
 		}
 	})
 	return mcpServers
@@ -155,3 +176,19 @@ function convertProtoResourceTemplate(protoTemplate: ProtoMcpResourceTemplate):
 		description: protoTemplate.description === "" ? undefined : protoTemplate.description,
 	}
 }
+
+/**
+ * Converts ProtoMcpPrompt to McpPrompt format
+ */
+function convertProtoPrompt(protoPrompt: ProtoMcpPrompt): McpPrompt {
+	return {
+		name: protoPrompt.name,
+		title: protoPrompt.title === "" ? undefined : protoPrompt.title,
+		description: protoPrompt.description === "" ? undefined : protoPrompt.description,
+		arguments: protoPrompt.arguments.map((argument) => ({
+			name: argument.name,
+			description: argument.description === "" ? undefined : argument.description,
+			required: argument.required,
+		})),
+	}
+}
@@ -1,4 +1,5 @@
 import {
+	ApiFallbackProvider as ProtoApiFallbackProvider,
 	LiteLLMModelInfo,
 	OpenAiCompatibleModelInfo,
 	OpenRouterModelInfo,
@@ -9,6 +10,7 @@ import {
 } from "@shared/proto/cline/models"
 import {
 	ApiConfiguration,
+	ApiFallbackProvider,
 	ApiProvider,
 	LiteLLMModelInfo as AppLiteLLMModelInfo,
 	OpenAiCompatibleModelInfo as AppOpenAiCompatibleModelInfo,
@@ -408,6 +410,14 @@ export function convertProtoToApiProvider(provider: ProtoApiProvider): ApiProvid
 	}
 }
 
+// Convert proto fallback chain to application fallback chain, leaving it unset when empty
+export function convertProtoToApiFallbackChain(chain: ProtoApiFallbackProvider[]): ApiFallbackProvider[] | undefined {
+	if (chain.length === 0) {
+		return undefined
+	}
+	return chain.map((fallback) => ({ provider: convertProtoToApiProvider(fallback.provider), modelId: fallback.modelId }))
+}
+
 // Converts application ApiConfiguration to proto ApiConfiguration
 export function convertApiConfigurationToProto(config: ApiConfiguration): ProtoApiConfiguration {
 	return {
@@ -473,6 +483,10 @@ export function convertApiConfigurationToProto(config: ApiConfiguration): ProtoA
 		groqApiKey: config.groqApiKey,
 		basetenApiKey: config.basetenApiKey,
 		requestTimeoutMs: config.requestTimeoutMs,
+		apiFallbackChain: (config.apiFallbackChain ?? []).map((fallback) => ({
+			provider: convertApiProviderToProto(fallback.provider),
+			modelId: fallback.modelId,
+		})),
 		sapAiCoreClientId: config.sapAiCoreClientId,
 		sapAiCoreClientSecret: config.sapAiCoreClientSecret,
 		sapAiResourceGroup: config.sapAiResourceGroup,
@@ -640,6 +654,7 @@ export function convertProtoToApiConfiguration(protoConfig: ProtoApiConfiguratio
 		groqApiKey: protoConfig.groqApiKey,
 		basetenApiKey: protoConfig.basetenApiKey,
 		requestTimeoutMs: protoConfig.requestTimeoutMs,
+		apiFallbackChain: convertProtoToApiFallbackChain(protoConfig.apiFallbackChain),
 		sapAiCoreClientId: protoConfig.sapAiCoreClientId,
 		sapAiCoreClientSecret: protoConfig.sapAiCoreClientSecret,
 		sapAiResourceGroup: protoConfig.sapAiResourceGroup,
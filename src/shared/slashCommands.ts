@@ -1,10 +1,29 @@
+import type { McpServer } from "./mcp"
+
+export interface SlashCommandArgument {
+	name: string
+	description?: string
+	required?: boolean
+	// Workflow arguments can also declare a type, a default value and the values they allow
+	type?: "string" | "number" | "boolean"
+	default?: string
+	options?: string[]
+}
+
 export interface SlashCommand {
 	name: string
 	description?: string
-	section?: "default" | "custom"
+	section?: "default" | "custom" | "mcp"
 	cliCompatible?: boolean
+	// Named arguments, entered as name="value" after the command (MCP prompts and workflows)
+	arguments?: SlashCommandArgument[]
 }
 
+/**
+ * What a workflow's front matter tells the slash command menu about it
+ */
+export type WorkflowCommandDetails = Pick<SlashCommand, "description" | "arguments">
+
 export const BASE_SLASH_COMMANDS: SlashCommand[] = [
 	{
 		name: "newtask",
@@ -52,3 +71,31 @@ export const VSCODE_ONLY_COMMANDS: SlashCommand[] = [
 		section: "default",
 	},
 ]
+
+export const MCP_PROMPT_COMMAND_PREFIX = "mcp__"
+
+/**
+ * Slash command name for an MCP prompt: mcp__<server>__<prompt>, with characters
+ * that can't appear in a slash command replaced by "_"
+ */
+export function getMcpPromptCommandName(serverName: string, promptName: string): string {
+	const sanitize = (name: string) => name.replace(/[^a-zA-Z0-9_.-]/g, "_")
+	return `${MCP_PROMPT_COMMAND_PREFIX}${sanitize(serverName)}__${sanitize(promptName)}`
+}
+
+/**
+ * Slash commands for the prompts published by connected MCP servers
+ */
+export function getMcpPromptCommands(servers: McpServer[]): SlashCommand[] {
+	return servers
+		.filter((server) => server.status === "connected" && !server.disabled)
+		.flatMap((server) =>
+			(server.prompts ?? []).map((prompt) => ({
+				name: getMcpPromptCommandName(server.name, prompt.name),
+				description: prompt.description || prompt.title || `Prompt from ${server.name}`,
+				section: "mcp" as const,
+				cliCompatible: true,
+				arguments: prompt.arguments,
+			})),
+		)
+}
@@ -1,5 +1,5 @@
 import { AutoApprovalSettings } from "@shared/AutoApprovalSettings"
-import { ApiProvider, ModelInfo, type OcaModelInfo } from "@shared/api"
+import { ApiFallbackProvider, ApiProvider, ModelInfo, type OcaModelInfo } from "@shared/api"
 import { ArchitectConfig } from "@shared/architect-types"
 import { BrowserSettings } from "@shared/BrowserSettings"
 import { ClineRulesToggles } from "@shared/cline-rules"
@@ -60,6 +60,8 @@ export interface GlobalState {
 	remoteRulesToggles: ClineRulesToggles
 	remoteWorkflowToggles: ClineRulesToggles
 	dismissedBanners: Array<{ bannerId: string; dismissedAt: number }>
+	// Workspace path -> fingerprints of the .cline/mcp.json stdio servers the user trusted
+	mcpTrustedProjectServers: Record<string, string[]>
 }
 
 export interface Settings {
@@ -100,6 +102,7 @@ export interface Settings {
 	planActSeparateModelsSetting: boolean
 	enableCheckpointsSetting: boolean
 	requestTimeoutMs: number | undefined
+	apiFallbackChain: ApiFallbackProvider[] | undefined
 	shellIntegrationTimeout: number
 	defaultTerminalProfile: string
 	terminalOutputLineLimit: number
@@ -133,6 +136,9 @@ export interface Settings {
 	enableParallelToolCalling: boolean
 	backgroundEditEnabled: boolean
 	architectConfig: ArchitectConfig
+	selectedPersona: string | undefined
+	contextSummarizationEnabled: boolean
+	contextSummarizationModelId: string | undefined
 
 	// Model-specific settings
 	hicapModelId: string | undefined
@@ -9,6 +9,8 @@ export enum ClineDefaultTool {
 	ASK = "ask_followup_question",
 	ATTEMPT = "attempt_completion",
 	BASH = "execute_command",
+	BACKGROUND_INPUT = "send_background_input",
+	SERVICE = "manage_service",
 	FILE_EDIT = "replace_in_file",
 	FILE_READ = "read_file",
 	FILE_NEW = "write_to_file",
@@ -20,6 +22,7 @@ export enum ClineDefaultTool {
 	MCP_ACCESS = "access_mcp_resource",
 	MCP_DOCS = "load_mcp_documentation",
 	NEW_TASK = "new_task",
+	SUBAGENTS = "use_subagents",
 	PLAN_MODE = "plan_mode_respond",
 	ACT_MODE = "act_mode_respond",
 	TODO = "focus_chain",
@@ -0,0 +1,97 @@
+import { execSync } from "child_process"
+import * as fs from "fs/promises"
+import { afterEach, beforeEach, describe, it } from "mocha"
+import * as os from "os"
+import * as path from "path"
+import "should"
+import { getDiffForSpec } from "../git"
+
+describe("getDiffForSpec", () => {
+	let repo: string
+
+	const git = (command: string) => execSync(`git ${command}`, { cwd: repo, stdio: "pipe" })
+	const write = (file: string, content: string) => fs.writeFile(path.join(repo, file), content)
+
+	beforeEach(async () => {
+		repo = await fs.mkdtemp(path.join(os.tmpdir(), "diff-spec-"))
+		git("init -q")
+		git("config user.email test@example.com")
+		git("config user.name Test")
+		git("config commit.gpgsign false")
+	})
+
+	afterEach(async () => {
+		await fs.rm(repo, { recursive: true, force: true })
+	})
+
+	const commit = async (file: string, content: string, message: string) => {
+		await write(file, content)
+		git(`add ${file}`)
+		git(`commit -q -m "${message}"`)
+	}
+
+	it("should reject specs that aren't plain revisions without running git", async () => {
+		for (const spec of [
+			"--output=/tmp/diff",
+			"-p",
+			"HEAD; touch pwned",
+			"$(touch pwned)",
+			"main..HEAD|cat",
+			"HEAD `id`",
+			"",
+		]) {
+			const result = await getDiffForSpec(spec, repo)
+			result.should.startWith(`Invalid diff spec "${spec}"`)
+		}
+		await fs.access(path.join(repo, "pwned")).should.be.rejected()
+	})
+
+	it("should explain when there is nothing to diff yet", async () => {
+		;(await getDiffForSpec("HEAD", repo)).should.equal("Repository has no commits yet")
+
+		await commit("a.txt", "one\n", "first")
+		;(await getDiffForSpec("staged", repo)).should.equal("No staged changes")
+		;(await getDiffForSpec("HEAD", repo)).should.equal("No changes in HEAD")
+	})
+
+	it("should diff only the staged changes for staged", async () => {
+		await commit("a.txt", "one\n", "first")
+		await commit("b.txt", "one\n", "second")
+		await write("a.txt", "staged\n")
+		git("add a.txt")
+		await write("b.txt", "unstaged\n")
+
+		const result = await getDiffForSpec("staged", repo)
+
+		result.should.startWith("Files Changed:\n a.txt")
+		result.should.containEql("-one\n+staged")
+		result.should.not.containEql("b.txt")
+	})
+
+	it("should diff the working tree against a revision", async () => {
+		await commit("a.txt", "one\n", "first")
+		await write("a.txt", "unstaged\n")
+
+		const result = await getDiffForSpec("HEAD", repo)
+
+		result.should.containEql("a.txt | 2 +-")
+		result.should.containEql("-one\n+unstaged")
+	})
+
+	it("should diff the commits in a range and leave out the working tree", async () => {
+		await commit("a.txt", "one\n", "first")
+		await commit("a.txt", "two\n", "second")
+		await write("a.txt", "unstaged\n")
+
+		const result = await getDiffForSpec("HEAD~1..HEAD", repo)
+
+		result.should.containEql("-one\n+two")
+		result.should.not.containEql("unstaged")
+	})
+
+	it("should report a directory outside a repository", async () => {
+		await fs.rm(path.join(repo, ".git"), { recursive: true, force: true })
+
+		;(await getDiffForSpec("HEAD", repo)).should.equal("Not a git repository")
+	})
+})
@@ -1,7 +1,7 @@
 import { describe, it } from "mocha"
 import "should"
 import { ModelInfo } from "@shared/api"
-import { calculateApiCostAnthropic, calculateApiCostOpenAI, calculateApiCostQwen } from "@utils/cost"
+import { calculateApiCostAnthropic, calculateApiCostForProvider, calculateApiCostOpenAI, calculateApiCostQwen } from "@utils/cost"
 
 describe("Cost Utilities", () => {
 	describe("calculateApiCostAnthropic", () => {
@@ -198,4 +198,27 @@ describe("Cost Utilities", () => {
 			cost.should.equal(0)
 		})
 	})
+
+	describe("calculateApiCostForProvider", () => {
+		const modelInfo: ModelInfo = {
+			supportsPromptCache: true,
+			inputPrice: 3.0,
+			outputPrice: 15.0,
+			cacheReadsPrice: 0.3,
+		}
+
+		it("should count cached tokens on top of the input for Anthropic-style providers", () => {
+			calculateApiCostForProvider("anthropic", modelInfo, 1000, 0, 0, 1000).should.equal(
+				calculateApiCostAnthropic(modelInfo, 1000, 0, 0, 1000),
+			)
+			calculateApiCostForProvider(undefined, modelInfo, 1000, 0, 0, 1000).should.equal(
+				calculateApiCostAnthropic(modelInfo, 1000, 0, 0, 1000),
+			)
+		})
+
+		it("should count cached tokens as part of the input for OpenAI-style providers", () => {
+			// Input: (3.0 / 1_000_000) * 0 = 0, cache reads: (0.3 / 1_000_000) * 1000 = 0.0003
+			calculateApiCostForProvider("openai", modelInfo, 1000, 0, 0, 1000).should.equal(0.0003)
+		})
+	})
 })
@@ -1,4 +1,7 @@
-import { ModelInfo } from "@shared/api"
+import { ApiProvider, ModelInfo } from "@shared/api"
+
+// Providers whose usage counts cached tokens separately from the input tokens, the way Anthropic's API does
+const ANTHROPIC_USAGE_PROVIDERS: ApiProvider[] = ["anthropic", "bedrock", "vertex", "claude-code", "minimax"]
 
 function calculateApiCostInternal(
 	modelInfo: ModelInfo,
@@ -135,3 +138,20 @@ export function calculateApiCostQwen(
 		thinkingBudgetTokens,
 	)
 }
+
+/**
+ * Prices usage a provider didn't price itself, counting its cached tokens the way that provider reports them.
+ * Anthropic is the default provider.
+ */
+export function calculateApiCostForProvider(
+	provider: ApiProvider | undefined,
+	modelInfo: ModelInfo,
+	inputTokens: number,
+	outputTokens: number,
+	cacheCreationInputTokens?: number,
+	cacheReadInputTokens?: number,
+): number {
+	const calculate =
+		!provider || ANTHROPIC_USAGE_PROVIDERS.includes(provider) ? calculateApiCostAnthropic : calculateApiCostOpenAI
+	return calculate(modelInfo, inputTokens, outputTokens, cacheCreationInputTokens, cacheReadInputTokens)
+}
@@ -2,8 +2,9 @@ import * as fs from "fs/promises"
 import { after, describe, it } from "mocha"
 import * as os from "os"
 import * as path from "path"
+import pWaitFor from "p-wait-for"
 import "should"
-import { createDirectoriesForFile, fileExistsAtPath, isDirectory, readDirectory } from "./fs"
+import { createDirectoriesForFile, fileExistsAtPath, isDirectory, readDirectory, watchDirectory } from "./fs"
 
 describe("Filesystem Utilities", () => {
 	const tmpDir = path.join(os.tmpdir(), "cline-test-" + Math.random().toString(36).slice(2))
@@ -313,4 +314,25 @@ describe("Filesystem Utilities", () => {
 
 		multiExcludeFiles.sort().should.deepEqual(rootOnlyFiles.sort())
 	})
+	describe("watchDirectory", () => {
+		it("should report files in a directory created after watching started, and nothing outside it", async () => {
+			const watchedDir = path.join(tmpDir, "watched", "personas")
+			const changes: string[] = []
+			const watcher = await watchDirectory(watchedDir, (changedPath) => changes.push(changedPath))
+			try {
+				await new Promise((resolve) => watcher.once("ready", resolve))
+				;(await fileExistsAtPath(watchedDir)).should.be.false()
+				await fs.mkdir(path.join(tmpDir, "watched", "other"), { recursive: true })
+				await fs.writeFile(path.join(tmpDir, "watched", "other", "ignored.md"), "ignored")
+				await fs.mkdir(watchedDir, { recursive: true })
+				await pWaitFor(() => changes.length > 0, { timeout: 5_000 })
+				await fs.writeFile(path.join(watchedDir, "reviewer.md"), "Review carefully")
+
+				await pWaitFor(() => changes.some((changed) => changed.endsWith("reviewer.md")), { timeout: 5_000 })
+				changes.every((changed) => changed.startsWith(watchedDir)).should.be.true()
+			} finally {
+				await watcher.close()
+			}
+		})
+	})
 })
@@ -1,4 +1,5 @@
 import { workspaceResolver } from "@core/workspace"
+import chokidar, { FSWatcher } from "chokidar"
 import fs from "fs/promises"
 import * as path from "path"
 import { HostProvider } from "@/hosts/host-provider"
@@ -162,3 +163,37 @@ export async function getBinaryLocation(name: string): Promise<string> {
 	}
 	return location
 }
+
+/**
+ * Watches the files in a directory, without creating it. A directory that doesn't exist yet is watched through its
+ * nearest existing ancestor, so files added once it's created are still seen.
+ *
+ * @param directoryPath - The directory to watch
+ * @param onChange - Called with the path of each file or directory added, changed or removed in it
+ * @returns The watcher, for the caller to close
+ */
+export async function watchDirectory(directoryPath: string, onChange: (changedPath: string) => void): Promise<FSWatcher> {
+	const target = path.resolve(directoryPath)
+	const isInTarget = (filePath: string) => filePath === target || filePath.startsWith(target + path.sep)
+
+	let root = target
+	while (!(await fileExistsAtPath(root)) && path.dirname(root) !== root) {
+		root = path.dirname(root)
+	}
+
+	const watcher = chokidar.watch(root, {
+		ignoreInitial: true,
+		atomic: true,
+		// Only the directories leading to the target and the target's own contents
+		ignored: (filePath) => {
+			const resolved = path.resolve(filePath)
+			return !isInTarget(resolved) && !target.startsWith(resolved + path.sep) && resolved !== root
+		},
+	})
+	watcher.on("all", (_event, changedPath) => {
+		if (isInTarget(path.resolve(changedPath))) {
+			onChange(changedPath)
+		}
+	})
+	return watcher
+}
@@ -185,6 +185,44 @@ export async function getWorkingState(cwd: string): Promise<string> {
 	}
 }
 
+/**
+ * Returns the stat and diff for a diff spec: "staged" for the index, or a revision/range such as "HEAD" or "main..HEAD".
+ */
+export async function getDiffForSpec(spec: string, cwd: string): Promise<string> {
+	try {
+		// The spec ends up in a shell command, so only accept revision characters and never an option
+		if (!/^[\w./~^-]+$/.test(spec) || spec.startsWith("-")) {
+			return `Invalid diff spec "${spec}". Use "staged" or a revision range such as "main..HEAD".`
+		}
+
+		const isInstalled = await checkGitInstalled()
+		if (!isInstalled) {
+			return "Git is not installed"
+		}
+
+		const isRepo = await checkGitRepo(cwd)
+		if (!isRepo) {
+			return "Not a git repository"
+		}
+
+		if (!(await checkGitRepoHasCommits(cwd))) {
+			return "Repository has no commits yet"
+		}
+
+		const args = spec === "staged" ? "--cached" : spec
+		const { stdout: stats } = await execAsync(`git --no-pager diff --stat ${args} --`, { cwd })
+		if (!stats.trim()) {
+			return spec === "staged" ? "No staged changes" : `No changes in ${spec}`
+		}
+		const { stdout: diff } = await execAsync(`git --no-pager diff ${args} --`, { cwd })
+
+		return truncateOutput(`Files Changed:\n${stats.trimEnd()}\n\nFull Changes:\n\n${diff.trim()}`)
+	} catch (error) {
+		console.error("Error getting diff:", error)
+		return `Failed to get diff: ${error instanceof Error ? error.message : String(error)}`
+	}
+}
+
 export async function getGitDiff(cwd: string, stagedOnly = false): Promise<string> {
 	try {
 		const isInstalled = await checkGitInstalled()
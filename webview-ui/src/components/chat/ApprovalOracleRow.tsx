@@ -0,0 +1,37 @@
+import { ClineMessage, ClineSayApprovalOracle } from "@shared/ExtensionMessage"
+import { memo } from "react"
+
+interface ApprovalOracleRowProps {
+	message: ClineMessage
+}
+
+/**
+ * The ApprovalOracle's reasoning for the tool approval row right below it.
+ * A denial does not block the tool; it means the user is asked instead.
+ */
+const ApprovalOracleRow = ({ message }: ApprovalOracleRowProps) => {
+	let decision: ClineSayApprovalOracle
+	try {
+		decision = JSON.parse(message.text || "{}")
+	} catch {
+		return null
+	}
+
+	return (
+		<div
+			className="flex items-start gap-1.5 text-xs py-1"
+			style={{
+				color: decision.approved ? "var(--vscode-descriptionForeground)" : "var(--vscode-editorWarning-foreground)",
+			}}>
+			<i className={`codicon ${decision.approved ? "codicon-shield" : "codicon-warning"} mt-px`} />
+			<span className="break-words min-w-0">
+				<span className="font-medium">
+					{decision.approved ? "Approved by Approval Oracle" : "Approval Oracle needs your approval"}:
+				</span>{" "}
+				{decision.reasoning}
+			</span>
+		</div>
+	)
+}
+
+export default memo(ApprovalOracleRow)
@@ -1,7 +1,10 @@
+import type { ApiFallbackEvent } from "@shared/api"
 import { COMMAND_OUTPUT_STRING, COMMAND_REQ_APP_STRING } from "@shared/combineCommandSequences"
 import {
 	ClineApiReqInfo,
 	ClineAskQuestion,
+	ClineAskMcpElicitation,
+	ClineAskMcpSampling,
 	ClineAskUseMcpServer,
 	ClineMessage,
 	ClinePlanModeResponse,
@@ -37,14 +40,19 @@ import { cn } from "@/lib/utils"
 import { FileServiceClient, TaskServiceClient, UiServiceClient } from "@/services/grpc-client"
 import { findMatchingResourceOrTemplate, getMcpServerDisplayName } from "@/utils/mcp"
 import CodeAccordian, { cleanPathPrefix } from "../common/CodeAccordian"
+import ApprovalOracleRow from "./ApprovalOracleRow"
+import CheckpointTimelineRow from "./CheckpointTimelineRow"
 import { DiffEditRow } from "./DiffEditRow"
 import { ErrorBlockTitle } from "./ErrorBlockTitle"
 import ErrorRow from "./ErrorRow"
 import HookMessage from "./HookMessage"
+import McpElicitationForm from "./McpElicitationForm"
+import McpToolProgressBar from "./McpToolProgressBar"
 import NewTaskPreview from "./NewTaskPreview"
 import QuoteButton from "./QuoteButton"
 import ReportBugPreview from "./ReportBugPreview"
 import SearchResultsDisplay from "./SearchResultsDisplay"
+import SubagentsRow from "./SubagentsRow"
 import UserMessage from "./UserMessage"
 
 const normalColor = "var(--vscode-foreground)"
@@ -493,6 +501,27 @@ export const ChatRowContent = memo(
 							MCP server:
 						</span>,
 					]
+				case "mcp_sampling":
+				case "mcp_elicitation": {
+					const { serverName } = JSON.parse(message.text || "{}") as ClineAskMcpSampling | ClineAskMcpElicitation
+					return [
+						<span
+							className={`codicon ${type === "mcp_sampling" ? "codicon-sparkle" : "codicon-question"}`}
+							style={{
+								color: normalColor,
+								marginBottom: "-1.5px",
+							}}></span>,
+						<span
+							className="ph-no-capture"
+							style={{ color: normalColor, fontWeight: "bold", wordBreak: "break-word" }}>
+							The{" "}
+							<code style={{ wordBreak: "break-all" }}>
+								{getMcpServerDisplayName(serverName, mcpMarketplaceCatalog)}
+							</code>{" "}
+							MCP server {type === "mcp_sampling" ? "wants to use the model:" : "is asking for input:"}
+						</span>,
+					]
+				}
 				case "completion_result":
 					return [
 						<span
@@ -801,6 +830,93 @@ export const ChatRowContent = memo(
 							/>
 						</>
 					)
+				case "backgroundInput":
+					return (
+						<>
+							<div style={headerStyle}>
+								<span
+									className="codicon codicon-terminal"
+									style={{ color: normalColor, marginBottom: "-1.5px" }}></span>
+								<span style={{ fontWeight: "bold" }}>
+									{tool.content
+										? message.type === "ask"
+											? `Cline wants to send input to background session ${tool.path}:`
+											: `Cline sent input to background session ${tool.path}:`
+										: message.type === "ask"
+											? `Cline wants to read the output of background session ${tool.path}`
+											: `Cline read the output of background session ${tool.path}`}
+								</span>
+							</div>
+							{tool.content && (
+								<div
+									style={{
+										borderRadius: 3,
+										backgroundColor: CODE_BLOCK_BG_COLOR,
+										overflow: "hidden",
+										border: "1px solid var(--vscode-editorGroup-border)",
+									}}>
+									<CodeBlock forceWrap={true} source={`${"```"}shell\n${tool.content}\n${"```"}`} />
+								</div>
+							)}
+						</>
+					)
+				case "service": {
+					const serviceActionLabels: Record<string, [string, string]> = {
+						start: ["wants to start", "started"],
+						stop: ["wants to stop", "stopped"],
+						restart: ["wants to restart", "restarted"],
+						logs: ["wants to read the logs of", "read the logs of"],
+					}
+					const [askLabel, sayLabel] = serviceActionLabels[tool.action ?? ""] ?? ["wants to manage", "managed"]
+					return (
+						<>
+							<div style={headerStyle}>
+								<span
+									className="codicon codicon-server-process"
+									style={{ color: normalColor, marginBottom: "-1.5px" }}></span>
+								<span style={{ fontWeight: "bold" }}>
+									Cline {message.type === "ask" ? askLabel : sayLabel} the {tool.path} service
+									{tool.content && tool.action !== "stop" && tool.action !== "logs" ? ":" : ""}
+								</span>
+							</div>
+							{tool.content && tool.action !== "stop" && tool.action !== "logs" && (
+								<div
+									style={{
+										borderRadius: 3,
+										backgroundColor: CODE_BLOCK_BG_COLOR,
+										overflow: "hidden",
+										border: "1px solid var(--vscode-editorGroup-border)",
+									}}>
+									<CodeBlock forceWrap={true} source={`${"```"}shell\n${tool.content}\n${"```"}`} />
+								</div>
+							)}
+						</>
+					)
+				}
+				case "subagents":
+					return (
+						<>
+							<div style={headerStyle}>
+								<span
+									className="codicon codicon-organization"
+									style={{ color: normalColor, marginBottom: "-1.5px" }}></span>
+								<span style={{ fontWeight: "bold" }}>
+									{message.type === "ask" ? "Cline wants to start subagents:" : "Cline started subagents:"}
+								</span>
+							</div>
+							{tool.content && (
+								<div
+									style={{
+										borderRadius: 3,
+										backgroundColor: CODE_BLOCK_BG_COLOR,
+										overflow: "hidden",
+										border: "1px solid var(--vscode-editorGroup-border)",
+									}}>
+									<CodeBlock forceWrap={true} source={`${"```"}json\n${tool.content}\n${"```"}`} />
+								</div>
+							)}
+						</>
+					)
 				case "summarizeTask":
 					return (
 						<>
@@ -1337,6 +1453,7 @@ export const ChatRowContent = memo(
 										/>
 									</div>
 								)}
+								{useMcpServer.progress && <McpToolProgressBar progress={useMcpServer.progress} />}
 							</>
 						)}
 					</div>
@@ -1566,8 +1683,81 @@ export const ChatRowContent = memo(
 						return <ErrorRow errorType="diff_error" message={message} />
 					case "clineignore_error":
 						return <ErrorRow errorType="clineignore_error" message={message} />
+					case "approval_oracle":
+						return <ApprovalOracleRow message={message} />
+					case "architect_phase": {
+						let phase: { phase?: string; iteration?: number } = {}
+						try {
+							phase = JSON.parse(message.text || "{}")
+						} catch {}
+						return (
+							<div className="flex items-center gap-1.5 text-xs py-1 text-description">
+								<i className="codicon codicon-layers" />
+								<span className="font-medium">Architect iteration {phase.iteration}</span>
+								<span className="capitalize">{phase.phase}</span>
+							</div>
+						)
+					}
+					case "provider_fallback": {
+						let fallback: Partial<ApiFallbackEvent> = {}
+						try {
+							fallback = JSON.parse(message.text || "{}")
+						} catch {}
+						return (
+							<div className="flex items-start gap-1.5 text-xs py-1 text-description">
+								<i className="codicon codicon-arrow-swap mt-px" />
+								<div className="min-w-0">
+									<span className="font-medium">
+										Switched to {fallback.toProvider} ({fallback.toModelId})
+									</span>{" "}
+									<span>
+										from {fallback.fromProvider} ({fallback.fromModelId})
+									</span>
+									{fallback.reason && <div className="break-words">{fallback.reason}</div>}
+								</div>
+							</div>
+						)
+					}
+					case "architect_evaluation": {
+						let evaluation: {
+							content?: string
+							approved?: boolean
+							reviewer?: string
+							policy?: string
+							failed?: boolean | string[]
+						} = {}
+						try {
+							evaluation = JSON.parse(message.text || "{}")
+						} catch {}
+						const verdict =
+							evaluation.failed === true
+								? "Failed"
+								: evaluation.approved === true
+									? "Approved"
+									: evaluation.approved === false
+										? "Revision needed"
+										: "No verdict"
+						return (
+							<div className="py-1">
+								<div className="flex items-center gap-1.5 text-xs text-description">
+									<i
+										className={`codicon ${evaluation.failed === true ? "codicon-error" : evaluation.approved ? "codicon-check" : evaluation.approved === false ? "codicon-sync" : "codicon-circle-slash"}`}
+									/>
+									<span className="font-medium">
+										{evaluation.reviewer ?? (evaluation.policy ? "Review verdict" : "Architect review")}
+									</span>
+									<span>{evaluation.policy ? evaluation.content : verdict}</span>
+								</div>
+								{!evaluation.policy && <Markdown markdown={evaluation.content} />}
+							</div>
+						)
+					}
 					case "checkpoint_created":
 						return <CheckmarkControl isCheckpointCheckedOut={message.isCheckpointCheckedOut} messageTs={message.ts} />
+					case "checkpoint_timeline":
+						return <CheckpointTimelineRow message={message} />
+					case "subagents":
+						return <SubagentsRow message={message} />
 					case "load_mcp_documentation":
 						return (
 							<div
@@ -2152,6 +2342,51 @@ export const ChatRowContent = memo(
 								/>
 							</div>
 						)
+					case "mcp_sampling": {
+						const sampling = JSON.parse(message.text || "{}") as ClineAskMcpSampling
+						return (
+							<>
+								<div style={headerStyle}>
+									{icon}
+									{title}
+								</div>
+								<div className="ph-no-capture flex flex-col gap-2 pt-2.5">
+									{sampling.systemPrompt && (
+										<div className="whitespace-pre-wrap text-(--vscode-descriptionForeground)">
+											{sampling.systemPrompt}
+										</div>
+									)}
+									{sampling.messages?.map((samplingMessage, index) => (
+										<div className="whitespace-pre-wrap" key={index}>
+											<span className="font-bold">
+												{samplingMessage.role === "user" ? "User" : "Assistant"}:{" "}
+											</span>
+											{samplingMessage.text}
+										</div>
+									))}
+									<div className="text-xs text-(--vscode-descriptionForeground)">
+										Up to {sampling.maxTokens} tokens on the current model
+									</div>
+									{sampling.cancelled && (
+										<div className="text-(--vscode-descriptionForeground)">Cancelled by the server</div>
+									)}
+								</div>
+							</>
+						)
+					}
+					case "mcp_elicitation":
+						return (
+							<>
+								<div style={headerStyle}>
+									{icon}
+									{title}
+								</div>
+								<McpElicitationForm
+									elicitation={JSON.parse(message.text || "{}") as ClineAskMcpElicitation}
+									isActive={isLast && lastModifiedMessage?.ask === "mcp_elicitation"}
+								/>
+							</>
+						)
 					case "new_task":
 						return (
 							<>
@@ -5,7 +5,7 @@ import { FileSearchRequest, FileSearchType, RelativePathsRequest } from "@shared
 import { UpdateApiConfigurationRequest } from "@shared/proto/cline/models"
 import { PlanActMode, TogglePlanActModeRequest } from "@shared/proto/cline/state"
 import { convertApiConfigurationToProto } from "@shared/proto-conversions/models/api-configuration-conversion"
-import { type SlashCommand } from "@shared/slashCommands"
+import { getMcpPromptCommands, type SlashCommand } from "@shared/slashCommands"
 import { Mode } from "@shared/storage/types"
 import { VSCodeButton } from "@vscode/webview-ui-toolkit/react"
 import { AtSignIcon, PlusIcon } from "lucide-react"
@@ -29,6 +29,7 @@ import { cn } from "@/lib/utils"
 import { FileServiceClient, ModelsServiceClient, StateServiceClient } from "@/services/grpc-client"
 import {
 	ContextMenuOptionType,
+	type ContextMenuQueryItem,
 	getContextMenuOptionIndex,
 	getContextMenuOptions,
 	insertMention,
@@ -41,6 +42,7 @@ import { useMetaKeyDetection, useShortcut } from "@/utils/hooks"
 import { isSafari } from "@/utils/platformUtils"
 import {
 	getMatchingSlashCommands,
+	getSlashCommandArgumentTemplate,
 	insertSlashCommand,
 	removeSlashCommand,
 	shouldShowSlashCommandsMenu,
@@ -50,6 +52,7 @@ import {
 } from "@/utils/slash-commands"
 import { validateApiConfiguration, validateModelId } from "@/utils/validate"
 import ClineRulesToggleModal from "../cline-rules/ClineRulesToggleModal"
+import PersonaPickerModal from "./PersonaPickerModal"
 import ServersToggleModal from "./ServersToggleModal"
 import VoiceRecorder from "./VoiceRecorder"
 
@@ -270,14 +273,19 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 			globalWorkflowToggles,
 			remoteWorkflowToggles,
 			remoteConfigSettings,
+			workflowCommandDetails,
+			mcpServers,
 			showChatModelSelector: showModelSelector,
 			setShowChatModelSelector: setShowModelSelector,
 			dictationSettings,
+			clineMessages,
 		} = useExtensionState()
 		const { clineUser } = useClineAuth()
+		const mcpPromptCommands = useMemo(() => getMcpPromptCommands(mcpServers), [mcpServers])
 		const [isTextAreaFocused, setIsTextAreaFocused] = useState(false)
 		const [isDraggingOver, setIsDraggingOver] = useState(false)
 		const [gitCommits, setGitCommits] = useState<GitCommit[]>([])
+		const [symbols, setSymbols] = useState<ContextMenuQueryItem[]>([])
 		const [isVoiceRecording, setIsVoiceRecording] = useState(false)
 		const [showSlashCommandsMenu, setShowSlashCommandsMenu] = useState(false)
 		const [selectedSlashCommandsIndex, setSelectedSlashCommandsIndex] = useState(0)
@@ -342,13 +350,58 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 			}
 		}, [selectedType, searchQuery])
 
+		// Fetch symbol definitions when Symbol is selected or when typing @symbol:
+		useEffect(() => {
+			const symbolQuery =
+				selectedType === ContextMenuOptionType.Symbol || searchQuery.startsWith("symbol:")
+					? searchQuery.replace(/^symbol:/, "")
+					: ""
+			if (!symbolQuery) {
+				setSymbols([])
+				return
+			}
+			// Symbol search parses source files, so wait for a pause in typing
+			const timeout = setTimeout(() => {
+				FileServiceClient.searchSymbols(StringRequest.create({ value: symbolQuery }))
+					.then((response) => {
+						setSymbols(
+							response.symbols.map((symbol) => ({
+								type: ContextMenuOptionType.Symbol,
+								value: `symbol:${symbol.name}`,
+								label: symbol.name,
+								description: `${symbol.kind} in ${symbol.relativePath}:${symbol.startLine + 1}`,
+							})),
+						)
+					})
+					.catch((error) => {
+						console.error("Error searching symbols:", error)
+					})
+			}, 200)
+			return () => clearTimeout(timeout)
+		}, [selectedType, searchQuery])
+
+		// Checkpoints are numbered in the order they appear in the chat, the same way @checkpoint mentions are resolved
+		const checkpoints = useMemo(() => {
+			return clineMessages
+				.filter((message) => message.say === "checkpoint_created" && message.lastCheckpointHash)
+				.map((message, index) => ({
+					type: ContextMenuOptionType.Checkpoint,
+					value: `checkpoint:${index + 1}`,
+					label: `Checkpoint ${index + 1}`,
+					description: `Changes since ${new Date(message.ts).toLocaleTimeString()}`,
+				}))
+				.reverse()
+		}, [clineMessages])
+
 		const queryItems = useMemo(() => {
 			return [
 				{ type: ContextMenuOptionType.Problems, value: "problems" },
 				{ type: ContextMenuOptionType.Terminal, value: "terminal" },
 				...gitCommits,
+				...checkpoints,
+				...symbols,
 			]
-		}, [gitCommits])
+		}, [gitCommits, checkpoints, symbols])
 
 		useEffect(() => {
 			const handleClickOutside = (event: MouseEvent) => {
@@ -394,7 +447,10 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 				if (
 					type === ContextMenuOptionType.File ||
 					type === ContextMenuOptionType.Folder ||
-					type === ContextMenuOptionType.Git
+					type === ContextMenuOptionType.Git ||
+					type === ContextMenuOptionType.Diff ||
+					type === ContextMenuOptionType.Checkpoint ||
+					type === ContextMenuOptionType.Symbol
 				) {
 					if (!value) {
 						setSelectedType(type)
@@ -485,13 +541,17 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 				setSlashCommandsQuery("")
 
 				if (textAreaRef.current) {
+					const argumentTemplate = getSlashCommandArgumentTemplate(command)
 					const { newValue, commandIndex } = insertSlashCommand(
 						textAreaRef.current.value,
-						command.name,
+						argumentTemplate ? `${command.name} ${argumentTemplate}` : command.name,
 						queryLength,
 						cursorPosition,
 					)
-					const newCursorPosition = newValue.indexOf(" ", commandIndex + 1 + command.name.length) + 1
+					// With arguments, the cursor goes into the first value's quotes
+					const newCursorPosition = argumentTemplate
+						? commandIndex + 1 + command.name.length + 1 + argumentTemplate.indexOf('"') + 1
+						: newValue.indexOf(" ", commandIndex + 1 + command.name.length) + 1
 
 					setInputValue(newValue)
 					setCursorPosition(newCursorPosition)
@@ -527,6 +587,8 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 								globalWorkflowToggles,
 								remoteWorkflowToggles,
 								remoteConfigSettings?.remoteGlobalWorkflows,
+								mcpPromptCommands,
+								workflowCommandDetails,
 							)
 
 							if (allCommands.length === 0) {
@@ -551,6 +613,8 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 							globalWorkflowToggles,
 							remoteWorkflowToggles,
 							remoteConfigSettings?.remoteGlobalWorkflows,
+							mcpPromptCommands,
+							workflowCommandDetails,
 						)
 						if (commands.length > 0) {
 							handleSlashCommandsSelect(commands[selectedSlashCommandsIndex])
@@ -708,6 +772,8 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 				showSlashCommandsMenu,
 				selectedSlashCommandsIndex,
 				slashCommandsQuery,
+				mcpPromptCommands,
+				workflowCommandDetails,
 				handleSlashCommandsSelect,
 				sendingDisabled,
 			],
@@ -1009,6 +1075,7 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 					globalWorkflowToggles,
 					remoteWorkflowToggles,
 					remoteConfigSettings?.remoteGlobalWorkflows,
+					mcpPromptCommands,
 				)
 
 				if (isValidCommand) {
@@ -1022,7 +1089,7 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 			highlightLayerRef.current.innerHTML = processedText
 			highlightLayerRef.current.scrollTop = textAreaRef.current.scrollTop
 			highlightLayerRef.current.scrollLeft = textAreaRef.current.scrollLeft
-		}, [localWorkflowToggles, globalWorkflowToggles, remoteWorkflowToggles, remoteConfigSettings])
+		}, [localWorkflowToggles, globalWorkflowToggles, remoteWorkflowToggles, remoteConfigSettings, mcpPromptCommands])
 
 		useLayoutEffect(() => {
 			updateHighlights()
@@ -1491,6 +1558,8 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 							<SlashCommandMenu
 								globalWorkflowToggles={globalWorkflowToggles}
 								localWorkflowToggles={localWorkflowToggles}
+								mcpPromptCommands={mcpPromptCommands}
+								workflowCommandDetails={workflowCommandDetails}
 								onMouseDown={handleMenuMouseDown}
 								onSelect={handleSlashCommandsSelect}
 								query={slashCommandsQuery}
@@ -1745,6 +1814,8 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 
 							<ClineRulesToggleModal />
 
+							<PersonaPickerModal />
+
 							<ModelContainer ref={modelSelectorRef}>
 								<ModelPickerModal
 									currentMode={mode}
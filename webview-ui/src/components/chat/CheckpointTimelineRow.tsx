@@ -0,0 +1,143 @@
+import { ClineMessage, ClineSayCheckpointTimeline } from "@shared/ExtensionMessage"
+import { CheckpointTimeline, CompareCheckpointsRequest } from "@shared/proto/cline/checkpoints"
+import { EmptyRequest, StringRequest } from "@shared/proto/cline/common"
+import { VSCodeButton } from "@vscode/webview-ui-toolkit/react"
+import { memo, useCallback, useEffect, useMemo, useState } from "react"
+import { useExtensionState } from "@/context/ExtensionStateContext"
+import { cn } from "@/lib/utils"
+import { CheckpointsServiceClient } from "@/services/grpc-client"
+
+interface CheckpointTimelineRowProps {
+	message: ClineMessage
+}
+
+/**
+ * Shown where restoring an earlier checkpoint started a new timeline. Lists the task's timelines so the user can switch
+ * back to the checkpoints that were left behind, or pick any two checkpoints to compare.
+ */
+const CheckpointTimelineRow = ({ message }: CheckpointTimelineRowProps) => {
+	const { clineMessages } = useExtensionState()
+	const [timelines, setTimelines] = useState<CheckpointTimeline[]>([])
+	const [selected, setSelected] = useState<string[]>([])
+	const [isBusy, setIsBusy] = useState(false)
+
+	let info: ClineSayCheckpointTimeline | undefined
+	try {
+		info = JSON.parse(message.text || "{}")
+	} catch {}
+
+	// Checkpoints still in the chat are labelled the same way @checkpoint mentions number them
+	const checkpointHashes = useMemo(
+		() =>
+			clineMessages.filter((m) => m.say === "checkpoint_created" && m.lastCheckpointHash).map((m) => m.lastCheckpointHash!),
+		[clineMessages],
+	)
+
+	const refresh = useCallback(async () => {
+		try {
+			const response = await CheckpointsServiceClient.getCheckpointTimelines(EmptyRequest.create())
+			setTimelines(response.timelines)
+		} catch (error) {
+			console.error("Error fetching checkpoint timelines:", error)
+		}
+	}, [])
+
+	useEffect(() => {
+		refresh()
+	}, [refresh, checkpointHashes.length])
+
+	const getLabel = (hash: string) => {
+		const index = checkpointHashes.findIndex((checkpointHash) => hash.startsWith(checkpointHash))
+		return index === -1 ? hash.slice(0, 7) : `Checkpoint ${index + 1}`
+	}
+
+	const toggleSelected = (hash: string) => {
+		setSelected((current) => (current.includes(hash) ? current.filter((h) => h !== hash) : [...current, hash].slice(-2)))
+	}
+
+	const handleSwitch = async (name: string) => {
+		setIsBusy(true)
+		try {
+			await CheckpointsServiceClient.switchCheckpointTimeline(StringRequest.create({ value: name }))
+			await refresh()
+		} catch (error) {
+			console.error("Error switching checkpoint timeline:", error)
+		} finally {
+			setIsBusy(false)
+		}
+	}
+
+	const handleCompare = async () => {
+		const [lhsHash, rhsHash] = selected
+		try {
+			await CheckpointsServiceClient.compareCheckpoints(CompareCheckpointsRequest.create({ lhsHash, rhsHash }))
+		} catch (error) {
+			console.error("Error comparing checkpoints:", error)
+		}
+	}
+
+	return (
+		<div className="py-1 text-xs">
+			<div className="flex items-center gap-1.5 text-description">
+				<i className="codicon codicon-git-branch" />
+				<span className="font-medium">Started timeline {info?.timeline}</span>
+				<span>Later checkpoints were kept on the previous timeline</span>
+			</div>
+			{timelines.length > 0 && (
+				<div className="mt-1.5 flex flex-col gap-1.5 rounded-xs border border-editor-group-border p-2">
+					{timelines.map((timeline) => (
+						<div key={timeline.name}>
+							<div className="flex items-center gap-1.5">
+								<span className={cn("font-medium", timeline.isCurrent && "text-link")}>{timeline.name}</span>
+								{timeline.forkedFrom && (
+									<span className="text-description">from {getLabel(timeline.forkedFrom)}</span>
+								)}
+								{timeline.isCurrent ? (
+									<span className="text-description">(current)</span>
+								) : (
+									<VSCodeButton
+										appearance="icon"
+										disabled={isBusy}
+										onClick={() => handleSwitch(timeline.name)}
+										title={`Switch the workspace to the latest state of ${timeline.name}`}>
+										<i className="codicon codicon-arrow-swap" />
+									</VSCodeButton>
+								)}
+							</div>
+							<div className="flex flex-wrap gap-1 mt-0.5">
+								{timeline.checkpoints.length === 0 && (
+									<span className="text-description">No checkpoints yet</span>
+								)}
+								{timeline.checkpoints.map((checkpoint) => (
+									<button
+										className={cn(
+											"cursor-pointer rounded-xs border px-1.5 py-0.5 bg-transparent text-foreground",
+											selected.includes(checkpoint.hash) ? "border-focus" : "border-editor-group-border",
+										)}
+										key={checkpoint.hash}
+										onClick={() => toggleSelected(checkpoint.hash)}
+										title={`${checkpoint.hash.slice(0, 7)} · ${new Date(checkpoint.timestamp).toLocaleString()}`}
+										type="button">
+										{getLabel(checkpoint.hash)}
+									</button>
+								))}
+							</div>
+						</div>
+					))}
+					<div className="flex items-center gap-2">
+						<VSCodeButton appearance="secondary" disabled={selected.length !== 2} onClick={handleCompare}>
+							Compare
+						</VSCodeButton>
+						<span className="text-description">
+							{selected.length === 2
+								? `${getLabel(selected[0])} ↔ ${getLabel(selected[1])}`
+								: "Select two checkpoints to compare"}
+						</span>
+					</div>
+				</div>
+			)}
+		</div>
+	)
+}
+
+export default memo(CheckpointTimelineRow)
@@ -81,6 +81,14 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 		}
 	}, [selectedIndex])
 
+	// Labels for the entries that open a list of diffs, checkpoints or symbols
+	const LIST_OPTION_LABELS: Partial<Record<ContextMenuOptionType, string>> = {
+		[ContextMenuOptionType.Git]: "Git Commits",
+		[ContextMenuOptionType.Diff]: "Git Diff",
+		[ContextMenuOptionType.Checkpoint]: "Checkpoints",
+		[ContextMenuOptionType.Symbol]: "Symbols",
+	}
+
 	// Shared label definitions for simple option types
 	const SIMPLE_OPTION_LABELS: Partial<Record<ContextMenuOptionType, string>> = {
 		[ContextMenuOptionType.Problems]: "Problems",
@@ -99,10 +107,13 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 
 		switch (option.type) {
 			case ContextMenuOptionType.Git:
+			case ContextMenuOptionType.Diff:
+			case ContextMenuOptionType.Checkpoint:
+			case ContextMenuOptionType.Symbol:
 				if (option.value) {
 					return `${option.label}${option.description ? `, ${option.description}` : ""}`
 				}
-				return "Git Commits"
+				return LIST_OPTION_LABELS[option.type]!
 			case ContextMenuOptionType.File:
 			case ContextMenuOptionType.Folder:
 				if (option.value) {
@@ -123,6 +134,9 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 
 		switch (option.type) {
 			case ContextMenuOptionType.Git:
+			case ContextMenuOptionType.Diff:
+			case ContextMenuOptionType.Checkpoint:
+			case ContextMenuOptionType.Symbol:
 				if (option.value) {
 					return (
 						<div style={{ display: "flex", flexDirection: "column", gap: 0 }}>
@@ -144,7 +158,7 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 						</div>
 					)
 				}
-				return <span>Git Commits</span>
+				return <span>{LIST_OPTION_LABELS[option.type]}</span>
 			case ContextMenuOptionType.File:
 			case ContextMenuOptionType.Folder:
 				if (option.value) {
@@ -190,6 +204,12 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 				return "link"
 			case ContextMenuOptionType.Git:
 				return "git-commit"
+			case ContextMenuOptionType.Diff:
+				return "diff"
+			case ContextMenuOptionType.Checkpoint:
+				return "history"
+			case ContextMenuOptionType.Symbol:
+				return "symbol-method"
 			case ContextMenuOptionType.NoResults:
 				return "info"
 			default:
@@ -315,7 +335,7 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 							</div>
 							{(option.type === ContextMenuOptionType.File ||
 								option.type === ContextMenuOptionType.Folder ||
-								option.type === ContextMenuOptionType.Git) &&
+								option.type in LIST_OPTION_LABELS) &&
 								!option.value && (
 									<i
 										className="codicon codicon-chevron-right"
@@ -330,7 +350,7 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 								option.type === ContextMenuOptionType.Terminal ||
 								((option.type === ContextMenuOptionType.File ||
 									option.type === ContextMenuOptionType.Folder ||
-									option.type === ContextMenuOptionType.Git) &&
+									option.type in LIST_OPTION_LABELS) &&
 									option.value)) && (
 								<i
 									className="codicon codicon-add"
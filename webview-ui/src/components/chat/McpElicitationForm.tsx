@@ -0,0 +1,159 @@
+import { ClineAskMcpElicitation } from "@shared/ExtensionMessage"
+import { McpElicitationField } from "@shared/mcp"
+import { AskResponseRequest } from "@shared/proto/cline/task"
+import { VSCodeButton, VSCodeCheckbox, VSCodeDropdown, VSCodeOption, VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+import { useState } from "react"
+import { TaskServiceClient } from "@/services/grpc-client"
+import { buildElicitationContent, getElicitationDefaults, getElicitationOptions, type McpElicitationFormValue } from "@/utils/mcp"
+
+interface McpElicitationFormProps {
+	elicitation: ClineAskMcpElicitation
+	isActive: boolean
+}
+
+const RESPONSE_LABELS = {
+	accept: "Submitted",
+	decline: "Declined",
+	cancel: "Cancelled",
+}
+
+/**
+ * Form for an MCP server's elicitation request. Submitting accepts with the entered values;
+ * once answered, the form shows what was sent.
+ */
+const McpElicitationForm = ({ elicitation, isActive }: McpElicitationFormProps) => {
+	const { requestedSchema, response } = elicitation
+	const [values, setValues] = useState<Record<string, McpElicitationFormValue>>(() => ({
+		...getElicitationDefaults(requestedSchema),
+		...Object.fromEntries(
+			Object.entries(response?.content ?? {}).map(([name, value]) => [
+				name,
+				typeof value === "number" ? String(value) : value,
+			]),
+		),
+	}))
+	const [error, setError] = useState<string>()
+	const [sent, setSent] = useState(false)
+	const disabled = !isActive || !!response || sent
+
+	const setValue = (name: string, value: McpElicitationFormValue) => setValues((current) => ({ ...current, [name]: value }))
+
+	const respond = async (accept: boolean) => {
+		let text: string | undefined
+		if (accept) {
+			const result = buildElicitationContent(requestedSchema, values)
+			if ("error" in result) {
+				setError(result.error)
+				return
+			}
+			text = JSON.stringify(result.content)
+		}
+		setError(undefined)
+		setSent(true)
+		try {
+			await TaskServiceClient.askResponse(
+				AskResponseRequest.create({ responseType: accept ? "yesButtonClicked" : "noButtonClicked", text }),
+			)
+		} catch (err) {
+			console.error("Error sending elicitation response:", err)
+			setSent(false)
+		}
+	}
+
+	const renderField = (name: string, field: McpElicitationField) => {
+		const value = values[name]
+		const options = getElicitationOptions(field)
+
+		if (field.type === "boolean") {
+			return (
+				<VSCodeCheckbox
+					checked={value === true}
+					disabled={disabled}
+					onChange={(e: any) => setValue(name, e.target.checked === true)}>
+					{field.title || name}
+				</VSCodeCheckbox>
+			)
+		}
+		if (field.type === "array" && options) {
+			const selected = Array.isArray(value) ? value : []
+			return options.map((option) => (
+				<VSCodeCheckbox
+					checked={selected.includes(option.value)}
+					disabled={disabled}
+					key={option.value}
+					onChange={(e: any) =>
+						setValue(
+							name,
+							e.target.checked
+								? [...selected.filter((v) => v !== option.value), option.value]
+								: selected.filter((v) => v !== option.value),
+						)
+					}>
+					{option.label}
+				</VSCodeCheckbox>
+			))
+		}
+		if (options) {
+			return (
+				<VSCodeDropdown
+					className="w-full"
+					disabled={disabled}
+					onChange={(e: any) => setValue(name, e.target.value)}
+					value={typeof value === "string" ? value : ""}>
+					<VSCodeOption value="">Select...</VSCodeOption>
+					{options.map((option) => (
+						<VSCodeOption key={option.value} value={option.value}>
+							{option.label}
+						</VSCodeOption>
+					))}
+				</VSCodeDropdown>
+			)
+		}
+		return (
+			<VSCodeTextField
+				className="w-full"
+				disabled={disabled}
+				onInput={(e: any) => setValue(name, e.target.value)}
+				type={field.format === "email" ? "email" : field.format === "uri" ? "url" : "text"}
+				value={typeof value === "string" ? value : String(value ?? "")}
+			/>
+		)
+	}
+
+	return (
+		<div className="flex flex-col gap-3 pt-2.5">
+			<div className="ph-no-capture whitespace-pre-wrap">{elicitation.message}</div>
+			{Object.entries(requestedSchema.properties).map(([name, field]) => (
+				<div className="flex flex-col gap-1" key={name}>
+					{field.type !== "boolean" && (
+						<label className="font-medium">
+							{field.title || name}
+							{requestedSchema.required?.includes(name) && (
+								<span className="text-(--vscode-errorForeground)"> *</span>
+							)}
+						</label>
+					)}
+					{renderField(name, field)}
+					{field.description && (
+						<div className="text-xs text-(--vscode-descriptionForeground)">{field.description}</div>
+					)}
+				</div>
+			))}
+			{error && <div className="text-(--vscode-errorForeground)">{error}</div>}
+			{response ? (
+				<div className="text-(--vscode-descriptionForeground)">{RESPONSE_LABELS[response.action]}</div>
+			) : (
+				<div className="flex gap-2">
+					<VSCodeButton disabled={disabled} onClick={() => respond(true)}>
+						Submit
+					</VSCodeButton>
+					<VSCodeButton appearance="secondary" disabled={disabled} onClick={() => respond(false)}>
+						Decline
+					</VSCodeButton>
+				</div>
+			)}
+		</div>
+	)
+}
+
+export default McpElicitationForm
@@ -0,0 +1,25 @@
+import { McpToolProgress } from "@shared/mcp"
+import { Progress } from "@/components/ui/progress"
+
+interface McpToolProgressBarProps {
+	progress: McpToolProgress
+}
+
+/**
+ * Progress an MCP server reported for a running tool call. Without a total, only the count is shown.
+ */
+const McpToolProgressBar = ({ progress }: McpToolProgressBarProps) => {
+	const percent = progress.total ? Math.min(100, Math.round((progress.progress / progress.total) * 100)) : undefined
+
+	return (
+		<div className="flex flex-col gap-1 mt-2">
+			<div className="flex justify-between gap-2 text-xs text-(--vscode-descriptionForeground)">
+				<span className="ph-no-capture break-words">{progress.message || "Running..."}</span>
+				<span className="shrink-0">{percent !== undefined ? `${percent}%` : progress.progress.toLocaleString()}</span>
+			</div>
+			{percent !== undefined && <Progress className="h-1" value={percent} />}
+		</div>
+	)
+}
+
+export default McpToolProgressBar
@@ -0,0 +1,129 @@
+import type { PersonaSummary } from "@shared/personas"
+import { VSCodeButton } from "@vscode/webview-ui-toolkit/react"
+import React, { useEffect, useRef, useState } from "react"
+import { useClickAway, useWindowSize } from "react-use"
+import PopupModalContainer from "@/components/common/PopupModalContainer"
+import { updateSetting } from "@/components/settings/utils/settingsHandlers"
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip"
+import { useExtensionState } from "@/context/ExtensionStateContext"
+import { cn } from "@/lib/utils"
+
+// What a persona targets beyond the mode, e.g. "claude · anthropic"
+const describeTargets = (persona: PersonaSummary) => {
+	const targets = [...persona.modelFamilies, ...persona.providers]
+	const tools = [
+		persona.tools.allow && `only ${persona.tools.allow.join(", ")}`,
+		persona.tools.deny && `no ${persona.tools.deny.join(", ")}`,
+	].filter(Boolean)
+	return [...targets, ...tools].join(" · ")
+}
+
+const PersonaPickerModal: React.FC = () => {
+	const { personas = [], selectedPersona, mode } = useExtensionState()
+	const [isVisible, setIsVisible] = useState(false)
+	const buttonRef = useRef<HTMLDivElement>(null)
+	const modalRef = useRef<HTMLDivElement>(null)
+	const { width: viewportWidth, height: viewportHeight } = useWindowSize()
+	const [arrowPosition, setArrowPosition] = useState(0)
+	const [menuPosition, setMenuPosition] = useState(0)
+
+	const selected = personas.find((persona) => persona.id === selectedPersona)
+
+	// Close modal when clicking outside
+	useClickAway(modalRef, () => {
+		setIsVisible(false)
+	})
+
+	// Calculate positions for modal and arrow
+	useEffect(() => {
+		if (isVisible && buttonRef.current) {
+			const buttonRect = buttonRef.current.getBoundingClientRect()
+			const buttonCenter = buttonRect.left + buttonRect.width / 2
+			const rightPosition = document.documentElement.clientWidth - buttonCenter - 5
+
+			setArrowPosition(rightPosition)
+			setMenuPosition(buttonRect.top + 1)
+		}
+	}, [isVisible, viewportWidth, viewportHeight])
+
+	const selectPersona = (id: string | undefined) => {
+		updateSetting("selectedPersona", id ?? "")
+		setIsVisible(false)
+	}
+
+	return (
+		<div className="inline-flex min-w-0 max-w-full items-center" ref={modalRef}>
+			<div className="inline-flex w-full items-center" ref={buttonRef}>
+				<Tooltip>
+					{!isVisible && <TooltipContent>{selected ? `Persona: ${selected.name}` : "Choose a Persona"}</TooltipContent>}
+					<TooltipTrigger>
+						<VSCodeButton
+							appearance="icon"
+							aria-label={isVisible ? "Hide Personas" : "Show Personas"}
+							className="p-0 m-0 flex items-center"
+							data-testid="persona-button"
+							onClick={() => setIsVisible(!isVisible)}>
+							<i className={cn("codicon codicon-person", selected && "text-link")} style={{ fontSize: "12.5px" }} />
+						</VSCodeButton>
+					</TooltipTrigger>
+				</Tooltip>
+			</div>
+
+			{isVisible && (
+				<PopupModalContainer $arrowPosition={arrowPosition} $menuPosition={menuPosition}>
+					<div className="flex-shrink-0 px-3 pt-2">
+						<div className="m-0 mb-1 text-sm font-medium">Personas</div>
+						<p className="m-0 mb-2.5 text-xs text-description">
+							Add Markdown files to <span className="font-mono">.cline/personas</span> in your workspace or{" "}
+							<span className="font-mono">Documents/Cline/Personas</span>. Front matter can limit a persona to modes
+							(plan, act, architect, editor), model families, providers and tools.
+						</p>
+					</div>
+
+					<div className="flex-1 overflow-y-auto px-3 pb-3 flex flex-col gap-1" style={{ minHeight: 0 }}>
+						<button
+							className={cn(
+								"flex items-center gap-1.5 border-0 bg-transparent p-1 text-left text-xs text-foreground cursor-pointer rounded-xs hover:bg-list-background-hover",
+								!selected && "font-medium",
+							)}
+							onClick={() => selectPersona(undefined)}
+							type="button">
+							<i className={cn("codicon", selected ? "codicon-blank" : "codicon-check")} />
+							No persona
+						</button>
+						{personas.map((persona) => {
+							const isSelected = persona.id === selected?.id
+							const targets = describeTargets(persona)
+							const inactive = persona.modes.length > 0 && !persona.modes.includes(mode)
+							return (
+								<button
+									className="flex items-start gap-1.5 border-0 bg-transparent p-1 text-left text-xs text-foreground cursor-pointer rounded-xs hover:bg-list-background-hover"
+									key={persona.id}
+									onClick={() => selectPersona(persona.id)}
+									title={persona.source === "workspace" ? "Workspace persona" : "Global persona"}
+									type="button">
+									<i className={cn("codicon mt-px", isSelected ? "codicon-check" : "codicon-blank")} />
+									<div className="flex flex-col min-w-0">
+										<span className={cn(isSelected && "font-medium")}>{persona.name}</span>
+										{persona.description && <span className="text-description">{persona.description}</span>}
+										<span className="text-description">
+											{persona.modes.length > 0 ? persona.modes.join(", ") : "all modes"}
+											{targets && ` · ${targets}`}
+										</span>
+										{isSelected && inactive && (
+											<span className="text-warning">
+												Not used in {mode === "plan" ? "Plan" : "Act"} mode
+											</span>
+										)}
+									</div>
+								</button>
+							)
+						})}
+					</div>
+				</PopupModalContainer>
+			)}
+		</div>
+	)
+}
+
+export default PersonaPickerModal
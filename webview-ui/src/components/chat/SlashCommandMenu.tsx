@@ -1,4 +1,4 @@
-import { type SlashCommand } from "@shared/slashCommands"
+import { type SlashCommand, type WorkflowCommandDetails } from "@shared/slashCommands"
 import React, { useCallback, useEffect, useRef } from "react"
 import ScreenReaderAnnounce from "@/components/common/ScreenReaderAnnounce"
 import { useMenuAnnouncement } from "@/hooks/useMenuAnnouncement"
@@ -14,6 +14,8 @@ interface SlashCommandMenuProps {
 	globalWorkflowToggles?: Record<string, boolean>
 	remoteWorkflowToggles?: Record<string, boolean>
 	remoteWorkflows?: any[]
+	mcpPromptCommands?: SlashCommand[]
+	workflowCommandDetails?: Record<string, WorkflowCommandDetails>
 }
 
 const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({
@@ -26,6 +28,8 @@ const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({
 	globalWorkflowToggles = {},
 	remoteWorkflowToggles,
 	remoteWorkflows,
+	mcpPromptCommands = [],
+	workflowCommandDetails,
 }) => {
 	const menuRef = useRef<HTMLDivElement>(null)
 
@@ -36,9 +40,12 @@ const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({
 		globalWorkflowToggles,
 		remoteWorkflowToggles,
 		remoteWorkflows,
+		mcpPromptCommands,
+		workflowCommandDetails,
 	)
 	const defaultCommands = filteredCommands.filter((cmd) => cmd.section === "default" || !cmd.section)
 	const workflowCommands = filteredCommands.filter((cmd) => cmd.section === "custom")
+	const mcpCommands = filteredCommands.filter((cmd) => cmd.section === "mcp")
 
 	// Screen reader announcements
 	const getCommandLabel = useCallback((command: SlashCommand) => {
@@ -111,6 +118,17 @@ const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({
 									<span className="ph-no-capture">{command.description}</span>
 								</div>
 							)}
+							{showDescriptions && command.arguments && command.arguments.length > 0 && (
+								<div className="text-[0.85em] text-(--vscode-descriptionForeground)">
+									Arguments:{" "}
+									{command.arguments
+										.map(
+											(arg) =>
+												`${arg.name}${arg.required ? "*" : ""}${arg.options ? ` (${arg.options.join("|")})` : ""}`,
+										)
+										.join(", ")}
+								</div>
+							)}
 						</div>
 					)
 				})}
@@ -134,7 +152,8 @@ const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({
 				{filteredCommands.length > 0 ? (
 					<>
 						{renderCommandSection(defaultCommands, "Default Commands", 0, true)}
-						{renderCommandSection(workflowCommands, "Workflow Commands", defaultCommands.length, false)}
+						{renderCommandSection(workflowCommands, "Workflow Commands", defaultCommands.length, true)}
+						{renderCommandSection(mcpCommands, "MCP Prompts", defaultCommands.length + workflowCommands.length, true)}
 					</>
 				) : (
 					<div aria-selected="false" className="py-2 px-3 cursor-default flex flex-col" role="option">
@@ -0,0 +1,109 @@
+import { ClineMessage, ClineSaySubagents } from "@shared/ExtensionMessage"
+import { memo, useState } from "react"
+import MarkdownBlock from "@/components/common/MarkdownBlock"
+import { cn } from "@/lib/utils"
+import { formatLargeNumber } from "@/utils/format"
+
+interface SubagentsRowProps {
+	message: ClineMessage
+}
+
+type SubagentStatus = ClineSaySubagents["subagents"][number]["status"]
+
+const statusDisplay: Record<SubagentStatus, { icon: string; label: string; className?: string }> = {
+	pending: { icon: "codicon-circle-outline", label: "Waiting" },
+	running: { icon: "codicon-loading codicon-modifier-spin", label: "Running" },
+	completed: { icon: "codicon-check", label: "Completed", className: "text-success" },
+	failed: { icon: "codicon-error", label: "Failed", className: "text-error" },
+	budget_exceeded: { icon: "codicon-warning", label: "Budget exceeded", className: "text-warning" },
+	cancelled: { icon: "codicon-circle-slash", label: "Cancelled" },
+}
+
+const policyLabels: Record<ClineSaySubagents["subagents"][number]["approvalPolicy"], string> = {
+	read_only: "read only",
+	edit: "edit",
+	full: "full",
+}
+
+const formatUsage = (tokensIn = 0, tokensOut = 0, cost = 0) =>
+	`↑ ${formatLargeNumber(tokensIn)} ↓ ${formatLargeNumber(tokensOut)} · $${cost.toFixed(4)}`
+
+/**
+ * Shows the subagents started by a use_subagents call, updating as each one runs and finishes with its summary, the
+ * files it changed and what it cost.
+ */
+const SubagentsRow = ({ message }: SubagentsRowProps) => {
+	const [expanded, setExpanded] = useState<number[]>([])
+
+	let info: ClineSaySubagents | undefined
+	try {
+		info = JSON.parse(message.text || "{}")
+	} catch {}
+	const subagents = info?.subagents ?? []
+	const finished = subagents.filter((subagent) => subagent.status !== "pending" && subagent.status !== "running").length
+
+	const toggleExpanded = (index: number) => {
+		setExpanded((current) => (current.includes(index) ? current.filter((i) => i !== index) : [...current, index]))
+	}
+
+	return (
+		<div className="py-1 text-xs">
+			<div className="flex items-center gap-1.5 text-description">
+				<i className="codicon codicon-organization" />
+				<span className="font-medium">
+					Subagents {finished}/{subagents.length} finished
+				</span>
+				<span>{formatUsage(info?.tokensIn, info?.tokensOut, info?.cost)}</span>
+			</div>
+			<div className="mt-1.5 flex flex-col gap-1.5 rounded-xs border border-editor-group-border p-2">
+				{subagents.map((subagent, index) => {
+					const status = statusDisplay[subagent.status] ?? statusDisplay.pending
+					const isExpanded = expanded.includes(index)
+					const hasDetails = !!subagent.summary || !!subagent.error || !!subagent.filesChanged?.length
+					return (
+						<div key={index}>
+							<button
+								className="flex w-full items-start gap-1.5 border-0 bg-transparent p-0 text-left text-foreground cursor-pointer"
+								disabled={!hasDetails}
+								onClick={() => toggleExpanded(index)}
+								type="button">
+								<i className={cn("codicon mt-px", status.icon, status.className)} title={status.label} />
+								<span className={cn("flex-1", !isExpanded && "line-clamp-2")}>{subagent.prompt}</span>
+								{hasDetails && (
+									<i className={cn("codicon", isExpanded ? "codicon-chevron-up" : "codicon-chevron-down")} />
+								)}
+							</button>
+							<div className="ml-5 flex flex-wrap gap-x-2 text-description">
+								<span className={status.className}>{status.label}</span>
+								<span>{policyLabels[subagent.approvalPolicy]}</span>
+								{subagent.cwd && <span>in {subagent.cwd}</span>}
+								{subagent.isolated && <span>isolated</span>}
+								{subagent.tokensIn !== undefined && (
+									<span>{formatUsage(subagent.tokensIn, subagent.tokensOut, subagent.cost)}</span>
+								)}
+							</div>
+							{isExpanded && (
+								<div className="ml-5 mt-1 flex flex-col gap-1">
+									{subagent.error && <div className="text-error whitespace-pre-wrap">{subagent.error}</div>}
+									{subagent.summary && <MarkdownBlock markdown={subagent.summary} />}
+									{!!subagent.filesChanged?.length && (
+										<div>
+											<span className="text-description">Files changed:</span>
+											{subagent.filesChanged.map((file) => (
+												<div className="font-mono" key={file}>
+													{file}
+												</div>
+											))}
+										</div>
+									)}
+								</div>
+							)}
+						</div>
+					)
+				})}
+			</div>
+		</div>
+	)
+}
+
+export default memo(SubagentsRow)
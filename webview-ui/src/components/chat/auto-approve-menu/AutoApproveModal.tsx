@@ -132,6 +132,26 @@ const AutoApproveModal: React.FC<AutoApproveModalProps> = ({ isVisible, setIsVis
 						<span className="text-sm">Enable notifications</span>
 					</VSCodeCheckbox>
 				</div>
+
+				{/* Approval Oracle toggle */}
+				<div className="flex items-center gap-2 mt-1">
+					<VSCodeCheckbox
+						checked={autoApprovalSettings.useApprovalOracle ?? false}
+						onChange={async (e: any) => {
+							const checked = e.target.checked === true
+							await updateAutoApproveSettings({
+								...autoApprovalSettings,
+								version: (autoApprovalSettings.version ?? 1) + 1,
+								useApprovalOracle: checked,
+							})
+						}}>
+						<span className="text-sm">Let the Approval Oracle decide</span>
+					</VSCodeCheckbox>
+				</div>
+				<p className="text-xs text-description mt-1 mb-0 ml-6">
+					Commands, file edits, browser and MCP calls are approved by the Approval Oracle instead of the toggles above.
+					When it denies something, you are asked instead.
+				</p>
 			</div>
 		</div>
 	)
@@ -19,6 +19,7 @@ interface TaskSectionProps {
 	}
 	messageHandlers: MessageHandlers
 	lastProgressMessageText?: string
+	onScrollToMessage?: (messageIndex: number) => void
 }
 
 /**
@@ -32,6 +33,7 @@ export const TaskSection: React.FC<TaskSectionProps> = ({
 	selectedModelInfo,
 	messageHandlers,
 	lastProgressMessageText,
+	onScrollToMessage,
 }) => {
 	return (
 		<TaskHeader
@@ -41,6 +43,7 @@ export const TaskSection: React.FC<TaskSectionProps> = ({
 			lastApiReqTotalTokens={lastApiReqTotalTokens}
 			lastProgressMessageText={lastProgressMessageText}
 			onClose={messageHandlers.handleTaskCloseButtonClick}
+			onScrollToMessage={onScrollToMessage}
 			onSendMessage={messageHandlers.handleSendMessage}
 			task={task}
 			tokensIn={apiMetrics.totalTokensIn}
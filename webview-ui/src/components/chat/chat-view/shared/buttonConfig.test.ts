@@ -99,6 +99,8 @@ describe("getButtonConfig", () => {
 			{ ask: "followup", expectedConfig: "followup" },
 			{ ask: "browser_action_launch", expectedConfig: "browser_action_launch" },
 			{ ask: "use_mcp_server", expectedConfig: "use_mcp_server" },
+			{ ask: "mcp_sampling", expectedConfig: "mcp_sampling" },
+			{ ask: "mcp_elicitation", expectedConfig: "mcp_elicitation" },
 			{ ask: "plan_mode_respond", expectedConfig: "plan_mode_respond" },
 			{ ask: "completion_result", expectedConfig: "completion_result" },
 			{ ask: "resume_task", expectedConfig: "resume_task" },
@@ -119,6 +121,23 @@ describe("getButtonConfig", () => {
 				expect(config).toEqual(BUTTON_CONFIGS[expectedConfig])
 			})
 		})
+
+		it("returns default config for MCP requests the server cancelled", () => {
+			const sampling: ClineMessage = {
+				type: "ask",
+				ask: "mcp_sampling",
+				text: JSON.stringify({ serverName: "docs", messages: [], maxTokens: 100, cancelled: true }),
+				ts: Date.now(),
+			}
+			const elicitation: ClineMessage = {
+				type: "ask",
+				ask: "mcp_elicitation",
+				text: JSON.stringify({ serverName: "docs", message: "Which?", response: { action: "cancel" } }),
+				ts: Date.now(),
+			}
+			expect(getButtonConfig(sampling)).toEqual(BUTTON_CONFIGS.default)
+			expect(getButtonConfig(elicitation)).toEqual(BUTTON_CONFIGS.default)
+		})
 	})
 
 	// Test API request states
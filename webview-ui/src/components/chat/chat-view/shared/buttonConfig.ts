@@ -1,4 +1,4 @@
-import type { ClineMessage, ClineSayTool } from "@shared/ExtensionMessage"
+import type { ClineAskMcpElicitation, ClineAskMcpSampling, ClineMessage, ClineSayTool } from "@shared/ExtensionMessage"
 import type { Mode } from "@shared/storage/types"
 
 /**
@@ -101,6 +101,23 @@ export const BUTTON_CONFIGS: Record<string, ButtonConfig> = {
 		primaryAction: "approve",
 		secondaryAction: "reject",
 	},
+	mcp_sampling: {
+		sendingDisabled: false,
+		enableButtons: true,
+		primaryText: "Approve",
+		secondaryText: "Reject",
+		primaryAction: "approve",
+		secondaryAction: "reject",
+	},
+	// The form in the chat row has its own Submit and Decline buttons
+	mcp_elicitation: {
+		sendingDisabled: true,
+		enableButtons: false,
+		primaryText: undefined,
+		secondaryText: undefined,
+		primaryAction: undefined,
+		secondaryAction: undefined,
+	},
 	followup: {
 		sendingDisabled: false,
 		enableButtons: false,
@@ -261,6 +278,15 @@ export function getButtonConfig(message: ClineMessage | undefined, _mode: Mode =
 				return BUTTON_CONFIGS.browser_action_launch
 			case "use_mcp_server":
 				return BUTTON_CONFIGS.use_mcp_server
+			// Nothing is left to answer once the server cancels the request
+			case "mcp_sampling":
+				return parseAskText<ClineAskMcpSampling>(message)?.cancelled
+					? BUTTON_CONFIGS.default
+					: BUTTON_CONFIGS.mcp_sampling
+			case "mcp_elicitation":
+				return parseAskText<ClineAskMcpElicitation>(message)?.response?.action === "cancel"
+					? BUTTON_CONFIGS.default
+					: BUTTON_CONFIGS.mcp_elicitation
 			case "plan_mode_respond":
 				return BUTTON_CONFIGS.plan_mode_respond
 
@@ -298,3 +324,11 @@ export function getButtonConfig(message: ClineMessage | undefined, _mode: Mode =
 
 	return BUTTON_CONFIGS.partial
 }
+
+function parseAskText<T>(message: ClineMessage): Partial<T> | undefined {
+	try {
+		return JSON.parse(message.text || "{}")
+	} catch {
+		return undefined
+	}
+}
@@ -34,6 +34,7 @@ export function filterVisibleMessages(messages: ClineMessage[]): ClineMessage[]
 			case "api_req_finished": // combineApiRequests removes this from modifiedMessages anyways
 			case "api_req_retried": // this message is used to update the latest api_req_started that the request was retried
 			case "deleted_api_reqs": // aggregated api_req metrics from deleted messages
+			case "auxiliary_api_req": // metrics of requests besides the conversation's own, counted in the task header
 			case "task_progress": // task progress messages are displayed in TaskHeader, not in main chat
 				return false
 			case "text":
@@ -0,0 +1,99 @@
+import { ClineMessage } from "@shared/ExtensionMessage"
+import React, { memo, useMemo } from "react"
+import { cn } from "@/lib/utils"
+
+interface ArchitectIteration {
+	iteration: number
+	// Index in clineMessages of the first phase row of this iteration
+	messageIndex: number
+	phase: string
+	approved?: boolean
+}
+
+/**
+ * Groups Architect Mode phase rows into iterations. Iteration numbers come from the phase rows,
+ * so a resumed session continues the same step instead of starting a new one.
+ */
+export function getArchitectIterations(messages: ClineMessage[]): ArchitectIteration[] {
+	const iterations: ArchitectIteration[] = []
+	let current: ArchitectIteration | undefined
+
+	messages.forEach((message, index) => {
+		if (message.say === "architect_phase") {
+			let parsed: { phase?: string; iteration?: number }
+			try {
+				parsed = JSON.parse(message.text || "{}")
+			} catch {
+				return
+			}
+			if (typeof parsed.iteration !== "number") {
+				return
+			}
+			current = iterations.find((it) => it.iteration === parsed.iteration)
+			if (!current) {
+				current = { iteration: parsed.iteration, messageIndex: index, phase: parsed.phase ?? "" }
+				iterations.push(current)
+			}
+			current.phase = parsed.phase ?? current.phase
+		} else if (message.say === "architect_evaluation" && current) {
+			try {
+				const evaluation = JSON.parse(message.text || "{}")
+				// With several reviewers the iteration's status is the combined verdict, not a single critique
+				if (!evaluation.reviewer) {
+					current.approved = evaluation.approved === true
+				}
+			} catch {}
+		} else if (message.say === "architect_complete" && current) {
+			current.phase = "complete"
+		}
+	})
+
+	return iterations
+}
+
+interface ArchitectIterationsProps {
+	messages: ClineMessage[]
+	onScrollToMessage?: (messageIndex: number) => void
+}
+
+/**
+ * Architect Mode iterations as steps in the task header; clicking one scrolls to where it started.
+ */
+const ArchitectIterations: React.FC<ArchitectIterationsProps> = ({ messages, onScrollToMessage }) => {
+	const iterations = useMemo(() => getArchitectIterations(messages), [messages])
+
+	if (iterations.length === 0) {
+		return null
+	}
+
+	return (
+		<div className="flex items-center flex-wrap gap-1 text-xs mt-1">
+			<span className="text-description mr-1">Architect iterations</span>
+			{iterations.map((it) => {
+				const status = it.approved ? "approved" : it.approved === false ? "revision needed" : it.phase
+				return (
+					<button
+						aria-label={`Scroll to architect iteration ${it.iteration}`}
+						className={cn(
+							"inline-flex items-center gap-1 px-1.5 py-0.5 rounded-xs border-0 cursor-pointer",
+							"bg-(--vscode-badge-background) text-(--vscode-badge-foreground) hover:brightness-110",
+						)}
+						key={it.iteration}
+						onClick={(e) => {
+							e.stopPropagation()
+							onScrollToMessage?.(it.messageIndex)
+						}}
+						title={`Iteration ${it.iteration}: ${status}`}
+						type="button">
+						{it.iteration}
+						{it.approved !== undefined && (
+							<i className={`codicon ${it.approved ? "codicon-check" : "codicon-sync"} text-[10px]`} />
+						)}
+					</button>
+				)
+			})}
+		</div>
+	)
+}
+
+export default memo(ArchitectIterations)
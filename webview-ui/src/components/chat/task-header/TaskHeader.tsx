@@ -6,6 +6,7 @@ import { getModeSpecificFields, normalizeApiConfiguration } from "@/components/s
 import { useExtensionState } from "@/context/ExtensionStateContext"
 import { cn } from "@/lib/utils"
 import { getEnvironmentColor } from "@/utils/environmentColors"
+import ArchitectIterations from "./ArchitectIterations"
 import CopyTaskButton from "./buttons/CopyTaskButton"
 import DeleteTaskButton from "./buttons/DeleteTaskButton"
 import NewTaskButton from "./buttons/NewTaskButton"
@@ -28,6 +29,7 @@ interface TaskHeaderProps {
 	lastProgressMessageText?: string
 	onClose: () => void
 	onSendMessage?: (command: string, files: string[], images: string[]) => void
+	onScrollToMessage?: (messageIndex: number) => void
 }
 
 const BUTTON_CLASS = "max-h-3 border-0 font-bold bg-transparent hover:opacity-100 text-foreground"
@@ -43,10 +45,12 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
 	lastProgressMessageText,
 	onClose,
 	onSendMessage,
+	onScrollToMessage,
 }) => {
 	const {
 		apiConfiguration,
 		currentTaskItem,
+		clineMessages,
 		checkpointManagerErrorMessage,
 		navigateToSettings,
 		mode,
@@ -217,6 +221,9 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
 				)}
 			</div>
 
+			{/* Architect Mode iterations as navigable steps */}
+			<ArchitectIterations messages={clineMessages} onScrollToMessage={onScrollToMessage} />
+
 			{/* Display Focus Chain To-Do List */}
 			<FocusChain currentTaskItemId={currentTaskItem?.id} lastProgressMessageText={lastProgressMessageText} />
 		</div>
@@ -182,6 +182,17 @@ const ServerRow = ({
 				)}
 				<span className="flex-1 overflow-hidden break-all whitespace-normal flex items-center">
 					{getMcpServerDisplayName(server.name, mcpMarketplaceCatalog)}
+					{server.source && server.source !== "global" && (
+						<span
+							className="ml-2 shrink-0 rounded-sm px-1 text-xs bg-(--vscode-badge-background) text-(--vscode-badge-foreground)"
+							title={
+								server.source === "project"
+									? "Added by this workspace's .cline/mcp.json"
+									: "Global server overridden by this workspace's .cline/mcp.json"
+							}>
+							{server.source === "project" ? "Workspace" : "Workspace override"}
+						</span>
+					)}
 				</span>
 				{/* Collapsed view controls */}
 				{!server.error && (
@@ -0,0 +1,97 @@
+import { ApprovalRule, UpdateApprovalRuleRequest } from "@shared/proto/cline/approval"
+import { EmptyRequest, StringRequest } from "@shared/proto/cline/common"
+import { VSCodeDropdown, VSCodeOption } from "@vscode/webview-ui-toolkit/react"
+import { RefreshCwIcon, Trash2Icon } from "lucide-react"
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Switch } from "@/components/ui/switch"
+import { ApprovalServiceClient } from "@/services/grpc-client"
+
+/**
+ * Lists the rules the ApprovalOracle has learned for this workspace so they can be
+ * reviewed, changed or revoked. "always" rules live in .cline/approval-rules.yaml.
+ */
+const ApprovalRulesPanel = () => {
+	const [rules, setRules] = useState<ApprovalRule[]>([])
+	const [filePath, setFilePath] = useState("")
+	const [error, setError] = useState<string | null>(null)
+
+	const applyResponse = (response: { rules: ApprovalRule[]; filePath: string }) => {
+		setRules(response.rules)
+		setFilePath(response.filePath)
+		setError(null)
+	}
+
+	const refresh = useCallback(() => {
+		ApprovalServiceClient.getApprovalRules(EmptyRequest.create({}))
+			.then(applyResponse)
+			.catch((err) => setError(`Failed to load approval rules: ${err}`))
+	}, [])
+
+	useEffect(() => {
+		refresh()
+	}, [refresh])
+
+	const updateRule = (pattern: string, changes: Partial<Pick<ApprovalRule, "allow" | "scope">>) => {
+		ApprovalServiceClient.updateApprovalRule(UpdateApprovalRuleRequest.create({ pattern, ...changes }))
+			.then(applyResponse)
+			.catch((err) => setError(`Failed to update approval rule: ${err}`))
+	}
+
+	const revokeRule = (pattern: string) => {
+		ApprovalServiceClient.revokeApprovalRule(StringRequest.create({ value: pattern }))
+			.then(applyResponse)
+			.catch((err) => setError(`Failed to revoke approval rule: ${err}`))
+	}
+
+	return (
+		<div className="mt-3">
+			<div className="flex items-center justify-between mb-1">
+				<label className="block text-xs font-medium">Learned Rules ({rules.length})</label>
+				<Button aria-label="Refresh rules" onClick={refresh} size="xs" title="Refresh rules" variant="icon">
+					<RefreshCwIcon />
+				</Button>
+			</div>
+			{filePath && <p className="text-xs text-description mt-0 mb-2 break-all">Persistent rules: {filePath}</p>}
+			{error && <p className="text-xs text-error mt-0 mb-2">{error}</p>}
+			{rules.length === 0 ? (
+				<p className="text-xs text-description">No rules yet. Decisions the oracle remembers will appear here.</p>
+			) : (
+				rules.map((rule) => (
+					<div className="mb-2 p-2 rounded bg-text-block-background" key={rule.pattern}>
+						<div className="flex items-center gap-2">
+							<span className="flex-1 text-xs font-mono break-all ph-no-capture">{rule.pattern}</span>
+							<span className="text-xs">{rule.allow ? "Allow" : "Deny"}</span>
+							<Switch
+								checked={rule.allow}
+								onClick={() => updateRule(rule.pattern, { allow: !rule.allow })}
+								title={rule.allow ? "Switch to deny" : "Switch to allow"}
+							/>
+							<VSCodeDropdown
+								currentValue={rule.scope}
+								onChange={(e: any) => updateRule(rule.pattern, { scope: e.target.currentValue })}>
+								<VSCodeOption value="once">Once</VSCodeOption>
+								<VSCodeOption value="session">Session</VSCodeOption>
+								<VSCodeOption value="always">Always</VSCodeOption>
+							</VSCodeDropdown>
+							<Button
+								aria-label="Revoke rule"
+								onClick={() => revokeRule(rule.pattern)}
+								size="xs"
+								title="Revoke rule"
+								variant="icon">
+								<Trash2Icon />
+							</Button>
+						</div>
+						<p className="text-xs text-description mt-1 mb-0">
+							{rule.reasoning} · {rule.source} · {new Date(rule.updatedAt).toLocaleString()}
+							{rule.lastUsedAt && ` · last used ${new Date(rule.lastUsedAt).toLocaleString()}`}
+						</p>
+					</div>
+				))
+			)}
+		</div>
+	)
+}
+
+export default ApprovalRulesPanel
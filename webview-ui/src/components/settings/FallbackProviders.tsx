@@ -0,0 +1,59 @@
+import type { ApiFallbackProvider, ApiProvider } from "@shared/api"
+import PROVIDERS from "@shared/providers/providers.json"
+import { VSCodeButton, VSCodeDropdown, VSCodeOption } from "@vscode/webview-ui-toolkit/react"
+import { useExtensionState } from "@/context/ExtensionStateContext"
+import { DebouncedTextField } from "./common/DebouncedTextField"
+import { useApiConfigurationHandlers } from "./utils/useApiConfigurationHandlers"
+
+/**
+ * Editor for the ordered list of providers tried when the selected provider is unavailable
+ */
+const FallbackProviders = () => {
+	const { apiConfiguration } = useExtensionState()
+	const { handleFieldChange } = useApiConfigurationHandlers()
+	const chain = apiConfiguration?.apiFallbackChain ?? []
+
+	const setChain = (updated: ApiFallbackProvider[]) => handleFieldChange("apiFallbackChain", updated)
+	const setEntry = (index: number, changes: Partial<ApiFallbackProvider>) =>
+		setChain(chain.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)))
+
+	return (
+		<div className="mt-3 mb-[5px]">
+			<label className="block font-medium mb-1">Fallback Providers</label>
+			<p className="text-xs mt-0 mb-2 text-(--vscode-descriptionForeground)">
+				When the selected provider is rate limited, overloaded or unreachable, requests go to these providers in order,
+				using the same credentials. A provider that fails twice in a row is skipped for a minute.
+			</p>
+			{chain.map((entry, index) => (
+				<div className="flex gap-2 mb-2 items-center" key={index}>
+					<VSCodeDropdown
+						currentValue={entry.provider}
+						onChange={(e: any) => setEntry(index, { provider: e.target.currentValue as ApiProvider })}>
+						{PROVIDERS.list.map(({ value, label }) => (
+							<VSCodeOption key={value} value={value}>
+								{label}
+							</VSCodeOption>
+						))}
+					</VSCodeDropdown>
+					<DebouncedTextField
+						className="flex-1"
+						initialValue={entry.modelId}
+						onChange={(value) => setEntry(index, { modelId: value.trim() })}
+						placeholder="Model ID"
+					/>
+					<VSCodeButton
+						appearance="icon"
+						aria-label="Remove fallback provider"
+						onClick={() => setChain(chain.filter((_, i) => i !== index))}>
+						<span className="codicon codicon-trash" />
+					</VSCodeButton>
+				</div>
+			))}
+			<VSCodeButton appearance="secondary" onClick={() => setChain([...chain, { provider: "openrouter", modelId: "" }])}>
+				Add Fallback Provider
+			</VSCodeButton>
+		</div>
+	)
+}
+
+export default FallbackProviders
@@ -1,11 +1,19 @@
-import { VSCodeCheckbox, VSCodeDropdown, VSCodeOption, VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+import { VSCodeButton, VSCodeCheckbox, VSCodeDropdown, VSCodeOption, VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
 import { memo, useState } from "react"
+import ApprovalRulesPanel from "../ApprovalRulesPanel"
 import Section from "../Section"
 
 interface ArchitectModeSectionProps {
 	renderSectionHeader: (tabId: string) => JSX.Element | null
 }
 
+// Tool permissions and budgets for one role (unset = unlimited)
+interface RoleBudget {
+	allowedTools?: string[]
+	maxCost?: number
+	timeoutSeconds?: number
+}
+
 // Type for Architect Mode configuration
 interface ArchitectModeConfig {
 	enabled: boolean
@@ -16,6 +24,11 @@ interface ArchitectModeConfig {
 	thinkingBudget: number | undefined
 	maxTokens: number | undefined
 	maxIterations: number
+	reviewers: Array<{ provider: string; model: string; label?: string }>
+	reviewPolicy: "unanimous" | "majority" | "any-reject"
+	architectBudget: RoleBudget
+	editorBudget: RoleBudget
+	maxTaskCost: number | undefined
 	persona: {
 		enabled: boolean
 		markdown: string
@@ -27,6 +40,11 @@ interface ArchitectModeConfig {
 		showRoutineApprovals: boolean
 		customAllowPatterns: string[]
 		customDenyPatterns: string[]
+		backend?: "model" | "rules"
+		provider?: string
+		model?: string
+		failurePolicy?: "fail-open" | "fail-closed" | "ask"
+		auditLog?: boolean
 	}
 	architecture: {
 		enabled: boolean
@@ -50,6 +68,11 @@ const DEFAULT_ARCHITECT_CONFIG: ArchitectModeConfig = {
 	thinkingBudget: undefined,
 	maxTokens: undefined,
 	maxIterations: 5,
+	reviewers: [],
+	reviewPolicy: "unanimous",
+	architectBudget: {},
+	editorBudget: {},
+	maxTaskCost: undefined,
 	persona: {
 		enabled: false,
 		markdown: "",
@@ -61,6 +84,9 @@ const DEFAULT_ARCHITECT_CONFIG: ArchitectModeConfig = {
 		showRoutineApprovals: false,
 		customAllowPatterns: [],
 		customDenyPatterns: [],
+		backend: "model",
+		failurePolicy: "fail-open",
+		auditLog: true,
 	},
 	architecture: {
 		enabled: false,
@@ -74,6 +100,11 @@ const DEFAULT_ARCHITECT_CONFIG: ArchitectModeConfig = {
 	},
 }
 
+const parseOptionalNumber = (value: string): number | undefined => {
+	const parsed = parseFloat(value.trim())
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined
+}
+
 const ArchitectModeSection = ({ renderSectionHeader }: ArchitectModeSectionProps) => {
 	// Use local state - in a full implementation this would be wired to extension state via proto
 	const [config, setConfig] = useState(DEFAULT_ARCHITECT_CONFIG)
@@ -106,9 +137,7 @@ const ArchitectModeSection = ({ renderSectionHeader }: ArchitectModeSectionProps
 							EXTENDED
 						</div>
 
-						<VSCodeCheckbox
-							checked={config.enabled}
-							onChange={(e: any) => update({ enabled: e.target.checked })}>
+						<VSCodeCheckbox checked={config.enabled} onChange={(e: any) => update({ enabled: e.target.checked })}>
 							<span className="font-semibold">Enable Architect Mode</span>
 						</VSCodeCheckbox>
 						<p className="text-xs mt-1 mb-0 text-description">
@@ -171,6 +200,76 @@ const ArchitectModeSection = ({ renderSectionHeader }: ArchitectModeSectionProps
 								</div>
 							</div>
 
+							{/* Additional Reviewers */}
+							<div className="mt-3 p-3 rounded-md" style={{ border: "1px solid var(--vscode-widget-border)" }}>
+								<h4 className="text-sm font-medium mb-2">Additional Reviewers</h4>
+								<p className="text-xs text-description mb-2">
+									Other models that evaluate each iteration in parallel with the Architect.
+								</p>
+								{config.reviewers.map((reviewer, index) => {
+									const setReviewer = (changes: Partial<typeof reviewer>) =>
+										update({
+											reviewers: config.reviewers.map((r, i) => (i === index ? { ...r, ...changes } : r)),
+										})
+									return (
+										<div className="flex gap-2 mb-2 items-end" key={index}>
+											<VSCodeDropdown
+												currentValue={reviewer.provider}
+												onChange={(e: any) => setReviewer({ provider: e.target.currentValue })}>
+												<VSCodeOption value="anthropic">Anthropic</VSCodeOption>
+												<VSCodeOption value="openrouter">OpenRouter</VSCodeOption>
+												<VSCodeOption value="openai-native">OpenAI</VSCodeOption>
+												<VSCodeOption value="gemini">Gemini</VSCodeOption>
+												<VSCodeOption value="bedrock">AWS Bedrock</VSCodeOption>
+												<VSCodeOption value="vertex">GCP Vertex</VSCodeOption>
+											</VSCodeDropdown>
+											<VSCodeTextField
+												className="flex-1"
+												onChange={(e: any) => setReviewer({ model: e.target.value })}
+												placeholder="Model ID"
+												value={reviewer.model}
+											/>
+											<VSCodeTextField
+												className="w-24"
+												onChange={(e: any) => setReviewer({ label: e.target.value || undefined })}
+												placeholder="Label"
+												value={reviewer.label ?? ""}
+											/>
+											<VSCodeButton
+												appearance="icon"
+												aria-label="Remove reviewer"
+												onClick={() =>
+													update({ reviewers: config.reviewers.filter((_, i) => i !== index) })
+												}>
+												<span className="codicon codicon-trash" />
+											</VSCodeButton>
+										</div>
+									)
+								})}
+								<VSCodeButton
+									appearance="secondary"
+									onClick={() =>
+										update({ reviewers: [...config.reviewers, { provider: "anthropic", model: "" }] })
+									}>
+									Add reviewer
+								</VSCodeButton>
+								{config.reviewers.length > 0 && (
+									<div className="mt-2">
+										<label className="block text-xs mb-1">Combine verdicts</label>
+										<VSCodeDropdown
+											className="w-full"
+											currentValue={config.reviewPolicy}
+											onChange={(e: any) => update({ reviewPolicy: e.target.currentValue })}>
+											<VSCodeOption value="unanimous">Unanimous (every reviewer approves)</VSCodeOption>
+											<VSCodeOption value="majority">Majority</VSCodeOption>
+											<VSCodeOption value="any-reject">
+												Any reject (no reviewer asks for revisions)
+											</VSCodeOption>
+										</VSCodeDropdown>
+									</div>
+								)}
+							</div>
+
 							{/* Token Configuration */}
 							<div className="mt-3 p-3 rounded-md" style={{ border: "1px solid var(--vscode-widget-border)" }}>
 								<h4 className="text-sm font-medium mb-2">Token Limits</h4>
@@ -213,6 +312,82 @@ const ArchitectModeSection = ({ renderSectionHeader }: ArchitectModeSectionProps
 								</div>
 							</div>
 
+							{/* Budgets & Tool Permissions */}
+							<div className="mt-3 p-3 rounded-md" style={{ border: "1px solid var(--vscode-widget-border)" }}>
+								<h4 className="text-sm font-medium mb-2">Budgets & Tool Permissions</h4>
+								{(["architectBudget", "editorBudget"] as const).map((key) => (
+									<div className="mb-3" key={key}>
+										<label className="block text-xs font-medium mb-1">
+											{key === "architectBudget" ? "Architect" : "Editor"}
+										</label>
+										<div className="flex gap-2 mb-1">
+											<VSCodeTextField
+												className="w-28"
+												onChange={(e: any) =>
+													update({
+														[key]: { ...config[key], maxCost: parseOptionalNumber(e.target.value) },
+													})
+												}
+												placeholder="no limit"
+												value={config[key].maxCost?.toString() ?? ""}>
+												Max cost ($)
+											</VSCodeTextField>
+											<VSCodeTextField
+												className="w-28"
+												onChange={(e: any) =>
+													update({
+														[key]: {
+															...config[key],
+															timeoutSeconds: parseOptionalNumber(e.target.value),
+														},
+													})
+												}
+												placeholder="no limit"
+												value={config[key].timeoutSeconds?.toString() ?? ""}>
+												Timeout (s)
+											</VSCodeTextField>
+										</div>
+										{key === "editorBudget" && (
+											<>
+												<VSCodeTextField
+													className="w-full"
+													onChange={(e: any) => {
+														const tools = e.target.value
+															.split(",")
+															.map((tool: string) => tool.trim())
+															.filter(Boolean)
+														update({
+															editorBudget: {
+																...config.editorBudget,
+																allowedTools: tools.length ? tools : undefined,
+															},
+														})
+													}}
+													placeholder="all tools"
+													value={config.editorBudget.allowedTools?.join(", ") ?? ""}>
+													Allowed tools
+												</VSCodeTextField>
+												<p className="text-xs text-description mt-1">
+													Comma-separated tool names, e.g. read_file, replace_in_file, execute_command.
+													The Architect plans and reviews without tools.
+												</p>
+											</>
+										)}
+									</div>
+								))}
+								<VSCodeTextField
+									className="w-28"
+									onChange={(e: any) => update({ maxTaskCost: parseOptionalNumber(e.target.value) })}
+									placeholder="no limit"
+									value={config.maxTaskCost?.toString() ?? ""}>
+									Max task cost ($)
+								</VSCodeTextField>
+								<p className="text-xs text-description mt-1">
+									Architect Mode stops when a limit is reached. Cost is priced like the task's API requests, and
+									a timeout applies to each phase.
+								</p>
+							</div>
+
 							{/* Approval Oracle */}
 							<div className="mt-3 p-3 rounded-md" style={{ border: "1px solid var(--vscode-widget-border)" }}>
 								<h4 className="text-sm font-medium mb-2">Approval Oracle</h4>
@@ -229,7 +404,7 @@ const ArchitectModeSection = ({ renderSectionHeader }: ArchitectModeSectionProps
 									Enable Approval Oracle
 								</VSCodeCheckbox>
 								<p className="text-xs text-description mt-1">
-									Auto-approve safe actions using pattern matching. Falls back to Opus for ambiguous cases.
+									Auto-approve safe actions using pattern matching. Falls back to a model for ambiguous cases.
 								</p>
 
 								{config.approvalOracle?.enabled && (
@@ -246,6 +421,94 @@ const ArchitectModeSection = ({ renderSectionHeader }: ArchitectModeSectionProps
 											}>
 											Show routine approvals in output
 										</VSCodeCheckbox>
+										<div className="mt-2">
+											<label className="block text-xs mb-1">Decision Backend</label>
+											<VSCodeDropdown
+												className="w-full"
+												currentValue={config.approvalOracle?.backend ?? "model"}
+												onChange={(e: any) =>
+													update({
+														approvalOracle: {
+															...config.approvalOracle,
+															backend: e.target.currentValue,
+														},
+													})
+												}>
+												<VSCodeOption value="model">Model (any provider)</VSCodeOption>
+												<VSCodeOption value="rules">Rules only (offline)</VSCodeOption>
+											</VSCodeDropdown>
+										</div>
+										{(config.approvalOracle?.backend ?? "model") === "model" && (
+											<>
+												<div className="mt-2">
+													<label className="block text-xs mb-1">Provider</label>
+													<VSCodeTextField
+														className="w-full"
+														onChange={(e: any) =>
+															update({
+																approvalOracle: {
+																	...config.approvalOracle,
+																	provider: e.target.value.trim() || undefined,
+																},
+															})
+														}
+														placeholder={config.architectProvider}
+														value={config.approvalOracle?.provider ?? ""}
+													/>
+												</div>
+												<div className="mt-2">
+													<label className="block text-xs mb-1">Model ID</label>
+													<VSCodeTextField
+														className="w-full"
+														onChange={(e: any) =>
+															update({
+																approvalOracle: {
+																	...config.approvalOracle,
+																	model: e.target.value.trim() || undefined,
+																},
+															})
+														}
+														placeholder={config.architectModel}
+														value={config.approvalOracle?.model ?? ""}
+													/>
+													<p className="text-xs text-description mt-1">
+														Leave empty to reuse the Architect provider and model
+													</p>
+												</div>
+											</>
+										)}
+										<div className="mt-2">
+											<label className="block text-xs mb-1">When the backend fails</label>
+											<VSCodeDropdown
+												className="w-full"
+												currentValue={config.approvalOracle?.failurePolicy ?? "fail-open"}
+												onChange={(e: any) =>
+													update({
+														approvalOracle: {
+															...config.approvalOracle,
+															failurePolicy: e.target.currentValue,
+														},
+													})
+												}>
+												<VSCodeOption value="fail-open">Allow once (fail open)</VSCodeOption>
+												<VSCodeOption value="fail-closed">Deny (fail closed)</VSCodeOption>
+												<VSCodeOption value="ask">Ask me</VSCodeOption>
+											</VSCodeDropdown>
+										</div>
+										<VSCodeCheckbox
+											checked={config.approvalOracle?.auditLog ?? true}
+											className="mt-2"
+											onChange={(e: any) =>
+												update({
+													approvalOracle: {
+														...config.approvalOracle,
+														auditLog: e.target.checked,
+													},
+												})
+											}>
+											Write audit log to .cline/approval-audit.jsonl
+										</VSCodeCheckbox>
+										<ApprovalRulesPanel />
 									</div>
 								)}
 							</div>
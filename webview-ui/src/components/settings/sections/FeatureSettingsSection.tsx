@@ -27,6 +27,8 @@ const FeatureSettingsSection = ({ renderSectionHeader }: FeatureSettingsSectionP
 		yoloModeToggled,
 		dictationSettings,
 		useAutoCondense,
+		contextSummarizationEnabled,
+		contextSummarizationModelId,
 		clineWebToolsEnabled,
 		focusChainSettings,
 		multiRootSetting,
@@ -100,7 +102,8 @@ const FeatureSettingsSection = ({ renderSectionHeader }: FeatureSettingsSectionP
 										className="codicon codicon-warning mr-1"
 										style={{ fontSize: "12px", marginTop: "1px", flexShrink: 0 }}></span>
 									<span>
-										Cline for CLI is required for subagents. Install it with:
+										Cline for CLI is only needed for isolated subagents, which run in their own process.
+										Install it with:
 										<code
 											className="ml-1 px-1 rounded"
 											style={{
@@ -144,7 +147,6 @@ const FeatureSettingsSection = ({ renderSectionHeader }: FeatureSettingsSectionP
 							</div>
 							<VSCodeCheckbox
 								checked={subagentsEnabled}
-								disabled={!isClineCliInstalled}
 								onChange={(e: any) => {
 									const checked = e.target.checked === true
 									updateSetting("subagentsEnabled", checked)
@@ -156,8 +158,9 @@ const FeatureSettingsSection = ({ renderSectionHeader }: FeatureSettingsSectionP
 							<p className="text-xs mt-1 mb-0">
 								<span className="text-[var(--vscode-errorForeground)]">Experimental: </span>{" "}
 								<span className="text-description">
-									Allows Cline to spawn subprocesses to handle focused tasks like exploring large codebases,
-									keeping your main context clean.
+									Allows Cline to start subagents that handle focused tasks in parallel, like exploring large
+									codebases, each with its own approval policy and token budget, keeping your main context
+									clean.
 								</span>
 							</p>
 							{subagentsEnabled && (
@@ -331,6 +334,37 @@ const FeatureSettingsSection = ({ renderSectionHeader }: FeatureSettingsSectionP
 							</a>
 						</p>
 					</div>
+					<div style={{ marginTop: 10 }}>
+						<VSCodeCheckbox
+							checked={contextSummarizationEnabled}
+							onChange={(e: any) => {
+								const checked = e.target.checked === true
+								updateSetting("contextSummarizationEnabled", checked)
+							}}>
+							Summarize Truncated Context
+						</VSCodeCheckbox>
+						<p className="text-xs text-(--vscode-descriptionForeground)">
+							When the context window fills up, summarize the oldest messages instead of just removing them.
+							Restoring a checkpoint from before the summary brings the messages back.
+						</p>
+					</div>
+					{contextSummarizationEnabled && (
+						<div className="mt-2.5 ml-2">
+							<label className="block text-sm font-medium mb-1" htmlFor="context-summarization-model">
+								Summarization Model
+							</label>
+							<VSCodeTextField
+								className="w-full"
+								id="context-summarization-model"
+								onChange={(e: any) => updateSetting("contextSummarizationModelId", e.target.value.trim())}
+								placeholder="Same as the task's model"
+								value={contextSummarizationModelId ?? ""}
+							/>
+							<p className="text-xs text-(--vscode-descriptionForeground)">
+								A cheaper model from the task's API provider to write the summaries, e.g. claude-haiku-4-5.
+							</p>
+						</div>
+					)}
 					{clineWebToolsEnabled?.featureFlag && (
 						<div style={{ marginTop: 10 }}>
 							<VSCodeCheckbox
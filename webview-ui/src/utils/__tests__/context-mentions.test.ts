@@ -1,5 +1,11 @@
 import { describe, expect, it } from "vitest"
-import { insertMention, insertMentionDirectly } from "../context-mentions"
+import {
+	ContextMenuOptionType,
+	type ContextMenuQueryItem,
+	getContextMenuOptions,
+	insertMention,
+	insertMentionDirectly,
+} from "../context-mentions"
 
 describe("context-mentions", () => {
 	describe("insertMention", () => {
@@ -104,4 +110,39 @@ describe("context-mentions", () => {
 			expect(result.mentionIndex).toBe(6)
 		})
 	})
+
+	describe("getContextMenuOptions", () => {
+		const queryItems: ContextMenuQueryItem[] = [
+			{ type: ContextMenuOptionType.Checkpoint, value: "checkpoint:2", label: "Checkpoint 2" },
+			{ type: ContextMenuOptionType.Checkpoint, value: "checkpoint:1", label: "Checkpoint 1" },
+			{ type: ContextMenuOptionType.Symbol, value: "symbol:TaskManager.start", label: "TaskManager.start" },
+		]
+
+		it("should list common diff ranges and accept a typed range", () => {
+			expect(getContextMenuOptions("", ContextMenuOptionType.Diff, queryItems).map((option) => option.value)).toEqual([
+				"diff:staged",
+				"diff:HEAD",
+				"diff:main..HEAD",
+			])
+			expect(getContextMenuOptions("diff:v1.2..HEAD", null, queryItems).map((option) => option.value)).toEqual([
+				"diff:v1.2..HEAD",
+			])
+			expect(getContextMenuOptions("diff:-p", null, queryItems)).toEqual([
+				{ type: ContextMenuOptionType.NoResults },
+			])
+		})
+
+		it("should list checkpoints and symbols from the query items", () => {
+			expect(getContextMenuOptions("", ContextMenuOptionType.Checkpoint, queryItems).map((option) => option.value)).toEqual(
+				["checkpoint:2", "checkpoint:1"],
+			)
+			expect(getContextMenuOptions("symbol:task", null, queryItems).map((option) => option.value)).toEqual([
+				"symbol:TaskManager.start",
+			])
+		})
+
+		it("should suggest the mention types that match the query", () => {
+			expect(getContextMenuOptions("sym", null, queryItems)[0]).toEqual({ type: ContextMenuOptionType.Symbol })
+		})
+	})
 })
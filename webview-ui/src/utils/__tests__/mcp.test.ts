@@ -0,0 +1,45 @@
+import { McpElicitationSchema } from "@shared/mcp"
+import { describe, expect, it } from "vitest"
+import { buildElicitationContent, getElicitationDefaults, getElicitationOptions } from "../mcp"
+
+describe("mcp elicitation forms", () => {
+	const schema: McpElicitationSchema = {
+		type: "object",
+		properties: {
+			name: { type: "string", title: "Name" },
+			replicas: { type: "integer", minimum: 1, maximum: 5, default: 2 },
+			confirm: { type: "boolean" },
+			regions: { type: "array", items: { anyOf: [{ const: "eu", title: "Europe" }] } },
+		},
+		required: ["name"],
+	}
+
+	it("should start from the schema's defaults", () => {
+		expect(getElicitationDefaults(schema)).toEqual({ name: "", replicas: "2", confirm: false, regions: [] })
+	})
+
+	it("should label options from titles or enumNames", () => {
+		expect(getElicitationOptions(schema.properties.regions)).toEqual([{ value: "eu", label: "Europe" }])
+		expect(getElicitationOptions({ type: "string", enum: ["a", "b"], enumNames: ["A"] })).toEqual([
+			{ value: "a", label: "A" },
+			{ value: "b", label: "b" },
+		])
+		expect(getElicitationOptions(schema.properties.name)).toBeUndefined()
+	})
+
+	it("should convert numbers and leave out empty optional fields", () => {
+		const result = buildElicitationContent(schema, { name: "api", replicas: "3", confirm: true, regions: [] })
+
+		expect(result).toEqual({ content: { name: "api", replicas: 3, confirm: true } })
+	})
+
+	it("should report missing required fields and out of range numbers", () => {
+		expect(buildElicitationContent(schema, { name: "", replicas: "3" })).toEqual({ error: "Name is required" })
+		expect(buildElicitationContent(schema, { name: "api", replicas: "9" })).toEqual({
+			error: "replicas must be between 1 and 5",
+		})
+		expect(buildElicitationContent(schema, { name: "api", replicas: "1.5" })).toEqual({
+			error: "replicas must be a whole number",
+		})
+	})
+})
@@ -86,6 +86,9 @@ export enum ContextMenuOptionType {
 	Terminal = "terminal",
 	URL = "url",
 	Git = "git",
+	Diff = "diff",
+	Checkpoint = "checkpoint",
+	Symbol = "symbol",
 	NoResults = "noResults",
 }
 
@@ -102,6 +105,9 @@ function getContextMenuEntries(): ContextMenuOptionType[] {
 		ContextMenuOptionType.URL,
 		ContextMenuOptionType.Problems,
 		ContextMenuOptionType.Git,
+		ContextMenuOptionType.Diff,
+		ContextMenuOptionType.Checkpoint,
+		ContextMenuOptionType.Symbol,
 		ContextMenuOptionType.Folder,
 		ContextMenuOptionType.File,
 	]
@@ -111,6 +117,40 @@ function getContextMenuEntries(): ContextMenuOptionType[] {
 	return entries
 }
 
+const DIFF_OPTIONS: ContextMenuQueryItem[] = [
+	{ type: ContextMenuOptionType.Diff, value: "diff:staged", label: "staged", description: "Changes staged for commit" },
+	{ type: ContextMenuOptionType.Diff, value: "diff:HEAD", label: "HEAD", description: "Uncommitted changes" },
+	{ type: ContextMenuOptionType.Diff, value: "diff:main..HEAD", label: "main..HEAD", description: "Commits on this branch" },
+]
+
+// Mention types that are picked from their own list, either after choosing them in the menu or by typing "@<type>:"
+const PREFIXED_OPTION_TYPES = [ContextMenuOptionType.Diff, ContextMenuOptionType.Checkpoint, ContextMenuOptionType.Symbol]
+
+/**
+ * Options for @diff, @checkpoint and @symbol mentions. Diffs have a few common ranges plus whatever range is typed;
+ * checkpoints and symbols come from the query items.
+ */
+function getPrefixedOptions(
+	type: ContextMenuOptionType,
+	query: string,
+	queryItems: ContextMenuQueryItem[],
+): ContextMenuQueryItem[] {
+	const lowerQuery = query.toLowerCase()
+	let options: ContextMenuQueryItem[]
+	if (type === ContextMenuOptionType.Diff) {
+		options = DIFF_OPTIONS.filter((option) => option.label!.toLowerCase().includes(lowerQuery))
+		if (query && !options.some((option) => option.label === query) && /^[\w./~^-]+$/.test(query) && !query.startsWith("-")) {
+			options.push({ type, value: `diff:${query}`, label: query, description: "Revision range" })
+		}
+	} else {
+		options = queryItems.filter(
+			(item) =>
+				item.type === type && [item.label, item.description].some((text) => text?.toLowerCase().includes(lowerQuery)),
+		)
+	}
+	return options.length > 0 ? options : [{ type: ContextMenuOptionType.NoResults }]
+}
+
 export function getContextMenuOptionIndex(option: ContextMenuOptionType) {
 	return getContextMenuEntries().findIndex((item) => item === option)
 }
@@ -140,6 +180,15 @@ export function getContextMenuOptions(
 		return item
 	})
 
+	const prefixedType =
+		selectedType && PREFIXED_OPTION_TYPES.includes(selectedType)
+			? selectedType
+			: PREFIXED_OPTION_TYPES.find((type) => query.startsWith(`${type}:`))
+	if (prefixedType) {
+		const prefixedQuery = query.startsWith(`${prefixedType}:`) ? query.slice(prefixedType.length + 1) : query
+		return getPrefixedOptions(prefixedType, prefixedQuery, queryItems)
+	}
+
 	if (query === "") {
 		if (selectedType === ContextMenuOptionType.File) {
 			const files = searchResultItems
@@ -191,6 +240,11 @@ export function getContextMenuOptions(
 	if ("problems".startsWith(lowerQuery)) {
 		suggestions.push({ type: ContextMenuOptionType.Problems })
 	}
+	for (const type of PREFIXED_OPTION_TYPES) {
+		if (type.startsWith(lowerQuery)) {
+			suggestions.push({ type })
+		}
+	}
 	if (query.startsWith("http")) {
 		suggestions.push({ type: ContextMenuOptionType.URL, value: query })
 	}
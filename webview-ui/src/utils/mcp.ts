@@ -1,4 +1,11 @@
-import { McpMarketplaceCatalog, McpResource, McpResourceTemplate } from "@shared/mcp"
+import {
+	McpElicitationContent,
+	McpElicitationField,
+	McpElicitationSchema,
+	McpMarketplaceCatalog,
+	McpResource,
+	McpResourceTemplate,
+} from "@shared/mcp"
 
 /**
  * Matches a URI against an array of URI templates and returns the matching template
@@ -56,3 +63,77 @@ export function getMcpServerDisplayName(serverName: string, mcpMarketplaceCatalo
 	// Return display name if found, otherwise return original server name
 	return catalogItem?.name || serverName
 }
+
+// Form state of an elicitation field; numbers are kept as the text the user typed
+export type McpElicitationFormValue = string | boolean | string[]
+
+/**
+ * Choices of a single or multi-select elicitation field, or undefined for free-form fields
+ * @param field The field from the requested schema
+ * @returns Value/label pairs in the order the server listed them
+ */
+export function getElicitationOptions(field: McpElicitationField): Array<{ value: string; label: string }> | undefined {
+	const titled = field.oneOf ?? field.items?.anyOf
+	if (titled) {
+		return titled.map((option) => ({ value: option.const, label: option.title }))
+	}
+	const values = field.enum ?? field.items?.enum
+	return values?.map((value, index) => ({ value, label: field.enumNames?.[index] ?? value }))
+}
+
+/**
+ * Initial form state for an elicitation, from the schema's defaults
+ */
+export function getElicitationDefaults(schema: McpElicitationSchema): Record<string, McpElicitationFormValue> {
+	return Object.fromEntries(
+		Object.entries(schema.properties).map(([name, field]) => {
+			switch (field.type) {
+				case "boolean":
+					return [name, field.default === true]
+				case "array":
+					return [name, Array.isArray(field.default) ? field.default : []]
+				default:
+					return [name, field.default === undefined ? "" : String(field.default)]
+			}
+		}),
+	)
+}
+
+/**
+ * Converts the form state into the content returned to the server, checking required fields and number bounds
+ * @returns The content, or the first problem to show the user
+ */
+export function buildElicitationContent(
+	schema: McpElicitationSchema,
+	values: Record<string, McpElicitationFormValue>,
+): { content: McpElicitationContent } | { error: string } {
+	const content: McpElicitationContent = {}
+	for (const [name, field] of Object.entries(schema.properties)) {
+		const label = field.title || name
+		const value = values[name]
+		const isEmpty = value === undefined || value === "" || (Array.isArray(value) && value.length === 0)
+		if (isEmpty) {
+			if (schema.required?.includes(name)) {
+				return { error: `${label} is required` }
+			}
+			continue
+		}
+
+		if (field.type === "number" || field.type === "integer") {
+			const number = Number(value)
+			if (!Number.isFinite(number) || (field.type === "integer" && !Number.isInteger(number))) {
+				return { error: `${label} must be ${field.type === "integer" ? "a whole number" : "a number"}` }
+			}
+			if (
+				(field.minimum !== undefined && number < field.minimum) ||
+				(field.maximum !== undefined && number > field.maximum)
+			) {
+				return { error: `${label} must be between ${field.minimum ?? "-∞"} and ${field.maximum ?? "∞"}` }
+			}
+			content[name] = number
+		} else {
+			content[name] = value
+		}
+	}
+	return { content }
+}
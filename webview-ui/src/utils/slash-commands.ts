@@ -1,5 +1,10 @@
 import { PLATFORM_CONFIG, PlatformType } from "@/config/platform.config"
-import { BASE_SLASH_COMMANDS, type SlashCommand, VSCODE_ONLY_COMMANDS } from "../../../src/shared/slashCommands.ts"
+import {
+	BASE_SLASH_COMMANDS,
+	type SlashCommand,
+	VSCODE_ONLY_COMMANDS,
+	type WorkflowCommandDetails,
+} from "../../../src/shared/slashCommands.ts"
 
 export const DEFAULT_SLASH_COMMANDS: SlashCommand[] =
 	PLATFORM_CONFIG.type === PlatformType.VSCODE ? [...BASE_SLASH_COMMANDS, ...VSCODE_ONLY_COMMANDS] : BASE_SLASH_COMMANDS
@@ -9,6 +14,7 @@ export function getWorkflowCommands(
 	globalWorkflowToggles: Record<string, boolean>,
 	remoteWorkflowToggles?: Record<string, boolean>,
 	remoteWorkflows?: any[],
+	workflowCommandDetails: Record<string, WorkflowCommandDetails> = {},
 ): SlashCommand[] {
 	const { workflows: localWorkflows, nameSet: localWorkflowNames } = Object.entries(localWorkflowToggles)
 		.filter(([_, enabled]) => enabled)
@@ -20,6 +26,7 @@ export function getWorkflowCommands(
 				acc.workflows.push({
 					name: fileName,
 					section: "custom",
+					...workflowCommandDetails[fileName],
 				} as SlashCommand)
 
 				// Add to set of names
@@ -44,6 +51,7 @@ export function getWorkflowCommands(
 				{
 					name: fileName,
 					section: "custom",
+					...workflowCommandDetails[fileName],
 				},
 			] as SlashCommand[]
 		})
@@ -58,6 +66,7 @@ export function getWorkflowCommands(
 				remoteWorkflowCommands.push({
 					name: workflow.name,
 					section: "custom",
+					...workflowCommandDetails[workflow.name],
 				})
 			}
 		}
@@ -151,14 +160,17 @@ export function getMatchingSlashCommands(
 	globalWorkflowToggles: Record<string, boolean> = {},
 	remoteWorkflowToggles?: Record<string, boolean>,
 	remoteWorkflows?: any[],
+	mcpPromptCommands: SlashCommand[] = [],
+	workflowCommandDetails: Record<string, WorkflowCommandDetails> = {},
 ): SlashCommand[] {
 	const workflowCommands = getWorkflowCommands(
 		localWorkflowToggles,
 		globalWorkflowToggles,
 		remoteWorkflowToggles,
 		remoteWorkflows,
+		workflowCommandDetails,
 	)
-	const allCommands = [...DEFAULT_SLASH_COMMANDS, ...workflowCommands]
+	const allCommands = [...DEFAULT_SLASH_COMMANDS, ...workflowCommands, ...mcpPromptCommands]
 
 	if (!query) {
 		return allCommands
@@ -168,6 +180,14 @@ export function getMatchingSlashCommands(
 	return allCommands.filter((cmd) => cmd.name.startsWith(query))
 }
 
+/**
+ * Placeholders for a command's arguments, required ones first and filled with their defaults, e.g. file="" env="staging"
+ */
+export function getSlashCommandArgumentTemplate(command: SlashCommand): string {
+	const args = [...(command.arguments ?? [])].sort((a, b) => Number(!!b.required) - Number(!!a.required))
+	return args.map((arg) => `${arg.name}="${arg.default ?? ""}"`).join(" ")
+}
+
 /**
  * Insert a slash command at position or replace partial command
  */
@@ -201,6 +221,7 @@ export function validateSlashCommand(
 	globalWorkflowToggles: Record<string, boolean> = {},
 	remoteWorkflowToggles?: Record<string, boolean>,
 	remoteWorkflows?: any[],
+	mcpPromptCommands: SlashCommand[] = [],
 ): "full" | "partial" | null {
 	if (!command) {
 		return null
@@ -212,7 +233,7 @@ export function validateSlashCommand(
 		remoteWorkflowToggles,
 		remoteWorkflows,
 	)
-	const allCommands = [...DEFAULT_SLASH_COMMANDS, ...workflowCommands]
+	const allCommands = [...DEFAULT_SLASH_COMMANDS, ...workflowCommands, ...mcpPromptCommands]
 
 	// case sensitive matching
 	const exactMatch = allCommands.some((cmd) => cmd.name === command)